@@ -0,0 +1,325 @@
+// src/components/admin/dunning/DunningCampaignFormModal.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { useForm, Controller } from "react-hook-form";
+import { toast } from "sonner";
+
+// MUI components
+import {
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+  Alert,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Switch,
+  Typography,
+  Chip,
+  Stack,
+  Paper,
+} from "@mui/material";
+import { Loader2 } from "lucide-react";
+
+import receivablesService, {
+  DunningCampaign,
+  DunningCampaignFormData,
+  DUNNING_PLACEHOLDERS,
+  DEFAULT_DUNNING_TEMPLATE,
+} from "@/services/receivablesService";
+import { AgingBucket, AGING_BUCKET_LABELS } from "@/services/clientCreditService";
+import { useSettings } from "@/context/SettingsContext";
+import { getErrorMessage } from "@/lib/axios";
+
+const DAY_LABELS = ["الأحد", "الاثنين", "الثلاثاء", "الأربعاء", "الخميس", "الجمعة", "السبت"];
+
+type CampaignFormValues = {
+  name: string;
+  min_bucket: AgingBucket;
+  min_balance: number | "";
+  message_template: string;
+  days_of_week: number[];
+  schedule_time: string;
+  is_active: boolean;
+};
+
+const DEFAULT_VALUES: CampaignFormValues = {
+  name: "",
+  min_bucket: "days_31_60",
+  min_balance: "",
+  message_template: DEFAULT_DUNNING_TEMPLATE,
+  days_of_week: [0],
+  schedule_time: "10:00",
+  is_active: true,
+};
+
+interface DunningCampaignFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  campaignToEdit: DunningCampaign | null;
+  onSaveSuccess: () => void;
+}
+
+const DunningCampaignFormModal: React.FC<DunningCampaignFormModalProps> = ({
+  isOpen,
+  onClose,
+  campaignToEdit,
+  onSaveSuccess,
+}) => {
+  const isEditMode = Boolean(campaignToEdit);
+  const [serverError, setServerError] = useState<string | null>(null);
+  const templateRef = useRef<HTMLTextAreaElement | null>(null);
+  const { settings } = useSettings();
+
+  const { handleSubmit, control, reset, watch, setValue, getValues, formState: { isSubmitting } } =
+    useForm<CampaignFormValues>({ defaultValues: DEFAULT_VALUES });
+  const template = watch("message_template");
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setServerError(null);
+    reset(
+      campaignToEdit
+        ? {
+            name: campaignToEdit.name,
+            min_bucket: campaignToEdit.min_bucket,
+            min_balance: campaignToEdit.min_balance ?? "",
+            message_template: campaignToEdit.message_template,
+            days_of_week: campaignToEdit.days_of_week || [],
+            schedule_time: campaignToEdit.schedule_time?.slice(0, 5) || "10:00",
+            is_active: campaignToEdit.is_active,
+          }
+        : DEFAULT_VALUES
+    );
+  }, [isOpen, campaignToEdit, reset]);
+
+  // Insert a placeholder where the cursor is in the message
+  const insertPlaceholder = (key: string) => {
+    const current = getValues("message_template");
+    const input = templateRef.current;
+    const start = input?.selectionStart ?? current.length;
+    const end = input?.selectionEnd ?? current.length;
+    setValue("message_template", `${current.slice(0, start)}{${key}}${current.slice(end)}`);
+  };
+
+  const onSubmit = async (data: CampaignFormValues) => {
+    setServerError(null);
+    if (!data.name.trim()) {
+      setServerError("اسم الحملة مطلوب");
+      return;
+    }
+    if (!data.message_template.trim()) {
+      setServerError("نص الرسالة مطلوب");
+      return;
+    }
+    if (data.days_of_week.length === 0) {
+      setServerError("اختر يوماً واحداً على الأقل");
+      return;
+    }
+
+    const apiData: DunningCampaignFormData = {
+      name: data.name.trim(),
+      min_bucket: data.min_bucket,
+      min_balance: data.min_balance === "" ? 0 : Number(data.min_balance),
+      message_template: data.message_template.trim(),
+      days_of_week: data.days_of_week,
+      schedule_time: data.schedule_time,
+      is_active: data.is_active,
+    };
+
+    try {
+      if (isEditMode && campaignToEdit) {
+        await receivablesService.updateCampaign(campaignToEdit.id, apiData);
+      } else {
+        await receivablesService.createCampaign(apiData);
+      }
+      toast.success("نجح", {
+        description: isEditMode ? "تم تحديث الحملة بنجاح" : "تم إنشاء الحملة بنجاح",
+      });
+      onSaveSuccess();
+      onClose();
+    } catch (err) {
+      setServerError(getErrorMessage(err, "حدث خطأ غير معروف"));
+    }
+  };
+
+  const preview = receivablesService.renderTemplate(template || "", {
+    client_name: "محمد أحمد",
+    balance: "1,250.00",
+    overdue_amount: "800.00",
+    oldest_date: "2026-01-15",
+    company_name: settings?.company_name || "",
+  });
+
+  return (
+    <Dialog open={isOpen} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{isEditMode ? "تعديل حملة التذكير" : "إضافة حملة تذكير"}</DialogTitle>
+      <Box component="form" onSubmit={handleSubmit(onSubmit)} noValidate>
+        <DialogContent dividers>
+          <Stack spacing={2}>
+            {serverError && <Alert severity="error">{serverError}</Alert>}
+
+            <Controller
+              name="name"
+              control={control}
+              render={({ field }) => (
+                <TextField {...field} size="small" label="اسم الحملة *" fullWidth />
+              )}
+            />
+
+            <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+              <Controller
+                name="min_bucket"
+                control={control}
+                render={({ field }) => (
+                  <FormControl size="small" fullWidth>
+                    <InputLabel>عمر الدين من</InputLabel>
+                    <Select {...field} label="عمر الدين من">
+                      {(Object.keys(AGING_BUCKET_LABELS) as AgingBucket[]).map((key) => (
+                        <MenuItem key={key} value={key}>
+                          {AGING_BUCKET_LABELS[key]}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                )}
+              />
+              <Controller
+                name="min_balance"
+                control={control}
+                render={({ field }) => (
+                  <TextField
+                    {...field}
+                    type="number"
+                    size="small"
+                    label="أقل رصيد"
+                    inputProps={{ min: 0, step: "any" }}
+                    onChange={(e) =>
+                      field.onChange(e.target.value === "" ? "" : Number(e.target.value))
+                    }
+                    fullWidth
+                  />
+                )}
+              />
+            </Stack>
+
+            <Paper variant="outlined" sx={{ p: 2 }}>
+              <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                نص الرسالة
+              </Typography>
+              <Stack direction="row" gap={1} flexWrap="wrap" sx={{ mb: 1 }}>
+                {DUNNING_PLACEHOLDERS.map((p) => (
+                  <Chip
+                    key={p.key}
+                    size="small"
+                    variant="outlined"
+                    label={p.label}
+                    onClick={() => insertPlaceholder(p.key)}
+                  />
+                ))}
+              </Stack>
+              <Controller
+                name="message_template"
+                control={control}
+                render={({ field }) => (
+                  <TextField
+                    {...field}
+                    inputRef={templateRef}
+                    size="small"
+                    multiline
+                    minRows={3}
+                    fullWidth
+                  />
+                )}
+              />
+              <Typography variant="caption" color="text.secondary" sx={{ display: "block", mt: 1 }}>
+                معاينة: {preview}
+              </Typography>
+            </Paper>
+
+            <Paper variant="outlined" sx={{ p: 2 }}>
+              <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                موعد الإرسال
+              </Typography>
+              <Stack spacing={2}>
+                <Controller
+                  name="schedule_time"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      type="time"
+                      size="small"
+                      label="الوقت"
+                      InputLabelProps={{ shrink: true }}
+                      sx={{ maxWidth: 200 }}
+                    />
+                  )}
+                />
+                <Controller
+                  name="days_of_week"
+                  control={control}
+                  render={({ field }) => (
+                    <Stack direction="row" gap={1} flexWrap="wrap">
+                      {DAY_LABELS.map((label, day) => {
+                        const selected = field.value.includes(day);
+                        return (
+                          <Chip
+                            key={day}
+                            label={label}
+                            color={selected ? "primary" : "default"}
+                            variant={selected ? "filled" : "outlined"}
+                            onClick={() =>
+                              field.onChange(
+                                selected
+                                  ? field.value.filter((d) => d !== day)
+                                  : [...field.value, day].sort()
+                              )
+                            }
+                          />
+                        );
+                      })}
+                    </Stack>
+                  )}
+                />
+              </Stack>
+            </Paper>
+
+            <Controller
+              name="is_active"
+              control={control}
+              render={({ field }) => (
+                <FormControlLabel
+                  control={
+                    <Switch checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />
+                  }
+                  label="نشطة"
+                />
+              )}
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} disabled={isSubmitting}>
+            إلغاء
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={isSubmitting}
+            startIcon={isSubmitting ? <Loader2 className="animate-spin" size={16} /> : undefined}
+          >
+            {isEditMode ? "حفظ التغييرات" : "إنشاء الحملة"}
+          </Button>
+        </DialogActions>
+      </Box>
+    </Dialog>
+  );
+};
+
+export default DunningCampaignFormModal;
@@ -0,0 +1,190 @@
+// src/components/admin/price-lists/PriceListFormModal.tsx
+import React, { useEffect, useState } from "react";
+import { useForm, Controller } from "react-hook-form";
+import { toast } from "sonner";
+
+// MUI components
+import {
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+  Alert,
+  FormControlLabel,
+  MenuItem,
+  Switch,
+  Stack,
+} from "@mui/material";
+import { Loader2 } from "lucide-react";
+
+import {
+  priceListService,
+  PriceList,
+  PriceListFormData,
+  PriceListType,
+  PRICE_LIST_TYPE_LABELS,
+} from "@/services/priceListService";
+import { getErrorMessage } from "@/lib/axios";
+
+const DEFAULT_VALUES: PriceListFormData = {
+  name: "",
+  type: "retail",
+  is_default: false,
+  is_active: true,
+  notes: "",
+};
+
+interface PriceListFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  priceListToEdit: PriceList | null;
+  onSaveSuccess: () => void;
+}
+
+const PriceListFormModal: React.FC<PriceListFormModalProps> = ({
+  isOpen,
+  onClose,
+  priceListToEdit,
+  onSaveSuccess,
+}) => {
+  const isEditMode = Boolean(priceListToEdit);
+  const [serverError, setServerError] = useState<string | null>(null);
+
+  const {
+    handleSubmit,
+    control,
+    reset,
+    formState: { isSubmitting, errors },
+  } = useForm<PriceListFormData>({ defaultValues: DEFAULT_VALUES });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setServerError(null);
+    reset(
+      priceListToEdit
+        ? {
+            name: priceListToEdit.name,
+            type: priceListToEdit.type,
+            is_default: priceListToEdit.is_default,
+            is_active: priceListToEdit.is_active,
+            notes: priceListToEdit.notes || "",
+          }
+        : DEFAULT_VALUES
+    );
+  }, [isOpen, priceListToEdit, reset]);
+
+  const onSubmit = async (data: PriceListFormData) => {
+    setServerError(null);
+    const apiData = { ...data, name: data.name.trim(), notes: data.notes || null };
+    try {
+      if (isEditMode && priceListToEdit) {
+        await priceListService.updatePriceList(priceListToEdit.id, apiData);
+      } else {
+        await priceListService.createPriceList(apiData);
+      }
+      toast.success("نجح", {
+        description: isEditMode ? "تم تحديث قائمة الأسعار" : "تم إنشاء قائمة الأسعار",
+      });
+      onSaveSuccess();
+      onClose();
+    } catch (err) {
+      setServerError(getErrorMessage(err, "حدث خطأ غير معروف"));
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{isEditMode ? "تعديل قائمة الأسعار" : "إضافة قائمة أسعار"}</DialogTitle>
+      <Box component="form" onSubmit={handleSubmit(onSubmit)} noValidate>
+        <DialogContent dividers>
+          <Stack spacing={2}>
+            {serverError && <Alert severity="error">{serverError}</Alert>}
+            <Controller
+              name="name"
+              control={control}
+              rules={{ required: "الاسم مطلوب" }}
+              render={({ field }) => (
+                <TextField
+                  {...field}
+                  size="small"
+                  label="الاسم *"
+                  error={!!errors.name}
+                  helperText={errors.name?.message}
+                  fullWidth
+                />
+              )}
+            />
+            <Controller
+              name="type"
+              control={control}
+              render={({ field }) => (
+                <TextField {...field} select size="small" label="النوع" fullWidth>
+                  {(Object.keys(PRICE_LIST_TYPE_LABELS) as PriceListType[]).map((type) => (
+                    <MenuItem key={type} value={type}>
+                      {PRICE_LIST_TYPE_LABELS[type]}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+            />
+            <Stack direction="row" spacing={2}>
+              <Controller
+                name="is_active"
+                control={control}
+                render={({ field }) => (
+                  <FormControlLabel
+                    control={<Switch checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />}
+                    label="نشطة"
+                  />
+                )}
+              />
+              <Controller
+                name="is_default"
+                control={control}
+                render={({ field }) => (
+                  <FormControlLabel
+                    control={<Switch checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />}
+                    label="القائمة الافتراضية (للعملاء بدون قائمة)"
+                  />
+                )}
+              />
+            </Stack>
+            <Controller
+              name="notes"
+              control={control}
+              render={({ field }) => (
+                <TextField
+                  {...field}
+                  value={field.value || ""}
+                  size="small"
+                  label="ملاحظات"
+                  multiline
+                  minRows={2}
+                  fullWidth
+                />
+              )}
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} disabled={isSubmitting}>
+            إلغاء
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={isSubmitting}
+            startIcon={isSubmitting ? <Loader2 className="animate-spin" size={16} /> : undefined}
+          >
+            {isEditMode ? "حفظ التغييرات" : "إنشاء"}
+          </Button>
+        </DialogActions>
+      </Box>
+    </Dialog>
+  );
+};
+
+export default PriceListFormModal;
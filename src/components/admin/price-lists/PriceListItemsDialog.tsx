@@ -0,0 +1,250 @@
+// src/components/admin/price-lists/PriceListItemsDialog.tsx
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+// MUI components
+import {
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+  Alert,
+  Autocomplete,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Typography,
+  CircularProgress,
+} from "@mui/material";
+import { Loader2, Trash2 } from "lucide-react";
+
+import { priceListService, PriceList, PriceListItem } from "@/services/priceListService";
+import productService, { Product } from "@/services/productService";
+import { getErrorMessage } from "@/lib/axios";
+import { formatNumber } from "@/constants";
+
+interface PriceListItemsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  priceList: PriceList | null;
+  onSaveSuccess: () => void;
+}
+
+type PriceField = "price_per_stocking_unit" | "price_per_sellable_unit";
+
+const PriceListItemsDialog: React.FC<PriceListItemsDialogProps> = ({
+  isOpen,
+  onClose,
+  priceList,
+  onSaveSuccess,
+}) => {
+  const [items, setItems] = useState<PriceListItem[]>([]);
+  const [products, setProducts] = useState<Map<number, Product>>(new Map());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [options, setOptions] = useState<Product[]>([]);
+
+  useEffect(() => {
+    if (!isOpen || !priceList) return;
+    setServerError(null);
+    setIsLoading(true);
+    priceListService
+      .getPriceList(priceList.id)
+      .then(async (list) => {
+        const listItems = list.items || [];
+        setItems(listItems);
+        // Units and current prices of the listed products
+        const ids = listItems.map((i) => i.product_id);
+        const listed = ids.length > 0 ? await productService.getProductsByIds(ids).catch(() => []) : [];
+        setProducts(new Map(listed.map((p) => [p.id, p])));
+      })
+      .catch((err) => setServerError(getErrorMessage(err, "فشل تحميل الأسعار")))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, priceList]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const timeout = setTimeout(() => {
+      productService
+        .getProductsForAutocomplete(search, 20)
+        .then(setOptions)
+        .catch(() => setOptions([]));
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [search, isOpen]);
+
+  const addProduct = (product: Product | null) => {
+    if (!product || items.some((i) => i.product_id === product.id)) return;
+    setProducts((prev) => new Map(prev).set(product.id, product));
+    setItems((prev) => [
+      ...prev,
+      {
+        product_id: product.id,
+        product_name: product.name,
+        product_sku: product.sku,
+        price_per_stocking_unit: null,
+        price_per_sellable_unit: null,
+      },
+    ]);
+  };
+
+  const updatePrice = (productId: number, field: PriceField, value: string) => {
+    setItems((prev) =>
+      prev.map((i) =>
+        i.product_id === productId ? { ...i, [field]: value === "" ? null : Number(value) } : i
+      )
+    );
+  };
+
+  const handleSave = async () => {
+    if (!priceList) return;
+    const incomplete = items.find(
+      (i) => i.price_per_stocking_unit == null && i.price_per_sellable_unit == null
+    );
+    if (incomplete) {
+      setServerError(`أدخل سعراً واحداً على الأقل للمنتج: ${incomplete.product_name}`);
+      return;
+    }
+    setIsSaving(true);
+    setServerError(null);
+    try {
+      await priceListService.savePriceListItems(priceList.id, items);
+      toast.success("تم حفظ الأسعار");
+      onSaveSuccess();
+      onClose();
+    } catch (err) {
+      setServerError(getErrorMessage(err, "فشل حفظ الأسعار"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>أسعار القائمة: {priceList?.name}</DialogTitle>
+      <DialogContent dividers>
+        {serverError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {serverError}
+          </Alert>
+        )}
+        <Autocomplete
+          size="small"
+          options={options}
+          value={null}
+          filterOptions={(x) => x}
+          getOptionLabel={(option) => option.name}
+          onInputChange={(_, text) => setSearch(text)}
+          onChange={(_, product) => addProduct(product)}
+          renderInput={(params) => <TextField {...params} label="إضافة منتج" />}
+          sx={{ mb: 2 }}
+        />
+        <Typography variant="caption" color="text.secondary" sx={{ display: "block", mb: 1 }}>
+          يكفي سعر وحدة واحدة؛ تُحسب الأخرى بعدد الوحدات في العبوة.
+        </Typography>
+
+        {isLoading ? (
+          <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : (
+          <TableContainer component={Paper} variant="outlined">
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>المنتج</TableCell>
+                  <TableCell align="center">السعر الحالي</TableCell>
+                  <TableCell align="center">سعر وحدة التخزين</TableCell>
+                  <TableCell align="center">سعر وحدة البيع</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {items.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} align="center" sx={{ color: "text.secondary", py: 3 }}>
+                      لا توجد منتجات في القائمة
+                    </TableCell>
+                  </TableRow>
+                )}
+                {items.map((item) => {
+                  const product = products.get(item.product_id);
+                  return (
+                    <TableRow key={item.product_id}>
+                      <TableCell>
+                        {item.product_name}
+                        {item.product_sku && (
+                          <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+                            {item.product_sku}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="center">
+                        {product ? formatNumber(priceListService.getBasePrice(product)) : "-"}
+                      </TableCell>
+                      {(["price_per_stocking_unit", "price_per_sellable_unit"] as PriceField[]).map(
+                        (field) => (
+                          <TableCell key={field} align="center">
+                            <TextField
+                              type="number"
+                              size="small"
+                              value={item[field] ?? ""}
+                              onChange={(e) => updatePrice(item.product_id, field, e.target.value)}
+                              placeholder={
+                                field === "price_per_stocking_unit"
+                                  ? product?.stocking_unit_name || "عبوة"
+                                  : product?.sellable_unit_name || "قطعة"
+                              }
+                              inputProps={{ min: 0, step: "any", style: { textAlign: "center" } }}
+                              sx={{ width: 120 }}
+                            />
+                          </TableCell>
+                        )
+                      )}
+                      <TableCell align="center">
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() =>
+                            setItems((prev) => prev.filter((i) => i.product_id !== item.product_id))
+                          }
+                        >
+                          <Trash2 size={16} />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSaving}>
+          إلغاء
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={isSaving || isLoading}
+          startIcon={isSaving ? <Loader2 className="animate-spin" size={16} /> : undefined}
+        >
+          حفظ الأسعار
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PriceListItemsDialog;
@@ -0,0 +1,644 @@
+// src/components/admin/promotions/PromotionFormModal.tsx
+import React, { useEffect, useState } from "react";
+import { useForm, Controller, useFieldArray } from "react-hook-form";
+import { toast } from "sonner";
+
+// MUI components
+import {
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+  Alert,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Switch,
+  Typography,
+  Autocomplete,
+  IconButton,
+  Chip,
+  Stack,
+  Paper,
+} from "@mui/material";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+import {
+  promotionService,
+  Promotion,
+  PromotionFormData,
+  PromotionType,
+  PROMOTION_TYPE_LABELS,
+} from "@/services/promotionService";
+import categoryService, { Category } from "@/services/CategoryService";
+import productService, { Product } from "@/services/productService";
+import { Client } from "@/services/clientService";
+import { useClients } from "@/hooks/useClients";
+import { getErrorMessage } from "@/lib/axios";
+
+const DAY_LABELS = ["الأحد", "الاثنين", "الثلاثاء", "الأربعاء", "الخميس", "الجمعة", "السبت"];
+
+// --- Form Types ---
+type PromotionFormValues = {
+  name: string;
+  type: PromotionType;
+  is_active: boolean;
+  priority: number;
+  starts_at: string;
+  ends_at: string;
+  days_of_week: number[];
+  start_time: string;
+  end_time: string;
+  products: Product[];
+  categories: Category[];
+  client_ids: number[];
+  discount_type: "percentage" | "fixed";
+  discount_value: number | "";
+  buy_quantity: number | "";
+  get_quantity: number | "";
+  get_discount_percent: number | "";
+  tiers: { min_quantity: number | ""; discount_type: "percentage" | "fixed"; discount_value: number | "" }[];
+  client_prices: { product: Product | null; price: number | "" }[];
+};
+
+const DEFAULT_VALUES: PromotionFormValues = {
+  name: "",
+  type: "category_percent",
+  is_active: true,
+  priority: 0,
+  starts_at: "",
+  ends_at: "",
+  days_of_week: [],
+  start_time: "",
+  end_time: "",
+  products: [],
+  categories: [],
+  client_ids: [],
+  discount_type: "percentage",
+  discount_value: "",
+  buy_quantity: "",
+  get_quantity: "",
+  get_discount_percent: 100,
+  tiers: [],
+  client_prices: [],
+};
+
+interface PromotionFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  promotionToEdit: Promotion | null;
+  onSaveSuccess: () => void;
+}
+
+// Product picker backed by /products/autocomplete
+const ProductPicker: React.FC<{
+  value: Product[];
+  onChange: (products: Product[]) => void;
+  label: string;
+}> = ({ value, onChange, label }) => {
+  const [options, setOptions] = useState<Product[]>([]);
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      productService
+        .getProductsForAutocomplete(search, 20)
+        .then(setOptions)
+        .catch(() => setOptions([]));
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  return (
+    <Autocomplete
+      multiple
+      size="small"
+      options={options}
+      value={value}
+      filterOptions={(x) => x}
+      getOptionLabel={(option) => option.name}
+      isOptionEqualToValue={(a, b) => a.id === b.id}
+      onInputChange={(_, text) => setSearch(text)}
+      onChange={(_, products) => onChange(products)}
+      renderInput={(params) => <TextField {...params} label={label} />}
+    />
+  );
+};
+
+const PromotionFormModal: React.FC<PromotionFormModalProps> = ({
+  isOpen,
+  onClose,
+  promotionToEdit,
+  onSaveSuccess,
+}) => {
+  const isEditMode = Boolean(promotionToEdit);
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [productOptions, setProductOptions] = useState<Product[]>([]);
+  const { data: clientsResponse } = useClients();
+  const clients: Client[] = clientsResponse?.data || [];
+
+  const { handleSubmit, control, reset, watch, formState: { isSubmitting } } =
+    useForm<PromotionFormValues>({ defaultValues: DEFAULT_VALUES });
+  const tiers = useFieldArray({ control, name: "tiers" });
+  const clientPrices = useFieldArray({ control, name: "client_prices" });
+  const type = watch("type");
+
+  useEffect(() => {
+    if (!isOpen) return;
+    categoryService
+      .getCategories(1, 9999, "", false, true)
+      .then((data) => setCategories(data as Category[]))
+      .catch(() => setCategories([]));
+    productService
+      .getProductsForAutocomplete("", 20)
+      .then(setProductOptions)
+      .catch(() => setProductOptions([]));
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setServerError(null);
+    if (!promotionToEdit) {
+      reset(DEFAULT_VALUES);
+      return;
+    }
+
+    const load = async () => {
+      // Products of the scope and of the client prices, to show their names
+      const ids = Array.from(
+        new Set([
+          ...(promotionToEdit.product_ids || []),
+          ...(promotionToEdit.client_prices || []).map((p) => p.product_id),
+        ])
+      );
+      const products = ids.length > 0 ? await productService.getProductsByIds(ids).catch(() => []) : [];
+      const byId = new Map(products.map((p) => [p.id, p]));
+      const allCategories = (await categoryService
+        .getCategories(1, 9999, "", false, true)
+        .catch(() => [])) as Category[];
+
+      reset({
+        ...DEFAULT_VALUES,
+        name: promotionToEdit.name,
+        type: promotionToEdit.type,
+        is_active: promotionToEdit.is_active,
+        priority: promotionToEdit.priority ?? 0,
+        starts_at: promotionToEdit.starts_at?.slice(0, 10) || "",
+        ends_at: promotionToEdit.ends_at?.slice(0, 10) || "",
+        days_of_week: promotionToEdit.days_of_week || [],
+        start_time: promotionToEdit.start_time?.slice(0, 5) || "",
+        end_time: promotionToEdit.end_time?.slice(0, 5) || "",
+        products: (promotionToEdit.product_ids || [])
+          .map((id) => byId.get(id))
+          .filter((p): p is Product => !!p),
+        categories: allCategories.filter((c) => promotionToEdit.category_ids?.includes(c.id)),
+        client_ids: promotionToEdit.client_ids || [],
+        discount_type: promotionToEdit.discount_type || "percentage",
+        discount_value: promotionToEdit.discount_value ?? "",
+        buy_quantity: promotionToEdit.buy_quantity ?? "",
+        get_quantity: promotionToEdit.get_quantity ?? "",
+        get_discount_percent: promotionToEdit.get_discount_percent ?? 100,
+        tiers: promotionToEdit.tiers || [],
+        client_prices: (promotionToEdit.client_prices || []).map((p) => ({
+          product: byId.get(p.product_id) || null,
+          price: p.price,
+        })),
+      });
+    };
+    load();
+  }, [isOpen, promotionToEdit, reset]);
+
+  const onSubmit = async (data: PromotionFormValues) => {
+    setServerError(null);
+    if (!data.name.trim()) {
+      setServerError("اسم العرض مطلوب");
+      return;
+    }
+    if (type === "happy_hour" && (!data.start_time || !data.end_time)) {
+      setServerError("حدد بداية ونهاية الساعة السعيدة");
+      return;
+    }
+
+    const num = (value: number | "") => (value === "" ? null : Number(value));
+    const apiData: PromotionFormData = {
+      name: data.name.trim(),
+      type: data.type,
+      is_active: data.is_active,
+      priority: Number(data.priority) || 0,
+      starts_at: data.starts_at || null,
+      ends_at: data.ends_at || null,
+      days_of_week: data.days_of_week.length > 0 ? data.days_of_week : null,
+      start_time: data.start_time || null,
+      end_time: data.end_time || null,
+      product_ids: data.products.length > 0 ? data.products.map((p) => p.id) : null,
+      category_ids: data.categories.length > 0 ? data.categories.map((c) => c.id) : null,
+      client_ids: data.client_ids.length > 0 ? data.client_ids : null,
+      discount_type: data.type === "category_percent" ? "percentage" : data.discount_type,
+      discount_value: num(data.discount_value),
+      buy_quantity: num(data.buy_quantity),
+      get_quantity: num(data.get_quantity),
+      get_discount_percent: num(data.get_discount_percent),
+      tiers:
+        data.type === "quantity_break"
+          ? data.tiers
+              .filter((t) => t.min_quantity !== "" && t.discount_value !== "")
+              .map((t) => ({
+                min_quantity: Number(t.min_quantity),
+                discount_type: t.discount_type,
+                discount_value: Number(t.discount_value),
+              }))
+          : null,
+      client_prices:
+        data.type === "client_price"
+          ? data.client_prices
+              .filter((p) => p.product && p.price !== "")
+              .map((p) => ({ product_id: p.product!.id, price: Number(p.price) }))
+          : null,
+    };
+
+    try {
+      if (isEditMode && promotionToEdit) {
+        await promotionService.updatePromotion(promotionToEdit.id, apiData);
+      } else {
+        await promotionService.createPromotion(apiData);
+      }
+      toast.success("نجح", {
+        description: isEditMode ? "تم تحديث العرض بنجاح" : "تم إنشاء العرض بنجاح",
+      });
+      onSaveSuccess();
+      onClose();
+    } catch (err) {
+      setServerError(getErrorMessage(err, "حدث خطأ غير معروف"));
+    }
+  };
+
+  const numberField = (
+    name: "discount_value" | "buy_quantity" | "get_quantity" | "get_discount_percent",
+    label: string
+  ) => (
+    <Controller
+      name={name}
+      control={control}
+      render={({ field }) => (
+        <TextField
+          {...field}
+          type="number"
+          size="small"
+          label={label}
+          inputProps={{ min: 0, step: "any" }}
+          onChange={(e) => field.onChange(e.target.value === "" ? "" : Number(e.target.value))}
+          fullWidth
+        />
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={isOpen} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{isEditMode ? "تعديل العرض" : "إضافة عرض"}</DialogTitle>
+      <Box component="form" onSubmit={handleSubmit(onSubmit)} noValidate>
+        <DialogContent dividers>
+          <Stack spacing={2}>
+            {serverError && <Alert severity="error">{serverError}</Alert>}
+
+            <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+              <Controller
+                name="name"
+                control={control}
+                render={({ field }) => (
+                  <TextField {...field} size="small" label="اسم العرض *" fullWidth />
+                )}
+              />
+              <Controller
+                name="type"
+                control={control}
+                render={({ field }) => (
+                  <FormControl size="small" fullWidth>
+                    <InputLabel>نوع العرض</InputLabel>
+                    <Select {...field} label="نوع العرض">
+                      {(Object.keys(PROMOTION_TYPE_LABELS) as PromotionType[]).map((key) => (
+                        <MenuItem key={key} value={key}>
+                          {PROMOTION_TYPE_LABELS[key]}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                )}
+              />
+            </Stack>
+
+            <Stack direction="row" spacing={2} alignItems="center">
+              <Controller
+                name="is_active"
+                control={control}
+                render={({ field }) => (
+                  <FormControlLabel
+                    control={<Switch checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />}
+                    label="نشط"
+                  />
+                )}
+              />
+              <Controller
+                name="priority"
+                control={control}
+                render={({ field }) => (
+                  <TextField
+                    {...field}
+                    type="number"
+                    size="small"
+                    label="الأولوية"
+                    helperText="تُرجّح عند تساوي الخصم"
+                    sx={{ width: 160 }}
+                  />
+                )}
+              />
+            </Stack>
+
+            {/* Rule parameters */}
+            <Paper variant="outlined" sx={{ p: 2 }}>
+              <Typography variant="subtitle2" sx={{ mb: 1.5 }}>
+                قاعدة العرض
+              </Typography>
+
+              {type === "buy_x_get_y" && (
+                <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+                  {numberField("buy_quantity", "اشتر (كمية)")}
+                  {numberField("get_quantity", "واحصل على (كمية)")}
+                  {numberField("get_discount_percent", "بخصم % (100 = مجاناً)")}
+                </Stack>
+              )}
+
+              {(type === "category_percent" || type === "happy_hour") && (
+                <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+                  {type === "happy_hour" && (
+                    <Controller
+                      name="discount_type"
+                      control={control}
+                      render={({ field }) => (
+                        <FormControl size="small" fullWidth>
+                          <InputLabel>نوع الخصم</InputLabel>
+                          <Select {...field} label="نوع الخصم">
+                            <MenuItem value="percentage">نسبة %</MenuItem>
+                            <MenuItem value="fixed">مبلغ على كل وحدة</MenuItem>
+                          </Select>
+                        </FormControl>
+                      )}
+                    />
+                  )}
+                  {numberField("discount_value", type === "category_percent" ? "نسبة الخصم %" : "قيمة الخصم")}
+                </Stack>
+              )}
+
+              {type === "quantity_break" && (
+                <Stack spacing={1}>
+                  {tiers.fields.map((tier, index) => (
+                    <Stack key={tier.id} direction="row" spacing={1} alignItems="center">
+                      <Controller
+                        name={`tiers.${index}.min_quantity`}
+                        control={control}
+                        render={({ field }) => (
+                          <TextField {...field} type="number" size="small" label="من كمية" />
+                        )}
+                      />
+                      <Controller
+                        name={`tiers.${index}.discount_type`}
+                        control={control}
+                        render={({ field }) => (
+                          <Select {...field} size="small" sx={{ minWidth: 140 }}>
+                            <MenuItem value="percentage">نسبة %</MenuItem>
+                            <MenuItem value="fixed">مبلغ على كل وحدة</MenuItem>
+                          </Select>
+                        )}
+                      />
+                      <Controller
+                        name={`tiers.${index}.discount_value`}
+                        control={control}
+                        render={({ field }) => (
+                          <TextField {...field} type="number" size="small" label="الخصم" />
+                        )}
+                      />
+                      <IconButton color="error" onClick={() => tiers.remove(index)}>
+                        <Trash2 size={16} />
+                      </IconButton>
+                    </Stack>
+                  ))}
+                  <Box>
+                    <Button
+                      size="small"
+                      startIcon={<Plus size={16} />}
+                      onClick={() =>
+                        tiers.append({ min_quantity: "", discount_type: "percentage", discount_value: "" })
+                      }
+                    >
+                      إضافة شريحة
+                    </Button>
+                  </Box>
+                </Stack>
+              )}
+
+              {type === "client_price" && (
+                <Stack spacing={1}>
+                  {clientPrices.fields.map((row, index) => (
+                    <Stack key={row.id} direction="row" spacing={1} alignItems="center">
+                      <Controller
+                        name={`client_prices.${index}.product`}
+                        control={control}
+                        render={({ field }) => (
+                          <Autocomplete
+                            size="small"
+                            sx={{ flex: 1 }}
+                            options={productOptions}
+                            value={field.value}
+                            getOptionLabel={(option) => option.name}
+                            isOptionEqualToValue={(a, b) => a.id === b.id}
+                            onInputChange={(_, text) =>
+                              productService
+                                .getProductsForAutocomplete(text, 20)
+                                .then(setProductOptions)
+                                .catch(() => undefined)
+                            }
+                            onChange={(_, product) => field.onChange(product)}
+                            renderInput={(params) => <TextField {...params} label="المنتج" />}
+                          />
+                        )}
+                      />
+                      <Controller
+                        name={`client_prices.${index}.price`}
+                        control={control}
+                        render={({ field }) => (
+                          <TextField
+                            {...field}
+                            type="number"
+                            size="small"
+                            label="السعر الخاص"
+                            sx={{ width: 140 }}
+                          />
+                        )}
+                      />
+                      <IconButton color="error" onClick={() => clientPrices.remove(index)}>
+                        <Trash2 size={16} />
+                      </IconButton>
+                    </Stack>
+                  ))}
+                  <Box>
+                    <Button
+                      size="small"
+                      startIcon={<Plus size={16} />}
+                      onClick={() => clientPrices.append({ product: null, price: "" })}
+                    >
+                      إضافة سعر
+                    </Button>
+                  </Box>
+                </Stack>
+              )}
+            </Paper>
+
+            {/* Scope */}
+            <Paper variant="outlined" sx={{ p: 2 }}>
+              <Typography variant="subtitle2" sx={{ mb: 1.5 }}>
+                النطاق (اتركه فارغاً ليشمل الكل)
+              </Typography>
+              <Stack spacing={2}>
+                {type !== "client_price" && (
+                  <>
+                    <Controller
+                      name="products"
+                      control={control}
+                      render={({ field }) => (
+                        <ProductPicker value={field.value} onChange={field.onChange} label="المنتجات" />
+                      )}
+                    />
+                    <Controller
+                      name="categories"
+                      control={control}
+                      render={({ field }) => (
+                        <Autocomplete
+                          multiple
+                          size="small"
+                          options={categories}
+                          value={field.value}
+                          getOptionLabel={(option) => option.name}
+                          isOptionEqualToValue={(a, b) => a.id === b.id}
+                          onChange={(_, value) => field.onChange(value)}
+                          renderInput={(params) => <TextField {...params} label="الفئات" />}
+                        />
+                      )}
+                    />
+                  </>
+                )}
+                <Controller
+                  name="client_ids"
+                  control={control}
+                  render={({ field }) => (
+                    <Autocomplete
+                      multiple
+                      size="small"
+                      options={clients}
+                      value={clients.filter((c) => field.value.includes(c.id))}
+                      getOptionLabel={(option) => option.name}
+                      isOptionEqualToValue={(a, b) => a.id === b.id}
+                      onChange={(_, value) => field.onChange(value.map((c) => c.id))}
+                      renderInput={(params) => <TextField {...params} label="العملاء" />}
+                    />
+                  )}
+                />
+              </Stack>
+            </Paper>
+
+            {/* Validity */}
+            <Paper variant="outlined" sx={{ p: 2 }}>
+              <Typography variant="subtitle2" sx={{ mb: 1.5 }}>
+                فترة السريان
+              </Typography>
+              <Stack spacing={2}>
+                <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+                  {(["starts_at", "ends_at"] as const).map((name) => (
+                    <Controller
+                      key={name}
+                      name={name}
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
+                          {...field}
+                          type="date"
+                          size="small"
+                          label={name === "starts_at" ? "من تاريخ" : "إلى تاريخ"}
+                          InputLabelProps={{ shrink: true }}
+                          fullWidth
+                        />
+                      )}
+                    />
+                  ))}
+                  {(["start_time", "end_time"] as const).map((name) => (
+                    <Controller
+                      key={name}
+                      name={name}
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
+                          {...field}
+                          type="time"
+                          size="small"
+                          label={name === "start_time" ? "من الساعة" : "إلى الساعة"}
+                          InputLabelProps={{ shrink: true }}
+                          fullWidth
+                        />
+                      )}
+                    />
+                  ))}
+                </Stack>
+                <Controller
+                  name="days_of_week"
+                  control={control}
+                  render={({ field }) => (
+                    <Stack direction="row" gap={1} flexWrap="wrap">
+                      {DAY_LABELS.map((label, day) => {
+                        const selected = field.value.includes(day);
+                        return (
+                          <Chip
+                            key={day}
+                            label={label}
+                            color={selected ? "primary" : "default"}
+                            variant={selected ? "filled" : "outlined"}
+                            onClick={() =>
+                              field.onChange(
+                                selected
+                                  ? field.value.filter((d) => d !== day)
+                                  : [...field.value, day].sort()
+                              )
+                            }
+                          />
+                        );
+                      })}
+                    </Stack>
+                  )}
+                />
+              </Stack>
+            </Paper>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} disabled={isSubmitting}>
+            إلغاء
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={isSubmitting}
+            startIcon={isSubmitting ? <Loader2 className="animate-spin" size={16} /> : undefined}
+          >
+            {isEditMode ? "حفظ التغييرات" : "إنشاء العرض"}
+          </Button>
+        </DialogActions>
+      </Box>
+    </Dialog>
+  );
+};
+
+export default PromotionFormModal;
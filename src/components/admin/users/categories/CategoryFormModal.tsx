@@ -22,12 +22,16 @@ import {
 } from "@mui/material";
 import { Loader2, AlertCircle } from "lucide-react";
 import categoryService, { Category } from "@/services/CategoryService";
+import { TaxCategory } from "@/services/productService";
+import { TAX_CATEGORY_LABELS } from "@/services/vatService";
 
 // --- Form Types ---
 type CategoryFormValues = {
   name: string;
   description?: string | null;
   parent_id?: number | null;
+  tax_category?: TaxCategory | null; // Products of the category inherit it
+  tax_rate?: number | null;
 };
 
 // --- Component Props ---
@@ -52,7 +56,13 @@ const CategoryFormModal: React.FC<CategoryFormModalProps> = ({
   const [serverError, setServerError] = useState<string | null>(null);
 
   const form = useForm<CategoryFormValues>({
-    defaultValues: { name: "", description: "", parent_id: null },
+    defaultValues: {
+      name: "",
+      description: "",
+      parent_id: null,
+      tax_category: null,
+      tax_rate: null,
+    },
   });
   const {
     handleSubmit,
@@ -70,6 +80,8 @@ const CategoryFormModal: React.FC<CategoryFormModalProps> = ({
           name: categoryToEdit.name || "",
           description: categoryToEdit.description || "",
           parent_id: categoryToEdit.parent_id || null,
+          tax_category: categoryToEdit.tax_category || null,
+          tax_rate: categoryToEdit.tax_rate ?? null,
         });
       } else {
         reset();
@@ -86,7 +98,16 @@ const CategoryFormModal: React.FC<CategoryFormModalProps> = ({
       return;
     }
     
-    const apiData = { ...data, parent_id: data.parent_id || null }; // Ensure null if empty
+    const apiData = {
+      ...data,
+      parent_id: data.parent_id || null, // Ensure null if empty
+      tax_category: data.tax_category || null,
+      // A rate only applies to standard-rated categories
+      tax_rate:
+        (!data.tax_category || data.tax_category === "S") && data.tax_rate != null
+          ? Number(data.tax_rate)
+          : null,
+    };
     try {
       let savedCategory: Category;
       if (isEditMode && categoryToEdit) {
@@ -246,6 +267,58 @@ const CategoryFormModal: React.FC<CategoryFormModalProps> = ({
               )}
             />
 
+            {/* VAT Fields */}
+            <Box sx={{ display: "flex", gap: 2 }}>
+              <Controller
+                control={control}
+                name="tax_category"
+                render={({ field }) => (
+                  <TextField
+                    select
+                    label="فئة الضريبة"
+                    fullWidth
+                    size="small"
+                    disabled={isSubmitting}
+                    value={field.value || "S"}
+                    onChange={(e) => field.onChange(e.target.value as TaxCategory)}
+                  >
+                    {(Object.keys(TAX_CATEGORY_LABELS) as TaxCategory[]).map((category) => (
+                      <MenuItem key={category} value={category}>
+                        {TAX_CATEGORY_LABELS[category]}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                )}
+              />
+              <Controller
+                control={control}
+                name="tax_rate"
+                rules={{
+                  min: { value: 0, message: "النسبة لا يمكن أن تكون سالبة" },
+                  max: { value: 100, message: "النسبة لا يمكن أن تتجاوز 100" },
+                }}
+                render={({ field, fieldState }) => (
+                  <TextField
+                    label="نسبة الضريبة %"
+                    type="number"
+                    fullWidth
+                    size="small"
+                    inputProps={{ min: 0, max: 100, step: 0.01 }}
+                    disabled={
+                      isSubmitting ||
+                      (!!form.watch("tax_category") && form.watch("tax_category") !== "S")
+                    }
+                    value={field.value ?? ""}
+                    onChange={(e) =>
+                      field.onChange(e.target.value === "" ? null : Number(e.target.value))
+                    }
+                    error={!!fieldState.error}
+                    helperText={fieldState.error?.message || "فارغ = النسبة الافتراضية"}
+                  />
+                )}
+              />
+            </Box>
+
             {/* Description Field */}
             <Controller
               control={control}
@@ -1,6 +1,6 @@
 // src/components/clients/ClientFormModal.tsx
 import React, { useEffect, useState } from "react";
-import { useForm, SubmitHandler } from "react-hook-form";
+import { useForm, SubmitHandler, Controller } from "react-hook-form";
 import { toast } from "sonner";
 import {
   Dialog,
@@ -12,10 +12,13 @@ import {
   Box,
   Alert,
   CircularProgress,
+  MenuItem,
 } from "@mui/material";
 
 // Services and Types
 import clientService, { Client } from "../../services/clientService";
+import { priceListService, PRICE_LIST_TYPE_LABELS } from "../../services/priceListService";
+import { usePriceLists } from "../../hooks/usePriceLists";
 
 // --- Types ---
 type ClientFormValues = {
@@ -23,6 +26,9 @@ type ClientFormValues = {
   email: string;
   phone: string;
   address: string;
+  price_list_id: number | ""; // "" = default list
+  credit_limit: string; // "" = no limit
+  payment_terms_days: string;
 };
 
 // --- Component Props ---
@@ -49,13 +55,22 @@ const ClientFormModal: React.FC<ClientFormModalProps> = ({
       email: "",
       phone: "",
       address: "",
+      price_list_id: "",
+      credit_limit: "",
+      payment_terms_days: "",
     },
   });
+  // Offline, fall back to the lists cached for the POS
+  const { data: fetchedPriceLists } = usePriceLists();
+  const priceLists = (fetchedPriceLists || priceListService.getCached()).filter(
+    (l) => l.is_active || l.id === clientToEdit?.price_list_id
+  );
 
   const {
     handleSubmit,
     reset,
     register,
+    control,
     formState: { isSubmitting, errors },
     setError,
   } = form;
@@ -70,6 +85,10 @@ const ClientFormModal: React.FC<ClientFormModalProps> = ({
           email: clientToEdit.email || "",
           phone: clientToEdit.phone || "",
           address: clientToEdit.address || "",
+          price_list_id: clientToEdit.price_list_id ?? "",
+          credit_limit: clientToEdit.credit_limit != null ? String(clientToEdit.credit_limit) : "",
+          payment_terms_days:
+            clientToEdit.payment_terms_days != null ? String(clientToEdit.payment_terms_days) : "",
         });
       } else {
         reset({
@@ -77,6 +96,9 @@ const ClientFormModal: React.FC<ClientFormModalProps> = ({
           email: "",
           phone: "",
           address: "",
+          price_list_id: "",
+          credit_limit: "",
+          payment_terms_days: "",
         });
       }
     }
@@ -93,6 +115,9 @@ const ClientFormModal: React.FC<ClientFormModalProps> = ({
       email: data.email || null,
       phone: data.phone || null,
       address: data.address || null,
+      price_list_id: data.price_list_id === "" ? null : Number(data.price_list_id),
+      credit_limit: data.credit_limit === "" ? null : Number(data.credit_limit),
+      payment_terms_days: data.payment_terms_days === "" ? null : Number(data.payment_terms_days),
     };
 
     try {
@@ -221,6 +246,63 @@ const ClientFormModal: React.FC<ClientFormModalProps> = ({
               size="small"
             />
 
+            <TextField
+              label="حد الائتمان"
+              type="number"
+              fullWidth
+              placeholder="بدون حد"
+              disabled={isSubmitting}
+              {...register("credit_limit", {
+                min: { value: 0, message: "لا يمكن أن يكون سالباً" },
+              })}
+              error={!!errors.credit_limit}
+              helperText={errors.credit_limit?.message || "فارغ = بدون حد، 0 = نقدي فقط"}
+              size="small"
+              inputProps={{ min: 0, step: "any" }}
+            />
+
+            <TextField
+              label="مدة السداد (أيام)"
+              type="number"
+              fullWidth
+              placeholder="بدون مدة"
+              disabled={isSubmitting}
+              {...register("payment_terms_days", {
+                min: { value: 0, message: "لا يمكن أن يكون سالباً" },
+              })}
+              error={!!errors.payment_terms_days}
+              helperText={errors.payment_terms_days?.message}
+              size="small"
+              inputProps={{ min: 0, step: 1 }}
+            />
+
+            <Box sx={{ gridColumn: { xs: "span 1", sm: "span 2" } }}>
+              <Controller
+                name="price_list_id"
+                control={control}
+                render={({ field }) => (
+                  <TextField
+                    select
+                    label="قائمة الأسعار"
+                    fullWidth
+                    size="small"
+                    disabled={isSubmitting}
+                    value={field.value}
+                    onChange={(e) =>
+                      field.onChange(e.target.value === "" ? "" : Number(e.target.value))
+                    }
+                  >
+                    <MenuItem value="">القائمة الافتراضية</MenuItem>
+                    {priceLists.map((list) => (
+                      <MenuItem key={list.id} value={list.id}>
+                        {list.name} ({PRICE_LIST_TYPE_LABELS[list.type]})
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                )}
+              />
+            </Box>
+
             <Box sx={{ gridColumn: { xs: "span 1", sm: "span 2" } }}>
               <TextField
                 label="العنوان"
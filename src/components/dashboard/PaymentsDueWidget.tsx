@@ -0,0 +1,117 @@
+// src/components/dashboard/PaymentsDueWidget.tsx
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { endOfWeek, format } from "date-fns";
+import { CalendarClock } from "lucide-react";
+
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatCurrency, formatNumber, preciseSum } from "@/constants";
+import supplierPaymentService, {
+  type OpenPurchase,
+} from "@/services/supplierPaymentService";
+
+const MAX_ROWS = 6;
+
+/**
+ * Supplier bills due by the end of this week, overdue ones included
+ */
+const PaymentsDueWidget: React.FC = () => {
+  const navigate = useNavigate();
+  const [purchases, setPurchases] = useState<OpenPurchase[] | null>(null);
+
+  useEffect(() => {
+    const weekEnd = format(endOfWeek(new Date(), { weekStartsOn: 6 }), "yyyy-MM-dd");
+    supplierPaymentService
+      .getAllOpenPurchases({ due_before: weekEnd })
+      .then((data) =>
+        setPurchases(
+          [...data].sort((a, b) =>
+            (a.due_date || a.purchase_date).localeCompare(b.due_date || b.purchase_date)
+          )
+        )
+      )
+      .catch((error) => {
+        console.error("Failed to load payments due:", error);
+        setPurchases([]);
+      });
+  }, []);
+
+  const total = preciseSum((purchases || []).map((p) => Number(p.due_amount)), 2);
+  const overdueCount = (purchases || []).filter(
+    (p) => supplierPaymentService.daysOverdue(p) > 0
+  ).length;
+
+  return (
+    <Card className="mt-6 dark:bg-gray-900 dark:border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-md font-semibold flex items-center gap-2 text-gray-800 dark:text-gray-100">
+          <CalendarClock className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+          مدفوعات الموردين المستحقة هذا الأسبوع
+        </CardTitle>
+        <CardDescription className="dark:text-gray-400">
+          {purchases === null
+            ? "جاري التحميل..."
+            : `${formatCurrency(total)} — ${formatNumber(purchases.length)} فاتورة${
+                overdueCount > 0 ? `، منها ${formatNumber(overdueCount)} متأخرة` : ""
+              }`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {purchases === null ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-5 w-full" />
+            ))}
+          </div>
+        ) : purchases.length === 0 ? (
+          <p className="text-sm text-muted-foreground dark:text-gray-400">
+            لا توجد مدفوعات مستحقة هذا الأسبوع
+          </p>
+        ) : (
+          <ul className="text-sm space-y-2">
+            {purchases.slice(0, MAX_ROWS).map((purchase) => {
+              const overdue = supplierPaymentService.daysOverdue(purchase) > 0;
+              return (
+                <li
+                  key={purchase.id}
+                  className="flex items-center justify-between gap-2 cursor-pointer hover:text-primary"
+                  onClick={() => navigate(`/suppliers/${purchase.supplier_id}/ledger`)}
+                >
+                  <span className="truncate">
+                    {purchase.supplier_name}{" "}
+                    <span className="text-muted-foreground">
+                      ({purchase.reference_number || `#${purchase.id}`})
+                    </span>
+                  </span>
+                  <span className="flex items-center gap-3 shrink-0">
+                    <span className={overdue ? "text-red-600 dark:text-red-400" : "text-muted-foreground"}>
+                      {(purchase.due_date || purchase.purchase_date).slice(0, 10)}
+                    </span>
+                    <span className="font-semibold">{formatNumber(purchase.due_amount)}</span>
+                  </span>
+                </li>
+              );
+            })}
+            {purchases.length > MAX_ROWS && (
+              <li
+                className="text-xs text-primary cursor-pointer"
+                onClick={() => navigate("/reports/suppliers-summary")}
+              >
+                {`عرض الكل (${formatNumber(purchases.length)})`}
+              </li>
+            )}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PaymentsDueWidget;
@@ -0,0 +1,439 @@
+// src/components/labels/LabelPrintDialog.tsx
+import React, { useDeferredValue, useEffect, useMemo, useState } from "react";
+import { PDFViewer, pdf } from "@react-pdf/renderer";
+
+// MUI Components
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  Stack,
+  Grid,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Typography,
+  IconButton,
+  Tooltip,
+  FormGroup,
+  FormControlLabel,
+  Checkbox,
+  CircularProgress,
+  Divider,
+} from "@mui/material";
+
+// Lucide Icons
+import { Plus, Trash2 } from "lucide-react";
+
+import { useSettings } from "@/context/SettingsContext";
+import { useAuthorization } from "@/hooks/useAuthorization";
+import labelService, {
+  LABEL_FIELDS,
+  LabelField,
+  LabelItem,
+  LabelTemplate,
+} from "@/services/labelService";
+import { PDF_FONTS } from "@/utils/pdfFontRegistry";
+import { formatNumber } from "@/constants";
+import { LabelsPdf } from "./LabelsPdf";
+
+interface LabelPrintDialogProps {
+  open: boolean;
+  onClose: () => void;
+  title?: string;
+  items: LabelItem[];
+  kind?: LabelTemplate["kind"]; // Template type selected on open
+}
+
+/**
+ * Prints product or shelf labels with a live preview; templates are edited
+ * here and saved to the app settings.
+ */
+export const LabelPrintDialog: React.FC<LabelPrintDialogProps> = ({
+  open,
+  onClose,
+  title = "طباعة الملصقات",
+  items,
+  kind = "product",
+}) => {
+  const { settings, updateSettings } = useSettings();
+  const { hasPermission } = useAuthorization();
+  const [templates, setTemplates] = useState<LabelTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [copies, setCopies] = useState<Record<string, string>>({});
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  // Saved templates, unless the user is editing them (unsaved edits are dropped on close)
+  useEffect(() => {
+    if (!open) {
+      setIsDirty(false);
+      return;
+    }
+    if (isDirty) return;
+    const saved = labelService.getTemplates(settings);
+    setTemplates(saved);
+    setTemplateId((current) =>
+      saved.some((t) => t.id === current)
+        ? current
+        : (saved.find((t) => t.kind === kind) ?? saved[0])?.id ?? ""
+    );
+  }, [open, isDirty, settings, kind]);
+
+  useEffect(() => {
+    if (!open) return;
+    setCopies(Object.fromEntries(items.map((item) => [item.key, String(item.copies)])));
+  }, [open, items]);
+
+  const template = templates.find((t) => t.id === templateId) ?? null;
+  const printItems = useMemo(
+    () => items.map((item) => ({ ...item, copies: Number(copies[item.key]) || 0 })),
+    [items, copies]
+  );
+  const totalLabels = printItems.reduce((sum, item) => sum + Math.max(0, Math.floor(item.copies)), 0);
+
+  // Rendering the PDF is slow: preview the first sheet only and let typing stay responsive
+  const preview = useDeferredValue(
+    useMemo(
+      () => ({
+        template,
+        printItems: template ? labelService.getPreviewItems(template, printItems) : [],
+      }),
+      [template, printItems]
+    )
+  );
+  const hasPreview =
+    Boolean(preview.template && labelService.isValidTemplate(preview.template)) &&
+    preview.printItems.length > 0;
+  const canPrint = Boolean(template && labelService.isValidTemplate(template)) && totalLabels > 0;
+
+  // The full document is only built when the user prints
+  const handlePrint = async () => {
+    if (!template || !canPrint) return;
+    setIsPrinting(true);
+    try {
+      const blob = await pdf(
+        <LabelsPdf template={template} items={printItems} settings={settings} />
+      ).toBlob();
+      const url = URL.createObjectURL(blob);
+      const printWindow = window.open(url, "_blank");
+      if (printWindow) {
+        printWindow.onload = () => printWindow.print();
+      } else {
+        URL.revokeObjectURL(url);
+      }
+    } catch (error) {
+      console.error("Error generating labels PDF:", error);
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  const updateTemplate = (changes: Partial<LabelTemplate>) => {
+    setTemplates((prev) => prev.map((t) => (t.id === templateId ? { ...t, ...changes } : t)));
+    setIsDirty(true);
+  };
+
+  const toggleField = (field: LabelField, checked: boolean) => {
+    if (!template) return;
+    updateTemplate({
+      fields: checked
+        ? (Object.keys(LABEL_FIELDS) as LabelField[]).filter(
+            (f) => f === field || template.fields.includes(f)
+          )
+        : template.fields.filter((f) => f !== field),
+    });
+  };
+
+  const addTemplate = () => {
+    const created = labelService.newTemplate(template?.kind ?? kind);
+    setTemplates((prev) => [...prev, created]);
+    setTemplateId(created.id);
+    setIsDirty(true);
+  };
+
+  const deleteTemplate = () => {
+    const remaining = templates.filter((t) => t.id !== templateId);
+    setTemplates(remaining);
+    setTemplateId(remaining[0]?.id ?? "");
+    setIsDirty(true);
+  };
+
+  const saveTemplates = async () => {
+    setIsSaving(true);
+    try {
+      await updateSettings({ label_templates: templates });
+      setIsDirty(false);
+    } catch {
+      // Error toast shown by the settings context
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const numberField = (
+    label: string,
+    key: "width_mm" | "height_mm" | "font_size",
+    min: number
+  ) => (
+    <TextField
+      size="small"
+      type="number"
+      label={label}
+      value={template?.[key] ?? ""}
+      onChange={(e) => updateTemplate({ [key]: Number(e.target.value) || 0 })}
+      error={Number(template?.[key]) < min}
+      inputProps={{ min, step: key === "font_size" ? 0.5 : 1 }}
+      fullWidth
+    />
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xl" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent dividers>
+        <Grid container spacing={2}>
+          <Grid size={{ xs: 12, md: 4 }}>
+            <Stack spacing={2}>
+              <Stack direction="row" spacing={1} alignItems="center">
+                <TextField
+                  select
+                  size="small"
+                  label="قالب الملصق"
+                  value={templateId}
+                  onChange={(e) => setTemplateId(e.target.value)}
+                  fullWidth
+                >
+                  {templates.map((t) => (
+                    <MenuItem key={t.id} value={t.id}>
+                      {t.name}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <Tooltip title="قالب جديد">
+                  <IconButton size="small" onClick={addTemplate}>
+                    <Plus size={18} />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="حذف القالب">
+                  <span>
+                    <IconButton
+                      size="small"
+                      color="error"
+                      onClick={deleteTemplate}
+                      disabled={templates.length <= 1}
+                    >
+                      <Trash2 size={18} />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              </Stack>
+
+              {template && (
+                <>
+                  <TextField
+                    size="small"
+                    label="اسم القالب"
+                    value={template.name}
+                    onChange={(e) => updateTemplate({ name: e.target.value })}
+                    fullWidth
+                  />
+                  <Stack direction="row" spacing={1}>
+                    <TextField
+                      select
+                      size="small"
+                      label="النوع"
+                      value={template.kind}
+                      onChange={(e) =>
+                        updateTemplate({ kind: e.target.value as LabelTemplate["kind"] })
+                      }
+                      fullWidth
+                    >
+                      <MenuItem value="product">ملصق منتج</MenuItem>
+                      <MenuItem value="shelf">ملصق رف (سعر)</MenuItem>
+                    </TextField>
+                    <TextField
+                      select
+                      size="small"
+                      label="الورق"
+                      value={template.sheet}
+                      onChange={(e) =>
+                        updateTemplate({ sheet: e.target.value as LabelTemplate["sheet"] })
+                      }
+                      fullWidth
+                    >
+                      <MenuItem value="roll">رول طابعة ملصقات</MenuItem>
+                      <MenuItem value="a4">ورق A4</MenuItem>
+                    </TextField>
+                  </Stack>
+                  <Stack direction="row" spacing={1}>
+                    {numberField("العرض (مم)", "width_mm", 10)}
+                    {numberField("الارتفاع (مم)", "height_mm", 10)}
+                  </Stack>
+                  {template.sheet === "a4" && (
+                    <Typography variant="caption" color="text.secondary">
+                      {(() => {
+                        const { columns, rows } = labelService.getSheetGrid(template);
+                        return `${columns} × ${rows} = ${columns * rows} ملصق في الصفحة`;
+                      })()}
+                    </Typography>
+                  )}
+                  <Stack direction="row" spacing={1}>
+                    <TextField
+                      select
+                      size="small"
+                      label="الخط"
+                      value={template.font_family}
+                      onChange={(e) => updateTemplate({ font_family: e.target.value })}
+                      fullWidth
+                    >
+                      {Object.values(PDF_FONTS).map((font) => (
+                        <MenuItem key={font} value={font}>
+                          {font}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    {numberField("حجم الخط", "font_size", 4)}
+                  </Stack>
+                  <TextField
+                    select
+                    size="small"
+                    label="نوع الباركود"
+                    value={template.symbology}
+                    onChange={(e) =>
+                      updateTemplate({ symbology: e.target.value as LabelTemplate["symbology"] })
+                    }
+                    fullWidth
+                  >
+                    <MenuItem value="auto">تلقائي (EAN-13 للأكواد الصالحة)</MenuItem>
+                    <MenuItem value="code128">Code 128</MenuItem>
+                    <MenuItem value="ean13">EAN-13</MenuItem>
+                  </TextField>
+                  <FormGroup row>
+                    {(Object.keys(LABEL_FIELDS) as LabelField[]).map((field) => (
+                      <FormControlLabel
+                        key={field}
+                        sx={{ width: "50%", mr: 0 }}
+                        control={
+                          <Checkbox
+                            size="small"
+                            checked={template.fields.includes(field)}
+                            onChange={(e) => toggleField(field, e.target.checked)}
+                          />
+                        }
+                        label={LABEL_FIELDS[field]}
+                      />
+                    ))}
+                  </FormGroup>
+                  {hasPermission("update-settings") && (
+                    <Button
+                      variant="outlined"
+                      onClick={saveTemplates}
+                      disabled={!isDirty || isSaving || !templates.every(labelService.isValidTemplate)}
+                      startIcon={isSaving ? <CircularProgress size={16} color="inherit" /> : undefined}
+                    >
+                      حفظ القوالب
+                    </Button>
+                  )}
+                </>
+              )}
+
+              <Divider />
+
+              <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 320 }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>المنتج</TableCell>
+                      <TableCell align="center" sx={{ width: 100 }}>
+                        عدد النسخ
+                      </TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {items.map((item) => (
+                      <TableRow key={item.key}>
+                        <TableCell>
+                          {item.name}
+                          <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+                            {item.barcode || item.sku || "بدون باركود"}
+                          </Typography>
+                        </TableCell>
+                        <TableCell align="center">
+                          <TextField
+                            size="small"
+                            type="number"
+                            value={copies[item.key] ?? ""}
+                            onChange={(e) =>
+                              setCopies((prev) => ({ ...prev, [item.key]: e.target.value }))
+                            }
+                            inputProps={{ min: 0, step: 1 }}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <Typography variant="body2" color="text.secondary">
+                إجمالي الملصقات: {formatNumber(totalLabels)}
+                {hasPreview && " (المعاينة للصفحة الأولى فقط)"}
+              </Typography>
+            </Stack>
+          </Grid>
+
+          <Grid size={{ xs: 12, md: 8 }}>
+            <Box sx={{ height: "70vh" }}>
+              {hasPreview && preview.template ? (
+                <PDFViewer width="100%" height="100%" showToolbar={false}>
+                  <LabelsPdf
+                    template={preview.template}
+                    items={preview.printItems}
+                    settings={settings}
+                  />
+                </PDFViewer>
+              ) : (
+                <Box
+                  sx={{
+                    height: "100%",
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "center",
+                    border: "1px dashed",
+                    borderColor: "divider",
+                    borderRadius: 2,
+                  }}
+                >
+                  <Typography variant="body2" color="text.secondary">
+                    حدد قالباً وعدد النسخ لمعاينة الملصقات
+                  </Typography>
+                </Box>
+              )}
+            </Box>
+          </Grid>
+        </Grid>
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={onClose}>إغلاق</Button>
+        <Button
+          variant="contained"
+          onClick={handlePrint}
+          disabled={!canPrint || isPrinting}
+          startIcon={isPrinting ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          طباعة
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,161 @@
+import React from "react";
+import { Page, Text, View, Document, StyleSheet } from "@react-pdf/renderer";
+import { AppSettings } from "@/services/settingService";
+import labelService, {
+  LabelItem,
+  LabelTemplate,
+  A4_MARGIN_MM,
+  LABEL_GAP_MM,
+  MM_TO_PT,
+} from "@/services/labelService";
+import { encodeBarcode } from "@/utils/barcodeEncoder";
+import { formatNumber } from "@/constants";
+import { PdfBarcode } from "./PdfBarcode";
+
+const LABEL_PADDING_MM = 1.5;
+
+const styles = StyleSheet.create({
+  sheet: {
+    padding: A4_MARGIN_MM * MM_TO_PT,
+    flexDirection: "row-reverse",
+    flexWrap: "wrap",
+    alignContent: "flex-start",
+  },
+  label: {
+    padding: LABEL_PADDING_MM * MM_TO_PT,
+    alignItems: "center",
+    justifyContent: "space-between",
+    overflow: "hidden",
+  },
+  outlined: {
+    borderWidth: 0.5,
+    borderColor: "#d1d5db",
+    borderStyle: "dashed",
+  },
+  text: {
+    textAlign: "center",
+  },
+  bold: {
+    fontWeight: "bold",
+  },
+  row: {
+    flexDirection: "row-reverse",
+    justifyContent: "center",
+    alignItems: "baseline",
+  },
+});
+
+interface LabelsPdfProps {
+  template: LabelTemplate;
+  items: LabelItem[];
+  settings: AppSettings | null;
+}
+
+const Label: React.FC<{
+  template: LabelTemplate;
+  item: LabelItem;
+  settings: AppSettings | null;
+  outlined: boolean;
+}> = ({ template, item, settings, outlined }) => {
+  const has = (field: LabelTemplate["fields"][number]) => template.fields.includes(field);
+  const isShelf = template.kind === "shelf";
+  const fontSize = template.font_size;
+  const width = template.width_mm * MM_TO_PT;
+  const height = template.height_mm * MM_TO_PT;
+  const innerWidth = width - LABEL_PADDING_MM * 2 * MM_TO_PT;
+  const barcode = has("barcode") ? encodeBarcode(item.barcode || item.sku, template.symbology) : null;
+  const currency = settings?.currency_symbol || "SDG";
+  const details = [
+    has("batch") && item.batch_number ? `دفعة: ${item.batch_number}` : null,
+    has("expiry") && item.expiry_date ? `انتهاء: ${item.expiry_date.slice(0, 10)}` : null,
+  ].filter(Boolean);
+
+  return (
+    <View style={[styles.label, outlined ? styles.outlined : {}, { width, height }]}>
+      {has("company") && settings?.company_name && (
+        <Text style={[styles.text, { fontSize: fontSize * 0.8 }]}>{settings.company_name}</Text>
+      )}
+      {has("name") && (
+        <Text style={[styles.text, styles.bold, { fontSize: isShelf ? fontSize * 1.2 : fontSize }]}>
+          {item.name}
+        </Text>
+      )}
+      {has("price") && item.price != null && (
+        <View style={styles.row}>
+          <Text style={[styles.bold, { fontSize: isShelf ? fontSize * 2.6 : fontSize * 1.4 }]}>
+            {formatNumber(item.price, 2)}
+          </Text>
+          <Text style={{ fontSize: fontSize * 0.9, marginRight: 2 }}>
+            {currency}
+            {has("unit") && item.unit_name ? ` / ${item.unit_name}` : ""}
+          </Text>
+        </View>
+      )}
+      {barcode && (
+        <View style={{ alignItems: "center" }}>
+          <PdfBarcode
+            barcode={barcode}
+            width={innerWidth}
+            height={height * (isShelf ? 0.22 : 0.3)}
+          />
+          <Text style={{ fontSize: fontSize * 0.85, letterSpacing: 0.5 }}>{barcode.text}</Text>
+        </View>
+      )}
+      {has("sku") && item.sku && item.sku !== barcode?.text && (
+        <Text style={[styles.text, { fontSize: fontSize * 0.85 }]}>SKU: {item.sku}</Text>
+      )}
+      {details.length > 0 && (
+        <Text style={[styles.text, { fontSize: fontSize * 0.8 }]}>{details.join("   ")}</Text>
+      )}
+    </View>
+  );
+};
+
+/**
+ * Product/shelf labels, one per page on label rolls or tiled on A4 sheets
+ */
+export const LabelsPdf: React.FC<LabelsPdfProps> = ({ template, items, settings }) => {
+  const labels = labelService.expand(items);
+  const fontFamily = template.font_family || settings?.pdf_font || "Amiri";
+
+  if (template.sheet === "roll") {
+    return (
+      <Document>
+        {labels.map((item, i) => (
+          <Page
+            key={i}
+            size={[template.width_mm * MM_TO_PT, template.height_mm * MM_TO_PT]}
+            style={{ fontFamily }}
+          >
+            <Label template={template} item={item} settings={settings} outlined={false} />
+          </Page>
+        ))}
+      </Document>
+    );
+  }
+
+  const { columns, rows } = labelService.getSheetGrid(template);
+  const perPage = columns * rows;
+  const pages: LabelItem[][] = [];
+  for (let i = 0; i < labels.length; i += perPage) pages.push(labels.slice(i, i + perPage));
+
+  return (
+    <Document>
+      {pages.map((pageLabels, pageIndex) => (
+        <Page key={pageIndex} size="A4" style={[styles.sheet, { fontFamily }]}>
+          {pageLabels.map((item, i) => (
+            <View
+              key={i}
+              style={{
+                marginLeft: (i + 1) % columns === 0 ? 0 : LABEL_GAP_MM * MM_TO_PT,
+                marginBottom: LABEL_GAP_MM * MM_TO_PT,
+              }}
+            >
+              <Label template={template} item={item} settings={settings} outlined />
+            </View>
+          ))}
+        </Page>
+      ))}
+    </Document>
+  );
+};
@@ -0,0 +1,36 @@
+import React, { useMemo } from "react";
+import { Svg, Rect } from "@react-pdf/renderer";
+import { EncodedBarcode } from "@/utils/barcodeEncoder";
+
+interface PdfBarcodeProps {
+  barcode: EncodedBarcode;
+  width: number; // Points, including the quiet zones
+  height: number; // Points
+}
+
+/**
+ * 1D barcode drawn as vector bars inside a react-pdf document
+ */
+export const PdfBarcode: React.FC<PdfBarcodeProps> = ({ barcode, width, height }) => {
+  const { bars, total } = useMemo(() => {
+    // Merge adjacent bar modules into one rectangle each
+    const runs: { x: number; width: number }[] = [];
+    barcode.modules.forEach((isBar, i) => {
+      if (!isBar) return;
+      const last = runs[runs.length - 1];
+      const x = barcode.quietZone + i;
+      if (last && last.x + last.width === x) last.width++;
+      else runs.push({ x, width: 1 });
+    });
+    return { bars: runs, total: barcode.modules.length + barcode.quietZone * 2 };
+  }, [barcode]);
+
+  return (
+    <Svg width={width} height={height} viewBox={`0 0 ${total} 10`} preserveAspectRatio="none">
+      <Rect x={0} y={0} width={total} height={10} fill="#FFFFFF" />
+      {bars.map((bar) => (
+        <Rect key={bar.x} x={bar.x} y={0} width={bar.width} height={10} fill="#000000" />
+      ))}
+    </Svg>
+  );
+};
@@ -11,6 +11,7 @@ import TopAppBar from "./TopAppBar";
 import UserMenu from "./UserMenu";
 import { DRAWER_WIDTH } from "./types";
 import { navItems } from "./navItems";
+import { useDunningScheduler } from "@/hooks/useDunningScheduler";
 
 const COLLAPSED_DRAWER_WIDTH = 72;
 
@@ -21,6 +22,7 @@ const RootLayout: React.FC = () => {
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
 
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  useDunningScheduler();
 
   if (isLoading) {
     return (
@@ -89,6 +89,12 @@ export const navItems: NavItem[] = [
         permission: null,
         category: "المشتريات",
       },
+      {
+        to: "/purchases/reorder",
+        label: "اقتراحات إعادة الطلب",
+        permission: null,
+        category: "المشتريات",
+      },
     ],
   },
 
@@ -122,6 +128,36 @@ export const navItems: NavItem[] = [
         label: 'تقرير المصروفات الشهرية',
         permission: null,
         category: "التقارير",
+      },
+      {
+        to: "/reports/vat-return",
+        label: "إقرار ضريبة القيمة المضافة",
+        permission: null,
+        category: "التقارير",
+      },
+      {
+        to: "/reports/price-overrides",
+        label: "تعديلات الأسعار اليدوية",
+        permission: null,
+        category: "التقارير",
+      },
+      {
+        to: "/reports/client-aging",
+        label: "أعمار ديون العملاء",
+        permission: null,
+        category: "التقارير",
+      },
+      {
+        to: "/reports/dunning-reminders",
+        label: "متابعة تذكيرات المديونيات",
+        permission: null,
+        category: "التقارير",
+      },
+      {
+        to: "/reports/po-variance",
+        label: "فروقات أوامر الشراء",
+        permission: null,
+        category: "التقارير",
       }
     ],
   },
@@ -141,12 +177,15 @@ export const navItems: NavItem[] = [
       { to: "/admin/system", label: "النظام", permission: null, category: "الإدارة" },
       { to: "/admin/backups", label: "النسخ الاحتياطي", permission: null, category: "الإدارة" },
       { to: "/admin/warehouses", label: "المخازن", permission: null, category: "الإدارة" },
+      { to: "/admin/promotions", label: "العروض والخصومات", permission: null, category: "الإدارة" },
+      { to: "/admin/price-lists", label: "قوائم الأسعار", permission: null, category: "الإدارة" },
       {
         to: "/admin/whatsapp-schedulers",
         label: "جدولة واتساب",
         permission: null,
         category: "الإدارة",
       },
+      { to: "/admin/dunning", label: "تذكير المديونيات", permission: null, category: "الإدارة" },
       {
         to: "/admin/inventory/requisitions/request",
         label: "طلب مخزون",
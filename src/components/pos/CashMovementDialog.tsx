@@ -0,0 +1,184 @@
+// src/components/pos/CashMovementDialog.tsx
+import React, { useEffect, useState } from "react";
+
+// MUI Components
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Alert,
+  Box,
+  Typography,
+  Divider,
+} from "@mui/material";
+
+// Icons
+import { ArrowDownToLine, ArrowUpFromLine, Banknote } from "lucide-react";
+
+import { formatNumber } from "@/constants";
+import { useCurrencySymbol } from "@/hooks/useFormatCurrency";
+import {
+  CashMovement,
+  CashMovementType,
+  CASH_MOVEMENT_LABELS,
+} from "../../services/cashDrawerService";
+
+interface CashMovementDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSave: (data: { type: CashMovementType; amount: number; reason: string }) => Promise<void>;
+  movements?: CashMovement[]; // Already recorded in this shift
+}
+
+/**
+ * Record a cash drop, pay-out or cash-in on the current shift's drawer.
+ * A reason is mandatory so managers can audit every movement.
+ */
+export const CashMovementDialog: React.FC<CashMovementDialogProps> = ({
+  open,
+  onClose,
+  onSave,
+  movements = [],
+}) => {
+  const currencySymbol = useCurrencySymbol();
+  const [type, setType] = useState<CashMovementType>("drop");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setType("drop");
+      setAmount("");
+      setReason("");
+      setError(null);
+    }
+  }, [open]);
+
+  const handleSave = async () => {
+    const numericAmount = parseFloat(amount) || 0;
+    if (numericAmount <= 0) {
+      setError("أدخل مبلغاً أكبر من صفر");
+      return;
+    }
+    if (!reason.trim()) {
+      setError("السبب مطلوب");
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave({ type, amount: numericAmount, reason: reason.trim() });
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "فشل حفظ الحركة");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+        <Banknote size={20} />
+        <span>حركة نقدية</span>
+      </DialogTitle>
+
+      <DialogContent>
+        <Box sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}>
+          <ToggleButtonGroup
+            value={type}
+            exclusive
+            fullWidth
+            size="small"
+            onChange={(_, value) => value && setType(value)}
+          >
+            <ToggleButton value="drop">
+              <ArrowUpFromLine size={16} style={{ marginLeft: 4 }} />
+              {CASH_MOVEMENT_LABELS.drop}
+            </ToggleButton>
+            <ToggleButton value="payout">
+              <ArrowUpFromLine size={16} style={{ marginLeft: 4 }} />
+              {CASH_MOVEMENT_LABELS.payout}
+            </ToggleButton>
+            <ToggleButton value="cash_in">
+              <ArrowDownToLine size={16} style={{ marginLeft: 4 }} />
+              {CASH_MOVEMENT_LABELS.cash_in}
+            </ToggleButton>
+          </ToggleButtonGroup>
+
+          <TextField
+            autoFocus
+            type="number"
+            label={`المبلغ (${currencySymbol})`}
+            value={amount}
+            onChange={(e) => {
+              setAmount(e.target.value);
+              setError(null);
+            }}
+            inputProps={{ min: 0, step: "0.01" }}
+            fullWidth
+          />
+          <TextField
+            label="السبب"
+            value={reason}
+            onChange={(e) => {
+              setReason(e.target.value);
+              setError(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleSave();
+              }
+            }}
+            fullWidth
+          />
+
+          {error && <Alert severity="error">{error}</Alert>}
+
+          {movements.length > 0 && (
+            <Box>
+              <Divider sx={{ mb: 1 }} />
+              <Typography variant="subtitle2" sx={{ mb: 0.5 }}>
+                حركات هذه الوردية
+              </Typography>
+              {movements.map((m) => (
+                <Box
+                  key={m.id}
+                  sx={{ display: "flex", justifyContent: "space-between", py: 0.25 }}
+                >
+                  <Typography variant="caption" color="text.secondary">
+                    {CASH_MOVEMENT_LABELS[m.type]} - {m.reason}
+                    {!m.is_synced && " (معلق)"}
+                  </Typography>
+                  <Typography
+                    variant="caption"
+                    color={m.type === "cash_in" ? "success.main" : "error.main"}
+                  >
+                    {m.type === "cash_in" ? "+" : "-"}
+                    {formatNumber(m.amount)}
+                  </Typography>
+                </Box>
+              ))}
+            </Box>
+          )}
+        </Box>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button variant="outlined" onClick={onClose} disabled={saving}>
+          إلغاء
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          حفظ
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
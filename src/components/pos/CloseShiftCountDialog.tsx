@@ -0,0 +1,147 @@
+// src/components/pos/CloseShiftCountDialog.tsx
+import React, { useEffect, useState } from "react";
+
+// MUI Components
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+} from "@mui/material";
+
+// Icons
+import { Calculator } from "lucide-react";
+
+import { formatNumber } from "@/constants";
+import { useCurrencySymbol } from "@/hooks/useFormatCurrency";
+import {
+  cashDrawerService,
+  DEFAULT_DENOMINATIONS,
+  DrawerCount,
+} from "../../services/cashDrawerService";
+
+interface CloseShiftCountDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (count: DrawerCount) => void;
+  loading?: boolean;
+  denominations?: number[];
+}
+
+/**
+ * Blind drawer count at shift close: the cashier counts by denomination without
+ * seeing the expected amount; over/short is only shown in the shift report.
+ */
+export const CloseShiftCountDialog: React.FC<CloseShiftCountDialogProps> = ({
+  open,
+  onClose,
+  onConfirm,
+  loading = false,
+  denominations = DEFAULT_DENOMINATIONS,
+}) => {
+  const currencySymbol = useCurrencySymbol();
+  const [counts, setCounts] = useState<Record<number, string>>({});
+  const [otherAmount, setOtherAmount] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setCounts({});
+      setOtherAmount("");
+    }
+  }, [open]);
+
+  const denominationCounts = denominations.map((denomination) => ({
+    denomination,
+    count: Math.max(0, parseInt(counts[denomination] || "0", 10) || 0),
+  }));
+  const total = cashDrawerService.countTotal(
+    denominationCounts,
+    Math.max(0, parseFloat(otherAmount) || 0)
+  );
+
+  const handleConfirm = () => {
+    if (loading) return;
+    onConfirm({
+      denominations: denominationCounts,
+      other_amount: Math.max(0, parseFloat(otherAmount) || 0),
+      total,
+      counted_at: new Date().toISOString(),
+    });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+        <Calculator size={20} />
+        <span>إغلاق الوردية - جرد الدرج</span>
+      </DialogTitle>
+
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          عدّ النقدية الموجودة في الدرج وأدخل عدد كل فئة
+        </Typography>
+
+        <Box
+          sx={{
+            display: "grid",
+            gridTemplateColumns: "repeat(2, 1fr)",
+            gap: 1.5,
+          }}
+        >
+          {denominations.map((denomination) => (
+            <TextField
+              key={denomination}
+              size="small"
+              type="number"
+              label={`فئة ${formatNumber(denomination)}`}
+              value={counts[denomination] ?? ""}
+              onChange={(e) =>
+                setCounts((prev) => ({ ...prev, [denomination]: e.target.value }))
+              }
+              onFocus={(e) => e.target.select()}
+              inputProps={{ min: 0, step: 1 }}
+              placeholder="0"
+            />
+          ))}
+          <TextField
+            size="small"
+            type="number"
+            label="مبالغ أخرى (عملات معدنية...)"
+            value={otherAmount}
+            onChange={(e) => setOtherAmount(e.target.value)}
+            inputProps={{ min: 0, step: "0.01" }}
+            placeholder="0"
+            sx={{ gridColumn: "1 / -1" }}
+          />
+        </Box>
+
+        <Paper sx={{ p: 2, mt: 2, bgcolor: "grey.50", display: "flex", justifyContent: "space-between" }}>
+          <Typography fontWeight={600}>إجمالي المعدود:</Typography>
+          <Typography fontWeight={700} color="primary.main">
+            {formatNumber(total, 2)} {currencySymbol}
+          </Typography>
+        </Paper>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button variant="outlined" onClick={onClose} disabled={loading}>
+          إلغاء
+        </Button>
+        <Button
+          variant="contained"
+          color="error"
+          onClick={handleConfirm}
+          disabled={loading}
+        >
+          {loading ? <CircularProgress size={18} color="inherit" /> : "إغلاق الوردية"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,165 @@
+// src/components/pos/CreditOverrideDialog.tsx
+import React, { useEffect, useState } from "react";
+
+// MUI Components
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  Box,
+  Typography,
+  Stack,
+  CircularProgress,
+} from "@mui/material";
+import { Lock as LockIcon } from "@mui/icons-material";
+
+import { formatNumber } from "@/constants";
+import { getErrorMessage } from "@/lib/axios";
+import clientCreditService, {
+  CreditCheckResult,
+  CreditOverride,
+} from "../../services/clientCreditService";
+
+interface CreditOverrideDialogProps {
+  open: boolean;
+  onClose: () => void;
+  check: CreditCheckResult | null;
+  clientId: number | null;
+  clientName?: string | null;
+  saleId?: number | null;
+  saleDue: number;
+  onApproved: (override: CreditOverride) => void;
+}
+
+/**
+ * Shown when a credit sale is blocked; a manager PIN, verified by the server,
+ * lets it through and the approval is recorded.
+ */
+export const CreditOverrideDialog: React.FC<CreditOverrideDialogProps> = ({
+  open,
+  onClose,
+  check,
+  clientId,
+  clientName,
+  saleId,
+  saleDue,
+  onApproved,
+}) => {
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  // PINs are only verified by the server
+  const isOffline = !navigator.onLine;
+
+  useEffect(() => {
+    if (open) {
+      setPin("");
+      setError(null);
+    }
+  }, [open]);
+
+  const handleApprove = async () => {
+    if (!check || !pin) return;
+    setVerifying(true);
+    setError(null);
+    try {
+      const override = await clientCreditService.authorizeOverride(pin, {
+        client_id: clientId,
+        sale_id: saleId ?? null,
+        amount: saleDue,
+        reasons: check.reasons,
+      });
+      onApproved(override);
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err, "رمز المدير غير صحيح"));
+      setPin("");
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={!verifying ? onClose : undefined} maxWidth="xs" fullWidth dir="rtl">
+      <DialogTitle sx={{ fontWeight: 600 }}>البيع الآجل غير مسموح</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          {check?.reasons.map((reason) => (
+            <Alert key={reason} severity="warning">
+              {reason}
+            </Alert>
+          ))}
+
+          {clientId && check && (
+            <Box sx={{ bgcolor: "action.hover", borderRadius: 1, p: 1.5 }}>
+              <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                {clientName}
+              </Typography>
+              {[
+                ["الرصيد الحالي", check.balance],
+                ["مبيعات غير متزامنة", check.pending_due],
+                ["المتبقي من هذه الفاتورة", saleDue],
+                ["الرصيد بعد البيع", check.projected_balance],
+              ].map(([label, value]) => (
+                <Stack key={label as string} direction="row" justifyContent="space-between">
+                  <Typography variant="body2" color="text.secondary">
+                    {label}
+                  </Typography>
+                  <Typography variant="body2">{formatNumber(value as number)}</Typography>
+                </Stack>
+              ))}
+              {check.credit_limit != null && (
+                <Stack direction="row" justifyContent="space-between">
+                  <Typography variant="body2" color="text.secondary">
+                    حد الائتمان
+                  </Typography>
+                  <Typography variant="body2" fontWeight="bold">
+                    {formatNumber(check.credit_limit)}
+                  </Typography>
+                </Stack>
+              )}
+            </Box>
+          )}
+
+          <TextField
+            label="رمز المدير (PIN)"
+            type="password"
+            value={pin}
+            onChange={(e) => setPin(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !isOffline) handleApprove();
+            }}
+            size="small"
+            fullWidth
+            autoFocus
+            disabled={verifying}
+            inputProps={{ inputMode: "numeric", autoComplete: "off" }}
+            InputProps={{ startAdornment: <LockIcon fontSize="small" sx={{ mr: 1 }} /> }}
+          />
+          {isOffline && (
+            <Alert severity="info">موافقة المدير تتطلب الاتصال بالخادم</Alert>
+          )}
+          {error && <Alert severity="error">{error}</Alert>}
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={onClose} disabled={verifying}>
+          رجوع
+        </Button>
+        <Button
+          variant="contained"
+          color="warning"
+          onClick={handleApprove}
+          disabled={!pin || verifying || isOffline}
+          startIcon={verifying ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          موافقة المدير
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -40,10 +40,14 @@ import LayersIcon from "@mui/icons-material/Layers";
 
 // Types
 import { CartItem } from "./types";
+import { getLineUnitKey, getSaleUnitOptions } from "@/utils/productUnits";
 import { formatNumber } from "@/constants";
 import { BatchSelectionDialog } from "./BatchSelectionDialog";
 import { LiveStockDisplay } from "./LiveStockDisplay";
 
+const isPriceOverridden = (item: CartItem) =>
+  item.listPrice != null && Math.abs(item.unitPrice - item.listPrice) >= 0.005;
+
 interface CurrentSaleItemsColumnProps {
   currentSaleItems: CartItem[];
   onUpdateQuantity: (productId: number, newQuantity: number) => Promise<void>;
@@ -61,8 +65,11 @@ interface CurrentSaleItemsColumnProps {
   ) => Promise<void>;
   onSwitchUnitType?: (
     productId: number,
-    unitType: "stocking" | "sellable"
+    unitType: "stocking" | "sellable",
+    unitId?: number | null // Another unit of the product's chain
   ) => Promise<void>;
+  // Manual line discount (0 clears it and lets promotions apply again), by line index
+  onUpdateLineDiscount?: (lineIndex: number, discountAmount: number) => Promise<void>;
   isSalePaid?: boolean;
   readOnly?: boolean;
   deletingItems?: Set<number>;
@@ -77,6 +84,7 @@ export const CurrentSaleItemsColumn: React.FC<CurrentSaleItemsColumnProps> = ({
   onRemoveItem,
   onUpdateBatch,
   onSwitchUnitType,
+  onUpdateLineDiscount,
   isSalePaid = false,
   readOnly = false,
   deletingItems = new Set(),
@@ -87,6 +95,8 @@ export const CurrentSaleItemsColumn: React.FC<CurrentSaleItemsColumnProps> = ({
   const [editValue, setEditValue] = useState<string>("");
   const [editingUnitPrice, setEditingUnitPrice] = useState<number | null>(null);
   const [editUnitPriceValue, setEditUnitPriceValue] = useState<string>("");
+  const [editingDiscount, setEditingDiscount] = useState<number | null>(null); // Line index
+  const [editDiscountValue, setEditDiscountValue] = useState<string>("");
   const [batchDialogOpen, setBatchDialogOpen] = useState(false);
   const [selectedProductForBatch, setSelectedProductForBatch] =
     useState<CartItem | null>(null);
@@ -167,6 +177,33 @@ export const CurrentSaleItemsColumn: React.FC<CurrentSaleItemsColumnProps> = ({
     setEditUnitPriceValue("");
   };
 
+  const handleDiscountClick = (item: CartItem, index: number) => {
+    if (isSalePaid || readOnly || !onUpdateLineDiscount) return;
+    setEditingDiscount(index);
+    setEditDiscountValue(
+      item.discountSource === "manual" ? String(item.discountAmount || 0) : ""
+    );
+  };
+
+  const handleDiscountSave = async (item: CartItem, index: number) => {
+    if (!onUpdateLineDiscount) return;
+    const amount = editDiscountValue.trim() === "" ? 0 : parseFloat(editDiscountValue);
+    const lineAmount = item.unitPrice * item.quantity;
+    if (isNaN(amount) || amount < 0 || amount > lineAmount) {
+      setEditingDiscount(null);
+      setEditDiscountValue("");
+      return;
+    }
+    await onUpdateLineDiscount(index, amount);
+    setEditingDiscount(null);
+    setEditDiscountValue("");
+  };
+
+  const handleDiscountCancel = () => {
+    setEditingDiscount(null);
+    setEditDiscountValue("");
+  };
+
   const handleKeyDown = (event: React.KeyboardEvent, productId: number) => {
     if (event.key === "Enter") {
       event.preventDefault();
@@ -179,6 +216,20 @@ export const CurrentSaleItemsColumn: React.FC<CurrentSaleItemsColumnProps> = ({
     }
   };
 
+  const handleDiscountKeyDown = (
+    event: React.KeyboardEvent,
+    item: CartItem,
+    index: number
+  ) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      handleDiscountSave(item, index);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      handleDiscountCancel();
+    }
+  };
+
   const handleBatchSelection = (item: CartItem) => {
     setSelectedProductForBatch(item);
     setBatchDialogOpen(true);
@@ -520,68 +571,53 @@ export const CurrentSaleItemsColumn: React.FC<CurrentSaleItemsColumnProps> = ({
                             </IconButton>
                           </Box>
 
-                          {/* Unit Type Selector - Only show if product has both unit types */}
-                          {item.product.units_per_stocking_unit &&
-                            item.product.units_per_stocking_unit > 1 &&
-                            onSwitchUnitType &&
-                            !isSalePaid &&
-                            !readOnly && (
+                          {/* Unit Selector - Only show if the product sells in more than one unit */}
+                          {(() => {
+                            const unitOptions = getSaleUnitOptions(item.product);
+                            if (unitOptions.length <= 1 || !onSwitchUnitType || isSalePaid || readOnly) {
+                              return (
+                                <Typography
+                                  variant="caption"
+                                  color="text.secondary"
+                                  sx={{ fontSize: "0.7rem" }}
+                                >
+                                  {unitOptions.find((u) => u.key === getLineUnitKey(item))?.name ||
+                                    item.product.sellable_unit_name ||
+                                    "قطعة"}
+                                </Typography>
+                              );
+                            }
+                            return (
                               <ToggleButtonGroup
-                                value={item.unitType || "sellable"}
+                                value={getLineUnitKey(item)}
                                 exclusive
                                 onChange={(e, newValue) => {
-                                  if (
-                                    newValue !== null &&
-                                    newValue !== item.unitType
-                                  ) {
-                                    onSwitchUnitType(item.product.id, newValue);
+                                  const option = unitOptions.find((u) => u.key === newValue);
+                                  if (option && newValue !== getLineUnitKey(item)) {
+                                    onSwitchUnitType(item.product.id, option.unitType, option.unitId);
                                   }
                                 }}
                                 size="small"
                                 sx={{ height: 28 }}
                               >
-                                <ToggleButton value="sellable" size="small">
-                                  <Tooltip
-                                    title={
-                                      item.product.sellable_unit_name || "قطعة"
-                                    }
-                                  >
-                                    <Typography
-                                      variant="caption"
-                                      sx={{ fontSize: "0.7rem" }}
-                                    >
-                                      {item.product.sellable_unit_name ||
-                                        "قطعة"}
-                                    </Typography>
-                                  </Tooltip>
-                                </ToggleButton>
-                                <ToggleButton value="stocking" size="small">
-                                  <Tooltip
-                                    title={
-                                      item.product.stocking_unit_name || "صندوق"
-                                    }
-                                  >
-                                    <Typography
-                                      variant="caption"
-                                      sx={{ fontSize: "0.7rem" }}
+                                {unitOptions.map((option) => (
+                                  <ToggleButton key={option.key} value={option.key} size="small">
+                                    <Tooltip
+                                      title={
+                                        option.factor > 1
+                                          ? `${option.factor} ${item.product.sellable_unit_name || "قطعة"}`
+                                          : option.name
+                                      }
                                     >
-                                      {item.product.stocking_unit_name ||
-                                        "صندوق"}
-                                    </Typography>
-                                  </Tooltip>
-                                </ToggleButton>
+                                      <Typography variant="caption" sx={{ fontSize: "0.7rem" }}>
+                                        {option.name}
+                                      </Typography>
+                                    </Tooltip>
+                                  </ToggleButton>
+                                ))}
                               </ToggleButtonGroup>
-                            )}
-                          {(!item.product.units_per_stocking_unit ||
-                            item.product.units_per_stocking_unit <= 1) && (
-                            <Typography
-                              variant="caption"
-                              color="text.secondary"
-                              sx={{ fontSize: "0.7rem" }}
-                            >
-                              {item.product.sellable_unit_name || "قطعة"}
-                            </Typography>
-                          )}
+                            );
+                          })()}
                         </Box>
                       </TableCell>
 
@@ -649,10 +685,14 @@ export const CurrentSaleItemsColumn: React.FC<CurrentSaleItemsColumnProps> = ({
                               },
                               borderRadius: 1,
                               px: 1,
+                              // Price changed by hand away from the list price
+                              color: isPriceOverridden(item) ? "warning.main" : undefined,
                             }}
                             onClick={() => handleUnitPriceClick(item)}
                             title={
-                              isSalePaid
+                              isPriceOverridden(item)
+                                ? `سعر معدّل يدوياً (سعر القائمة: ${formatNumber(item.listPrice!)})`
+                                : isSalePaid
                                 ? "تم الدفع"
                                 : readOnly
                                 ? "للقراءة فقط"
@@ -664,15 +704,95 @@ export const CurrentSaleItemsColumn: React.FC<CurrentSaleItemsColumnProps> = ({
                         )}
                       </TableCell>
 
-                      {/* Total */}
+                      {/* Total (after the line discount) */}
                       <TableCell align="center">
-                        <Typography
-                          variant="body1"
-                          fontWeight="bold"
-                          color="success.main"
-                        >
-                          {formatNumber(item.total)}
-                        </Typography>
+                        {editingDiscount === index ? (
+                          <Box
+                            sx={{
+                              display: "flex",
+                              alignItems: "center",
+                              justifyContent: "center",
+                              gap: 0.5,
+                            }}
+                          >
+                            <TextField
+                              type="number"
+                              label="خصم الصنف"
+                              value={editDiscountValue}
+                              onChange={(e) =>
+                                setEditDiscountValue(e.target.value)
+                              }
+                              onKeyDown={(e) => handleDiscountKeyDown(e, item, index)}
+                              onFocus={(e) => e.target.select()}
+                              size="small"
+                              sx={{ width: 90 }}
+                              inputProps={{
+                                min: 0,
+                                step: 0.01,
+                                style: { textAlign: "center" },
+                              }}
+                              autoFocus
+                            />
+                            <IconButton
+                              size="small"
+                              color="success"
+                              onClick={() => handleDiscountSave(item, index)}
+                            >
+                              <CheckIcon fontSize="small" />
+                            </IconButton>
+                            <IconButton
+                              size="small"
+                              color="error"
+                              onClick={handleDiscountCancel}
+                            >
+                              <CloseIcon fontSize="small" />
+                            </IconButton>
+                          </Box>
+                        ) : (
+                          <Box
+                            onClick={() => handleDiscountClick(item, index)}
+                            title={
+                              onUpdateLineDiscount && !isSalePaid && !readOnly
+                                ? "انقر لتعيين خصم على الصنف"
+                                : undefined
+                            }
+                            sx={{
+                              cursor:
+                                onUpdateLineDiscount && !isSalePaid && !readOnly
+                                  ? "pointer"
+                                  : "default",
+                            }}
+                          >
+                            {!!item.discountAmount && item.discountAmount > 0 && (
+                              <Typography
+                                variant="caption"
+                                color="text.secondary"
+                                sx={{ textDecoration: "line-through" }}
+                              >
+                                {formatNumber(item.unitPrice * item.quantity)}
+                              </Typography>
+                            )}
+                            <Typography
+                              variant="body1"
+                              fontWeight="bold"
+                              color="success.main"
+                            >
+                              {formatNumber(item.total)}
+                            </Typography>
+                            {!!item.discountAmount && item.discountAmount > 0 && (
+                              <Chip
+                                label={item.promotionName || "خصم يدوي"}
+                                size="small"
+                                color={
+                                  item.discountSource === "manual"
+                                    ? "default"
+                                    : "secondary"
+                                }
+                                variant="outlined"
+                              />
+                            )}
+                          </Box>
+                        )}
                       </TableCell>
 
                       {/* Stock */}
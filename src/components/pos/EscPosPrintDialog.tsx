@@ -0,0 +1,194 @@
+// src/components/pos/EscPosPrintDialog.tsx
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+// MUI Components
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Paper,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControlLabel,
+  Checkbox,
+  CircularProgress,
+  Typography,
+} from "@mui/material";
+
+// Icons
+import { Printer } from "lucide-react";
+
+import { OfflineSale } from "../../services/db";
+import { AppSettings } from "../../services/settingService";
+import { renderEscPosPreview, RECEIPT_CHARS_PER_LINE } from "../../services/escPosReceipt";
+import {
+  receiptPrinterService,
+  ReceiptPrinterConfig,
+  DEFAULT_PRINTER_CONFIG,
+} from "../../services/receiptPrinterService";
+
+interface EscPosPrintDialogProps {
+  open: boolean;
+  onClose: () => void;
+  sale: OfflineSale;
+  settings?: AppSettings | null;
+  userName?: string;
+}
+
+/**
+ * Direct thermal printing (ESC/POS) from the browser, with a preview of what
+ * the printer will output. Printer setup is saved per terminal.
+ */
+export const EscPosPrintDialog: React.FC<EscPosPrintDialogProps> = ({
+  open,
+  onClose,
+  sale,
+  settings,
+  userName,
+}) => {
+  const [config, setConfig] = useState<ReceiptPrinterConfig>(DEFAULT_PRINTER_CONFIG);
+  const [bytes, setBytes] = useState<Uint8Array | null>(null);
+  const [printing, setPrinting] = useState(false);
+
+  useEffect(() => {
+    if (open) receiptPrinterService.getConfig().then(setConfig);
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    receiptPrinterService
+      .buildSaleReceipt(sale, settings, config, { userName })
+      .then((result) => !cancelled && setBytes(result))
+      .catch((error) => console.error("Failed to render receipt:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, sale, settings, config, userName]);
+
+  const updateConfig = (changes: Partial<ReceiptPrinterConfig>) =>
+    setConfig((prev) => ({ ...prev, ...changes }));
+
+  const handlePrint = async () => {
+    if (!bytes) return;
+    setPrinting(true);
+    try {
+      await receiptPrinterService.print(bytes, config);
+      await receiptPrinterService.saveConfig(config);
+      toast.success("تم إرسال الفاتورة للطابعة");
+      onClose();
+    } catch (error) {
+      console.error("Receipt printing failed:", error);
+      toast.error(error instanceof Error ? error.message : "فشل الطباعة");
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+        <Printer size={20} />
+        <span>طباعة حرارية مباشرة</span>
+      </DialogTitle>
+
+      <DialogContent>
+        <Box sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}>
+          <ToggleButtonGroup
+            value={config.transport}
+            exclusive
+            fullWidth
+            size="small"
+            onChange={(_, value) => value && updateConfig({ transport: value })}
+          >
+            {receiptPrinterService.getTransports().map((transport) => (
+              <ToggleButton
+                key={transport.type}
+                value={transport.type}
+                disabled={!transport.isSupported()}
+              >
+                {transport.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+
+          <Box sx={{ display: "flex", gap: 2, alignItems: "center", flexWrap: "wrap" }}>
+            <ToggleButtonGroup
+              value={config.paperWidth}
+              exclusive
+              size="small"
+              onChange={(_, value) => value && updateConfig({ paperWidth: value })}
+            >
+              <ToggleButton value={80}>80mm</ToggleButton>
+              <ToggleButton value={58}>58mm</ToggleButton>
+            </ToggleButtonGroup>
+            <TextField
+              size="small"
+              type="number"
+              label="Code page (PC864)"
+              value={config.codePage}
+              onChange={(e) => updateConfig({ codePage: Number(e.target.value) || 0 })}
+              sx={{ width: 150 }}
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={config.printLogo}
+                  onChange={(e) => updateConfig({ printLogo: e.target.checked })}
+                />
+              }
+              label="الشعار"
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={config.openDrawer}
+                  onChange={(e) => updateConfig({ openDrawer: e.target.checked })}
+                />
+              }
+              label="فتح الدرج"
+            />
+          </Box>
+
+          <Paper
+            variant="outlined"
+            sx={{ p: 1.5, bgcolor: "grey.50", maxHeight: 420, overflow: "auto" }}
+          >
+            {bytes ? (
+              <Typography
+                component="pre"
+                sx={{
+                  m: 0,
+                  fontFamily: "monospace",
+                  fontSize: 12,
+                  direction: "ltr",
+                  unicodeBidi: "bidi-override", // Lines are already in visual order
+                }}
+              >
+                {renderEscPosPreview(bytes, RECEIPT_CHARS_PER_LINE[config.paperWidth])}
+              </Typography>
+            ) : (
+              <Box sx={{ display: "flex", justifyContent: "center", p: 2 }}>
+                <CircularProgress size={24} />
+              </Box>
+            )}
+          </Paper>
+        </Box>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button variant="outlined" onClick={onClose} disabled={printing}>
+          إلغاء
+        </Button>
+        <Button variant="contained" onClick={handlePrint} disabled={printing || !bytes}>
+          {printing ? <CircularProgress size={18} color="inherit" /> : "طباعة"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
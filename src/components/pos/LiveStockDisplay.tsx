@@ -67,7 +67,10 @@ export const LiveStockDisplay: React.FC<LiveStockDisplayProps> = ({
       const freshProduct = await productService.getProduct(product.id);
 
       if (mountedRef.current && freshProduct) {
-        setCurrentStock(freshProduct.stock_quantity);
+        // Server stock doesn't know about sales still waiting to sync
+        setCurrentStock(
+          Math.max(0, freshProduct.stock_quantity - (product.reserved_quantity || 0))
+        );
       }
     } catch (err) {
       console.error("Failed to fetch live stock from backend", err);
@@ -77,7 +80,7 @@ export const LiveStockDisplay: React.FC<LiveStockDisplayProps> = ({
         setLoading(false);
       }
     }
-  }, [product.id, checkBackendAccess]);
+  }, [product.id, product.reserved_quantity, checkBackendAccess]);
 
   useEffect(() => {
     mountedRef.current = true;
@@ -182,6 +185,16 @@ export const LiveStockDisplay: React.FC<LiveStockDisplayProps> = ({
         </Typography>
       )}
       
+      {!selectedBatchId && !loading && (product.reserved_quantity || 0) > 0 && (
+        <Typography
+          variant="caption"
+          color="warning.main"
+          title="الكمية المتاحة بعد خصم المبيعات غير المتزامنة"
+        >
+          بعد المبيعات المعلقة (-{formatNumber(product.reserved_quantity || 0)})
+        </Typography>
+      )}
+
       {!selectedBatchId && !loading && isActuallyLowStock && (
         <Typography variant="caption" color="error.main">
           مخزون منخفض
@@ -12,6 +12,10 @@ import { OfflineSale, OfflineSaleItem } from "../../services/db";
 import { AppSettings } from "../../services/settingService";
 import { formatNumber } from "@/constants";
 import { getPdfFont } from "@/utils/pdfFontRegistry";
+import { vatService } from "../../services/vatService";
+import { promotionService } from "../../services/promotionService";
+import { zatcaService } from "../../services/zatcaService";
+import { PdfQrCode } from "./PdfQrCode";
 
 const styles = StyleSheet.create({
   page: {
@@ -163,6 +167,10 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     color: "blue",
   },
+  qrContainer: {
+    marginTop: 10,
+    alignItems: "flex-start",
+  },
   timestampFooter: {
     position: "absolute",
     bottom: 30,
@@ -195,7 +203,7 @@ export const OfflineInvoiceA4Pdf: React.FC<OfflineInvoiceA4PdfProps> = ({
   };
 
   const subTotal = items.reduce(
-    (acc, i) => acc + Number(i.unit_price) * i.quantity,
+    (acc, i) => acc + promotionService.getLineNet(i),
     0
   );
   const total = Number(sale.total_amount || 0);
@@ -203,6 +211,9 @@ export const OfflineInvoiceA4Pdf: React.FC<OfflineInvoiceA4PdfProps> = ({
   const lastDue = 0; // Placeholder as we don't have this in sale state
   const currentDue = limitSub(total + lastDue, paid);
 
+  const vat = vatService.calculate({ ...sale, items }, settings);
+  const isTaxInvoice = zatcaService.isConfigured(settings);
+
   function limitSub(a: number, b: number) {
     const res = a - b;
     return res > 0 ? res : 0;
@@ -241,7 +252,9 @@ export const OfflineInvoiceA4Pdf: React.FC<OfflineInvoiceA4PdfProps> = ({
 
             {/* Center: Sales info */}
             <View style={styles.infoColCenter}>
-              <Text style={styles.boldText}>Sales Cash</Text>
+              <Text style={styles.boldText}>
+                {isTaxInvoice ? "Tax Invoice" : "Sales Cash"}
+              </Text>
               <Text style={styles.boldText}>{dateStr}</Text>
             </View>
 
@@ -257,6 +270,9 @@ export const OfflineInvoiceA4Pdf: React.FC<OfflineInvoiceA4PdfProps> = ({
               <Text style={styles.boldText}>
                 {settings?.company_phone || "+0000000000"}
               </Text>
+              {settings?.tax_number && (
+                <Text style={styles.normalText}>VAT No: {settings.tax_number}</Text>
+              )}
             </View>
           </View>
 
@@ -344,7 +360,7 @@ export const OfflineInvoiceA4Pdf: React.FC<OfflineInvoiceA4PdfProps> = ({
               />
 
               <Text style={styles.colTotal}>
-                {formatMoney(Number(item.unit_price) * item.quantity)}
+                {formatMoney(promotionService.getLineNet(item))}
               </Text>
             </View>
           ))}
@@ -380,6 +396,26 @@ export const OfflineInvoiceA4Pdf: React.FC<OfflineInvoiceA4PdfProps> = ({
               style={{ height: 1, backgroundColor: "#000", marginBottom: 5 }}
             />
 
+            {vat.enabled && (
+              <>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Total excl. VAT</Text>
+                  <Text style={styles.summaryValue}>{formatNumber(vat.net, 2)}</Text>
+                </View>
+                {vat.groups.map((group) => (
+                  <View key={`${group.category}-${group.rate}`} style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>
+                      VAT {group.rate}% ({group.category})
+                    </Text>
+                    <Text style={styles.summaryValue}>{formatNumber(group.tax, 2)}</Text>
+                  </View>
+                ))}
+                <View
+                  style={{ height: 1, backgroundColor: "#000", marginBottom: 5 }}
+                />
+              </>
+            )}
+
             <View style={styles.summaryRow}>
               <Text style={styles.summaryLabel}>Total</Text>
               <Text style={styles.summaryValue}>{formatMoney(total)}</Text>
@@ -418,6 +454,16 @@ export const OfflineInvoiceA4Pdf: React.FC<OfflineInvoiceA4PdfProps> = ({
           </View>
         </View>
 
+        {/* E-invoice QR */}
+        {isTaxInvoice && (
+          <View style={styles.qrContainer}>
+            <PdfQrCode
+              value={zatcaService.buildQrPayload({ ...sale, items }, settings, vat)}
+              size={90}
+            />
+          </View>
+        )}
+
         {/* Footer Timestamp */}
         <Text style={styles.timestampFooter}>{timeStr}</Text>
       </Page>
@@ -1,5 +1,5 @@
 // src/components/pos/OfflinePaymentDialog.tsx
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
 
 // MUI Components
 import {
@@ -38,6 +38,14 @@ import { PaymentMethod } from "./types";
 import { OfflineSale } from "../../services/db";
 import { formatNumber, preciseSum } from "@/constants";
 import { useCurrencySymbol } from "@/hooks/useFormatCurrency";
+import { useSettings } from "@/context/SettingsContext";
+import { tenderService } from "../../services/tenderService";
+import { dbService } from "../../services/db";
+import clientCreditService, {
+  CreditCheckResult,
+  CreditOverride,
+} from "../../services/clientCreditService";
+import { CreditOverrideDialog } from "./CreditOverrideDialog";
 
 // Payment Method Options with Icons and Colors
 const PAYMENT_METHODS: {
@@ -60,7 +68,7 @@ interface OfflinePaymentDialogProps {
   onClose: () => void;
   currentSale: OfflineSale;
   onUpdateSale: (sale: OfflineSale) => void;
-  onComplete: () => Promise<void> | void;
+  onComplete: (sale?: OfflineSale) => Promise<void> | void;
 }
 
 export const OfflinePaymentDialog: React.FC<OfflinePaymentDialogProps> = ({
@@ -72,6 +80,11 @@ export const OfflinePaymentDialog: React.FC<OfflinePaymentDialogProps> = ({
 }) => {
   const theme = useTheme();
   const currencySymbol = useCurrencySymbol();
+  const { settings } = useSettings();
+  const roundingRule = useMemo(
+    () => tenderService.getRoundingRule(settings),
+    [settings]
+  );
 
   // State for new payment form
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash");
@@ -81,6 +94,7 @@ export const OfflinePaymentDialog: React.FC<OfflinePaymentDialogProps> = ({
   const [addingPayment, setAddingPayment] = useState(false);
   const [completing, setCompleting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [creditCheck, setCreditCheck] = useState<CreditCheckResult | null>(null);
   const addButtonRef = useRef<HTMLButtonElement | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -95,6 +109,24 @@ export const OfflinePaymentDialog: React.FC<OfflinePaymentDialogProps> = ({
   );
   const remainingDue = Math.max(0, grandTotal - totalPaid);
   const isFullyPaid = remainingDue <= 0.01; // Tolerance for float
+  // Cash settles the rounded due; other methods the exact due
+  const isCashTender = tenderService.isCash(paymentMethod);
+  const amountDue = isCashTender
+    ? tenderService.getCashDue(remainingDue, roundingRule)
+    : remainingDue;
+  const tenderSummary = tenderService.summarize(payments);
+  const tenderPreview = (() => {
+    try {
+      return tenderService.applyTender(
+        paymentMethod,
+        parseFloat(paymentAmount) || 0,
+        remainingDue,
+        roundingRule
+      );
+    } catch {
+      return null;
+    }
+  })();
 
   // Initialize form when dialog opens
   useEffect(() => {
@@ -102,7 +134,9 @@ export const OfflinePaymentDialog: React.FC<OfflinePaymentDialogProps> = ({
       setError(null);
       setCompleting(false);
       if (remainingDue > 0) {
-        setPaymentAmount(remainingDue.toFixed(2));
+        setPaymentAmount(
+          tenderService.getCashDue(remainingDue, roundingRule).toFixed(2)
+        );
       } else {
         setPaymentAmount("");
       }
@@ -120,7 +154,7 @@ export const OfflinePaymentDialog: React.FC<OfflinePaymentDialogProps> = ({
     } else {
       resetForm();
     }
-  }, [open, remainingDue]);
+  }, [open, remainingDue, roundingRule]);
 
   const resetForm = () => {
     setPaymentMethod("cash");
@@ -132,14 +166,16 @@ export const OfflinePaymentDialog: React.FC<OfflinePaymentDialogProps> = ({
   const handleAddPayment = async () => {
     if (!paymentAmount) return;
 
-    const amount = parseFloat(paymentAmount);
-    if (amount <= 0) {
-      setError("مبلغ الدفع يجب أن يكون أكبر من صفر");
-      return;
-    }
-
-    if (amount > remainingDue + 0.01 && !isFullyPaid) {
-      setError("المبلغ المدخل أكبر من المستحق");
+    let tender;
+    try {
+      tender = tenderService.applyTender(
+        paymentMethod,
+        parseFloat(paymentAmount),
+        remainingDue,
+        roundingRule
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "مبلغ الدفع غير صحيح");
       return;
     }
 
@@ -149,7 +185,7 @@ export const OfflinePaymentDialog: React.FC<OfflinePaymentDialogProps> = ({
     try {
       const newPayment: any = {
         method: paymentMethod,
-        amount: amount,
+        ...tender,
         payment_date: new Date().toISOString().split("T")[0],
         notes: null,
       };
@@ -196,13 +232,13 @@ export const OfflinePaymentDialog: React.FC<OfflinePaymentDialogProps> = ({
     }
   };
 
-  const handleCompleteClick = async () => {
+  const finishSale = async (sale?: OfflineSale) => {
     setCompleting(true);
     // Close dialog immediately, don't wait for completion
     onClose();
     // Fire and forget - let parent handle the async operation
     try {
-      await onComplete();
+      await onComplete(sale);
     } catch (err) {
       console.error("Complete sale failed", err);
       // Error handling is done in parent component via toast
@@ -211,6 +247,36 @@ export const OfflinePaymentDialog: React.FC<OfflinePaymentDialogProps> = ({
     }
   };
 
+  // Credit control: leaving a due needs a client within their limit and terms,
+  // or a manager's approval
+  const handleCompleteClick = async () => {
+    const approved = currentSale.credit_override;
+    const isApproved =
+      !!approved &&
+      approved.client_id === currentSale.client_id &&
+      approved.amount >= remainingDue - 0.01;
+    if (!currentSale.is_synced && !isFullyPaid && !isApproved) {
+      const client = currentSale.client_id
+        ? (await dbService.getClient(currentSale.client_id)) ?? null
+        : null;
+      const pendingDue = client
+        ? await clientCreditService.getPendingDue(client.id, currentSale.tempId)
+        : 0;
+      const check = clientCreditService.checkCredit(client, remainingDue, pendingDue);
+      if (!check.allowed) {
+        setCreditCheck(check);
+        return;
+      }
+    }
+    await finishSale();
+  };
+
+  const handleCreditApproved = (override: CreditOverride) => {
+    const approvedSale = { ...currentSale, credit_override: override };
+    onUpdateSale(approvedSale);
+    finishSale(approvedSale);
+  };
+
   const getMethodDetails = (methodValue: string) => {
     return (
       PAYMENT_METHODS.find((m) => m.value === methodValue) || {
@@ -224,12 +290,15 @@ export const OfflinePaymentDialog: React.FC<OfflinePaymentDialogProps> = ({
   // Quick Amount Suggestions
   const renderQuickAmounts = () => {
     if (remainingDue <= 0) return null;
-    const suggestions = [
-      remainingDue,
-      Math.ceil(remainingDue / 10) * 10,
-      Math.ceil(remainingDue / 50) * 50,
-      Math.ceil(remainingDue / 100) * 100,
-    ];
+    // Banknotes the customer is likely to hand over (cash only)
+    const suggestions = isCashTender
+      ? [
+          amountDue,
+          Math.ceil(amountDue / 10) * 10,
+          Math.ceil(amountDue / 50) * 50,
+          Math.ceil(amountDue / 100) * 100,
+        ]
+      : [remainingDue];
     // Filter unique positive vals
     const uniqueSuggestions = Array.from(new Set(suggestions)).filter(
       (v) => v > 0
@@ -260,7 +329,7 @@ export const OfflinePaymentDialog: React.FC<OfflinePaymentDialogProps> = ({
   // Handle Enter key for completion
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
-      if (!open || completing) return;
+      if (!open || completing || creditCheck) return;
 
       // Ignore if typing in an input field or pressing a button
       const target = event.target as HTMLElement;
@@ -276,408 +345,449 @@ export const OfflinePaymentDialog: React.FC<OfflinePaymentDialogProps> = ({
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [open, completing, handleCompleteClick]);
+  }, [open, completing, creditCheck, handleCompleteClick]);
 
   return (
-    <Dialog
-      open={open}
-      onClose={!completing ? onClose : undefined}
-      // maxWidth="md"
-      // fullWidth
-
-      dir="rtl"
-      PaperProps={{
-        sx: {
-          minWidth: "333px",
-          borderRadius: 3,
-          overflow: "hidden",
-          boxShadow: "0 25px 50px -12px rgba(0, 0, 0, 0.25)",
-          backgroundImage: "none",
-          bgcolor: "background.paper",
-        },
-      }}
-    >
-      <DialogTitle
-        sx={{
-          display: "flex",
-          justifyContent: "space-between",
-          alignItems: "center",
-          pb: 1,
+    <>
+      <Dialog
+        open={open}
+        onClose={!completing ? onClose : undefined}
+        // maxWidth="md"
+        // fullWidth
+
+        dir="rtl"
+        PaperProps={{
+          sx: {
+            minWidth: "333px",
+            borderRadius: 3,
+            overflow: "hidden",
+            boxShadow: "0 25px 50px -12px rgba(0, 0, 0, 0.25)",
+            backgroundImage: "none",
+            bgcolor: "background.paper",
+          },
         }}
       >
-        <Typography variant="h6" fontWeight="bold">
-          إدارة الدفع
-        </Typography>
-        <IconButton onClick={onClose} size="small" disabled={completing}>
-          <CloseIcon />
-        </IconButton>
-      </DialogTitle>
-      <Divider />
-
-      <DialogContent sx={{ p: { xs: 2, md: 4 } }}>
-        {/* Layout Container: Flex instead of Grid */}
-        <Box
+        <DialogTitle
           sx={{
             display: "flex",
-            flexDirection: { xs: "column", md: "row" },
-            gap: 4,
+            justifyContent: "space-between",
             alignItems: "center",
-            justifyContent: "center",
+            pb: 1,
           }}
         >
-          {/* Left Side: Payment Entry (Only if pending) */}
-          {!isFullyPaid && (
-            <Box sx={{ flex: { md: 7 }, minWidth: 0 }}>
-              {/* Summary Header for Entry */}
-              <Box
-                sx={{
-                  mb: 3,
-                  p: 2,
-                  bgcolor: "primary.50",
-                  borderRadius: 2,
-                  border: "1px solid",
-                  borderColor: "primary.100",
-                }}
-              >
-                <Stack
-                  direction="row"
-                  justifyContent="space-between"
-                  alignItems="center"
+          <Typography variant="h6" fontWeight="bold">
+            إدارة الدفع
+          </Typography>
+          <IconButton onClick={onClose} size="small" disabled={completing}>
+            <CloseIcon />
+          </IconButton>
+        </DialogTitle>
+        <Divider />
+
+        <DialogContent sx={{ p: { xs: 2, md: 4 } }}>
+          {/* Layout Container: Flex instead of Grid */}
+          <Box
+            sx={{
+              display: "flex",
+              flexDirection: { xs: "column", md: "row" },
+              gap: 4,
+              alignItems: "center",
+              justifyContent: "center",
+            }}
+          >
+            {/* Left Side: Payment Entry (Only if pending) */}
+            {!isFullyPaid && (
+              <Box sx={{ flex: { md: 7 }, minWidth: 0 }}>
+                {/* Summary Header for Entry */}
+                <Box
+                  sx={{
+                    mb: 3,
+                    p: 2,
+                    bgcolor: "primary.50",
+                    borderRadius: 2,
+                    border: "1px solid",
+                    borderColor: "primary.100",
+                  }}
                 >
-                  <Typography variant="subtitle1" color="primary.800">
-                    المبلغ المستحق
-                  </Typography>
-                  <Typography
-                    variant="h5"
-                    fontWeight="bold"
-                    color="primary.main"
+                  <Stack
+                    direction="row"
+                    justifyContent="space-between"
+                    alignItems="center"
                   >
-                    {formatNumber(remainingDue)}{" "}
-                    <span style={{ fontSize: "0.8rem" }}>{currencySymbol}</span>
-                  </Typography>
-                </Stack>
+                    <Typography variant="subtitle1" color="primary.800">
+                      المبلغ المستحق
+                    </Typography>
+                    <Typography
+                      variant="h5"
+                      fontWeight="bold"
+                      color="primary.main"
+                    >
+                      {formatNumber(amountDue, 2)}{" "}
+                      <span style={{ fontSize: "0.8rem" }}>{currencySymbol}</span>
+                    </Typography>
+                  </Stack>
+                  {amountDue !== remainingDue && (
+                    <Typography variant="caption" color="text.secondary">
+                      بعد تقريب النقدية (المستحق الفعلي {formatNumber(remainingDue, 2)})
+                    </Typography>
+                  )}
+                </Box>
+
+                <Typography
+                  variant="subtitle2"
+                  fontWeight="bold"
+                  gutterBottom
+                  sx={{ mb: 1.5 }}
+                >
+                  طريقة الدفع
+                </Typography>
+
+                <Box
+                  sx={{
+                    display: "grid",
+                    gridTemplateColumns: "repeat(2, 1fr)",
+                    gap: 1.5,
+                    mb: 3,
+                  }}
+                >
+                  {PAYMENT_METHODS.map((method) => (
+                    <Paper
+                      key={method.value}
+                      elevation={0}
+                      onClick={() => setPaymentMethod(method.value)}
+                      sx={{
+                        p: 1.5,
+                        border: "1px solid",
+                        borderColor:
+                          paymentMethod === method.value
+                            ? method.color
+                            : "divider",
+                        bgcolor:
+                          paymentMethod === method.value
+                            ? alpha(method.color, 0.05)
+                            : "transparent",
+                        borderRadius: 2,
+                        cursor: "pointer",
+                        display: "flex",
+                        alignItems: "center",
+                        justifyContent: "center",
+                        gap: 1,
+                        transition: "all 0.2s",
+                        "&:hover": {
+                          borderColor: method.color,
+                          bgcolor: alpha(method.color, 0.02),
+                        },
+                      }}
+                    >
+                      <Box sx={{ color: method.color, display: "flex" }}>
+                        {React.cloneElement(method.icon as React.ReactElement, {
+                          fontSize: "small",
+                        })}
+                      </Box>
+                      <Typography
+                        variant="body2"
+                        fontWeight={
+                          paymentMethod === method.value ? "bold" : "medium"
+                        }
+                      >
+                        {method.label}
+                      </Typography>
+                    </Paper>
+                  ))}
+                </Box>
+
+                <Typography variant="subtitle2" fontWeight="bold" gutterBottom>
+                  {isCashTender ? "المبلغ المستلم" : "المبلغ المدفوع"}
+                </Typography>
+                <Box sx={{ display: "flex", gap: 2, alignItems: "center" }}>
+                  <TextField
+                    inputRef={inputRef}
+                    fullWidth
+                    value={paymentAmount}
+                    onChange={(e) => setPaymentAmount(e.target.value)}
+                    placeholder="0.00"
+                    type="number"
+                    variant="outlined"
+                    error={!!error}
+                    helperText={error}
+                    InputProps={{
+                      startAdornment: (
+                        <InputAdornment position="start">{currencySymbol}</InputAdornment>
+                      ),
+                      sx: { fontSize: "1rem", fontWeight: "bold" },
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        if (paymentAmount) {
+                          handleAddPayment();
+                        } else if (isFullyPaid) {
+                          handleCompleteClick();
+                        }
+                      }
+                    }}
+                  />
+                  <Button
+                    ref={addButtonRef}
+                    variant="contained"
+                    size="large"
+                    disabled={addingPayment || !paymentAmount}
+                    onClick={handleAddPayment}
+                    sx={{
+                      height: 56,
+                      minWidth: 100,
+                      borderRadius: 2,
+                      boxShadow: "none",
+                    }}
+                  >
+                    {addingPayment ? (
+                      <CircularProgress size={24} color="inherit" />
+                    ) : (
+                      "إضافة"
+                    )}
+                  </Button>
+                </Box>
+                {renderQuickAmounts()}
+                {tenderPreview && tenderPreview.change_amount > 0 && (
+                  <Alert severity="info" sx={{ mt: 2, borderRadius: 2 }}>
+                    الباقي للعميل: {formatNumber(tenderPreview.change_amount, 2)}{" "}
+                    {currencySymbol}
+                  </Alert>
+                )}
               </Box>
+            )}
 
+            {/* Right/Bottom Side: History & Action */}
+            <Box
+              sx={{
+                flex: { md: isFullyPaid ? "1 1 100%" : 5 }, // If fully paid, take full width
+                minWidth: 0,
+                display: "flex",
+                flexDirection: "column",
+                borderLeft: { md: isFullyPaid ? "none" : "1px solid" },
+                borderColor: "divider",
+                pl: { md: isFullyPaid ? 0 : 3 },
+                pt: { xs: 2, md: 0 },
+                // Ensure this panel fills the height if displayed side-by-side, but adapts if full width
+                height: "100%",
+                minHeight: 300,
+                maxWidth: 333,
+              }}
+            >
               <Typography
                 variant="subtitle2"
                 fontWeight="bold"
-                gutterBottom
-                sx={{ mb: 1.5 }}
+                sx={{ display: "flex", alignItems: "center", gap: 1, mb: 2 }}
               >
-                طريقة الدفع
+                <ReceiptIcon color="action" fontSize="small" />
+                المدفوعات
               </Typography>
 
               <Box
-                sx={{
-                  display: "grid",
-                  gridTemplateColumns: "repeat(2, 1fr)",
-                  gap: 1.5,
-                  mb: 3,
-                }}
+                sx={{ flex: 1, overflowY: "auto", maxHeight: 400, width: "100%" }}
               >
-                {PAYMENT_METHODS.map((method) => (
-                  <Paper
-                    key={method.value}
-                    elevation={0}
-                    onClick={() => setPaymentMethod(method.value)}
+                {payments.length === 0 ? (
+                  <Box
                     sx={{
-                      p: 1.5,
-                      border: "1px solid",
-                      borderColor:
-                        paymentMethod === method.value
-                          ? method.color
-                          : "divider",
-                      bgcolor:
-                        paymentMethod === method.value
-                          ? alpha(method.color, 0.05)
-                          : "transparent",
+                      textAlign: "center",
+                      py: 4,
+                      px: 2,
+                      bgcolor: "grey.50",
                       borderRadius: 2,
-                      cursor: "pointer",
-                      display: "flex",
-                      alignItems: "center",
-                      justifyContent: "center",
-                      gap: 1,
-                      transition: "all 0.2s",
-                      "&:hover": {
-                        borderColor: method.color,
-                        bgcolor: alpha(method.color, 0.02),
-                      },
+                      border: "1px dashed",
+                      borderColor: "divider",
+                      mx: "auto",
+                      maxWidth: isFullyPaid ? 500 : "100%",
                     }}
                   >
-                    <Box sx={{ color: method.color, display: "flex" }}>
-                      {React.cloneElement(method.icon as React.ReactElement, {
-                        fontSize: "small",
-                      })}
-                    </Box>
-                    <Typography
-                      variant="body2"
-                      fontWeight={
-                        paymentMethod === method.value ? "bold" : "medium"
-                      }
-                    >
-                      {method.label}
+                    <Typography variant="body2" color="text.secondary">
+                      لم يتم استلام أي دفعات بعد
                     </Typography>
-                  </Paper>
-                ))}
-              </Box>
-
-              <Typography variant="subtitle2" fontWeight="bold" gutterBottom>
-                المبلغ المدفوع
-              </Typography>
-              <Box sx={{ display: "flex", gap: 2, alignItems: "center" }}>
-                <TextField
-                  inputRef={inputRef}
-                  fullWidth
-                  value={paymentAmount}
-                  onChange={(e) => setPaymentAmount(e.target.value)}
-                  placeholder="0.00"
-                  type="number"
-                  variant="outlined"
-                  error={!!error}
-                  helperText={error}
-                  InputProps={{
-                    startAdornment: (
-                      <InputAdornment position="start">{currencySymbol}</InputAdornment>
-                    ),
-                    sx: { fontSize: "1rem", fontWeight: "bold" },
-                  }}
-                  onKeyDown={(e) => {
-                    if (e.key === "Enter") {
-                      if (paymentAmount) {
-                        handleAddPayment();
-                      } else if (isFullyPaid) {
-                        handleCompleteClick();
-                      }
-                    }
-                  }}
-                />
-                <Button
-                  ref={addButtonRef}
-                  variant="contained"
-                  size="large"
-                  disabled={addingPayment || !paymentAmount}
-                  onClick={handleAddPayment}
-                  sx={{
-                    height: 56,
-                    minWidth: 100,
-                    borderRadius: 2,
-                    boxShadow: "none",
-                  }}
-                >
-                  {addingPayment ? (
-                    <CircularProgress size={24} color="inherit" />
-                  ) : (
-                    "إضافة"
-                  )}
-                </Button>
-              </Box>
-              {renderQuickAmounts()}
-            </Box>
-          )}
-
-          {/* Right/Bottom Side: History & Action */}
-          <Box
-            sx={{
-              flex: { md: isFullyPaid ? "1 1 100%" : 5 }, // If fully paid, take full width
-              minWidth: 0,
-              display: "flex",
-              flexDirection: "column",
-              borderLeft: { md: isFullyPaid ? "none" : "1px solid" },
-              borderColor: "divider",
-              pl: { md: isFullyPaid ? 0 : 3 },
-              pt: { xs: 2, md: 0 },
-              // Ensure this panel fills the height if displayed side-by-side, but adapts if full width
-              height: "100%",
-              minHeight: 300,
-              maxWidth: 333,
-            }}
-          >
-            <Typography
-              variant="subtitle2"
-              fontWeight="bold"
-              sx={{ display: "flex", alignItems: "center", gap: 1, mb: 2 }}
-            >
-              <ReceiptIcon color="action" fontSize="small" />
-              المدفوعات
-            </Typography>
-
-            <Box
-              sx={{ flex: 1, overflowY: "auto", maxHeight: 400, width: "100%" }}
-            >
-              {payments.length === 0 ? (
-                <Box
-                  sx={{
-                    textAlign: "center",
-                    py: 4,
-                    px: 2,
-                    bgcolor: "grey.50",
-                    borderRadius: 2,
-                    border: "1px dashed",
-                    borderColor: "divider",
-                    mx: "auto",
-                    maxWidth: isFullyPaid ? 500 : "100%",
-                  }}
-                >
-                  <Typography variant="body2" color="text.secondary">
-                    لم يتم استلام أي دفعات بعد
-                  </Typography>
-                </Box>
-              ) : (
-                <Stack
-                  spacing={1}
-                  sx={{
-                    width: "100%",
-                    mx: "auto",
-                    maxWidth: isFullyPaid ? 600 : "100%",
-                  }}
-                >
-                  {payments.map((p, idx) => {
-                    const details = getMethodDetails(p.method);
-                    return (
-                      <Paper
-                        key={idx}
-                        elevation={0}
-                        sx={{
-                          p: 1.5,
-                          borderRadius: 2,
-                          border: "1px solid",
-                          borderColor: "divider",
-                          display: "flex",
-                          alignItems: "center",
-                          justifyContent: "space-between",
-                          width: "100%",
-                          "&:hover": { bgcolor: "grey.50" },
-                        }}
-                      >
-                        <Box
+                  </Box>
+                ) : (
+                  <Stack
+                    spacing={1}
+                    sx={{
+                      width: "100%",
+                      mx: "auto",
+                      maxWidth: isFullyPaid ? 600 : "100%",
+                    }}
+                  >
+                    {payments.map((p, idx) => {
+                      const details = getMethodDetails(p.method);
+                      return (
+                        <Paper
+                          key={idx}
+                          elevation={0}
                           sx={{
+                            p: 1.5,
+                            borderRadius: 2,
+                            border: "1px solid",
+                            borderColor: "divider",
                             display: "flex",
                             alignItems: "center",
-                            gap: 1.5,
+                            justifyContent: "space-between",
+                            width: "100%",
+                            "&:hover": { bgcolor: "grey.50" },
                           }}
                         >
                           <Box
                             sx={{
-                              p: 0.8,
-                              borderRadius: "50%",
-                              bgcolor: alpha(details.color, 0.1),
-                              color: details.color,
                               display: "flex",
+                              alignItems: "center",
+                              gap: 1.5,
                             }}
                           >
-                            {React.cloneElement(
-                              details.icon as React.ReactElement,
-                              { fontSize: "small" }
-                            )}
-                          </Box>
-                          <Box>
-                            <Typography variant="body2" fontWeight="bold">
-                              {details.label}
-                            </Typography>
-                            <Typography
-                              variant="caption"
-                              color="text.secondary"
+                            <Box
+                              sx={{
+                                p: 0.8,
+                                borderRadius: "50%",
+                                bgcolor: alpha(details.color, 0.1),
+                                color: details.color,
+                                display: "flex",
+                              }}
                             >
-                              {formatNumber(Number(p.amount))} {currencySymbol}
-                            </Typography>
+                              {React.cloneElement(
+                                details.icon as React.ReactElement,
+                                { fontSize: "small" }
+                              )}
+                            </Box>
+                            <Box>
+                              <Typography variant="body2" fontWeight="bold">
+                                {details.label}
+                              </Typography>
+                              <Typography
+                                variant="caption"
+                                color="text.secondary"
+                              >
+                                {formatNumber(Number(p.amount))} {currencySymbol}
+                                {Number(p.change_amount) > 0 &&
+                                  ` (مستلم ${formatNumber(
+                                    Number(p.tendered_amount)
+                                  )} - باقي ${formatNumber(Number(p.change_amount), 2)})`}
+                              </Typography>
+                            </Box>
                           </Box>
-                        </Box>
-                        <IconButton
-                          size="small"
-                          color="error"
-                          onClick={() => handleDeletePayment(idx)}
-                          sx={{
-                            opacity: 0.6,
-                            "&:hover": { opacity: 1, bgcolor: "error.50" },
-                          }}
-                        >
-                          <DeleteIcon fontSize="small" />
-                        </IconButton>
-                      </Paper>
-                    );
-                  })}
-                </Stack>
-              )}
-            </Box>
+                          <IconButton
+                            size="small"
+                            color="error"
+                            onClick={() => handleDeletePayment(idx)}
+                            sx={{
+                              opacity: 0.6,
+                              "&:hover": { opacity: 1, bgcolor: "error.50" },
+                            }}
+                          >
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </Paper>
+                      );
+                    })}
+                  </Stack>
+                )}
+              </Box>
 
-            {/* Summary Footer on right side */}
-            <Box
-              sx={{
-                mt: 3,
-                pt: 2,
-                borderTop: "1px dashed",
-                borderColor: "divider",
-                width: "100%",
-                mx: "auto",
-                maxWidth: isFullyPaid ? 600 : "100%",
-              }}
-            >
-              <Stack
-                direction="row"
-                justifyContent="space-between"
-                sx={{ mb: 1 }}
-              >
-                <Typography variant="body2" color="text.secondary">
-                  المطلوب
-                </Typography>
-                <Typography variant="body2" fontWeight="bold">
-                  {formatNumber(grandTotal)}
-                </Typography>
-              </Stack>
-              <Stack
-                direction="row"
-                justifyContent="space-between"
-                sx={{ mb: 2 }}
-              >
-                <Typography variant="body2" color="text.secondary">
-                  المدفوع
-                </Typography>
-                <Typography
-                  variant="body2"
-                  fontWeight="bold"
-                  color="success.main"
-                >
-                  {formatNumber(totalPaid)}
-                </Typography>
-              </Stack>
-
-              {/* {isFullyPaid && (
-                            <Alert 
-                                icon={<CheckCircleIcon fontSize="inherit" />} 
-                                severity="success" 
-                                variant="filled"
-                                sx={{ mb: 2, borderRadius: 2 }}
-                            >
-                                تم سداد كامل المبلغ
-                            </Alert>
-                        )} */}
-
-              <Button
-                fullWidth
-                variant="contained"
-                color={isFullyPaid ? "success" : "primary"}
-                size="large"
-                onClick={handleCompleteClick}
-                disabled={completing}
+              {/* Summary Footer on right side */}
+              <Box
                 sx={{
-                  borderRadius: 2,
-                  // py: 1.5,
-                  fontWeight: "bold",
-                  boxShadow: "none",
+                  mt: 3,
+                  pt: 2,
+                  borderTop: "1px dashed",
+                  borderColor: "divider",
+                  width: "100%",
+                  mx: "auto",
+                  maxWidth: isFullyPaid ? 600 : "100%",
                 }}
               >
-                {completing ? (
-                  <CircularProgress size={24} color="inherit" />
-                ) : isFullyPaid ? (
-                  "إتمام وحفظ العمليه"
-                ) : (
-                  "حفظ (دفع جزئي)"
+                <Stack
+                  direction="row"
+                  justifyContent="space-between"
+                  sx={{ mb: 1 }}
+                >
+                  <Typography variant="body2" color="text.secondary">
+                    المطلوب
+                  </Typography>
+                  <Typography variant="body2" fontWeight="bold">
+                    {formatNumber(grandTotal)}
+                  </Typography>
+                </Stack>
+                <Stack
+                  direction="row"
+                  justifyContent="space-between"
+                  sx={{ mb: 2 }}
+                >
+                  <Typography variant="body2" color="text.secondary">
+                    المدفوع
+                  </Typography>
+                  <Typography
+                    variant="body2"
+                    fontWeight="bold"
+                    color="success.main"
+                  >
+                    {formatNumber(totalPaid)}
+                  </Typography>
+                </Stack>
+                {tenderSummary.change > 0 && (
+                  <Stack
+                    direction="row"
+                    justifyContent="space-between"
+                    sx={{ mb: 2, mt: -1 }}
+                  >
+                    <Typography variant="body2" color="text.secondary">
+                      الباقي للعميل
+                    </Typography>
+                    <Typography variant="body2" fontWeight="bold" color="warning.main">
+                      {formatNumber(tenderSummary.change, 2)}
+                    </Typography>
+                  </Stack>
                 )}
-              </Button>
+
+                {/* {isFullyPaid && (
+                              <Alert 
+                                  icon={<CheckCircleIcon fontSize="inherit" />} 
+                                  severity="success" 
+                                  variant="filled"
+                                  sx={{ mb: 2, borderRadius: 2 }}
+                              >
+                                  تم سداد كامل المبلغ
+                              </Alert>
+                          )} */}
+
+                <Button
+                  fullWidth
+                  variant="contained"
+                  color={isFullyPaid ? "success" : "primary"}
+                  size="large"
+                  onClick={handleCompleteClick}
+                  disabled={completing}
+                  sx={{
+                    borderRadius: 2,
+                    // py: 1.5,
+                    fontWeight: "bold",
+                    boxShadow: "none",
+                  }}
+                >
+                  {completing ? (
+                    <CircularProgress size={24} color="inherit" />
+                  ) : isFullyPaid ? (
+                    "إتمام وحفظ العمليه"
+                  ) : (
+                    "حفظ (دفع جزئي)"
+                  )}
+                </Button>
+              </Box>
             </Box>
           </Box>
-        </Box>
-      </DialogContent>
-    </Dialog>
+        </DialogContent>
+      </Dialog>
+
+      <CreditOverrideDialog
+        open={!!creditCheck}
+        onClose={() => setCreditCheck(null)}
+        check={creditCheck}
+        clientId={currentSale.client_id}
+        clientName={currentSale.client_name}
+        saleDue={remainingDue}
+        onApproved={handleCreditApproved}
+      />
+    </>
   );
 };
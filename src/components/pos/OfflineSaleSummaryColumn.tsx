@@ -37,12 +37,16 @@ import { Plus } from "lucide-react";
 import { PDFViewer } from "@react-pdf/renderer";
 import { PosInvoicePdf } from "./PosInvoicePdf";
 import { OfflineInvoiceA4Pdf } from "./OfflineInvoiceA4Pdf";
+import { EscPosPrintDialog } from "./EscPosPrintDialog";
 
 // Import the dialogs
 import { OfflinePaymentDialog } from "./OfflinePaymentDialog";
 import { DiscountDialog } from "./DiscountDialog";
 import ClientFormModal from "../clients/ClientFormModal";
 import { offlineSaleService } from "../../services/offlineSaleService";
+import { vatService } from "../../services/vatService";
+import { priceListService } from "../../services/priceListService";
+import { zatcaService } from "../../services/zatcaService";
 import { Client } from "../../services/clientService";
 import { dbService } from "../../services/db";
 import settingService, { AppSettings } from "../../services/settingService";
@@ -51,7 +55,7 @@ interface OfflineSaleSummaryColumnProps {
   currentSale: OfflineSale;
   currentSaleItems: CartItem[]; // To calculate subtotal etc
   onUpdateSale: (sale: OfflineSale) => void;
-  onCompleteSale: () => Promise<void> | void; // Trigger for parent to sync/finalize
+  onCompleteSale: (sale?: OfflineSale) => Promise<void> | void; // Trigger for parent to sync/finalize
   isPaymentDialogOpen: boolean;
   onPaymentDialogOpenChange: (isOpen: boolean) => void;
   clients: any[]; // Passed from parent
@@ -79,6 +83,7 @@ export const OfflineSaleSummaryColumn: React.FC<
   const [isDiscountDialogOpen, setIsDiscountDialogOpen] = useState(false);
   const [isClientModalOpen, setIsClientModalOpen] = useState(false);
   const [isPdfDialogOpen, setIsPdfDialogOpen] = useState(false);
+  const [isEscPosDialogOpen, setIsEscPosDialogOpen] = useState(false);
   const [isA4PdfDialogOpen, setIsA4PdfDialogOpen] = useState(false);
   const [isPaymentsViewDialogOpen, setIsPaymentsViewDialogOpen] =
     useState(false);
@@ -141,6 +146,12 @@ export const OfflineSaleSummaryColumn: React.FC<
     2
   );
 
+  // Promotions / manual discounts on the lines (already out of each item's total)
+  const lineDiscountTotal = preciseSum(
+    currentSaleItems.map((item) => item.discountAmount || 0),
+    2
+  );
+
   // Discount
   const discountAmount = Number(currentSale.discount_amount || 0);
   const discountType = currentSale.discount_type || "fixed"; // We can add this to OfflineSale type if missing, or assume fixed/percent logic
@@ -152,10 +163,13 @@ export const OfflineSaleSummaryColumn: React.FC<
       : discountAmount;
 
   const actualDiscountValue = Math.min(discountValue, subtotal);
+
+  // VAT is extracted from the total, or added on top with tax-exclusive prices
+  const vat = vatService.calculate(currentSale, settings);
   const grandTotal = preciseCalculation(
-    subtotal,
-    actualDiscountValue,
-    "subtract",
+    preciseCalculation(subtotal, actualDiscountValue, "subtract", 2),
+    vat.enabled && !vat.pricesIncludeTax ? vat.tax : 0,
+    "add",
     2
   );
   const isDiscountApplied = actualDiscountValue > 0;
@@ -195,6 +209,25 @@ export const OfflineSaleSummaryColumn: React.FC<
     // NOTE: We rely on the parent (which calls offlineSaleService.calculateTotals) to keep currentSale.total_amount correct.
   }, [subtotal, actualDiscountValue]);
 
+  // Picking a client reprices the cart with their price list (hand-set prices are kept),
+  // then promotions and totals are recalculated
+  const selectClient = (client: Client | null) => {
+    if (currentSale.is_synced) return;
+    const priceList = priceListService.getListForClient(client);
+    onUpdateSale(
+      offlineSaleService.calculateTotals(
+        {
+          ...currentSale,
+          client_id: client ? client.id : null,
+          client_name: client ? client.name : null,
+          price_list_id: priceList?.id ?? null,
+          items: priceListService.applyToItems(currentSale.items, priceList),
+        },
+        settings
+      )
+    );
+  };
+
   // Handle discount update
   const handleDiscountUpdate = (
     amount: number,
@@ -213,7 +246,7 @@ export const OfflineSaleSummaryColumn: React.FC<
       discount_type: updatedSale.discount_type,
     });
     // Recalculate totals
-    const calculatedSale = offlineSaleService.calculateTotals(updatedSale);
+    const calculatedSale = offlineSaleService.calculateTotals(updatedSale, settings);
     console.log("[Discount] calculatedSale after calculateTotals:", {
       discount_amount: calculatedSale.discount_amount,
       discount_type: calculatedSale.discount_type,
@@ -246,10 +279,10 @@ export const OfflineSaleSummaryColumn: React.FC<
   };
 
   // Final Payment Success (from dialog "Complete Sale")
-  const handlePaymentComplete = async () => {
+  const handlePaymentComplete = async (sale?: OfflineSale) => {
     // The payment dialog updates the sale object with payments.
     // Now we just confirm completion
-    await onCompleteSale();
+    await onCompleteSale(sale);
   };
 
   // Shortcut for payment (+) - REMOVED, handled in parent
@@ -308,13 +341,7 @@ export const OfflineSaleSummaryColumn: React.FC<
                 value={
                   clients.find((c) => c.id === currentSale.client_id) || null
                 }
-                onChange={(_, newValue) => {
-                  onUpdateSale({
-                    ...currentSale,
-                    client_id: newValue ? newValue.id : null,
-                    client_name: newValue ? newValue.name : null,
-                  });
-                }}
+                onChange={(_, newValue) => selectClient(newValue)}
                 loading={isUpdatingClient}
                 disabled={isUpdatingClient}
                 renderInput={(params) => (
@@ -466,10 +493,21 @@ export const OfflineSaleSummaryColumn: React.FC<
                 العناصر ({currentSaleItems.length})
               </Typography>
               <Typography variant="body2" fontWeight="medium">
-                {formatNumber(subtotal)}
+                {formatNumber(preciseCalculation(subtotal, lineDiscountTotal, "add", 2))}
               </Typography>
             </Box>
 
+            {lineDiscountTotal > 0 && (
+              <Box sx={{ display: "flex", justifyContent: "space-between" }}>
+                <Typography variant="body2" color="text.secondary">
+                  العروض وخصومات الأصناف
+                </Typography>
+                <Typography variant="body2" fontWeight="medium" color="error.main">
+                  -{formatNumber(lineDiscountTotal, 2)}
+                </Typography>
+              </Box>
+            )}
+
             {/* Discount row with button */}
             <Box
               sx={{
@@ -523,6 +561,18 @@ export const OfflineSaleSummaryColumn: React.FC<
               </Typography>
             </Box>
 
+            {/* VAT */}
+            {vat.enabled && (
+              <Box sx={{ display: "flex", justifyContent: "space-between" }}>
+                <Typography variant="body2" color="text.secondary">
+                  {vat.pricesIncludeTax ? "الضريبة (شاملة)" : "الضريبة"}
+                </Typography>
+                <Typography variant="body2" fontWeight="medium">
+                  {formatNumber(vat.tax, 2)}
+                </Typography>
+              </Box>
+            )}
+
             {/* Total Amount */}
             <Box
               sx={{
@@ -592,6 +642,18 @@ export const OfflineSaleSummaryColumn: React.FC<
               </Button>
             )}
 
+            {/* Direct ESC/POS printing, works offline */}
+            {currentSale.items.length > 0 && (
+              <Button
+                variant="outlined"
+                fullWidth
+                onClick={() => setIsEscPosDialogOpen(true)}
+                sx={{ mb: 1, py: 1 }}
+              >
+                طباعة مباشرة
+              </Button>
+            )}
+
             {/* NEW: Print A4 Invoice Button (Only if client selected) */}
             {currentSale.items.length > 0 && currentSale.client_id && (
               <Button
@@ -604,6 +666,23 @@ export const OfflineSaleSummaryColumn: React.FC<
                 فاتورة (A4)
               </Button>
             )}
+
+            {/* E-invoice XML (UBL), standard invoice when the client has a VAT number */}
+            {currentSale.items.length > 0 && zatcaService.isConfigured(settings) && (
+              <Button
+                variant="outlined"
+                fullWidth
+                color="secondary"
+                onClick={() =>
+                  zatcaService.downloadUblInvoice(currentSale, settings, {
+                    client: clients.find((c) => c.id === currentSale.client_id) || null,
+                  })
+                }
+                sx={{ mb: 1, py: 1 }}
+              >
+                XML
+              </Button>
+            )}
           </Stack>
 
           {/* Add Payment Button */}
@@ -681,11 +760,7 @@ export const OfflineSaleSummaryColumn: React.FC<
           if (client) {
             onClientAdded(client);
             // Auto select the new client
-            onUpdateSale({
-              ...currentSale,
-              client_id: client.id,
-              client_name: client.name,
-            });
+            selectClient(client);
           }
         }}
       />
@@ -723,6 +798,14 @@ export const OfflineSaleSummaryColumn: React.FC<
         </DialogContent>
       </Dialog>
 
+      <EscPosPrintDialog
+        open={isEscPosDialogOpen}
+        onClose={() => setIsEscPosDialogOpen(false)}
+        sale={currentSale}
+        settings={settings}
+        userName="الكاشير"
+      />
+
       {/* PDF Viewer Dialog - A4 */}
       <Dialog
         open={isA4PdfDialogOpen}
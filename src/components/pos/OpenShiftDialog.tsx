@@ -0,0 +1,97 @@
+// src/components/pos/OpenShiftDialog.tsx
+import React, { useEffect, useState } from "react";
+
+// MUI Components
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  CircularProgress,
+} from "@mui/material";
+
+// Icons
+import { Wallet } from "lucide-react";
+
+import { useCurrencySymbol } from "@/hooks/useFormatCurrency";
+
+interface OpenShiftDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (openingFloat: number) => void;
+  loading?: boolean;
+}
+
+/**
+ * Asks for the opening float (cash placed in the drawer) before opening a shift
+ */
+export const OpenShiftDialog: React.FC<OpenShiftDialogProps> = ({
+  open,
+  onClose,
+  onConfirm,
+  loading = false,
+}) => {
+  const currencySymbol = useCurrencySymbol();
+  const [amount, setAmount] = useState("");
+
+  useEffect(() => {
+    if (open) setAmount("");
+  }, [open]);
+
+  const numericAmount = parseFloat(amount) || 0;
+  const isValid = numericAmount >= 0;
+
+  const handleConfirm = () => {
+    if (!isValid || loading) return;
+    onConfirm(numericAmount);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+        <Wallet size={20} />
+        <span>فتح وردية</span>
+      </DialogTitle>
+
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          أدخل مبلغ العهدة (الفكة) الموجود في الدرج عند بداية الوردية
+        </Typography>
+        <TextField
+          autoFocus
+          fullWidth
+          type="number"
+          label={`العهدة الافتتاحية (${currencySymbol})`}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          onFocus={(e) => e.target.select()}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleConfirm();
+            }
+          }}
+          inputProps={{ min: 0, step: "0.01" }}
+          error={!isValid}
+          placeholder="0"
+        />
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button variant="outlined" onClick={onClose} disabled={loading}>
+          إلغاء
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleConfirm}
+          disabled={!isValid || loading}
+        >
+          {loading ? <CircularProgress size={18} color="inherit" /> : "فتح الوردية"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -34,6 +34,10 @@ import {
 import { PaymentMethod } from "./types";
 import { formatNumber, preciseSum } from "@/constants";
 import saleService from "../../services/saleService";
+import { tenderService, Tender } from "../../services/tenderService";
+import { useSettings } from "@/context/SettingsContext";
+import clientCreditService, { CreditCheckResult } from "../../services/clientCreditService";
+import { CreditOverrideDialog } from "./CreditOverrideDialog";
 
 // Payment Method Options
 const paymentMethodOptions = [
@@ -67,6 +71,9 @@ export const PaymentDialog: React.FC<PaymentDialogProps> = ({
   submitTrigger,
   onSuccess,
 }) => {
+  const { settings } = useSettings();
+  const roundingRule = tenderService.getRoundingRule(settings);
+
   // State for existing payments
   const [payments, setPayments] = useState<import('../../services/saleService').Payment[]>([]);
   const [loadingPayments, setLoadingPayments] = useState(false);
@@ -79,6 +86,11 @@ export const PaymentDialog: React.FC<PaymentDialogProps> = ({
   const [addingPayment, setAddingPayment] = useState(false);
   const [deletingPaymentId, setDeletingPaymentId] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [lastChange, setLastChange] = useState<number | null>(null); // Change due on the last cash tender
+  const [saleClient, setSaleClient] = useState<{ id: number | null; name?: string }>({ id: null });
+  // Partial payment waiting for a manager because the rest exceeds the client's credit
+  const [creditCheck, setCreditCheck] = useState<CreditCheckResult | null>(null);
+  const [pendingTender, setPendingTender] = useState<{ tender: Tender; dueAfter: number } | null>(null);
   const addButtonRef = useRef<HTMLButtonElement | null>(null);
 
   const loadPayments = React.useCallback(async () => {
@@ -89,6 +101,7 @@ export const PaymentDialog: React.FC<PaymentDialogProps> = ({
     try {
       const saleData = await saleService.getSale(saleId);
       setPayments(saleData.payments || []);
+      setSaleClient({ id: saleData.client_id, name: saleData.client_name });
     } catch (err) {
       console.error('Failed to load payments:', err);
       setError('فشل تحميل المدفوعات');
@@ -100,6 +113,7 @@ export const PaymentDialog: React.FC<PaymentDialogProps> = ({
   // Load payments when dialog opens
   useEffect(() => {
     if (open && saleId) {
+      setLastChange(null);
       loadPayments();
       // Set default payment amount to remaining due
       const remainingDue = grandTotal - paidAmount;
@@ -143,30 +157,55 @@ export const PaymentDialog: React.FC<PaymentDialogProps> = ({
   const handleAddPayment = async () => {
     if (!saleId || !paymentAmount) return;
 
-    const amount = parseFloat(paymentAmount);
-    if (amount <= 0) {
-      setError('مبلغ الدفع غير صحيح');
+    // Cash may exceed the remaining due (change), other methods may not
+    const remainingDue = grandTotal - preciseSum(payments.map(p => Number(p.amount)), 2);
+    let tender;
+    try {
+      tender = tenderService.applyTender(
+        paymentMethod,
+        parseFloat(paymentAmount),
+        remainingDue,
+        roundingRule
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'مبلغ الدفع غير صحيح');
       return;
     }
 
-    // Check if payment amount exceeds remaining due
-    const remainingDue = grandTotal - preciseSum(payments.map(p => Number(p.amount)), 2);
-    if (amount > remainingDue) {
-      setError('مبلغ الدفع يتجاوز المبلغ المستحق المتبقي');
-      return;
+    // What this payment leaves unpaid goes on the client's account
+    const dueAfter = Math.max(0, remainingDue - tender.amount);
+    if (dueAfter > 0.01) {
+      try {
+        const { check } = await clientCreditService.checkSavedSale(saleClient.id, remainingDue, dueAfter);
+        if (!check.allowed) {
+          setPendingTender({ tender, dueAfter });
+          setCreditCheck(check);
+          return;
+        }
+      } catch (err) {
+        console.error('Credit check failed:', err);
+        setError(saleService.getErrorMessage(err));
+        return;
+      }
     }
 
+    await submitPayment(tender);
+  };
+
+  const submitPayment = async (tender: Tender) => {
+    if (!saleId) return;
     setAddingPayment(true);
     setError(null);
     try {
       const paymentData = {
         method: paymentMethod,
-        amount: amount,
+        ...tender,
         reference_number: null,
         notes: null,
       };
 
       await saleService.addPayment(saleId, paymentData);
+      setLastChange(tender.change_amount > 0 ? tender.change_amount : null);
       
       // Reload payments
       await loadPayments();
@@ -315,6 +354,12 @@ export const PaymentDialog: React.FC<PaymentDialogProps> = ({
             </Paper>
           </Box>
 
+          {lastChange !== null && (
+            <Alert severity="info">
+              الباقي للعميل: {formatNumber(lastChange, 2)}
+            </Alert>
+          )}
+
           {/* Error Alert */}
           {error && (
             <Alert severity="error" icon={<ErrorIcon />}>
@@ -365,6 +410,12 @@ export const PaymentDialog: React.FC<PaymentDialogProps> = ({
                         <Typography variant="body1" fontWeight="semibold">
                           {formatNumber(Number(payment.amount))}
                         </Typography>
+                        {Number(payment.change_amount) > 0 && (
+                          <Typography variant="caption" color="text.secondary">
+                            (مستلم {formatNumber(Number(payment.tendered_amount))} - باقي{' '}
+                            {formatNumber(Number(payment.change_amount), 2)})
+                          </Typography>
+                        )}
                       </Box>
                       <Typography variant="caption" color="text.secondary">
                         {payment.created_at && formatPaymentDate(payment.created_at)}
@@ -423,8 +474,14 @@ export const PaymentDialog: React.FC<PaymentDialogProps> = ({
                     inputProps={{
                       step: "0.01",
                       min: "0",
-                      max: remainingDue
+                      max: tenderService.isCash(paymentMethod) ? undefined : remainingDue
                     }}
+                    helperText={
+                      tenderService.isCash(paymentMethod) &&
+                      tenderService.getCashDue(remainingDue, roundingRule) !== remainingDue
+                        ? `المستحق نقداً بعد التقريب: ${formatNumber(tenderService.getCashDue(remainingDue, roundingRule), 2)}`
+                        : undefined
+                    }
                     value={paymentAmount}
                     onChange={(e) => setPaymentAmount(e.target.value)}
                     placeholder="0.00"
@@ -453,6 +510,23 @@ export const PaymentDialog: React.FC<PaymentDialogProps> = ({
           إغلاق
         </Button>
       </DialogActions>
+
+      <CreditOverrideDialog
+        open={!!creditCheck}
+        onClose={() => {
+          setCreditCheck(null);
+          setPendingTender(null);
+        }}
+        check={creditCheck}
+        clientId={saleClient.id}
+        clientName={saleClient.name}
+        saleId={saleId}
+        saleDue={pendingTender?.dueAfter ?? 0}
+        onApproved={() => {
+          // The override is recorded against the sale on the server
+          if (pendingTender) submitPayment(pendingTender.tender);
+        }}
+      />
     </Dialog>
   );
 };
@@ -0,0 +1,30 @@
+import React, { useMemo } from "react";
+import { Svg, Path, Rect } from "@react-pdf/renderer";
+import { encodeQr, qrToSvgPath } from "@/utils/qrCode";
+
+interface PdfQrCodeProps {
+  value: string;
+  size?: number; // Points
+}
+
+const QUIET_ZONE = 4; // Modules of white border scanners need
+
+/**
+ * QR code drawn as vector paths inside a react-pdf document
+ */
+export const PdfQrCode: React.FC<PdfQrCodeProps> = ({ value, size = 100 }) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQr(value, "M");
+    return {
+      path: qrToSvgPath(modules, QUIET_ZONE),
+      dimension: modules.length + QUIET_ZONE * 2,
+    };
+  }, [value]);
+
+  return (
+    <Svg width={size} height={size} viewBox={`0 0 ${dimension} ${dimension}`}>
+      <Rect x={0} y={0} width={dimension} height={dimension} fill="#FFFFFF" />
+      <Path d={path} fill="#000000" />
+    </Svg>
+  );
+};
@@ -39,7 +39,7 @@ export const PendingSaleBox: React.FC<PendingSaleBoxProps> = ({
   // Navigation handlers
   const handleCreateReturn = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (sale.is_synced && sale.id) {
+    if (canReturn) {
       setReturnDialogOpen(true);
     }
   };
@@ -60,6 +60,8 @@ export const PendingSaleBox: React.FC<PendingSaleBoxProps> = ({
 
   // Check if sale is synced and has an ID
   const isSyncedWithId = sale.is_synced && sale.id;
+  // Completed sales can be returned offline too; the return syncs after the sale
+  const canReturn = sale.status === "completed";
 
   return (
     <Box sx={{ position: "relative", mb: 0.2 }}>
@@ -104,6 +106,11 @@ export const PendingSaleBox: React.FC<PendingSaleBoxProps> = ({
               },
             }}
             onClick={() => onSaleSelect(sale)}
+            title={
+              sale.sync_state === "dead_letter" && sale.sync_error
+                ? `فشلت المزامنة: ${sale.sync_error}`
+                : undefined
+            }
           >
             {/* Processing Indicator (shown when sale is being completed) */}
             {isProcessing && (
@@ -157,6 +164,10 @@ export const PendingSaleBox: React.FC<PendingSaleBoxProps> = ({
                     : sale.status === "held"
                       ? "warning.main"
                       : "error.main",
+                  // Dead-lettered sale: outline it so the cashier notices
+                  outline:
+                    sale.sync_state === "dead_letter" ? "2px solid" : "none",
+                  outlineColor: "error.light",
                   borderRadius: "50%",
                   display: "flex",
                   alignItems: "center",
@@ -283,12 +294,14 @@ export const PendingSaleBox: React.FC<PendingSaleBoxProps> = ({
           </Card>
         </ContextMenuTrigger>
         <ContextMenuContent>
+          {canReturn && (
+            <ContextMenuItem onClick={handleCreateReturn}>
+              <RefreshCw className="ml-2 h-4 w-4" />
+              إنشاء إرجاع
+            </ContextMenuItem>
+          )}
           {isSyncedWithId && (
             <>
-              <ContextMenuItem onClick={handleCreateReturn}>
-                <RefreshCw className="ml-2 h-4 w-4" />
-                إنشاء إرجاع
-              </ContextMenuItem>
               <ContextMenuItem onClick={handleViewDetails}>
                 <Eye className="ml-2 h-4 w-4" />
                 عرض التفاصيل
@@ -306,11 +319,12 @@ export const PendingSaleBox: React.FC<PendingSaleBoxProps> = ({
       </ContextMenu>
 
       {/* Return Dialog */}
-      {isSyncedWithId && (
+      {canReturn && (
         <SaleReturnDialog
           open={returnDialogOpen}
           onClose={() => setReturnDialogOpen(false)}
-          saleId={sale.id!}
+          saleId={sale.id ?? null}
+          sale={sale}
           onSuccess={onRefresh}
         />
       )}
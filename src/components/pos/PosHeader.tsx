@@ -25,9 +25,13 @@ import CloseIcon from '@mui/icons-material/Close';
 
 // Types
 import { Product } from "../../services/productService";
+import { normalizeCode } from "../../utils/arabicSearch";
+import { getProductCodes } from "../../utils/productBarcodes";
 import { formatNumber } from "@/constants";
 import apiClient from "@/lib/axios";
 import clientService, { Client } from "../../services/clientService";
+import kitService from "../../services/kitService";
+import { VariantPickerDialog } from "./VariantPickerDialog";
 
 interface PosHeaderProps {
   onAddProduct: (product: Product) => Promise<void>;
@@ -66,6 +70,7 @@ export const PosHeader: React.FC<PosHeaderProps> = ({
   const [searchResults, setSearchResults] = useState<Product[]>([]);
   const [searchLoading, setSearchLoading] = useState(false);
   const [selectedProducts, setSelectedProducts] = useState<Product[]>([]);
+  const [variantParent, setVariantParent] = useState<Product | null>(null);
   const [clients, setClients] = useState<Client[]>([]);
   const [loadingClients, setLoadingClients] = useState(false);
 
@@ -89,7 +94,8 @@ export const PosHeader: React.FC<PosHeaderProps> = ({
       const response = await apiClient.get<{ data: Product[] }>(
         `/products/autocomplete?search=${encodeURIComponent(input)}&limit=10`
       );
-      setSearchResults(response.data.data || []);
+      // Kit stock is what the component stock can assemble
+      setSearchResults((response.data.data || []).map((p) => kitService.withAvailability(p)));
     } catch (error) {
       console.error('Failed to search products:', error);
       setSearchResults([]);
@@ -98,6 +104,20 @@ export const PosHeader: React.FC<PosHeaderProps> = ({
     }
   };
 
+  // A parent with variants is not sold itself, pick the variant first
+  const selectProduct = (product: Product) => {
+    if (product.has_variants) {
+      setVariantParent(product);
+    } else if (!selectedProducts.find(p => p.id === product.id)) {
+      setSelectedProducts(prev => [...prev, product]);
+    }
+  };
+
+  const handleVariantSelect = (variant: Product) => {
+    setVariantParent(null);
+    selectProduct(variant);
+  };
+
   const handleKeyDown = async (event: React.KeyboardEvent) => {
     if (event.key === 'Enter') {
       event.preventDefault();
@@ -110,13 +130,11 @@ export const PosHeader: React.FC<PosHeaderProps> = ({
       if (!searchInput.trim()) return;
       
       const productBySku = searchResults.find(
-        product => product.sku?.toLowerCase() === searchInput.toLowerCase()
+        product => getProductCodes(product).includes(normalizeCode(searchInput))
       );
       
       if (productBySku) {
-        if (!selectedProducts.find(p => p.id === productBySku.id)) {
-          setSelectedProducts(prev => [...prev, productBySku]);
-        }
+        selectProduct(productBySku);
         setSearchInput("");
         setSearchResults([]);
         return;
@@ -127,16 +145,14 @@ export const PosHeader: React.FC<PosHeaderProps> = ({
         const response = await apiClient.get<{ data: Product[] }>(
           `/products/autocomplete?search=${encodeURIComponent(searchInput)}&limit=50`
         );
-        const fetchedProducts = response.data.data || [];
+        const fetchedProducts = (response.data.data || []).map((p) => kitService.withAvailability(p));
         
         const exactSkuMatch = fetchedProducts.find(
-          product => product.sku?.toLowerCase() === searchInput.toLowerCase()
+          product => getProductCodes(product).includes(normalizeCode(searchInput))
         );
         
         if (exactSkuMatch) {
-          if (!selectedProducts.find(p => p.id === exactSkuMatch.id)) {
-            setSelectedProducts(prev => [...prev, exactSkuMatch]);
-          }
+          selectProduct(exactSkuMatch);
           setSearchInput("");
           setSearchResults([]);
         }
@@ -312,7 +328,9 @@ export const PosHeader: React.FC<PosHeaderProps> = ({
                 value={selectedProducts}
                 onChange={(_, newValue) => {
                   const products = newValue.filter(item => typeof item !== 'string') as Product[];
-                  setSelectedProducts(products);
+                  const parent = products.find(p => p.has_variants);
+                  if (parent) setVariantParent(parent);
+                  setSelectedProducts(products.filter(p => !p.has_variants));
                 }}
                 getOptionLabel={(option) => {
                   if (typeof option === 'string') return option;
@@ -342,6 +360,8 @@ export const PosHeader: React.FC<PosHeaderProps> = ({
                       <Typography variant="body2" fontWeight="medium">{option.name}</Typography>
                       <Typography variant="caption" color="text.secondary">
                         باركود: {option.sku || "N/A"} | السعر: {formatNumber(option.last_sale_price_per_sellable_unit || 0)}
+                        {option.has_variants && ` | ${option.variant_count ?? ""} متغيرات`}
+                        {option.is_kit && ` | طقم (المتاح: ${formatNumber(option.stock_quantity)})`}
                       </Typography>
                     </Box>
                   </Box>
@@ -459,6 +479,13 @@ export const PosHeader: React.FC<PosHeaderProps> = ({
           </IconButton>
         </Tooltip>
       </Box>
+
+      <VariantPickerDialog
+        open={Boolean(variantParent)}
+        parent={variantParent}
+        onSelect={handleVariantSelect}
+        onClose={() => setVariantParent(null)}
+      />
     </Paper>
   );
 };
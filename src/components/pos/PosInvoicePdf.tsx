@@ -10,6 +10,11 @@ import {
 import { OfflineSale, OfflineSaleItem } from "../../services/db";
 import { AppSettings } from "../../services/settingService";
 import { formatNumber } from "@/constants";
+import { tenderService } from "../../services/tenderService";
+import { promotionService } from "../../services/promotionService";
+import { vatService, TAX_CATEGORY_LABELS } from "../../services/vatService";
+import { zatcaService } from "../../services/zatcaService";
+import { PdfQrCode } from "./PdfQrCode";
 
 import { getPdfFont } from "@/utils/pdfFontRegistry";
 
@@ -91,6 +96,11 @@ const styles = StyleSheet.create({
     fontSize: 8,
     color: "#666",
   },
+  qr: {
+    marginTop: 8,
+    display: "flex",
+    alignItems: "center",
+  },
   sectionConfig: {
     display: "flex",
     flexDirection: "column",
@@ -117,18 +127,21 @@ export const PosInvoicePdf: React.FC<PosInvoicePdfProps> = ({
     return new Date(timestamp).toLocaleString("ar-EG");
   };
 
-  // Calculate totals
-  const subtotal = items.reduce((acc, item) => {
-    const price = Number(item.unit_price);
-    const qty = item.quantity;
-    const total = price * qty;
-    return acc + total;
-  }, 0);
+  // Calculate totals (lines after their promotion / manual discount)
+  const subtotal = items.reduce(
+    (acc, item) => acc + promotionService.getLineNet(item),
+    0
+  );
 
   const discountAmount = Number(sale.discount_amount || 0);
   const totalAmount = Number(sale.total_amount || 0);
-  const taxAmount = 0; // Assumed 0 or included
+  const vat = vatService.calculate({ ...sale, items }, settings);
+  const isTaxInvoice = zatcaService.isConfigured(settings);
+  const qrPayload = isTaxInvoice
+    ? zatcaService.buildQrPayload({ ...sale, items }, settings, vat)
+    : null;
   const currencySymbol = settings?.currency_symbol || "SDG";
+  const tender = tenderService.summarize(sale.payments || []);
 
   return (
     <Document>
@@ -154,6 +167,9 @@ export const PosInvoicePdf: React.FC<PosInvoicePdfProps> = ({
           <Text style={styles.title}>
             {settings?.company_name || "Del Pasta Invoice"}
           </Text>
+          {isTaxInvoice && (
+            <Text style={styles.subtitle}>فاتورة ضريبية مبسطة</Text>
+          )}
           {settings?.company_address && (
             <Text style={styles.subtitle}>{settings.company_address}</Text>
           )}
@@ -185,15 +201,25 @@ export const PosInvoicePdf: React.FC<PosInvoicePdfProps> = ({
 
         {/* Items */}
         {items.map((item, index) => (
-          <View key={index} style={styles.row}>
-            <Text style={styles.colName}>
-              {item.product_name || `Item ${index + 1}`}
-            </Text>
-            <Text style={styles.colQty}>{item.quantity}</Text>
-            <Text style={styles.colPrice}>
-              {formatNumber(Number(item.unit_price) * item.quantity)} {currencySymbol}
-            </Text>
-          </View>
+          <React.Fragment key={index}>
+            <View style={styles.row}>
+              <Text style={styles.colName}>
+                {item.product_name || `Item ${index + 1}`}
+              </Text>
+              <Text style={styles.colQty}>{item.quantity}</Text>
+              <Text style={styles.colPrice}>
+                {formatNumber(promotionService.getLineNet(item), 2)} {currencySymbol}
+              </Text>
+            </View>
+            {Number(item.discount_amount) > 0 && (
+              <View style={[styles.row, { fontSize: 8, color: "#444" }]}>
+                <Text style={styles.colName}>{item.promotion_name || "خصم"}</Text>
+                <Text style={styles.colPrice}>
+                  -{formatNumber(Number(item.discount_amount), 2)} {currencySymbol}
+                </Text>
+              </View>
+            )}
+          </React.Fragment>
         ))}
 
         <View style={styles.divider} />
@@ -204,27 +230,77 @@ export const PosInvoicePdf: React.FC<PosInvoicePdfProps> = ({
           <Text style={styles.value}>{formatNumber(subtotal)} {currencySymbol}</Text>
         </View>
 
-        {taxAmount > 0 && (
-          <View style={styles.row}>
-            <Text style={styles.label}>الضريبة:</Text>
-            <Text style={styles.value}>{formatNumber(taxAmount)} {currencySymbol}</Text>
-          </View>
-        )}
-
         {discountAmount > 0 && (
           <View style={styles.row}>
             <Text style={styles.label}>الخصم:</Text>
-            <Text style={styles.value}>{formatNumber(discountAmount)} {currencySymbol}</Text>
+            <Text style={styles.value}>{formatNumber(vat.enabled ? vat.discount : discountAmount, 2)} {currencySymbol}</Text>
           </View>
         )}
 
+        {/* VAT breakdown */}
+        {vat.enabled && (
+          <>
+            <View style={styles.row}>
+              <Text style={styles.label}>الإجمالي غير شامل الضريبة:</Text>
+              <Text style={styles.value}>{formatNumber(vat.net, 2)} {currencySymbol}</Text>
+            </View>
+            {vat.groups.map((group) => (
+              <View key={`${group.category}-${group.rate}`} style={styles.row}>
+                <Text style={styles.label}>
+                  {group.category === "S"
+                    ? `ضريبة القيمة المضافة ${group.rate}%:`
+                    : `${TAX_CATEGORY_LABELS[group.category]}:`}
+                </Text>
+                <Text style={styles.value}>
+                  {formatNumber(group.category === "S" ? group.tax : group.taxable, 2)} {currencySymbol}
+                </Text>
+              </View>
+            ))}
+          </>
+        )}
+
         <View style={[styles.totalRow, { fontSize: 14 }]}>
           <Text style={styles.label}>الإجمالي:</Text>
-          <Text style={styles.value}>{formatNumber(totalAmount)} {currencySymbol}</Text>
+          <Text style={styles.value}>{formatNumber(vat.enabled ? vat.gross : totalAmount, 2)} {currencySymbol}</Text>
         </View>
 
+        {/* Tender: paid / received / change */}
+        {tender.applied > 0 && (
+          <>
+            <View style={styles.row}>
+              <Text style={styles.label}>المدفوع:</Text>
+              <Text style={styles.value}>{formatNumber(tender.applied, 2)} {currencySymbol}</Text>
+            </View>
+            {tender.rounding !== 0 && (
+              <View style={styles.row}>
+                <Text style={styles.label}>تقريب:</Text>
+                <Text style={styles.value}>{formatNumber(tender.rounding, 2)} {currencySymbol}</Text>
+              </View>
+            )}
+            {tender.tendered !== tender.applied && (
+              <View style={styles.row}>
+                <Text style={styles.label}>المستلم:</Text>
+                <Text style={styles.value}>{formatNumber(tender.tendered, 2)} {currencySymbol}</Text>
+              </View>
+            )}
+            {tender.change > 0 && (
+              <View style={[styles.row, { fontWeight: "bold" }]}>
+                <Text style={styles.label}>الباقي:</Text>
+                <Text style={styles.value}>{formatNumber(tender.change, 2)} {currencySymbol}</Text>
+              </View>
+            )}
+          </>
+        )}
+
         <View style={styles.divider} />
 
+        {/* E-invoice QR (seller, VAT number, time, total, VAT) */}
+        {qrPayload && (
+          <View style={styles.qr}>
+            <PdfQrCode value={qrPayload} size={110} />
+          </View>
+        )}
+
         {/* Footer */}
         <View style={styles.footer}>
           <Text>شكراً لزيارتكم</Text>
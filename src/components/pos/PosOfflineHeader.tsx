@@ -1,4 +1,4 @@
-import React, { useRef, useState } from "react";
+import React, { useMemo, useRef, useState } from "react";
 import {
   AppBar,
   Toolbar,
@@ -10,6 +10,8 @@ import {
   Autocomplete,
   Tooltip,
   CircularProgress,
+  LinearProgress,
+  Chip,
   useTheme,
   alpha,
 } from "@mui/material";
@@ -25,9 +27,18 @@ import {
   Wifi,
   WifiOff,
   Calculator,
+  AlertTriangle,
+  Banknote,
 } from "lucide-react";
 import { Product } from "../../services/productService";
+import variantService from "../../services/variantService";
+import { SyncAction } from "../../services/db";
+import { CatalogSyncProgress } from "../../services/offlineSaleService";
+import { productSearchIndex } from "../../services/productSearchIndex";
+import { normalizeArabic, normalizeCode } from "../../utils/arabicSearch";
+import { getProductCodes, matchBarcode } from "../../utils/productBarcodes";
 import { formatNumber } from "@/constants";
+import { VariantPickerDialog } from "./VariantPickerDialog";
 
 interface Shift {
   id: number;
@@ -41,12 +52,15 @@ interface PosOfflineHeaderProps {
   isOnline: boolean;
   isSyncing: boolean;
   onTriggerSync: () => void;
+  failedSyncActions?: SyncAction[]; // Dead-lettered actions awaiting manual retry
+  onRetryFailedSync?: () => void;
 
   // Shift Management
   shift: Shift | null;
   shiftLoading: boolean;
   onOpenShift: () => void;
   onCloseShift: () => void;
+  onCashMovement?: () => void; // Cash drop / pay-out / cash-in on the drawer
   selectedShiftId: number | null;
   availableShiftIds: number[];
   onShiftSelect: (id: number | null) => void;
@@ -59,11 +73,17 @@ interface PosOfflineHeaderProps {
 
   // Search / Cart
   products: Product[];
-  onAddToCart: (product: Product) => void;
+  onAddToCart: (
+    product: Product,
+    unitType?: "stocking" | "sellable",
+    quantity?: number
+  ) => void;
+  onBarcodeLookup?: (code: string) => Promise<Product | undefined>; // Scanner codes not in `products`
   onNewSale: () => void;
   onPaymentShortcut: () => void; // Trigger for '+' key (opens payment dialog)
   isSaleSelected: boolean;
   isPageLoading?: boolean; // Page loading state to disable PDF button
+  catalogSyncProgress?: CatalogSyncProgress | null; // Products/clients cache refresh
   // Drawer
   onDrawerToggle?: () => void;
   onShowSummary?: () => void;
@@ -82,10 +102,13 @@ export const PosOfflineHeader = React.forwardRef<
       isOnline,
       isSyncing,
       onTriggerSync,
+      failedSyncActions = [],
+      onRetryFailedSync,
       shift,
       shiftLoading,
       onOpenShift,
       onCloseShift,
+      onCashMovement,
       selectedShiftId,
       availableShiftIds,
       onShiftSelect,
@@ -93,6 +116,7 @@ export const PosOfflineHeader = React.forwardRef<
       onDateSelect,
       products,
       onAddToCart,
+      onBarcodeLookup,
       onNewSale,
       onPaymentShortcut,
       isSaleSelected,
@@ -100,6 +124,7 @@ export const PosOfflineHeader = React.forwardRef<
       onPrintShiftReport,
       onShowSummary,
       isPageLoading = false,
+      catalogSyncProgress = null,
       posMode = "shift",
     },
     ref
@@ -108,6 +133,61 @@ export const PosOfflineHeader = React.forwardRef<
     const inputRef = useRef<HTMLInputElement>(null);
     const [inputValue, setInputValue] = useState("");
     const [autocompleteOpen, setAutocompleteOpen] = useState(false);
+    const [variantParent, setVariantParent] = useState<Product | null>(null);
+
+    const visibleOptionCount = useRef(0);
+
+    // O(1) scanner lookups by normalized SKU/barcode
+    const productsByCode = useMemo(() => {
+      const map = new Map<string, Product>();
+      products.forEach((p) => {
+        getProductCodes(p).forEach((code) => {
+          if (!map.has(code)) map.set(code, p);
+        });
+      });
+      return map;
+    }, [products]);
+
+    const productsById = useMemo(
+      () => new Map(products.map((p) => [p.id, p])),
+      [products]
+    );
+
+    const parentVariants = useMemo(
+      () => (variantParent ? variantService.findVariants(variantParent, products) : []),
+      [variantParent, products]
+    );
+
+    // A parent with variants is not sold itself, pick the variant first
+    const addProduct = (product: Product) => {
+      if (product.has_variants) setVariantParent(product);
+      else onAddToCart(product);
+    };
+
+    const handleVariantSelect = (variant: Product) => {
+      setVariantParent(null);
+      onAddToCart(variant);
+      setTimeout(() => {
+        inputRef.current?.focus();
+      }, 100);
+    };
+
+    const handleScannedCode = async (code: string) => {
+      const product =
+        productsByCode.get(normalizeCode(code)) ??
+        (await onBarcodeLookup?.(code.trim()));
+      if (!product) return false;
+      if (product.has_variants) {
+        setVariantParent(product);
+      } else {
+        // A box/carton barcode adds its unit and quantity
+        const match = matchBarcode(product, code);
+        onAddToCart(product, match.unit_type, match.quantity);
+      }
+      setInputValue("");
+      setAutocompleteOpen(false); // Close dropdown
+      return true;
+    };
 
     React.useImperativeHandle(ref, () => ({
       focusSearch: () => {
@@ -220,7 +300,7 @@ export const PosOfflineHeader = React.forwardRef<
                 )}
                 onChange={(_, newValue) => {
                   if (newValue) {
-                    onAddToCart(newValue);
+                    addProduct(newValue);
                     setInputValue("");
                     // Keep focus
                     setTimeout(() => {
@@ -280,18 +360,16 @@ export const PosOfflineHeader = React.forwardRef<
                         return;
                       }
                       if (e.key === "Enter" && inputValue) {
-                        const exactMatch = products.find(
-                          (p) =>
-                            p.sku === inputValue || p.sku === inputValue.trim()
-                        );
-                        if (exactMatch) {
-                          onAddToCart(exactMatch);
-                          setInputValue("");
-                          setAutocompleteOpen(false); // Close dropdown
+                        if (productsByCode.has(normalizeCode(inputValue))) {
                           e.preventDefault();
                           e.stopPropagation();
+                          handleScannedCode(inputValue);
                           return;
                         }
+                        // Nothing to pick in the dropdown: ask the offline cache
+                        if (visibleOptionCount.current === 0) {
+                          handleScannedCode(inputValue);
+                        }
                       }
                       if (params.inputProps.onKeyDown) {
                         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -325,6 +403,24 @@ export const PosOfflineHeader = React.forwardRef<
                         <Typography variant="caption" color="text.secondary">
                           {option.sku}
                         </Typography>
+                        {option.has_variants && (
+                          <Chip
+                            label={`${option.variant_count ?? ""} متغيرات`.trim()}
+                            size="small"
+                            color="secondary"
+                            variant="outlined"
+                            sx={{ ml: 1, height: 20 }}
+                          />
+                        )}
+                        {option.is_kit && (
+                          <Chip
+                            label="طقم"
+                            size="small"
+                            color="info"
+                            variant="outlined"
+                            sx={{ ml: 1, height: 20 }}
+                          />
+                        )}
                       </Box>
                       <Box sx={{ textAlign: "right" }}>
                         <Typography color="primary.main" fontWeight="bold">
@@ -374,17 +470,31 @@ export const PosOfflineHeader = React.forwardRef<
                   </li>
                 )}
                 filterOptions={(options, state) => {
-                  const val = state.inputValue.toLowerCase();
+                  const query = state.inputValue.trim();
+                  if (!query) return options;
+
+                  // Ranked, Arabic-normalized search over the offline index
+                  if (productSearchIndex.isBuilt()) {
+                    const ranked = productSearchIndex
+                      .search(query)
+                      .map((hit) => productsById.get(hit.id))
+                      .filter((p): p is Product => !!p);
+                    visibleOptionCount.current = ranked.length;
+                    return ranked;
+                  }
+
+                  const val = normalizeArabic(query);
+                  const code = normalizeCode(query);
                   const filtered = options.filter(
                     (option) =>
-                      option.name.toLowerCase().includes(val) ||
-                      (option.sku && option.sku.toLowerCase().includes(val))
+                      normalizeArabic(option.name).includes(val) ||
+                      normalizeArabic(option.scientific_name).includes(val) ||
+                      getProductCodes(option).some((c) => c.includes(code))
                   );
+                  visibleOptionCount.current = filtered.length;
                   return filtered.sort((a, b) => {
-                    const aSku = a.sku?.toLowerCase() || "";
-                    const bSku = b.sku?.toLowerCase() || "";
-                    const exactA = aSku === val;
-                    const exactB = bSku === val;
+                    const exactA = getProductCodes(a).includes(code);
+                    const exactB = getProductCodes(b).includes(code);
                     if (exactA && !exactB) return -1;
                     if (!exactA && exactB) return 1;
                     return 0;
@@ -634,6 +744,41 @@ export const PosOfflineHeader = React.forwardRef<
               </IconButton>
             </Tooltip>
 
+            {/* Failed (dead-lettered) sync actions */}
+            {failedSyncActions.length > 0 && (
+              <Tooltip
+                title={
+                  <Box>
+                    <Typography variant="caption" fontWeight={600}>
+                      فشلت مزامنة {failedSyncActions.length} عملية - اضغط لإعادة
+                      المحاولة
+                    </Typography>
+                    {failedSyncActions.slice(0, 5).map((action) => (
+                      <Typography
+                        key={action.id}
+                        variant="caption"
+                        component="div"
+                      >
+                        • {action.lastError || action.type}
+                      </Typography>
+                    ))}
+                  </Box>
+                }
+              >
+                <Button
+                  size="small"
+                  color="error"
+                  variant="outlined"
+                  onClick={onRetryFailedSync}
+                  disabled={isSyncing || !isOnline}
+                  startIcon={<AlertTriangle size={16} />}
+                  sx={{ borderRadius: 2, height: 44, fontWeight: 600 }}
+                >
+                  {failedSyncActions.length}
+                </Button>
+              </Tooltip>
+            )}
+
             {/* Calculator Summary Trigger */}
             <Tooltip title="ملخص الحسابات">
               <IconButton
@@ -779,6 +924,27 @@ export const PosOfflineHeader = React.forwardRef<
                   </Button>
                 )}
 
+                {shift && shift.is_open && onCashMovement && (
+                  <Tooltip title="حركة نقدية (سحب / مصروف / إيداع)">
+                    <IconButton
+                      onClick={onCashMovement}
+                      disabled={shiftLoading}
+                      sx={{
+                        bgcolor: alpha(theme.palette.primary.main, 0.08),
+                        color: "primary.main",
+                        border: "2px solid",
+                        borderColor: "primary.light",
+                        borderRadius: 2,
+                        width: 44,
+                        height: 44,
+                        mr: 1,
+                      }}
+                    >
+                      <Banknote size={20} />
+                    </IconButton>
+                  </Tooltip>
+                )}
+
                 {shift && shift.is_open && (
                   <Tooltip title="إغلاق الوردية">
                     <IconButton
@@ -812,6 +978,45 @@ export const PosOfflineHeader = React.forwardRef<
             )}
           </Box>
         </Toolbar>
+
+        {/* Products/clients cache refresh progress */}
+        {catalogSyncProgress && (
+          <Box sx={{ px: 2, pb: 0.5 }}>
+            <LinearProgress
+              variant={catalogSyncProgress.total ? "determinate" : "indeterminate"}
+              value={
+                catalogSyncProgress.total
+                  ? Math.min(
+                      100,
+                      (catalogSyncProgress.loaded / catalogSyncProgress.total) * 100
+                    )
+                  : undefined
+              }
+              sx={{ height: 3, borderRadius: 2 }}
+            />
+            <Typography
+              variant="caption"
+              color="text.secondary"
+              sx={{ fontSize: "0.65rem" }}
+            >
+              {catalogSyncProgress.entity === "products"
+                ? "تحديث المنتجات"
+                : "تحديث العملاء"}{" "}
+              {formatNumber(catalogSyncProgress.loaded)}
+              {catalogSyncProgress.total
+                ? ` / ${formatNumber(catalogSyncProgress.total)}`
+                : ""}
+            </Typography>
+          </Box>
+        )}
+
+        <VariantPickerDialog
+          open={Boolean(variantParent)}
+          parent={variantParent}
+          variants={parentVariants}
+          onSelect={handleVariantSelect}
+          onClose={() => setVariantParent(null)}
+        />
       </AppBar>
     );
   }
@@ -6,6 +6,11 @@ import { formatNumber } from "@/constants";
 
 import { PDF_FONTS } from "@/utils/pdfFontRegistry";
 import { AppSettings } from "../../services/settingService";
+import {
+  CashDrawerSummary,
+  CashMovement,
+  CASH_MOVEMENT_LABELS,
+} from "../../services/cashDrawerService";
 
 const styles = StyleSheet.create({
   page: {
@@ -240,6 +245,8 @@ interface PosShiftReportPdfProps {
   } | null;
   userName?: string;
   settings?: AppSettings | null;
+  drawer?: CashDrawerSummary | null; // Cash drawer session of the shift
+  cashMovements?: CashMovement[];
 }
 
 export const PosShiftReportPdf: React.FC<PosShiftReportPdfProps> = ({
@@ -247,6 +254,8 @@ export const PosShiftReportPdf: React.FC<PosShiftReportPdfProps> = ({
   shift,
   userName,
   settings,
+  drawer = null,
+  cashMovements = [],
 }) => {
   const currencySymbol = settings?.currency_symbol || "SDG";
   const formatDate = (dateStr: string | number | null) => {
@@ -427,6 +436,113 @@ export const PosShiftReportPdf: React.FC<PosShiftReportPdfProps> = ({
           </View>
         )}
 
+        {/* Cash Drawer Section */}
+        {drawer && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>درج النقدية - Cash Drawer</Text>
+            <View style={styles.summaryGrid}>
+              <View style={styles.summaryColumn}>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>العهدة الافتتاحية:</Text>
+                  <Text style={styles.summaryValue}>
+                    {formatNumber(drawer.opening_float)} {currencySymbol}
+                  </Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>مبيعات نقدية:</Text>
+                  <Text style={styles.summaryValue}>
+                    {formatNumber(drawer.cash_sales)} {currencySymbol}
+                  </Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>مرتجعات نقدية:</Text>
+                  <Text style={styles.summaryValue}>
+                    -{formatNumber(drawer.cash_refunds)} {currencySymbol}
+                  </Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>إيداعات:</Text>
+                  <Text style={styles.summaryValue}>
+                    {formatNumber(drawer.cash_in)} {currencySymbol}
+                  </Text>
+                </View>
+                <View style={[styles.summaryRow, styles.summaryRowLast]}>
+                  <Text style={styles.summaryLabel}>سحوبات ومصروفات:</Text>
+                  <Text style={styles.summaryValue}>
+                    -{formatNumber(drawer.cash_out)} {currencySymbol}
+                  </Text>
+                </View>
+              </View>
+              <View style={styles.summaryColumn}>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>النقدية المتوقعة:</Text>
+                  <Text style={styles.highlightValue}>
+                    {formatNumber(drawer.expected_cash, 2)} {currencySymbol}
+                  </Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>النقدية المعدودة:</Text>
+                  <Text style={styles.highlightValue}>
+                    {drawer.counted_cash === null
+                      ? "لم يتم الجرد"
+                      : `${formatNumber(drawer.counted_cash, 2)} ${currencySymbol}`}
+                  </Text>
+                </View>
+                <View style={[styles.summaryRow, styles.summaryRowLast]}>
+                  <Text style={styles.summaryLabel}>الزيادة / العجز:</Text>
+                  <Text
+                    style={[
+                      styles.highlightValue,
+                      {
+                        color:
+                          drawer.over_short === null || drawer.over_short === 0
+                            ? "#059669"
+                            : "#dc2626",
+                      },
+                    ]}
+                  >
+                    {drawer.over_short === null
+                      ? "-"
+                      : `${drawer.over_short > 0 ? "+" : ""}${formatNumber(
+                          drawer.over_short,
+                          2
+                        )} ${currencySymbol}`}
+                  </Text>
+                </View>
+              </View>
+            </View>
+
+            {cashMovements.length > 0 && (
+              <View style={[styles.summaryBox, { marginTop: 10 }]}>
+                {cashMovements.map((m, index, array) => (
+                  <View
+                    key={m.id}
+                    style={[
+                      styles.paymentMethodRow,
+                      index === array.length - 1
+                        ? styles.paymentMethodRowLast
+                        : {},
+                    ]}
+                  >
+                    <Text style={styles.summaryLabel}>
+                      {CASH_MOVEMENT_LABELS[m.type]} - {m.reason} (
+                      {new Date(m.created_at).toLocaleTimeString("ar-EG", {
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}
+                      )
+                    </Text>
+                    <Text style={styles.summaryValue}>
+                      {m.type === "cash_in" ? "+" : "-"}
+                      {formatNumber(m.amount)} {currencySymbol}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
+
         {/* Sales Table */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>قائمة الفواتير - Sales List</Text>
@@ -33,27 +33,60 @@ import {
 import { Close as CloseIcon } from "@mui/icons-material";
 
 // Services and Types
-import saleService, {
-  CreateSaleReturnData,
-  SaleReturnItemData,
-} from "../../services/saleService";
-import expenseService from "../../services/expenseService";
+import saleService from "../../services/saleService";
+import { OfflineSale, OfflineSaleReturn, OfflineSaleReturnItem } from "../../services/db";
+import { offlineSaleService } from "../../services/offlineSaleService";
+import { toSellableQuantity } from "../../services/stockLedgerService";
 import { formatNumber } from "@/constants";
 
 interface SaleReturnDialogProps {
   saleId: number | null;
+  sale?: OfflineSale; // POS sale; may exist only locally
   open: boolean;
   onClose: () => void;
   onSuccess?: () => void;
 }
 
+/**
+ * Return details of a POS sale from its local record. Lines get pseudo ids
+ * (line index + 1) and quantities in sellable units, less what was already
+ * returned from this terminal.
+ */
+const buildLocalSaleDetails = async (sale: OfflineSale) => {
+  const returned = await offlineSaleService.getReturnedQuantities(sale);
+  const items = sale.items.map((item, index) => {
+    const quantity = toSellableQuantity(item);
+    const lineTotal = Number(item.unit_price) * Number(item.quantity);
+    return {
+      ...item,
+      id: index + 1,
+      original_sale_item_id: item.id ?? null,
+      quantity,
+      unit_price: quantity > 0 ? lineTotal / quantity : Number(item.unit_price),
+      returnable: Math.max(0, quantity - (returned[index] || 0)),
+    };
+  });
+  return {
+    id: sale.id ?? null,
+    invoice_number: sale.invoice_number,
+    total_amount: items.reduce((sum, i) => sum + i.unit_price * i.quantity, 0),
+    discount_amount: sale.discount_amount,
+    discount_type: sale.discount_type,
+    items,
+  };
+};
+
 export const SaleReturnDialog: React.FC<SaleReturnDialogProps> = ({
   saleId,
+  sale,
   open,
   onClose,
   onSuccess,
 }) => {
   const queryClient = useQueryClient();
+  // Server details need a synced sale and a reachable backend
+  const useLocalDetails =
+    !!sale && (!sale.is_synced || !sale.id || !navigator.onLine);
 
   // State
   const [selectedItems, setSelectedItems] = useState<
@@ -79,12 +112,23 @@ export const SaleReturnDialog: React.FC<SaleReturnDialogProps> = ({
     isLoading: isLoadingDetails,
     error: saleError,
   } = useQuery({
-    queryKey: ["sale-details", saleId],
+    queryKey: useLocalDetails
+      ? ["local-sale-details", sale?.tempId]
+      : ["sale-details", saleId],
     queryFn: async () => {
+      if (useLocalDetails && sale) return await buildLocalSaleDetails(sale);
       if (!saleId) return null;
-      return await saleService.getSale(saleId);
+      const details = await saleService.getSale(saleId);
+      return {
+        ...details,
+        items: details.items?.map((item) => ({
+          ...item,
+          original_sale_item_id: item.id ?? null,
+          returnable: item.quantity, // Ideally calculate based on previously returned
+        })),
+      };
     },
-    enabled: !!saleId && open,
+    enabled: (useLocalDetails || !!saleId) && open,
   });
 
   // Reset state when dialog opens/closes
@@ -100,7 +144,7 @@ export const SaleReturnDialog: React.FC<SaleReturnDialogProps> = ({
 
   // Handlers
   const handleItemToggle = (item: any) => {
-    if (!item.id) return;
+    if (!item.id || item.returnable <= 0) return;
 
     setSelectedItems((prev) => {
       const newItems = { ...prev };
@@ -110,7 +154,7 @@ export const SaleReturnDialog: React.FC<SaleReturnDialogProps> = ({
         newItems[item.id] = {
           quantity: 1,
           condition: "resellable",
-          maxReturnable: item.quantity, // Ideally calculate based on previously returned
+          maxReturnable: item.returnable,
         };
       }
       return newItems;
@@ -178,40 +222,22 @@ export const SaleReturnDialog: React.FC<SaleReturnDialogProps> = ({
     return { grossReturn, discountAdjustment, netRefund };
   }, [saleDetails, selectedItems]);
 
+  // Recorded locally and synced through the queue; the refund expense is
+  // created by the sync engine once the server has the return.
   const createReturnMutation = useMutation({
-    mutationFn: async (data: CreateSaleReturnData) => {
-      return await saleService.createSaleReturn(data);
+    mutationFn: async (
+      data: Omit<OfflineSaleReturn, "tempId" | "offline_created_at" | "is_synced">
+    ) => {
+      return await offlineSaleService.createSaleReturn(data);
     },
-    onSuccess: async (returnedSale) => {
-      toast.success("تم إنشاء طلب الإرجاع بنجاح");
-
-      // Create expense if refund was selected
-      if (creditAction === "refund" && refundBreakdown.netRefund > 0) {
-        try {
-          await expenseService.createExpense({
-            title: `إرجاع مبيعات - فاتورة #${
-              saleDetails?.invoice_number || saleId
-            }`,
-            amount: refundBreakdown.netRefund,
-            expense_date: new Date().toISOString().split("T")[0],
-            payment_method: paymentMethod,
-            description: `إرجاع أصناف من الفاتورة رقم ${
-              saleDetails?.invoice_number
-            }. سبب الإرجاع: ${returnReason || "غير محدد"}. رقم عملية الإرجاع: ${
-              returnedSale.id
-            }`,
-            reference: `SALE-RETURN-${returnedSale.id}`,
-          });
-          toast.info("تم تسجيل مصروف الإرجاع بنجاح");
-        } catch (expenseError) {
-          console.error(
-            "Failed to create expense for sale return:",
-            expenseError
-          );
-          toast.error("تم الإرجاع ولكن فشل تسجيل المصروف");
-        }
+    onSuccess: async (saleReturn) => {
+      if (saleReturn.is_synced) {
+        toast.success("تم إنشاء طلب الإرجاع بنجاح");
+      } else {
+        toast.info("تم حفظ الإرجاع محلياً وسيتم مزامنته عند الاتصال");
       }
 
+      queryClient.invalidateQueries({ queryKey: ["local-sale-details"] });
       queryClient.invalidateQueries({ queryKey: ["sale-returns"] }); // Invalidate returns list
       queryClient.invalidateQueries({ queryKey: ["sales"] }); // Invalidate sales list (for POS/Reports)
       if (onSuccess) onSuccess();
@@ -227,12 +253,13 @@ export const SaleReturnDialog: React.FC<SaleReturnDialogProps> = ({
   const handleSubmit = () => {
     if (!saleDetails) return;
 
-    const itemsToReturn: SaleReturnItemData[] = [];
+    const itemsToReturn: OfflineSaleReturnItem[] = [];
     let isValid = true;
 
     Object.entries(selectedItems).forEach(([itemIdStr, data]) => {
       const itemId = Number(itemIdStr);
-      const originalItem = saleDetails.items?.find((i) => i.id === itemId);
+      const lineIndex = saleDetails.items?.findIndex((i) => i.id === itemId) ?? -1;
+      const originalItem = saleDetails.items?.[lineIndex];
 
       if (!originalItem || !originalItem.id) {
         isValid = false;
@@ -240,11 +267,13 @@ export const SaleReturnDialog: React.FC<SaleReturnDialogProps> = ({
       }
 
       itemsToReturn.push({
-        original_sale_item_id: originalItem.id,
+        original_sale_item_id: originalItem.original_sale_item_id,
+        line_index: lineIndex,
         product_id: originalItem.product_id,
+        purchase_item_id: originalItem.purchase_item_id || null,
         quantity_returned: data.quantity,
+        unit_price: Number(originalItem.unit_price),
         condition: data.condition,
-        return_to_purchase_item_id: originalItem.purchase_item_id || null,
       });
     });
 
@@ -253,13 +282,17 @@ export const SaleReturnDialog: React.FC<SaleReturnDialogProps> = ({
       return;
     }
 
-    const payload: CreateSaleReturnData = {
-      original_sale_id: saleDetails.id,
+    const payload = {
+      sale_tempId: sale?.tempId ?? null,
+      original_sale_id: saleDetails.id ?? null,
+      invoice_number: saleDetails.invoice_number ?? null,
+      shift_id: sale?.shift_id ?? null,
+      warehouse_id: sale?.warehouse_id ?? null,
       return_date: new Date().toISOString().split("T")[0],
       return_reason: returnReason || "لا يوجد سبب محدد (POS)",
       notes: notes,
-      status: "completed",
       credit_action: creditAction,
+      refund_payment_method: paymentMethod,
       refunded_amount: refundBreakdown.netRefund,
       items: itemsToReturn,
     };
@@ -330,7 +363,7 @@ export const SaleReturnDialog: React.FC<SaleReturnDialogProps> = ({
                       const selection = selectedItems[item.id!] || {
                         quantity: 1,
                         condition: "resellable",
-                        maxReturnable: item.quantity,
+                        maxReturnable: item.returnable,
                       };
 
                       return (
@@ -338,6 +371,7 @@ export const SaleReturnDialog: React.FC<SaleReturnDialogProps> = ({
                           <TableCell padding="checkbox">
                             <Checkbox
                               checked={isSelected}
+                              disabled={item.returnable <= 0}
                               onChange={() => handleItemToggle(item)}
                             />
                           </TableCell>
@@ -25,6 +25,7 @@ import {
 import { CartItem, Sale } from "./types";
 import { formatNumber, preciseSum, preciseCalculation } from "@/constants";
 import saleService from "../../services/saleService";
+import { promotionService } from "../../services/promotionService";
 
 // Import the new dialogs
 import { PaymentDialog } from "./PaymentDialog";
@@ -88,8 +89,9 @@ export const SaleSummaryColumn: React.FC<SaleSummaryColumnProps> = ({
   // Determine which items to use for calculations
   const itemsToUse = saleId && saleInfo ? saleInfo.items : currentSaleItems;
   
-  // Calculate totals
+  // Calculate totals (item totals are after their promotion / manual discount)
   const subtotal = preciseSum(itemsToUse.map(item => item.total), 2);
+  const lineDiscountTotal = preciseSum(itemsToUse.map(item => item.discountAmount || 0), 2);
   
   // Calculate discount
   const discountValue = discountType === 'percentage' 
@@ -148,7 +150,9 @@ export const SaleSummaryColumn: React.FC<SaleSummaryColumnProps> = ({
           },
           quantity: item.quantity,
           unitPrice: Number(item.unit_price),
-          total: Number(item.total_price || item.quantity * Number(item.unit_price))
+          total: Number(item.total_price || promotionService.getLineNet(item)),
+          discountAmount: Number(item.discount_amount) || 0,
+          promotionName: item.promotion_name ?? null
         })) || [],
         payments: saleData.payments?.map((payment: import('../../services/saleService').Payment) => ({
           id: payment.id,
@@ -238,7 +242,9 @@ export const SaleSummaryColumn: React.FC<SaleSummaryColumnProps> = ({
             },
             quantity: item.quantity,
             unitPrice: Number(item.unit_price),
-            total: Number(item.total_price || item.quantity * Number(item.unit_price)),
+            total: Number(item.total_price || promotionService.getLineNet(item)),
+            discountAmount: Number(item.discount_amount) || 0,
+            promotionName: item.promotion_name ?? null,
           })),
           payments: (updatedSale.payments || []).map((payment: any) => ({
             id: payment.id,
@@ -457,10 +463,21 @@ export const SaleSummaryColumn: React.FC<SaleSummaryColumnProps> = ({
                     العناصر ({itemsToUse.length})
                   </Typography>
                   <Typography variant="body2" fontWeight="medium">
-                    {formatNumber(subtotal)}
+                    {formatNumber(preciseCalculation(subtotal, lineDiscountTotal, 'add', 2))}
                   </Typography>
                 </Box>
 
+                {lineDiscountTotal > 0 && (
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <Typography variant="body2" color="text.secondary">
+                      العروض وخصومات الأصناف
+                    </Typography>
+                    <Typography variant="body2" fontWeight="medium" color="error.main">
+                      -{formatNumber(lineDiscountTotal, 2)}
+                    </Typography>
+                  </Box>
+                )}
+
                 {/* Discount row with button */}
                 <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -0,0 +1,161 @@
+// src/components/pos/VariantPickerDialog.tsx
+import React, { useEffect, useState } from "react";
+
+// MUI Components
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Chip,
+  List,
+  ListItemButton,
+  Typography,
+  CircularProgress,
+  Alert,
+} from "@mui/material";
+
+// Types
+import { Product } from "../../services/productService";
+import variantService from "../../services/variantService";
+import { formatNumber } from "@/constants";
+
+interface VariantPickerDialogProps {
+  open: boolean;
+  parent: Product | null;
+  variants?: Product[]; // Already loaded (offline catalog), fetched otherwise
+  onSelect: (variant: Product) => void;
+  onClose: () => void;
+}
+
+/**
+ * Picks the size/color/strength of a product with variants before adding it to the sale.
+ */
+export const VariantPickerDialog: React.FC<VariantPickerDialogProps> = ({
+  open,
+  parent,
+  variants,
+  onSelect,
+  onClose,
+}) => {
+  const [loaded, setLoaded] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!open || !parent) return;
+    setFilters({});
+    setError(null);
+    if (variants) return;
+
+    setLoading(true);
+    variantService
+      .getVariants(parent.id)
+      .then((data) => setLoaded(data.filter((v) => v.is_active !== false)))
+      .catch(() => setError("فشل في تحميل المتغيرات"))
+      .finally(() => setLoading(false));
+  }, [open, parent, variants]);
+
+  if (!parent) return null;
+
+  const attributes = parent.variant_attributes ?? [];
+  const options = (variants ?? loaded).filter((variant) =>
+    Object.entries(filters).every(([name, value]) => variant.variant_values?.[name] === value)
+  );
+
+  const toggleFilter = (name: string, value: string) =>
+    setFilters((prev) => {
+      const next = { ...prev };
+      if (next[name] === value) delete next[name];
+      else next[name] = value;
+      return next;
+    });
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        اختر المتغير
+        <Typography variant="body2" color="text.secondary">
+          {parent.name}
+        </Typography>
+      </DialogTitle>
+      <DialogContent dividers>
+        {attributes.map((attribute) => (
+          <Box key={attribute.name} sx={{ mb: 1.5 }}>
+            <Typography variant="caption" color="text.secondary" sx={{ display: "block", mb: 0.5 }}>
+              {attribute.name}
+            </Typography>
+            <Box sx={{ display: "flex", flexWrap: "wrap", gap: 0.75 }}>
+              {attribute.values.map((value) => (
+                <Chip
+                  key={value}
+                  label={value}
+                  size="small"
+                  color={filters[attribute.name] === value ? "primary" : "default"}
+                  variant={filters[attribute.name] === value ? "filled" : "outlined"}
+                  onClick={() => toggleFilter(attribute.name, value)}
+                />
+              ))}
+            </Box>
+          </Box>
+        ))}
+
+        {loading ? (
+          <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+            <CircularProgress size={28} />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : options.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ textAlign: "center", py: 3 }}>
+            لا توجد متغيرات مطابقة
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {options.map((variant, index) => {
+              const stock = Number(variant.current_stock_quantity ?? variant.stock_quantity) || 0;
+              const price = Number(
+                variant.last_sale_price_per_sellable_unit ??
+                  variant.suggested_sale_price_per_sellable_unit ??
+                  0
+              );
+              return (
+                <ListItemButton
+                  key={variant.id}
+                  autoFocus={index === 0}
+                  onClick={() => onSelect(variant)}
+                  sx={{ borderRadius: 1, mb: 0.5, border: 1, borderColor: "divider" }}
+                >
+                  <Box sx={{ display: "flex", justifyContent: "space-between", width: "100%", gap: 2 }}>
+                    <Box>
+                      <Typography variant="body2" fontWeight="bold">
+                        {variantService.formatValues(variant.variant_values, attributes) || variant.name}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {variant.sku}
+                      </Typography>
+                    </Box>
+                    <Box sx={{ textAlign: "right" }}>
+                      <Typography variant="body2" color="primary.main" fontWeight="bold">
+                        {formatNumber(price)}
+                      </Typography>
+                      <Typography variant="caption" color={stock > 0 ? "text.secondary" : "error.main"}>
+                        {stock > 0 ? `المخزون: ${formatNumber(stock)}` : "نفذت الكمية"}
+                      </Typography>
+                    </Box>
+                  </Box>
+                </ListItemButton>
+              );
+            })}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>إلغاء</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
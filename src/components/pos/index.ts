@@ -17,4 +17,5 @@ export { PosPdfDialog } from './PosPdfDialog';
 export { InvoicePdfDialog } from './InvoicePdfDialog';
 export { ThermalInvoiceDialog } from './ThermalInvoiceDialog';
 export { BatchSelectionDialog } from './BatchSelectionDialog';
+export { VariantPickerDialog } from './VariantPickerDialog';
 export * from './types'; 
\ No newline at end of file
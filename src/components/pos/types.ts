@@ -1,5 +1,6 @@
 // src/components/pos/types.ts
 import { Product } from "../../services/productService";
+import type { LineDiscountSource } from "../../services/promotionService";
 
 // Cart Item Type
 export interface CartItem {
@@ -7,8 +8,14 @@ export interface CartItem {
   product: Product;
   quantity: number; // Quantity in the selected unit type
   unitPrice: number; // Price per selected unit type
-  total: number;
+  total: number; // After the line discount
+  discountAmount?: number; // Line discount (promotion or manual)
+  discountSource?: LineDiscountSource | null;
+  promotionId?: number | null;
+  promotionName?: string | null;
+  listPrice?: number | null; // Automatic (price list) price; unitPrice differs when overridden
   unitType?: 'stocking' | 'sellable'; // Unit type: 'stocking' for boxes, 'sellable' for pieces
+  unitId?: number | null; // Other unit of the product's chain (e.g. strip); overrides unitType
   selectedBatchId?: number | null; // ID of the selected purchase batch
   selectedBatchNumber?: string | null; // Batch number for display
   selectedBatchExpiryDate?: string | null; // Expiry date of selected batch
@@ -43,6 +50,7 @@ export interface Sale {
   total_amount: number;
   paid_amount: number;
   due_amount?: number;
+  price_list_id?: number | null; // Price list the sale was priced with
   notes?: string | null;
   created_at: string;
   updated_at?: string;
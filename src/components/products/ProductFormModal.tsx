@@ -1,6 +1,6 @@
 // src/components/products/ProductFormModal.tsx
 import React, { useEffect, useState, useCallback } from "react";
-import { useForm, Controller } from "react-hook-form";
+import { useForm, Controller, useFieldArray } from "react-hook-form";
 import { toast } from "sonner";
 
 // MUI components
@@ -17,6 +17,7 @@ import {
   Autocomplete,
   Paper,
   IconButton,
+  MenuItem,
 } from "@mui/material";
 import {
   Loader2,
@@ -25,20 +26,34 @@ import {
   Plus,
   Upload,
   X,
+  Trash2,
   Image as ImageIcon,
 } from "lucide-react";
 
 // Services and Types
 import productService, {
   Product,
+  ProductBarcode,
   ProductFormData,
+  ProductUnit,
+  TaxCategory,
 } from "../../services/productService";
+import { TAX_CATEGORY_LABELS } from "@/services/vatService";
+import { dbService } from "@/services/db";
 import categoryService, { Category } from "@/services/CategoryService";
 import unitService, { Unit } from "@/services/UnitService";
 import { generateRandomSKU } from "@/lib/utils";
+import { normalizeCode } from "@/utils/arabicSearch";
+import { findDuplicateCodes } from "@/utils/productBarcodes";
+import { getUnitChain, validateUnitChain } from "@/utils/productUnits";
 import CategoryFormModal from "@/components/admin/users/categories/CategoryFormModal";
 import UnitFormModal from "@/components/admin/users/units/UnitFormModal";
 import { ProductImage } from "./ProductImage";
+import { ProductVariantsEditor } from "./ProductVariantsEditor";
+import { ProductKitEditor } from "./ProductKitEditor";
+import { ProductUnitsEditor } from "./ProductUnitsEditor";
+import variantService, { EMPTY_VARIANT_SETUP, VariantSetup } from "@/services/variantService";
+import kitService, { EMPTY_KIT_SETUP, KitSetup } from "@/services/kitService";
 import apiClient from "@/lib/axios";
 
 // --- Component Props & Types ---
@@ -50,9 +65,15 @@ type ProductFormValues = {
   stocking_unit_id: string;
   sellable_unit_id: string;
   units_per_stocking_unit: number;
+  units: ProductUnit[]; // Empty = sellable and stocking units only
   category_id: string;
   stock_quantity: number;
   stock_alert_level: number | null;
+  tax_category: TaxCategory | ""; // Empty = as the product category
+  tax_rate: number | null; // Empty = category / default VAT rate
+  barcodes: ProductBarcode[];
+  variants: VariantSetup;
+  kit: KitSetup;
 };
 
 interface ProductFormModalProps {
@@ -88,6 +109,7 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({
   const [isStockingUnitModalOpen, setIsStockingUnitModalOpen] = useState(false);
   const [isSellableUnitModalOpen, setIsSellableUnitModalOpen] = useState(false);
   const [uploadingImage, setUploadingImage] = useState(false);
+  const [loadingVariants, setLoadingVariants] = useState(false);
 
   // --- React Hook Form Setup ---
   const form = useForm<ProductFormValues>({
@@ -101,9 +123,15 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({
       stocking_unit_id: "",
       sellable_unit_id: "",
       units_per_stocking_unit: 1,
+      units: [],
       category_id: "",
       stock_quantity: 0,
       stock_alert_level: 10,
+      tax_category: "",
+      tax_rate: null,
+      barcodes: [],
+      variants: EMPTY_VARIANT_SETUP,
+      kit: EMPTY_KIT_SETUP,
     },
   });
 
@@ -112,10 +140,75 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({
     control,
     reset,
     setValue,
+    getValues,
     formState: { isSubmitting },
     setError,
   } = form;
 
+  const variantsEnabled = form.watch("variants.enabled");
+  const kitEnabled = form.watch("kit.enabled");
+  const isVariant = Boolean(productToEdit?.parent_id);
+
+  const allUnits = [
+    ...sellableUnits,
+    ...stockingUnits.filter((u) => !sellableUnits.some((s) => s.id === u.id)),
+  ];
+  const unitName = (unitId: string) => allUnits.find((u) => String(u.id) === unitId)?.name;
+
+  // The chain must agree with the sellable/stocking fields
+  const validateUnits = (units: ProductUnit[]) => {
+    if (units.length === 0) return true;
+    const error = validateUnitChain(units);
+    if (error) return error;
+    const { sellable_unit_id, stocking_unit_id, units_per_stocking_unit } = getValues();
+    if (
+      sellable_unit_id &&
+      !units.some((u) => String(u.unit_id) === sellable_unit_id && Number(u.factor) === 1)
+    ) {
+      return "يجب أن تحتوي السلسلة على وحدة البيع بمعامل 1";
+    }
+    const stocking = units.find((u) => String(u.unit_id) === stocking_unit_id);
+    if (stocking && Number(stocking.factor) !== Number(units_per_stocking_unit)) {
+      return "معامل وحدة التخزين يجب أن يساوي عدد الوحدات في وحدة التخزين";
+    }
+    return true;
+  };
+
+  const {
+    fields: barcodeFields,
+    append: appendBarcode,
+    remove: removeBarcode,
+  } = useFieldArray({ control, name: "barcodes" });
+
+  // Another product using the code: asked to the server, else looked up in the cached catalog
+  const findCodeOwner = async (code: string): Promise<Product | null> => {
+    const isOther = (p: Product | null | undefined): p is Product =>
+      !!p && p.id !== productToEdit?.id;
+    try {
+      const owner = await productService.findByBarcode(code);
+      return isOther(owner) ? owner : null;
+    } catch {
+      const cached = await dbService.getProductsByCode(code).catch(() => []);
+      return cached.find(isOther) ?? null;
+    }
+  };
+
+  // Unique within the form (SKU included) and not used by another product
+  const validateCode = async (value: string | null | undefined, label: string) => {
+    const { sku, barcodes } = getValues();
+    if (findDuplicateCodes([sku, ...barcodes.map((b) => b.barcode)]).has(normalizeCode(value))) {
+      return `${label} مكرر في هذا المنتج`;
+    }
+    const owner = await findCodeOwner(String(value).trim());
+    return owner ? `${label} مستخدم للمنتج: ${owner.name}` : true;
+  };
+
+  const validateBarcode = (value: string) =>
+    normalizeCode(value) ? validateCode(value, "الباركود") : "أدخل الباركود";
+
+  const validateSku = (value: string) =>
+    normalizeCode(value) ? validateCode(value, "الرمز") : true;
+
   // --- Fetch Categories for Dropdown ---
   const fetchCategoriesForSelect = useCallback(async () => {
     setLoadingCategories(true);
@@ -207,12 +300,32 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({
             ? String(productToEdit.sellable_unit_id)
             : "",
           units_per_stocking_unit: productToEdit.units_per_stocking_unit || 1,
+          units: productToEdit.units ?? [],
           category_id: productToEdit.category_id
             ? String(productToEdit.category_id)
             : "",
           stock_quantity: Number(productToEdit.stock_quantity) || 0,
           stock_alert_level: productToEdit.stock_alert_level || 10,
+          tax_category: productToEdit.tax_category || "",
+          tax_rate: productToEdit.tax_rate ?? null,
+          barcodes: productToEdit.barcodes ?? [],
+          variants: EMPTY_VARIANT_SETUP,
+          kit: {
+            enabled: Boolean(productToEdit.is_kit),
+            components: productToEdit.kit_components ?? [],
+          },
         });
+
+        if (productToEdit.has_variants) {
+          setLoadingVariants(true);
+          variantService
+            .getVariants(productToEdit.id)
+            .then((variants) =>
+              setValue("variants", variantService.fromVariants(productToEdit, variants))
+            )
+            .catch(() => setServerError("فشل في تحميل متغيرات المنتج"))
+            .finally(() => setLoadingVariants(false));
+        }
       } else {
         reset({
           name: "",
@@ -223,8 +336,14 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({
           stocking_unit_id: "",
           sellable_unit_id: "",
           units_per_stocking_unit: 1,
+          units: [],
           stock_quantity: 0,
           stock_alert_level: 10,
+          tax_category: "",
+          tax_rate: null,
+          barcodes: [],
+          variants: EMPTY_VARIANT_SETUP,
+          kit: EMPTY_KIT_SETUP,
         });
       }
     }
@@ -233,6 +352,7 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({
     isEditMode,
     productToEdit,
     reset,
+    setValue,
     fetchCategoriesForSelect,
     fetchUnitsForSelect,
   ]);
@@ -260,8 +380,39 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({
       stock_alert_level: data.stock_alert_level
         ? Number(data.stock_alert_level)
         : null,
+      tax_category: data.tax_category || null,
+      tax_rate:
+        (data.tax_category === "" || data.tax_category === "S") &&
+        data.tax_rate != null
+          ? Number(data.tax_rate)
+          : null,
+      barcodes: data.barcodes.map((b) => ({
+        ...b,
+        barcode: b.barcode.trim(),
+        quantity: Number(b.quantity) || 1,
+      })),
     };
 
+    if (isEditMode || data.units.length) {
+      dataToSend.units = data.units.map((u) => ({ ...u, factor: Number(u.factor) }));
+    }
+
+    if (data.variants.enabled) {
+      // The parent is not sold itself, stock lives on the variants
+      dataToSend.stock_quantity = 0;
+      dataToSend.variant_attributes = variantService
+        .usableAttributes(data.variants.attributes)
+        .map((a) => ({ name: a.name.trim(), values: a.values }));
+      dataToSend.variants = variantService.toPayload(data.variants);
+    }
+
+    if (isEditMode || data.kit.enabled) {
+      // A kit's stock is computed from its components
+      dataToSend.is_kit = data.kit.enabled;
+      dataToSend.kit_components = data.kit.enabled ? kitService.toPayload(data.kit) : [];
+      if (data.kit.enabled) dataToSend.stock_quantity = 0;
+    }
+
     try {
       let savedProduct: Product;
       if (isEditMode && productToEdit) {
@@ -365,6 +516,12 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({
             </Alert>
           )}
 
+          {isVariant && (
+            <Alert severity="info" sx={{ mb: 3, borderRadius: 2 }}>
+              هذا المنتج متغير من: {productToEdit?.parent_name}
+            </Alert>
+          )}
+
           {/* --- Basic Product Information Section --- */}
           <Paper
             elevation={0}
@@ -447,6 +604,7 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({
               <Controller
                 control={control}
                 name="sku"
+                rules={{ validate: validateSku }}
                 render={({ field, fieldState }) => (
                   <Box
                     sx={{ display: "flex", gap: 1, alignItems: "flex-start" }}
@@ -888,12 +1046,16 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({
                     fullWidth
                     size="small"
                     inputProps={{ min: 0, step: 1 }}
-                    disabled={isSubmitting}
+                    disabled={isSubmitting || variantsEnabled || kitEnabled}
                     onFocus={(e) => e.target.select()}
                     onChange={(e) => field.onChange(Number(e.target.value))}
                     helperText={
                       fieldState.error?.message ||
-                      "الكمية الحالية من المنتج في المخزون (بوحدة البيع)"
+                      (variantsEnabled
+                        ? "المخزون يُدار لكل متغير على حدة"
+                        : kitEnabled
+                        ? "مخزون الطقم يُحسب من مخزون مكوناته"
+                        : "الكمية الحالية من المنتج في المخزون (بوحدة البيع)")
                     }
                     error={!!fieldState.error}
                   />
@@ -937,6 +1099,338 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({
             </Box>
           </Paper>
 
+          {/* --- Unit Chain Section --- */}
+          <Paper
+            elevation={0}
+            sx={{
+              p: 3,
+              mb: 3,
+              bgcolor: "background.paper",
+              border: 1,
+              borderColor: "divider",
+              borderRadius: 2,
+            }}
+          >
+            <Controller
+              control={control}
+              name="units"
+              rules={{ validate: validateUnits }}
+              render={({ field, fieldState }) => (
+                <ProductUnitsEditor
+                  value={field.value}
+                  onChange={field.onChange}
+                  units={allUnits}
+                  baseChain={getUnitChain({
+                    sellable_unit_id: Number(form.watch("sellable_unit_id")) || null,
+                    sellable_unit_name: unitName(form.watch("sellable_unit_id")),
+                    stocking_unit_id: Number(form.watch("stocking_unit_id")) || null,
+                    stocking_unit_name: unitName(form.watch("stocking_unit_id")),
+                    units_per_stocking_unit: Number(form.watch("units_per_stocking_unit")) || 1,
+                  })}
+                  sellableUnitName={unitName(form.watch("sellable_unit_id"))}
+                  disabled={isSubmitting || loadingUnits}
+                  error={fieldState.error?.message}
+                />
+              )}
+            />
+          </Paper>
+
+          {/* --- Barcodes Section --- */}
+          <Paper
+            elevation={0}
+            sx={{
+              p: 3,
+              mb: 3,
+              bgcolor: "background.paper",
+              border: 1,
+              borderColor: "divider",
+              borderRadius: 2,
+            }}
+          >
+            <Box
+              sx={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+                mb: 2.5,
+              }}
+            >
+              <Box>
+                <Typography
+                  variant="subtitle1"
+                  fontWeight={600}
+                  sx={{ color: "text.primary" }}
+                >
+                  الباركود
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  رموز إضافية غير الـ SKU، مثلاً باركود القطعة وباركود الكرتونة
+                </Typography>
+              </Box>
+              <Button
+                type="button"
+                size="small"
+                variant="outlined"
+                startIcon={<Plus className="h-4 w-4" />}
+                onClick={() =>
+                  appendBarcode({ barcode: "", unit_type: "sellable", quantity: 1 })
+                }
+                disabled={isSubmitting}
+              >
+                إضافة باركود
+              </Button>
+            </Box>
+
+            {barcodeFields.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                لا توجد رموز إضافية
+              </Typography>
+            )}
+            {barcodeFields.map((barcodeField, index) => (
+              <Box
+                key={barcodeField.id}
+                sx={{
+                  display: "grid",
+                  gridTemplateColumns: { xs: "1fr", sm: "2fr 1.5fr 1fr auto" },
+                  gap: 2,
+                  alignItems: "flex-start",
+                  mb: 2,
+                }}
+              >
+                <Controller
+                  control={control}
+                  name={`barcodes.${index}.barcode`}
+                  rules={{ validate: validateBarcode }}
+                  render={({ field, fieldState }) => (
+                    <TextField
+                      {...field}
+                      label="الباركود"
+                      fullWidth
+                      size="small"
+                      disabled={isSubmitting}
+                      onKeyDown={(e) => {
+                        // Scanners end with Enter
+                        if (e.key === "Enter") e.preventDefault();
+                      }}
+                      error={!!fieldState.error}
+                      helperText={fieldState.error?.message}
+                    />
+                  )}
+                />
+                <Controller
+                  control={control}
+                  name={`barcodes.${index}.unit_type`}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      select
+                      label="الوحدة"
+                      fullWidth
+                      size="small"
+                      disabled={isSubmitting}
+                    >
+                      <MenuItem value="sellable">
+                        {sellableUnits.find(
+                          (u) => String(u.id) === form.watch("sellable_unit_id")
+                        )?.name || "وحدة البيع"}
+                      </MenuItem>
+                      <MenuItem value="stocking">
+                        {stockingUnits.find(
+                          (u) => String(u.id) === form.watch("stocking_unit_id")
+                        )?.name || "وحدة التخزين"}
+                      </MenuItem>
+                    </TextField>
+                  )}
+                />
+                <Controller
+                  control={control}
+                  name={`barcodes.${index}.quantity`}
+                  rules={{ min: { value: 1, message: "الحد الأدنى 1" } }}
+                  render={({ field, fieldState }) => (
+                    <TextField
+                      {...field}
+                      label="الكمية"
+                      type="number"
+                      fullWidth
+                      size="small"
+                      inputProps={{ min: 1, step: 1 }}
+                      disabled={isSubmitting}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                      error={!!fieldState.error}
+                      helperText={fieldState.error?.message}
+                    />
+                  )}
+                />
+                <IconButton
+                  color="error"
+                  onClick={() => removeBarcode(index)}
+                  disabled={isSubmitting}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </IconButton>
+              </Box>
+            ))}
+          </Paper>
+
+          {/* --- Variants Section --- */}
+          {!isVariant && (
+            <Paper
+              elevation={0}
+              sx={{
+                p: 3,
+                mb: 3,
+                bgcolor: "background.paper",
+                border: 1,
+                borderColor: "divider",
+                borderRadius: 2,
+              }}
+            >
+              <Controller
+                control={control}
+                name="variants"
+                rules={{
+                  validate: (value) =>
+                    variantService.validateSetup(value, getValues("sku")) ?? true,
+                }}
+                render={({ field, fieldState }) => (
+                  <ProductVariantsEditor
+                    value={field.value}
+                    onChange={field.onChange}
+                    parentSku={form.watch("sku")}
+                    sellableUnitName={
+                      sellableUnits.find(
+                        (u) => String(u.id) === form.watch("sellable_unit_id")
+                      )?.name
+                    }
+                    hasSavedVariants={Boolean(productToEdit?.has_variants)}
+                    disabled={isSubmitting || loadingVariants || kitEnabled}
+                    error={fieldState.error?.message}
+                  />
+                )}
+              />
+            </Paper>
+          )}
+
+          {/* --- Kit Section --- */}
+          {!variantsEnabled && (
+            <Paper
+              elevation={0}
+              sx={{
+                p: 3,
+                mb: 3,
+                bgcolor: "background.paper",
+                border: 1,
+                borderColor: "divider",
+                borderRadius: 2,
+              }}
+            >
+              <Controller
+                control={control}
+                name="kit"
+                rules={{
+                  validate: (value) =>
+                    kitService.validateSetup(value, productToEdit?.id) ?? true,
+                }}
+                render={({ field, fieldState }) => (
+                  <ProductKitEditor
+                    value={field.value}
+                    onChange={field.onChange}
+                    productId={productToEdit?.id}
+                    disabled={isSubmitting}
+                    error={fieldState.error?.message}
+                  />
+                )}
+              />
+            </Paper>
+          )}
+
+          {/* --- Tax Section --- */}
+          <Paper
+            elevation={0}
+            sx={{
+              p: 3,
+              mb: 3,
+              bgcolor: "background.paper",
+              border: 1,
+              borderColor: "divider",
+              borderRadius: 2,
+            }}
+          >
+            <Typography
+              variant="subtitle1"
+              fontWeight={600}
+              sx={{ mb: 2.5, color: "text.primary" }}
+            >
+              الضريبة
+            </Typography>
+
+            <Box
+              sx={{
+                display: "grid",
+                gridTemplateColumns: { xs: "1fr", sm: "1fr 1fr" },
+                gap: 2.5,
+              }}
+            >
+              <Controller
+                control={control}
+                name="tax_category"
+                render={({ field }) => (
+                  <TextField
+                    {...field}
+                    select
+                    label="فئة الضريبة"
+                    fullWidth
+                    size="small"
+                    disabled={isSubmitting}
+                  >
+                    <MenuItem value="">حسب الفئة</MenuItem>
+                    {(Object.keys(TAX_CATEGORY_LABELS) as TaxCategory[]).map(
+                      (category) => (
+                        <MenuItem key={category} value={category}>
+                          {TAX_CATEGORY_LABELS[category]}
+                        </MenuItem>
+                      )
+                    )}
+                  </TextField>
+                )}
+              />
+
+              <Controller
+                control={control}
+                name="tax_rate"
+                rules={{
+                  min: { value: 0, message: "النسبة لا يمكن أن تكون سالبة" },
+                  max: { value: 100, message: "النسبة لا يمكن أن تتجاوز 100" },
+                }}
+                render={({ field, fieldState }) => (
+                  <TextField
+                    {...field}
+                    label="نسبة الضريبة %"
+                    type="number"
+                    fullWidth
+                    size="small"
+                    inputProps={{ min: 0, max: 100, step: 0.01 }}
+                    disabled={
+                      isSubmitting ||
+                      !["", "S"].includes(form.watch("tax_category"))
+                    }
+                    value={field.value ?? ""}
+                    onChange={(e) =>
+                      field.onChange(
+                        e.target.value === "" ? null : Number(e.target.value)
+                      )
+                    }
+                    helperText={
+                      fieldState.error?.message ||
+                      "اتركه فارغاً لاستخدام نسبة الفئة أو النسبة الافتراضية"
+                    }
+                    error={!!fieldState.error}
+                  />
+                )}
+              />
+            </Box>
+          </Paper>
+
           <DialogActions
             sx={{
               mt: 1,
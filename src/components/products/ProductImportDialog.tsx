@@ -40,6 +40,8 @@ interface ColumnMapping {
   sku: string;
   scientific_name: string;
   stock_quantity: string;
+  barcode: string; // Sellable-unit barcode(s), comma separated
+  stocking_barcode: string; // Box/carton barcode(s)
 }
 
 // Function to calculate similarity between two strings
@@ -84,9 +86,11 @@ const calculateSimilarity = (str1: string, str2: string): number => {
 const autoMapColumns = (headers: string[]): ColumnMapping => {
   const fieldMappings = {
     name: ['name', 'product name', 'product_name', 'title', 'product title', 'item name', 'item_name'],
-    sku: ['sku', 'product sku', 'product_sku', 'code', 'product code', 'product_code', 'barcode', 'item code', 'item_code'],
+    sku: ['sku', 'product sku', 'product_sku', 'code', 'product code', 'product_code', 'item code', 'item_code'],
     scientific_name: ['scientific name', 'scientific_name', 'scientific', 'generic name', 'generic_name'],
-    stock_quantity: ['stock quantity', 'stock_quantity', 'quantity', 'qty', 'stock', 'inventory', 'available', 'stock level', 'stock_level']
+    stock_quantity: ['stock quantity', 'stock_quantity', 'quantity', 'qty', 'stock', 'inventory', 'available', 'stock level', 'stock_level'],
+    barcode: ['barcode', 'barcodes', 'ean', 'upc', 'piece barcode', 'unit barcode'],
+    stocking_barcode: ['box barcode', 'box_barcode', 'carton barcode', 'carton_barcode', 'stocking barcode', 'pack barcode']
   };
 
   const mapping: ColumnMapping = {
@@ -94,6 +98,8 @@ const autoMapColumns = (headers: string[]): ColumnMapping => {
     sku: '',
     scientific_name: '',
     stock_quantity: '',
+    barcode: '',
+    stocking_barcode: '',
   };
 
   // For each field, find the best matching header
@@ -133,6 +139,8 @@ const ProductImportDialog: React.FC<ProductImportDialogProps> = ({
     sku: '',
     scientific_name: '',
     stock_quantity: '',
+    barcode: '',
+    stocking_barcode: '',
   });
   const [skipHeader, setSkipHeader] = useState(true);
   const [loading, setLoading] = useState(false);
@@ -160,6 +168,8 @@ const ProductImportDialog: React.FC<ProductImportDialogProps> = ({
     { key: 'sku', label: 'الرمز (SKU)', required: false },
     { key: 'scientific_name', label: 'الاسم العلمي', required: false },
     { key: 'stock_quantity', label: 'كمية المخزون', required: false },
+    { key: 'barcode', label: 'باركود وحدة البيع', required: false },
+    { key: 'stocking_barcode', label: 'باركود وحدة التخزين (كرتونة)', required: false },
   ];
 
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -283,6 +293,8 @@ const ProductImportDialog: React.FC<ProductImportDialogProps> = ({
       sku: '',
       scientific_name: '',
       stock_quantity: '',
+      barcode: '',
+      stocking_barcode: '',
     });
     setSkipHeader(true);
     setError(null);
@@ -461,6 +473,7 @@ const ProductImportDialog: React.FC<ProductImportDialogProps> = ({
                   <TableCell>الرمز (SKU)</TableCell>
                   <TableCell>الاسم العلمي</TableCell>
                   <TableCell>كمية المخزون</TableCell>
+                  <TableCell>الباركود</TableCell>
                 </TableRow>
               </TableHead>
               <TableBody>
@@ -470,6 +483,9 @@ const ProductImportDialog: React.FC<ProductImportDialogProps> = ({
                     <TableCell>{row.sku || '-'}</TableCell>
                     <TableCell>{row.scientific_name || '-'}</TableCell>
                     <TableCell>{row.stock_quantity || '-'}</TableCell>
+                    <TableCell>
+                      {[row.barcode, row.stocking_barcode].filter(Boolean).join(' / ') || '-'}
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -0,0 +1,210 @@
+// src/components/products/ProductKitEditor.tsx
+import React, { useEffect, useState } from "react";
+
+// MUI components
+import {
+  Box,
+  Typography,
+  TextField,
+  IconButton,
+  Switch,
+  FormControlLabel,
+  Autocomplete,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from "@mui/material";
+import { Trash2 } from "lucide-react";
+
+import productService, { Product } from "@/services/productService";
+import kitService, { KitSetup } from "@/services/kitService";
+import { formatNumber } from "@/constants";
+
+interface ProductKitEditorProps {
+  value: KitSetup;
+  onChange: (value: KitSetup) => void;
+  productId?: number | null; // The kit itself, excluded from the components
+  disabled?: boolean;
+  error?: string;
+}
+
+/**
+ * Bill of materials of a kit/bundle: the products and quantities one kit consumes.
+ */
+export const ProductKitEditor: React.FC<ProductKitEditorProps> = ({
+  value,
+  onChange,
+  productId,
+  disabled = false,
+  error,
+}) => {
+  const [search, setSearch] = useState("");
+  const [options, setOptions] = useState<Product[]>([]);
+
+  useEffect(() => {
+    if (!value.enabled) return;
+    const timeout = setTimeout(() => {
+      productService
+        .getProductsForAutocomplete(search, 20)
+        .then(setOptions)
+        .catch(() => setOptions([]));
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [search, value.enabled]);
+
+  // Kits and variant parents hold no stock of their own
+  const selectable = options.filter(
+    (p) =>
+      p.id !== productId &&
+      !p.is_kit &&
+      !p.has_variants &&
+      !value.components.some((c) => c.component_id === p.id)
+  );
+
+  const addComponent = (product: Product | null) => {
+    if (!product) return;
+    onChange({
+      ...value,
+      components: [
+        ...value.components,
+        {
+          component_id: product.id,
+          component_name: product.name,
+          component_sku: product.sku,
+          quantity: 1,
+          component_stock: Number(product.current_stock_quantity ?? product.stock_quantity) || 0,
+        },
+      ],
+    });
+  };
+
+  const updateQuantity = (index: number, quantity: number) =>
+    onChange({
+      ...value,
+      components: value.components.map((c, i) => (i === index ? { ...c, quantity } : c)),
+    });
+
+  const available = kitService.availableKits(value.components, (c) => c.component_stock);
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: value.enabled ? 2.5 : 0,
+        }}
+      >
+        <Box>
+          <Typography variant="subtitle1" fontWeight={600} sx={{ color: "text.primary" }}>
+            طقم / حزمة
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            بيع الطقم يخصم مكوناته من المخزون، ويُحسب المتاح منه من مخزون المكونات
+          </Typography>
+        </Box>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={value.enabled}
+              onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+              disabled={disabled}
+            />
+          }
+          label="منتج طقم"
+        />
+      </Box>
+
+      {value.enabled && (
+        <>
+          <Autocomplete
+            size="small"
+            options={selectable}
+            value={null}
+            filterOptions={(x) => x}
+            getOptionLabel={(option) => `${option.name} (${option.sku || "N/A"})`}
+            onInputChange={(_, text) => setSearch(text)}
+            onChange={(_, product) => addComponent(product)}
+            renderInput={(params) => <TextField {...params} label="إضافة مكون" />}
+            disabled={disabled}
+            sx={{ mb: 2 }}
+          />
+
+          {value.components.length > 0 && (
+            <TableContainer sx={{ border: 1, borderColor: "divider", borderRadius: 1 }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>المكون</TableCell>
+                    <TableCell align="center">الكمية في الطقم</TableCell>
+                    <TableCell align="center">المخزون</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {value.components.map((component, index) => (
+                    <TableRow key={component.component_id}>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={600}>
+                          {component.component_name}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {component.component_sku}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="center" sx={{ width: 140 }}>
+                        <TextField
+                          size="small"
+                          type="number"
+                          value={component.quantity}
+                          onChange={(e) => updateQuantity(index, Number(e.target.value))}
+                          inputProps={{ min: 1, step: 1 }}
+                          disabled={disabled}
+                        />
+                      </TableCell>
+                      <TableCell align="center">
+                        {component.component_stock != null
+                          ? formatNumber(component.component_stock)
+                          : "---"}
+                      </TableCell>
+                      <TableCell align="center">
+                        <IconButton
+                          color="error"
+                          onClick={() =>
+                            onChange({
+                              ...value,
+                              components: value.components.filter((_, i) => i !== index),
+                            })
+                          }
+                          disabled={disabled}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          {available != null && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1.5 }}>
+              المتاح من الطقم حسب مخزون المكونات: {formatNumber(available)}
+            </Typography>
+          )}
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,196 @@
+// src/components/products/ProductUnitsEditor.tsx
+import React from "react";
+
+// MUI components
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  Switch,
+  FormControlLabel,
+  MenuItem,
+  Checkbox,
+  Radio,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from "@mui/material";
+import { Plus, Trash2 } from "lucide-react";
+
+import { ProductUnit } from "@/services/productService";
+import { Unit } from "@/services/UnitService";
+
+interface ProductUnitsEditorProps {
+  value: ProductUnit[];
+  onChange: (value: ProductUnit[]) => void;
+  units: Unit[]; // Stocking and sellable units
+  baseChain: ProductUnit[]; // Sellable/stocking units of the form, used to start the chain
+  sellableUnitName?: string | null;
+  disabled?: boolean;
+  error?: string;
+}
+
+/**
+ * Unit chain of a product (piece → strip → box → carton) with the sellable
+ * units in each unit, the units the POS sells in and the default purchase unit.
+ */
+export const ProductUnitsEditor: React.FC<ProductUnitsEditorProps> = ({
+  value,
+  onChange,
+  units,
+  baseChain,
+  sellableUnitName,
+  disabled = false,
+  error,
+}) => {
+  const enabled = value.length > 0;
+
+  const updateUnit = (index: number, changes: Partial<ProductUnit>) =>
+    onChange(value.map((u, i) => (i === index ? { ...u, ...changes } : u)));
+
+  const setDefaultPurchase = (index: number) =>
+    onChange(value.map((u, i) => ({ ...u, is_default_purchase: i === index })));
+
+  const unitName = (unitId: number) => units.find((u) => u.id === unitId)?.name;
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: enabled ? 2.5 : 0,
+        }}
+      >
+        <Box>
+          <Typography variant="subtitle1" fontWeight={600} sx={{ color: "text.primary" }}>
+            سلسلة الوحدات
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            وحدات إضافية للبيع والشراء (مثال: حبة ← شريط ← علبة ← كرتونة)
+          </Typography>
+        </Box>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={enabled}
+              onChange={(e) =>
+                onChange(e.target.checked ? baseChain.filter((u) => u.unit_id) : [])
+              }
+              disabled={disabled || (!enabled && baseChain.every((u) => !u.unit_id))}
+            />
+          }
+          label="وحدات متعددة"
+        />
+      </Box>
+
+      {enabled && (
+        <>
+          <TableContainer sx={{ border: 1, borderColor: "divider", borderRadius: 1 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>الوحدة</TableCell>
+                  <TableCell align="center">
+                    عدد {sellableUnitName || "الوحدات البيعية"} فيها
+                  </TableCell>
+                  <TableCell align="center">وحدة بيع</TableCell>
+                  <TableCell align="center">وحدة الشراء الافتراضية</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {value.map((unit, index) => (
+                  <TableRow key={index}>
+                    <TableCell sx={{ minWidth: 160 }}>
+                      <TextField
+                        select
+                        size="small"
+                        fullWidth
+                        value={unit.unit_id || ""}
+                        onChange={(e) => {
+                          const unitId = Number(e.target.value);
+                          updateUnit(index, { unit_id: unitId, unit_name: unitName(unitId) });
+                        }}
+                        disabled={disabled}
+                      >
+                        {units.map((u) => (
+                          <MenuItem key={u.id} value={u.id}>
+                            {u.name}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    </TableCell>
+                    <TableCell align="center" sx={{ width: 140 }}>
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={unit.factor}
+                        onChange={(e) => updateUnit(index, { factor: Number(e.target.value) })}
+                        inputProps={{ min: 0, step: "any" }}
+                        disabled={disabled}
+                      />
+                    </TableCell>
+                    <TableCell align="center">
+                      <Checkbox
+                        checked={unit.is_sale_unit}
+                        onChange={(e) => updateUnit(index, { is_sale_unit: e.target.checked })}
+                        disabled={disabled}
+                      />
+                    </TableCell>
+                    <TableCell align="center">
+                      <Radio
+                        checked={unit.is_default_purchase}
+                        onChange={() => setDefaultPurchase(index)}
+                        disabled={disabled}
+                      />
+                    </TableCell>
+                    <TableCell align="center">
+                      <IconButton
+                        color="error"
+                        onClick={() => onChange(value.filter((_, i) => i !== index))}
+                        disabled={disabled}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <Button
+            type="button"
+            size="small"
+            variant="outlined"
+            startIcon={<Plus className="h-4 w-4" />}
+            onClick={() =>
+              onChange([
+                ...value,
+                { unit_id: 0, factor: 1, is_sale_unit: true, is_default_purchase: false },
+              ])
+            }
+            disabled={disabled}
+            sx={{ mt: 2 }}
+          >
+            إضافة وحدة
+          </Button>
+
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
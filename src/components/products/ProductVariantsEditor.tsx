@@ -0,0 +1,288 @@
+// src/components/products/ProductVariantsEditor.tsx
+import React from "react";
+
+// MUI components
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  Switch,
+  FormControlLabel,
+  Autocomplete,
+  Chip,
+  Checkbox,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+} from "@mui/material";
+import { Plus, Trash2, RefreshCw } from "lucide-react";
+
+import { ProductVariantFormData, VariantAttribute } from "@/services/productService";
+import variantService, { MAX_VARIANT_ATTRIBUTES, VariantSetup } from "@/services/variantService";
+import { generateRandomSKU } from "@/lib/utils";
+import { formatNumber } from "@/constants";
+
+interface ProductVariantsEditorProps {
+  value: VariantSetup;
+  onChange: (value: VariantSetup) => void;
+  parentSku?: string | null;
+  sellableUnitName?: string | null;
+  hasSavedVariants?: boolean; // Variants can't be switched off once created
+  disabled?: boolean;
+  error?: string;
+}
+
+/**
+ * Attribute definitions and the generated variant matrix of a parent product.
+ */
+export const ProductVariantsEditor: React.FC<ProductVariantsEditorProps> = ({
+  value,
+  onChange,
+  parentSku,
+  sellableUnitName,
+  hasSavedVariants = false,
+  disabled = false,
+  error,
+}) => {
+  const setAttributes = (attributes: VariantAttribute[]) =>
+    onChange({ ...value, attributes, rows: variantService.syncRows(attributes, value.rows, value.attributes) });
+
+  const updateAttribute = (index: number, changes: Partial<VariantAttribute>) =>
+    setAttributes(value.attributes.map((a, i) => (i === index ? { ...a, ...changes } : a)));
+
+  const updateRow = (index: number, changes: Partial<ProductVariantFormData>) =>
+    onChange({
+      ...value,
+      rows: value.rows.map((row, i) => (i === index ? { ...row, ...changes } : row)),
+    });
+
+  const newSku = () => generateRandomSKU(parentSku ? `${parentSku}-` : "VAR", 4);
+
+  const fillSkus = () =>
+    onChange({ ...value, rows: value.rows.map((row) => (row.sku ? row : { ...row, sku: newSku() })) });
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: value.enabled ? 2.5 : 0,
+        }}
+      >
+        <Box>
+          <Typography variant="subtitle1" fontWeight={600} sx={{ color: "text.primary" }}>
+            المتغيرات
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            مقاسات أو ألوان أو تراكيز للمنتج، لكل متغير رمز ومخزون وسعر خاص
+          </Typography>
+        </Box>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={value.enabled}
+              onChange={(e) =>
+                onChange(
+                  e.target.checked && value.attributes.length === 0
+                    ? { ...value, enabled: true, attributes: [{ name: "", values: [] }] }
+                    : { ...value, enabled: e.target.checked }
+                )
+              }
+              disabled={disabled || hasSavedVariants}
+            />
+          }
+          label="منتج بمتغيرات"
+        />
+      </Box>
+
+      {value.enabled && (
+        <>
+          {value.attributes.map((attribute, index) => (
+            <Box
+              key={index}
+              sx={{
+                display: "grid",
+                gridTemplateColumns: { xs: "1fr", sm: "1fr 2.5fr auto" },
+                gap: 2,
+                alignItems: "flex-start",
+                mb: 2,
+              }}
+            >
+              <TextField
+                label="الخاصية"
+                placeholder="مثال: المقاس"
+                size="small"
+                value={attribute.name}
+                onChange={(e) => updateAttribute(index, { name: e.target.value })}
+                disabled={disabled}
+                fullWidth
+              />
+              <Autocomplete
+                multiple
+                freeSolo
+                options={[]}
+                value={attribute.values}
+                onChange={(_, values) =>
+                  updateAttribute(index, {
+                    values: [...new Set(values.map((v) => String(v).trim()).filter(Boolean))],
+                  })
+                }
+                renderTags={(values, getTagProps) =>
+                  values.map((option, i) => (
+                    <Chip {...getTagProps({ index: i })} key={option} label={option} size="small" />
+                  ))
+                }
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    label="القيم"
+                    placeholder="اكتب القيمة واضغط Enter"
+                    size="small"
+                  />
+                )}
+                disabled={disabled}
+              />
+              <IconButton
+                color="error"
+                onClick={() => setAttributes(value.attributes.filter((_, i) => i !== index))}
+                disabled={disabled || value.attributes.length <= 1}
+              >
+                <Trash2 className="h-4 w-4" />
+              </IconButton>
+            </Box>
+          ))}
+
+          <Box sx={{ display: "flex", gap: 1, mb: 2 }}>
+            <Button
+              type="button"
+              size="small"
+              variant="outlined"
+              startIcon={<Plus className="h-4 w-4" />}
+              onClick={() => setAttributes([...value.attributes, { name: "", values: [] }])}
+              disabled={disabled || value.attributes.length >= MAX_VARIANT_ATTRIBUTES}
+            >
+              إضافة خاصية
+            </Button>
+            <Button
+              type="button"
+              size="small"
+              startIcon={<RefreshCw className="h-4 w-4" />}
+              onClick={fillSkus}
+              disabled={disabled || value.rows.every((row) => row.sku)}
+            >
+              توليد الرموز الفارغة
+            </Button>
+          </Box>
+
+          {value.rows.length > 0 && (
+            <TableContainer sx={{ border: 1, borderColor: "divider", borderRadius: 1, maxHeight: 360 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>المتغير</TableCell>
+                    <TableCell>الرمز (SKU)</TableCell>
+                    <TableCell align="center">المخزون</TableCell>
+                    <TableCell align="center">
+                      سعر البيع{sellableUnitName ? ` / ${sellableUnitName}` : ""}
+                    </TableCell>
+                    <TableCell align="center">مفعّل</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {value.rows.map((row, index) => (
+                    <TableRow key={index}>
+                      <TableCell sx={{ fontWeight: 600, whiteSpace: "nowrap" }}>
+                        {variantService.formatValues(row.variant_values, value.attributes)}
+                      </TableCell>
+                      <TableCell sx={{ minWidth: 180 }}>
+                        <Box sx={{ display: "flex", gap: 0.5 }}>
+                          <TextField
+                            size="small"
+                            value={row.sku ?? ""}
+                            onChange={(e) => updateRow(index, { sku: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") e.preventDefault();
+                            }}
+                            disabled={disabled}
+                            fullWidth
+                          />
+                          <Tooltip title="توليد رمز">
+                            <span>
+                              <IconButton
+                                size="small"
+                                onClick={() => updateRow(index, { sku: newSku() })}
+                                disabled={disabled}
+                              >
+                                <RefreshCw className="h-4 w-4" />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                        </Box>
+                      </TableCell>
+                      <TableCell align="center" sx={{ width: 120 }}>
+                        {row.id ? (
+                          // Existing stock changes through purchases and adjustments
+                          <Typography variant="body2">{formatNumber(row.stock_quantity)}</Typography>
+                        ) : (
+                          <TextField
+                            size="small"
+                            type="number"
+                            value={row.stock_quantity}
+                            onChange={(e) => updateRow(index, { stock_quantity: Number(e.target.value) })}
+                            inputProps={{ min: 0, step: 1 }}
+                            disabled={disabled}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell align="center" sx={{ width: 140 }}>
+                        <TextField
+                          size="small"
+                          type="number"
+                          value={row.sale_price ?? ""}
+                          onChange={(e) =>
+                            updateRow(index, {
+                              sale_price: e.target.value === "" ? null : Number(e.target.value),
+                            })
+                          }
+                          inputProps={{ min: 0, step: "any" }}
+                          disabled={disabled}
+                        />
+                      </TableCell>
+                      <TableCell align="center">
+                        <Checkbox
+                          checked={row.is_active}
+                          onChange={(e) => updateRow(index, { is_active: e.target.checked })}
+                          disabled={disabled}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          {hasSavedVariants && (
+            <Alert severity="info" sx={{ mt: 2 }}>
+              المتغيرات المحذوفة من المصفوفة يتم إيقافها ولا تُحذف، للحفاظ على سجل مبيعاتها
+            </Alert>
+          )}
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
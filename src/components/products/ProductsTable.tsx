@@ -1,5 +1,5 @@
 // src/components/products/ProductsTable.tsx
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import {
   Paper,
   IconButton,
@@ -28,14 +28,18 @@ import {
   FormControl,
   InputLabel,
   SelectChangeEvent,
+  Checkbox,
+  Button,
 } from "@mui/material";
-import { Edit, AlertTriangle, Copy, Check, Info, History } from "lucide-react";
+import { Edit, AlertTriangle, Copy, Check, Info, History, Tag } from "lucide-react";
 
 // Types
 import productService, {
   Product as ProductType,
 } from "@/services/productService";
 import { formatNumber, formatCurrency } from "@/constants";
+import labelService from "@/services/labelService";
+import { LabelPrintDialog } from "@/components/labels/LabelPrintDialog";
 
 // Interface for Product with potentially loaded batches
 interface ProductWithOptionalBatches
@@ -92,6 +96,36 @@ export const ProductsTable: React.FC<ProductsTableProps> = ({
     useState<ProductWithOptionalBatches | null>(null);
   const [isStockDialogOpen, setIsStockDialogOpen] = useState(false);
 
+  // Selection for shelf labels, kept across pages
+  const [selected, setSelected] = useState<Record<number, ProductWithOptionalBatches>>({});
+  const [isLabelsOpen, setIsLabelsOpen] = useState(false);
+  const selectedCount = Object.keys(selected).length;
+  const pageSelectedCount = products.filter((p) => selected[p.id]).length;
+  const labelItems = useMemo(
+    () => Object.values(selected).map(labelService.fromProduct),
+    [selected]
+  );
+
+  const toggleSelected = (product: ProductWithOptionalBatches) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      if (next[product.id]) delete next[product.id];
+      else next[product.id] = product;
+      return next;
+    });
+  };
+
+  const togglePageSelected = (checked: boolean) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      products.forEach((p) => {
+        if (checked) next[p.id] = p;
+        else delete next[p.id];
+      });
+      return next;
+    });
+  };
+
   const handleOpenStockDialog = (product: ProductWithOptionalBatches) => {
     setStockDialogProduct(product);
     setIsStockDialogOpen(true);
@@ -209,10 +243,47 @@ export const ProductsTable: React.FC<ProductsTableProps> = ({
         elevation={0}
         dir="ltr"
       >
+        {selectedCount > 0 && (
+          <Box
+            sx={{
+              px: 2,
+              py: 1,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              bgcolor: "action.selected",
+            }}
+          >
+            <Stack direction="row" spacing={1}>
+              <Button
+                size="small"
+                variant="contained"
+                startIcon={<Tag size={16} />}
+                onClick={() => setIsLabelsOpen(true)}
+              >
+                طباعة ملصقات الرف
+              </Button>
+              <Button size="small" onClick={() => setSelected({})}>
+                إلغاء التحديد
+              </Button>
+            </Stack>
+            <Typography variant="body2" fontWeight={600}>
+              تم تحديد {selectedCount} منتج
+            </Typography>
+          </Box>
+        )}
         <TableContainer sx={{ maxHeight: "calc(100vh - 100px)" }}>
           <Table stickyHeader size="small" sx={{ minWidth: 650 }}>
             <TableHead>
               <TableRow>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    size="small"
+                    checked={products.length > 0 && pageSelectedCount === products.length}
+                    indeterminate={pageSelectedCount > 0 && pageSelectedCount < products.length}
+                    onChange={(e) => togglePageSelected(e.target.checked)}
+                  />
+                </TableCell>
                 <TableCell align="center">#</TableCell>
                 <TableCell align="center"> (SKU)</TableCell>
                 <TableCell align="right">اسم المنتج</TableCell>
@@ -247,7 +318,15 @@ export const ProductsTable: React.FC<ProductsTableProps> = ({
                     hover
                     sx={{ cursor: "pointer" }}
                     onClick={() => onEdit(product)}
+                    selected={Boolean(selected[product.id])}
                   >
+                    <TableCell padding="checkbox" onClick={(e) => e.stopPropagation()}>
+                      <Checkbox
+                        size="small"
+                        checked={Boolean(selected[product.id])}
+                        onChange={() => toggleSelected(product)}
+                      />
+                    </TableCell>
                     <TableCell align="center">{product.id}</TableCell>
                     <TableCell align="center">
                       <Stack
@@ -294,6 +373,29 @@ export const ProductsTable: React.FC<ProductsTableProps> = ({
                       <Typography variant="body2" fontWeight={600}>
                         {product.name}
                       </Typography>
+                      {product.has_variants && (
+                        <Chip
+                          label={`${product.variant_count ?? ""} متغيرات`.trim()}
+                          size="small"
+                          color="secondary"
+                          variant="outlined"
+                          sx={{ mt: 0.5 }}
+                        />
+                      )}
+                      {product.is_kit && (
+                        <Chip
+                          label="طقم"
+                          size="small"
+                          color="info"
+                          variant="outlined"
+                          sx={{ mt: 0.5 }}
+                        />
+                      )}
+                      {product.parent_id && (
+                        <Typography variant="caption" color="text.secondary">
+                          متغير من: {product.parent_name}
+                        </Typography>
+                      )}
                     </TableCell>
                     <TableCell align="center">
                       {product.scientific_name || "---"}
@@ -496,6 +598,14 @@ export const ProductsTable: React.FC<ProductsTableProps> = ({
           />
         </Box>
       </Paper>
+      {/* Shelf Labels Dialog */}
+      <LabelPrintDialog
+        open={isLabelsOpen}
+        onClose={() => setIsLabelsOpen(false)}
+        title="طباعة ملصقات الرف"
+        kind="shelf"
+        items={labelItems}
+      />
       {/* Warehouse Stock Breakdown Dialog */}
       <Dialog
         open={isStockDialogOpen}
@@ -0,0 +1,253 @@
+// src/components/purchases/GoodsReceiptDialog.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+// MUI Components
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Typography,
+  CircularProgress,
+} from "@mui/material";
+
+import { formatNumber } from "@/constants";
+import { getErrorMessage } from "@/lib/axios";
+import goodsReceiptService, {
+  GoodsReceipt,
+  ReceiptTolerances,
+  ReceivingLine,
+} from "@/services/goodsReceiptService";
+
+interface LineInput {
+  quantity: string;
+  batch_number: string;
+  expiry_date: string;
+}
+
+interface GoodsReceiptDialogProps {
+  open: boolean;
+  onClose: () => void;
+  purchaseId: number;
+  lines: ReceivingLine[];
+  tolerances: ReceiptTolerances;
+  onReceived: (receipt: GoodsReceipt) => void;
+}
+
+/**
+ * Receives part or all of a purchase order; every line with a quantity
+ * becomes a new batch.
+ */
+export const GoodsReceiptDialog: React.FC<GoodsReceiptDialogProps> = ({
+  open,
+  onClose,
+  purchaseId,
+  lines,
+  tolerances,
+  onReceived,
+}) => {
+  const openLines = useMemo(() => lines.filter((line) => line.maxReceivable > 0), [lines]);
+  const [inputs, setInputs] = useState<Record<number, LineInput>>({});
+  const [receivedAt, setReceivedAt] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [notes, setNotes] = useState("");
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setInputs(
+      Object.fromEntries(
+        openLines.map((line) => [
+          line.item.id,
+          { quantity: String(line.outstanding), batch_number: "", expiry_date: "" },
+        ])
+      )
+    );
+    setReceivedAt(format(new Date(), "yyyy-MM-dd"));
+    setNotes("");
+    setServerError(null);
+  }, [open, openLines]);
+
+  const quantities = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(inputs).map(([id, input]) => [Number(id), Number(input.quantity) || 0])
+      ) as Record<number, number>,
+    [inputs]
+  );
+  const errors = goodsReceiptService.validateReceipt(openLines, quantities);
+  const hasQuantity = Object.values(quantities).some((qty) => qty > 0);
+  const resultingStatus = goodsReceiptService.statusAfterReceipt(lines, quantities, tolerances);
+
+  const updateInput = (itemId: number, field: keyof LineInput, value: string) =>
+    setInputs((prev) => ({ ...prev, [itemId]: { ...prev[itemId], [field]: value } }));
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setServerError(null);
+    try {
+      const receipt = await goodsReceiptService.createReceipt(purchaseId, {
+        received_at: receivedAt,
+        notes: notes || null,
+        items: openLines
+          .filter((line) => quantities[line.item.id] > 0)
+          .map((line) => ({
+            purchase_item_id: line.item.id,
+            quantity: quantities[line.item.id],
+            batch_number: inputs[line.item.id].batch_number || null,
+            expiry_date: inputs[line.item.id].expiry_date || null,
+          })),
+      });
+      toast.success("نجح", { description: `تم تسجيل سند الاستلام ${receipt.receipt_number}` });
+      onReceived(receipt);
+      onClose();
+    } catch (err) {
+      setServerError(getErrorMessage(err, "فشل تسجيل الاستلام"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={!isSubmitting ? onClose : undefined} maxWidth="lg" fullWidth dir="rtl">
+      <DialogTitle sx={{ fontWeight: 600 }}>استلام بضاعة</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+            <TextField
+              type="date"
+              size="small"
+              label="تاريخ الاستلام"
+              value={receivedAt}
+              onChange={(e) => setReceivedAt(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              size="small"
+              label="ملاحظات"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              fullWidth
+            />
+          </Stack>
+
+          {(tolerances.over > 0 || tolerances.under > 0) && (
+            <Typography variant="caption" color="text.secondary">
+              نسبة السماح: زيادة حتى {tolerances.over}% — نقص حتى {tolerances.under}% يُعتبر استلاماً كاملاً
+            </Typography>
+          )}
+
+          <TableContainer component={Paper} variant="outlined">
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>المنتج</TableCell>
+                  <TableCell align="center">المطلوب</TableCell>
+                  <TableCell align="center">المستلم سابقاً</TableCell>
+                  <TableCell align="center">المتبقي</TableCell>
+                  <TableCell align="center" sx={{ width: 130 }}>
+                    الكمية المستلمة
+                  </TableCell>
+                  <TableCell sx={{ width: 150 }}>رقم الدفعة</TableCell>
+                  <TableCell sx={{ width: 160 }}>تاريخ الانتهاء</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {openLines.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} align="center" sx={{ color: "text.secondary" }}>
+                      تم استلام جميع الأصناف
+                    </TableCell>
+                  </TableRow>
+                )}
+                {openLines.map((line) => {
+                  const input = inputs[line.item.id];
+                  if (!input) return null;
+                  const qty = quantities[line.item.id];
+                  const isOver = !errors[line.item.id] && line.received + qty > line.ordered;
+                  return (
+                    <TableRow key={line.item.id}>
+                      <TableCell>
+                        {line.item.product_name || `#${line.item.product_id}`}
+                        {line.item.product_sku && (
+                          <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+                            {line.item.product_sku}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="center">{formatNumber(line.ordered)}</TableCell>
+                      <TableCell align="center">{formatNumber(line.received)}</TableCell>
+                      <TableCell align="center">{formatNumber(line.outstanding)}</TableCell>
+                      <TableCell align="center">
+                        <TextField
+                          type="number"
+                          size="small"
+                          value={input.quantity}
+                          onChange={(e) => updateInput(line.item.id, "quantity", e.target.value)}
+                          error={!!errors[line.item.id]}
+                          helperText={errors[line.item.id] || (isOver ? "زيادة ضمن السماح" : undefined)}
+                          inputProps={{ min: 0, step: "any" }}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <TextField
+                          size="small"
+                          value={input.batch_number}
+                          onChange={(e) => updateInput(line.item.id, "batch_number", e.target.value)}
+                          placeholder="تلقائي"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <TextField
+                          type="date"
+                          size="small"
+                          value={input.expiry_date}
+                          onChange={(e) => updateInput(line.item.id, "expiry_date", e.target.value)}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          {hasQuantity && Object.keys(errors).length === 0 && (
+            <Alert severity={resultingStatus === "received" ? "success" : "info"}>
+              {resultingStatus === "received"
+                ? "سيكتمل استلام أمر الشراء بهذا السند"
+                : "سيبقى أمر الشراء مستلماً جزئياً والكميات المتبقية كطلبية مؤجلة"}
+            </Alert>
+          )}
+          {serverError && <Alert severity="error">{serverError}</Alert>}
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={onClose} disabled={isSubmitting}>
+          إلغاء
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSubmit}
+          disabled={!hasQuantity || Object.keys(errors).length > 0 || isSubmitting}
+          startIcon={isSubmitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          تسجيل الاستلام
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
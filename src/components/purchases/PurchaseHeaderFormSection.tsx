@@ -47,6 +47,7 @@ interface PurchaseHeaderFormSectionProps {
 const statusOptions = [
   { value: "pending", label: "قيد الانتظار", color: "warning" },
   { value: "ordered", label: "تم الطلب", color: "info" },
+  { value: "partially_received", label: "مستلم جزئياً", color: "info" },
   { value: "received", label: "تم الاستلام", color: "success" },
 ] as const;
 
@@ -313,6 +314,8 @@ export const PurchaseHeaderFormSection: React.FC<
                   <Autocomplete
                     options={statusOptions}
                     getOptionLabel={(option) => option.label}
+                    // Set by goods receipts only
+                    getOptionDisabled={(option) => option.value === "partially_received"}
                     value={
                       statusOptions.find((opt) => opt.value === field.value) ||
                       statusOptions[0]
@@ -386,6 +389,38 @@ export const PurchaseHeaderFormSection: React.FC<
               )}
             />
 
+            {/* Payment Due Date */}
+            <Controller
+              control={control}
+              name="due_date"
+              render={({ field, fieldState }) => (
+                <Box>
+                  <FieldLabel icon={<CalendarTodayOutlinedIcon />}>
+                    تاريخ الاستحقاق
+                  </FieldLabel>
+                  <DatePicker
+                    value={field.value ?? null}
+                    onChange={field.onChange}
+                    disabled={isSubmitting}
+                    slotProps={{
+                      textField: {
+                        size: "small",
+                        fullWidth: true,
+                        error: !!fieldState.error,
+                        helperText:
+                          fieldState.error?.message ||
+                          (selectedSupplier?.payment_terms_days != null
+                            ? `شروط المورد: ${selectedSupplier.payment_terms_days} يوم`
+                            : undefined),
+                        placeholder: "YYYY/MM/DD",
+                        sx: inputStyles,
+                      },
+                    }}
+                  />
+                </Box>
+              )}
+            />
+
             {/* Currency */}
             <Controller
               control={control}
@@ -268,6 +268,8 @@ export const PurchasePdf: React.FC<PurchasePdfProps> = ({
               <Text style={styles.metaValue}>
                 {purchase.status === "received"
                   ? "مستلم"
+                  : purchase.status === "partially_received"
+                  ? "مستلم جزئياً"
                   : purchase.status === "ordered"
                   ? "تم الطلب"
                   : "قيد الانتظار"}
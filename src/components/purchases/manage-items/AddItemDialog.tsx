@@ -14,6 +14,7 @@ import {
   InputAdornment,
   IconButton,
   Fade,
+  MenuItem,
 } from "@mui/material";
 import {
   Plus,
@@ -34,6 +35,8 @@ import apiClient from "@/lib/axios";
 import purchaseService from "@/services/purchaseService";
 import productService, { Product } from "@/services/productService";
 import { useSettings } from "@/context/SettingsContext";
+import { getDefaultPurchaseUnit, getUnitChain } from "@/utils/productUnits";
+import { formatNumber } from "@/constants";
 import { AddPurchaseItemData } from "./types";
 
 // Module-level cache
@@ -65,6 +68,8 @@ const AddItemDialog: React.FC<AddItemDialogProps> = ({
   const [allProducts, setAllProducts] = useState<Product[]>([]);
   const [productLoading, setProductLoading] = useState(false);
   const [quantity, setQuantity] = useState<number>(1);
+  // Unit the quantity is entered in (product unit chain), null = stocking unit
+  const [purchaseUnitId, setPurchaseUnitId] = useState<number | null>(null);
   const [unitsPerStockingUnit, setUnitsPerStockingUnit] = useState<number>(1);
   const [profitRate, setProfitRate] = useState<number>(20);
   const [unitCost, setUnitCost] = useState<number>(0);
@@ -80,6 +85,7 @@ const AddItemDialog: React.FC<AddItemDialogProps> = ({
     setSelectedProduct(null);
     setProductInputValue("");
     setQuantity(1);
+    setPurchaseUnitId(null);
     setUnitsPerStockingUnit(1);
     setProfitRate(settings?.default_profit_rate ?? 20);
     setUnitCost(0);
@@ -137,6 +143,9 @@ const AddItemDialog: React.FC<AddItemDialogProps> = ({
             ? product.units_per_stocking_unit
             : 1;
         setUnitsPerStockingUnit(unitsPerStocking);
+        setPurchaseUnitId(
+          product.units?.length ? getDefaultPurchaseUnit(product).unit_id : null
+        );
 
         const currentProfitRate = settings?.default_profit_rate ?? 20;
         setProfitRate(currentProfitRate);
@@ -155,6 +164,7 @@ const AddItemDialog: React.FC<AddItemDialogProps> = ({
       } else {
         setProductInputValue("");
         setUnitsPerStockingUnit(1);
+        setPurchaseUnitId(null);
       }
     },
     [settings?.default_profit_rate]
@@ -249,6 +259,16 @@ const AddItemDialog: React.FC<AddItemDialogProps> = ({
     [unitCost, unitsPerStockingUnit]
   );
 
+  const unitChain = selectedProduct?.units?.length ? getUnitChain(selectedProduct) : [];
+  const purchaseUnit = unitChain.find((u) => u.unit_id === purchaseUnitId) ?? null;
+  // Purchase lines are stored in stocking units
+  const stockingQuantity = purchaseUnit
+    ? roundToThreeDecimals(
+        (quantity * Number(purchaseUnit.factor)) /
+          (unitsPerStockingUnit > 0 ? unitsPerStockingUnit : 1)
+      )
+    : quantity;
+
   // Handle add item
   const handleAddItem = useCallback(async () => {
     if (!selectedProduct) {
@@ -279,7 +299,9 @@ const AddItemDialog: React.FC<AddItemDialogProps> = ({
 
       const data: AddPurchaseItemData = {
         product_id: selectedProduct.id,
-        quantity,
+        quantity: stockingQuantity,
+        unit_id: purchaseUnit?.unit_id ?? null,
+        unit_quantity: purchaseUnit ? quantity : null,
         unit_cost: unitCost,
         sale_price:
           salePrice !== undefined ? roundToThreeDecimals(salePrice) : 0,
@@ -299,6 +321,8 @@ const AddItemDialog: React.FC<AddItemDialogProps> = ({
   }, [
     selectedProduct,
     quantity,
+    stockingQuantity,
+    purchaseUnit,
     unitCost,
     salePrice,
     salePriceStockingUnit,
@@ -590,12 +614,28 @@ const AddItemDialog: React.FC<AddItemDialogProps> = ({
                     >
                       <Hash size={16} />
                       الكمية{" "}
-                      {selectedProduct?.stocking_unit_name && (
-                        <Chip
-                          label={selectedProduct.stocking_unit_name}
-                          size="small"
-                          sx={{ height: 20 }}
-                        />
+                      {unitChain.length > 0 ? (
+                        <TextField
+                          select
+                          variant="standard"
+                          value={purchaseUnitId ?? ""}
+                          onChange={(e) => setPurchaseUnitId(Number(e.target.value))}
+                          sx={{ minWidth: 90, "& .MuiInput-input": { py: 0, fontSize: "0.8rem" } }}
+                        >
+                          {unitChain.map((unit) => (
+                            <MenuItem key={unit.unit_id} value={unit.unit_id}>
+                              {unit.unit_name}
+                            </MenuItem>
+                          ))}
+                        </TextField>
+                      ) : (
+                        selectedProduct?.stocking_unit_name && (
+                          <Chip
+                            label={selectedProduct.stocking_unit_name}
+                            size="small"
+                            sx={{ height: 20 }}
+                          />
+                        )
                       )}
                     </Typography>
                     <TextField
@@ -607,6 +647,13 @@ const AddItemDialog: React.FC<AddItemDialogProps> = ({
                       fullWidth
                       onFocus={(e) => e.target.select()}
                       onKeyDown={handleFormInputKeyDown}
+                      helperText={
+                        purchaseUnit
+                          ? `= ${formatNumber(stockingQuantity)} ${
+                              selectedProduct?.stocking_unit_name || "وحدة تخزين"
+                            }`
+                          : undefined
+                      }
                       sx={{
                         "& .MuiOutlinedInput-root": { borderRadius: 2 },
                       }}
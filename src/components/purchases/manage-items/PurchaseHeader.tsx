@@ -10,6 +10,7 @@ import {
   Loader2,
   Building2,
   FileDown,
+  Tag,
 } from "lucide-react";
 // Shadcn UI Components
 import { Button } from "@/components/ui/button";
@@ -51,6 +52,7 @@ interface PurchaseHeaderProps {
   onOpenSummaryDialog: () => void;
   onCloseSummaryDialog: () => void;
   onExportPdf: () => void;
+  onPrintLabels: () => void;
 }
 
 const PurchaseHeader: React.FC<PurchaseHeaderProps> = ({
@@ -69,6 +71,7 @@ const PurchaseHeader: React.FC<PurchaseHeaderProps> = ({
   onOpenSummaryDialog,
   onCloseSummaryDialog,
   onExportPdf,
+  onPrintLabels,
 }) => {
   const formatCurrency = useFormatCurrency();
   
@@ -140,7 +143,9 @@ const PurchaseHeader: React.FC<PurchaseHeaderProps> = ({
                   purchase.status === "pending" &&
                     "bg-amber-50 text-amber-700 border-amber-200",
                   purchase.status === "ordered" &&
-                    "bg-blue-50 text-blue-700 border-blue-200"
+                    "bg-blue-50 text-blue-700 border-blue-200",
+                  purchase.status === "partially_received" &&
+                    "bg-sky-50 text-sky-700 border-sky-200"
                 )}
               >
                 <SelectValue placeholder="الحالة" />
@@ -148,6 +153,10 @@ const PurchaseHeader: React.FC<PurchaseHeaderProps> = ({
               <SelectContent>
                 <SelectItem value="pending">قيد الانتظار</SelectItem>
                 <SelectItem value="ordered">تم الطلب</SelectItem>
+                {/* Set by goods receipts only */}
+                <SelectItem value="partially_received" disabled>
+                  مستلم جزئياً
+                </SelectItem>
                 <SelectItem value="received">تم الاستلام</SelectItem>
               </SelectContent>
             </Select>
@@ -249,6 +258,24 @@ const PurchaseHeader: React.FC<PurchaseHeaderProps> = ({
               </Tooltip>
             </TooltipProvider>
 
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={onPrintLabels}
+                    className="h-9 w-9 text-slate-600 hover:text-blue-600 hover:bg-blue-50"
+                  >
+                    <Tag className="h-4 w-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>طباعة الملصقات</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+
             <Dialog
               open={summaryDialogOpen}
               onOpenChange={(open) => !open && onCloseSummaryDialog()}
@@ -2,7 +2,9 @@
 
 export interface AddPurchaseItemData {
   product_id: number;
-  quantity: number;
+  quantity: number; // STOCKING units
+  unit_id?: number | null; // Unit the quantity was entered in (product unit chain)
+  unit_quantity?: number | null; // Quantity in that unit
   unit_cost: number;
   sale_price: number;
   sale_price_stocking_unit?: number;
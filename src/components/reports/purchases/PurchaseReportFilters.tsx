@@ -151,6 +151,9 @@ const PurchaseReportFilters: React.FC<PurchaseReportFiltersProps> = ({
                         <SelectItem value="received">تم الاستلام</SelectItem>
                         <SelectItem value="pending">معلق</SelectItem>
                         <SelectItem value="ordered">تم الطلب</SelectItem>
+                        <SelectItem value="partially_received">
+                          مستلم جزئياً
+                        </SelectItem>
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -0,0 +1,97 @@
+import React, { useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatNumber, preciseSum } from "@/constants";
+import { cn } from "@/lib/utils";
+import {
+  PAYABLES_BUCKET_LABELS,
+  type PayablesBucket,
+  type SupplierAging,
+} from "@/services/supplierPaymentService";
+
+const BUCKETS: PayablesBucket[] = ["not_due", "days_1_30", "days_31_60", "days_61_90", "over_90"];
+
+interface SuppliersAgingTableProps {
+  data: SupplierAging[];
+}
+
+const SuppliersAgingTable: React.FC<SuppliersAgingTableProps> = ({ data }) => {
+  const navigate = useNavigate();
+
+  const totals = useMemo(
+    () =>
+      Object.fromEntries(
+        [...BUCKETS, "total" as const].map((key) => [
+          key,
+          preciseSum(data.map((row) => row[key]), 2),
+        ])
+      ) as Record<PayablesBucket | "total", number>,
+    [data]
+  );
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="bg-slate-50 hover:bg-slate-50">
+          <TableHead className="text-right font-semibold">اسم المورد</TableHead>
+          {BUCKETS.map((bucket) => (
+            <TableHead key={bucket} className="text-right font-semibold">
+              {PAYABLES_BUCKET_LABELS[bucket]}
+            </TableHead>
+          ))}
+          <TableHead className="text-right font-semibold">الإجمالي</TableHead>
+          <TableHead className="text-right font-semibold">الاستحقاق القادم</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {data.map((row) => (
+          <TableRow
+            key={row.supplier_id}
+            className="hover:bg-slate-50/50 cursor-pointer transition-colors"
+            onClick={() => navigate(`/suppliers/${row.supplier_id}/ledger`)}
+          >
+            <TableCell className="py-4 font-medium">{row.supplier_name}</TableCell>
+            {BUCKETS.map((bucket) => (
+              <TableCell
+                key={bucket}
+                className={cn(
+                  "py-4 text-right",
+                  bucket !== "not_due" && row[bucket] > 0 && "text-red-600",
+                  bucket === "over_90" && row[bucket] > 0 && "font-semibold"
+                )}
+              >
+                {row[bucket] > 0 ? formatNumber(row[bucket]) : "-"}
+              </TableCell>
+            ))}
+            <TableCell className="py-4 text-right font-semibold">
+              {formatNumber(row.total)}
+            </TableCell>
+            <TableCell className="py-4 text-right">{row.next_due_date?.slice(0, 10) || "-"}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell className="font-semibold">الإجمالي</TableCell>
+          {BUCKETS.map((bucket) => (
+            <TableCell key={bucket} className="text-right font-semibold">
+              {formatNumber(totals[bucket])}
+            </TableCell>
+          ))}
+          <TableCell className="text-right font-semibold">{formatNumber(totals.total)}</TableCell>
+          <TableCell />
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+};
+
+export default SuppliersAgingTable;
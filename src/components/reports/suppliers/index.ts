@@ -3,3 +3,4 @@ export { default as SuppliersSummaryTable } from "./SuppliersSummaryTable";
 export { default as SuppliersSummaryTotals } from "./SuppliersSummaryTotals";
 export { default as SupplierPurchasesDialog } from "./SupplierPurchasesDialog";
 
+export { default as SuppliersAgingTable } from "./SuppliersAgingTable";
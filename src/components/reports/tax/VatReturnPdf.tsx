@@ -0,0 +1,225 @@
+import React from "react";
+import {
+  Page,
+  Text,
+  View,
+  Document,
+  StyleSheet,
+} from "@react-pdf/renderer";
+import { format } from "date-fns";
+import { PDF_FONTS } from "@/utils/pdfFontRegistry";
+import { formatNumber } from "@/constants";
+import {
+  TAX_CATEGORY_LABELS,
+  VatReturnReport,
+  VatReturnSection,
+} from "@/services/vatService";
+
+const styles = StyleSheet.create({
+  page: {
+    padding: 30,
+    fontFamily: PDF_FONTS.ARIAL,
+    fontSize: 9,
+    flexDirection: "column",
+    backgroundColor: "#ffffff",
+  },
+  header: {
+    marginBottom: 25,
+    paddingBottom: 15,
+    borderBottomWidth: 2,
+    borderBottomColor: "#1e40af",
+    borderBottomStyle: "solid",
+  },
+  headerContent: {
+    textAlign: "center",
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#1e40af",
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 9,
+    color: "#4b5563",
+    marginBottom: 4,
+  },
+  summarySection: {
+    marginBottom: 20,
+    padding: 15,
+    backgroundColor: "#f8fafc",
+    borderRadius: 4,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "bold",
+    marginBottom: 10,
+    color: "#1e40af",
+    textAlign: "right",
+  },
+  summaryRow: {
+    flexDirection: "row-reverse",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  summaryLabel: {
+    fontSize: 10,
+    color: "#6b7280",
+  },
+  summaryValue: {
+    fontSize: 11,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  tableContainer: {
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 4,
+  },
+  tableHeader: {
+    flexDirection: "row-reverse",
+    backgroundColor: "#6b7280",
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+  },
+  tableHeaderText: {
+    color: "#ffffff",
+    fontWeight: "bold",
+    fontSize: 9,
+  },
+  tableRow: {
+    flexDirection: "row-reverse",
+    borderBottomWidth: 1,
+    borderBottomColor: "#f1f5f9",
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+  },
+  tableTotalRow: {
+    backgroundColor: "#f9fafb",
+    fontWeight: "bold",
+  },
+  colCategory: { width: "40%", textAlign: "right" },
+  colRate: { width: "20%", textAlign: "center" },
+  colAmount: { width: "20%", textAlign: "center" },
+  footer: {
+    position: "absolute",
+    bottom: 20,
+    left: 30,
+    right: 30,
+    textAlign: "center",
+    fontSize: 7,
+    color: "#9ca3af",
+    borderTopWidth: 1,
+    borderTopColor: "#e5e7eb",
+    paddingTop: 8,
+  },
+});
+
+const SectionTable: React.FC<{ title: string; section: VatReturnSection }> = ({
+  title,
+  section,
+}) => (
+  <View>
+    <Text style={styles.sectionTitle}>{title}</Text>
+    <View style={styles.tableContainer}>
+      <View style={styles.tableHeader}>
+        <Text style={[styles.tableHeaderText, styles.colCategory]}>الفئة</Text>
+        <Text style={[styles.tableHeaderText, styles.colRate]}>النسبة</Text>
+        <Text style={[styles.tableHeaderText, styles.colAmount]}>المبلغ الخاضع</Text>
+        <Text style={[styles.tableHeaderText, styles.colAmount]}>الضريبة</Text>
+      </View>
+      {section.rows.map((row) => (
+        <View key={`${row.category}-${row.rate}`} style={styles.tableRow}>
+          <Text style={styles.colCategory}>{TAX_CATEGORY_LABELS[row.category]}</Text>
+          <Text style={styles.colRate}>{row.rate}%</Text>
+          <Text style={styles.colAmount}>{formatNumber(row.taxable_amount, 2)}</Text>
+          <Text style={styles.colAmount}>{formatNumber(row.tax_amount, 2)}</Text>
+        </View>
+      ))}
+      <View style={[styles.tableRow, styles.tableTotalRow]}>
+        <Text style={styles.colCategory}>الإجمالي</Text>
+        <Text style={styles.colRate}></Text>
+        <Text style={styles.colAmount}>{formatNumber(section.taxable_amount, 2)}</Text>
+        <Text style={styles.colAmount}>{formatNumber(section.tax_amount, 2)}</Text>
+      </View>
+    </View>
+  </View>
+);
+
+interface VatReturnPdfProps {
+  report: VatReturnReport;
+  companyName?: string;
+  taxNumber?: string;
+}
+
+export const VatReturnPdf: React.FC<VatReturnPdfProps> = ({
+  report,
+  companyName,
+  taxNumber,
+}) => {
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        {/* Header */}
+        <View style={styles.header}>
+          <View style={styles.headerContent}>
+            <Text style={styles.title}>إقرار ضريبة القيمة المضافة</Text>
+            {companyName && <Text style={styles.subtitle}>{companyName}</Text>}
+            {taxNumber && (
+              <Text style={styles.subtitle}>الرقم الضريبي: {taxNumber}</Text>
+            )}
+            <Text style={styles.subtitle}>
+              من {report.start_date} إلى {report.end_date}
+            </Text>
+          </View>
+        </View>
+
+        {/* Summary */}
+        <View style={styles.summarySection}>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>ضريبة المخرجات (المبيعات):</Text>
+            <Text style={styles.summaryValue}>
+              {formatNumber(report.output.tax_amount, 2)}
+            </Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>ضريبة المدخلات (المشتريات):</Text>
+            <Text style={styles.summaryValue}>
+              {formatNumber(report.input.tax_amount, 2)}
+            </Text>
+          </View>
+          <View style={[styles.summaryRow, { borderBottomWidth: 0 }]}>
+            <Text style={styles.summaryLabel}>
+              {report.net_payable >= 0 ? "صافي الضريبة المستحقة:" : "صافي الضريبة المستردة:"}
+            </Text>
+            <Text
+              style={[
+                styles.summaryValue,
+                { color: report.net_payable >= 0 ? "#b91c1c" : "#059669" },
+              ]}
+            >
+              {formatNumber(Math.abs(report.net_payable), 2)}
+            </Text>
+          </View>
+        </View>
+
+        <SectionTable title="المبيعات" section={report.output} />
+        {report.output.returns_tax_amount > 0 && (
+          <Text style={[styles.subtitle, { textAlign: "right", marginTop: -12, marginBottom: 16 }]}>
+            تشمل خصم ضريبة المرتجعات: {formatNumber(report.output.returns_tax_amount, 2)}
+          </Text>
+        )}
+        <SectionTable title="المشتريات" section={report.input} />
+
+        {/* Footer */}
+        <Text style={styles.footer}>
+          تم إنشاء التقرير في {format(new Date(), "yyyy-MM-dd HH:mm")}
+        </Text>
+      </Page>
+    </Document>
+  );
+};
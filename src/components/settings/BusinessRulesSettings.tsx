@@ -187,6 +187,69 @@ export const BusinessRulesSettings = ({
 
           <Divider />
 
+          <Box>
+            <Typography
+              variant="subtitle2"
+              color="text.secondary"
+              gutterBottom
+              sx={{ mb: 2, fontWeight: 500 }}
+            >
+              استلام المشتريات
+            </Typography>
+            <Box sx={{ display: "flex", flexWrap: "wrap", gap: 3, rowGap: 3 }}>
+              <Box
+                sx={{ flex: { xs: "1 1 100%", sm: "1 1 calc(50% - 12px)" } }}
+              >
+                <Controller
+                  name="purchase_over_receipt_tolerance"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      fullWidth
+                      type="number"
+                      label="نسبة السماح بالزيادة"
+                      helperText="أقصى كمية يمكن استلامها فوق المطلوب"
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                      InputProps={{
+                        endAdornment: (
+                          <Typography variant="caption">%</Typography>
+                        ),
+                      }}
+                      sx={textFieldSx}
+                    />
+                  )}
+                />
+              </Box>
+              <Box
+                sx={{ flex: { xs: "1 1 100%", sm: "1 1 calc(50% - 12px)" } }}
+              >
+                <Controller
+                  name="purchase_under_receipt_tolerance"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      fullWidth
+                      type="number"
+                      label="نسبة السماح بالنقص"
+                      helperText="نقص في حدود هذه النسبة يُغلق الصنف دون طلبية مؤجلة"
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                      InputProps={{
+                        endAdornment: (
+                          <Typography variant="caption">%</Typography>
+                        ),
+                      }}
+                      sx={textFieldSx}
+                    />
+                  )}
+                />
+              </Box>
+            </Box>
+          </Box>
+
+          <Divider />
+
           <Box>
             <Typography
               variant="subtitle2"
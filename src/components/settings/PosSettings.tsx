@@ -9,10 +9,15 @@ import {
   Radio,
   FormControl,
   Switch,
+  Select,
+  MenuItem,
+  InputLabel,
+  TextField,
   alpha,
   useTheme,
 } from "@mui/material";
 import { AppSettings } from "@/services/settingService";
+import { CASH_ROUNDING_INCREMENTS } from "@/services/tenderService";
 
 interface PosSettingsProps {
   control: Control<Partial<AppSettings>>;
@@ -147,6 +152,156 @@ export const PosSettings = ({ control }: PosSettingsProps) => {
             />
           </FormControl>
         </Box>
+
+        <Box
+          sx={{
+            bgcolor: alpha(theme.palette.primary.main, 0.05),
+            p: 3,
+            borderRadius: 2,
+            border: `1px solid ${alpha(theme.palette.primary.main, 0.1)}`,
+            mt: 3,
+          }}
+        >
+          <Typography variant="subtitle1" fontWeight={600} gutterBottom>
+            تقريب النقدية
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            عند الدفع النقدي يتم تقريب المبلغ المستحق لأصغر فئة عملة متداولة،
+            ويتم حساب الباقي للعميل على أساس المبلغ المقرب.
+          </Typography>
+          <Box sx={{ display: "flex", gap: 3, flexWrap: "wrap", alignItems: "center" }}>
+            <Controller
+              name="cash_rounding_increment"
+              control={control}
+              render={({ field }) => (
+                <FormControl size="small" sx={{ minWidth: 200 }}>
+                  <InputLabel>أصغر فئة</InputLabel>
+                  <Select
+                    label="أصغر فئة"
+                    value={Number(field.value) || 0}
+                    onChange={(e) => field.onChange(Number(e.target.value))}
+                  >
+                    {CASH_ROUNDING_INCREMENTS.map((increment) => (
+                      <MenuItem key={increment} value={increment}>
+                        {increment === 0 ? "بدون تقريب" : increment}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              )}
+            />
+            <Controller
+              name="cash_rounding_mode"
+              control={control}
+              render={({ field }) => (
+                <RadioGroup row {...field} value={field.value || "nearest"}>
+                  <FormControlLabel value="nearest" control={<Radio />} label="لأقرب فئة" />
+                  <FormControlLabel value="up" control={<Radio />} label="للأعلى" />
+                  <FormControlLabel value="down" control={<Radio />} label="للأسفل" />
+                </RadioGroup>
+              )}
+            />
+          </Box>
+        </Box>
+
+        <Box
+          sx={{
+            bgcolor: alpha(theme.palette.primary.main, 0.05),
+            p: 3,
+            borderRadius: 2,
+            border: `1px solid ${alpha(theme.palette.primary.main, 0.1)}`,
+            mt: 3,
+          }}
+        >
+          <Typography variant="subtitle1" fontWeight={600} gutterBottom>
+            ضريبة القيمة المضافة
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            عند التفعيل تظهر الضريبة في الفواتير مع رمز QR للفاتورة الإلكترونية
+            (يتطلب إدخال الرقم الضريبي في بيانات الشركة). يمكن تحديد نسبة مختلفة
+            أو إعفاء لكل منتج.
+          </Typography>
+          <Box sx={{ display: "flex", gap: 3, flexWrap: "wrap", alignItems: "center" }}>
+            <Controller
+              name="vat_enabled"
+              control={control}
+              render={({ field }) => (
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={!!field.value}
+                      onChange={(e) => field.onChange(e.target.checked)}
+                    />
+                  }
+                  label="تفعيل الضريبة"
+                />
+              )}
+            />
+            <Controller
+              name="vat_rate"
+              control={control}
+              render={({ field }) => (
+                <TextField
+                  size="small"
+                  type="number"
+                  label="نسبة الضريبة %"
+                  value={field.value ?? ""}
+                  onChange={(e) => field.onChange(Number(e.target.value))}
+                  inputProps={{ min: 0, max: 100, step: 0.01 }}
+                  sx={{ width: 160 }}
+                />
+              )}
+            />
+            <Controller
+              name="prices_include_tax"
+              control={control}
+              render={({ field }) => (
+                <RadioGroup
+                  row
+                  value={field.value === false ? "exclusive" : "inclusive"}
+                  onChange={(e) => field.onChange(e.target.value === "inclusive")}
+                >
+                  <FormControlLabel value="inclusive" control={<Radio />} label="الأسعار شاملة الضريبة" />
+                  <FormControlLabel value="exclusive" control={<Radio />} label="الضريبة تضاف على السعر" />
+                </RadioGroup>
+              )}
+            />
+          </Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 3, mb: 2 }}>
+            رمز سبب الإعفاء (VATEX) في الفواتير الإلكترونية للأصناف المعفاة وذات
+            النسبة الصفرية.
+          </Typography>
+          <Box sx={{ display: "flex", gap: 3, flexWrap: "wrap" }}>
+            <Controller
+              name="vat_exemption_code_e"
+              control={control}
+              render={({ field }) => (
+                <TextField
+                  size="small"
+                  label="رمز الإعفاء (معفى)"
+                  placeholder="VATEX-SA-29"
+                  value={field.value ?? ""}
+                  onChange={field.onChange}
+                  sx={{ width: 220 }}
+                />
+              )}
+            />
+            <Controller
+              name="vat_exemption_code_z"
+              control={control}
+              render={({ field }) => (
+                <TextField
+                  size="small"
+                  label="رمز الإعفاء (نسبة صفر)"
+                  placeholder="VATEX-SA-35"
+                  value={field.value ?? ""}
+                  onChange={field.onChange}
+                  sx={{ width: 220 }}
+                />
+              )}
+            />
+          </Box>
+        </Box>
       </CardContent>
     </Card>
   );
@@ -1,5 +1,5 @@
 // src/components/suppliers/PaymentFormModal.tsx
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { format } from 'date-fns';
 
@@ -40,9 +40,9 @@ import supplierPaymentService, {
   SupplierPayment,
   PaymentMethod,
   PaymentType,
-  CreatePaymentData,
-  UpdatePaymentData,
+  OpenPurchase,
 } from '@/services/supplierPaymentService';
+import { formatNumber, preciseSum } from '@/constants';
 
 // Form types
 type PaymentFormData = {
@@ -75,6 +75,9 @@ const PaymentFormModal: React.FC<PaymentFormModalProps> = ({
 }) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [openPurchases, setOpenPurchases] = useState<OpenPurchase[]>([]);
+  // Amount of this payment settling each purchase, by purchase id
+  const [allocations, setAllocations] = useState<Record<number, number>>({});
 
   const form = useForm<PaymentFormData>({
     defaultValues: {
@@ -113,6 +116,33 @@ const PaymentFormModal: React.FC<PaymentFormModalProps> = ({
     }
   }, [isOpen, paymentToEdit, form]);
 
+  // Open purchases; when editing, this payment's own allocations count as still due
+  useEffect(() => {
+    if (!isOpen || !supplierId) return;
+    const existing = paymentToEdit?.allocations || [];
+    setAllocations(Object.fromEntries(existing.map((a) => [a.purchase_id, Number(a.amount)])));
+    supplierPaymentService
+      .getOpenPurchases(supplierId)
+      .then((purchases) => {
+        const byId = new Map(purchases.map((p) => [p.id, { ...p }]));
+        existing.forEach((a) => {
+          const purchase = byId.get(a.purchase_id);
+          if (purchase) purchase.due_amount = preciseSum([purchase.due_amount, a.amount], 2);
+        });
+        setOpenPurchases(Array.from(byId.values()));
+      })
+      .catch(() => setOpenPurchases([]));
+  }, [isOpen, supplierId, paymentToEdit]);
+
+  const amount = form.watch('amount');
+  const type = form.watch('type');
+  const allocatedTotal = useMemo(() => preciseSum(Object.values(allocations), 2), [allocations]);
+
+  const autoAllocate = () => {
+    const result = supplierPaymentService.allocateOldestFirst(Number(amount) || 0, openPurchases);
+    setAllocations(Object.fromEntries(result.map((a) => [a.purchase_id, a.amount])));
+  };
+
   const onSubmit = async (data: PaymentFormData) => {
     setIsSubmitting(true);
     setError(null);
@@ -139,14 +169,33 @@ const PaymentFormModal: React.FC<PaymentFormModalProps> = ({
       return;
     }
 
+    const allocationList =
+      data.type === 'payment'
+        ? Object.entries(allocations)
+            .filter(([, value]) => value > 0)
+            .map(([purchaseId, value]) => ({ purchase_id: Number(purchaseId), amount: value }))
+        : [];
+    if (allocatedTotal > data.amount + 0.001 && data.type === 'payment') {
+      setError('المبلغ الموزع على الفواتير أكبر من مبلغ الدفعة');
+      setIsSubmitting(false);
+      return;
+    }
+    const overAllocated = openPurchases.find((p) => (allocations[p.id] || 0) > Number(p.due_amount) + 0.001);
+    if (overAllocated && data.type === 'payment') {
+      setError(`المبلغ الموزع على الفاتورة ${overAllocated.reference_number || `#${overAllocated.id}`} أكبر من المتبقي عليها`);
+      setIsSubmitting(false);
+      return;
+    }
+
     try {
       if (paymentToEdit) {
         await supplierPaymentService.updatePayment(paymentToEdit.id, {
           ...data,
           id: paymentToEdit.id,
+          allocations: allocationList,
         });
       } else {
-        await supplierPaymentService.createPayment(supplierId, data);
+        await supplierPaymentService.createPayment(supplierId, { ...data, allocations: allocationList });
       }
 
       onSuccess();
@@ -165,7 +214,7 @@ const PaymentFormModal: React.FC<PaymentFormModalProps> = ({
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {paymentToEdit ? 'تعديل الدفع' : 'إضافة دفعة'}
@@ -296,6 +345,53 @@ const PaymentFormModal: React.FC<PaymentFormModalProps> = ({
               )}
             />
 
+            {/* Allocation against purchases */}
+            {type === 'payment' && openPurchases.length > 0 && (
+              <div className="space-y-2 rounded-md border p-3">
+                <div className="flex items-center justify-between">
+                  <Label>توزيع الدفعة على الفواتير</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={autoAllocate}>
+                    توزيع تلقائي (الأقدم استحقاقاً أولاً)
+                  </Button>
+                </div>
+                <div className="max-h-56 space-y-1 overflow-y-auto">
+                  {openPurchases.map((purchase) => {
+                    const overdue = supplierPaymentService.daysOverdue(purchase) > 0;
+                    return (
+                      <div key={purchase.id} className="flex items-center gap-2 text-sm">
+                        <div className="flex-1">
+                          <div className="font-medium">
+                            {purchase.reference_number || `#${purchase.id}`}
+                          </div>
+                          <div className={overdue ? 'text-xs text-red-600' : 'text-xs text-muted-foreground'}>
+                            استحقاق {(purchase.due_date || purchase.purchase_date).slice(0, 10)} — المتبقي{' '}
+                            {formatNumber(purchase.due_amount)}
+                          </div>
+                        </div>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min={0}
+                          className="w-28"
+                          value={allocations[purchase.id] || ''}
+                          onChange={(e) =>
+                            setAllocations((prev) => ({
+                              ...prev,
+                              [purchase.id]: Number(e.target.value) || 0,
+                            }))
+                          }
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  الموزع: {formatNumber(allocatedTotal)} — غير مخصص (على الحساب):{' '}
+                  {formatNumber(Math.max(0, (Number(amount) || 0) - allocatedTotal))}
+                </p>
+              </div>
+            )}
+
             {/* Notes */}
             <FormField
               control={form.control}
@@ -34,6 +34,14 @@ const supplierFormSchema = z.object({
     .optional(),
   phone: z.string().nullable().optional(),
   address: z.string().nullable().optional(),
+  payment_terms_days: z
+    .string()
+    .regex(/^\d*$/, { message: "أدخل عدد أيام صحيح" })
+    .optional(),
+  lead_time_days: z
+    .string()
+    .regex(/^\d*$/, { message: "أدخل عدد أيام صحيح" })
+    .optional(),
 });
 
 type SupplierFormValues = z.infer<typeof supplierFormSchema>;
@@ -65,6 +73,8 @@ const SupplierFormModal: React.FC<SupplierFormModalProps> = ({
       email: "",
       phone: "",
       address: "",
+      payment_terms_days: "",
+      lead_time_days: "",
     },
   });
 
@@ -87,6 +97,14 @@ const SupplierFormModal: React.FC<SupplierFormModalProps> = ({
           email: supplierToEdit.email || "",
           phone: supplierToEdit.phone || "",
           address: supplierToEdit.address || "",
+          payment_terms_days:
+            supplierToEdit.payment_terms_days != null
+              ? String(supplierToEdit.payment_terms_days)
+              : "",
+          lead_time_days:
+            supplierToEdit.lead_time_days != null
+              ? String(supplierToEdit.lead_time_days)
+              : "",
         });
       } else {
         reset({
@@ -95,6 +113,8 @@ const SupplierFormModal: React.FC<SupplierFormModalProps> = ({
           email: "",
           phone: "",
           address: "",
+          payment_terms_days: "",
+          lead_time_days: "",
         }); // Reset to defaults for adding
       }
     }
@@ -112,6 +132,9 @@ const SupplierFormModal: React.FC<SupplierFormModalProps> = ({
       email: data.email || null,
       phone: data.phone || null,
       address: data.address || null,
+      payment_terms_days:
+        data.payment_terms_days ? Number(data.payment_terms_days) : null,
+      lead_time_days: data.lead_time_days ? Number(data.lead_time_days) : null,
     };
 
     try {
@@ -233,6 +256,36 @@ const SupplierFormModal: React.FC<SupplierFormModalProps> = ({
               helperText={errors.phone?.message}
             />
 
+            <TextField
+              label="مدة السداد (أيام)"
+              type="number"
+              fullWidth
+              placeholder="مثال: 30"
+              disabled={isSubmitting}
+              inputProps={{ min: 0 }}
+              {...register("payment_terms_days")}
+              error={!!errors.payment_terms_days}
+              helperText={
+                errors.payment_terms_days?.message ||
+                "فارغ = الدفع عند الشراء"
+              }
+            />
+
+            <TextField
+              label="مدة التوريد (أيام)"
+              type="number"
+              fullWidth
+              placeholder="مثال: 7"
+              disabled={isSubmitting}
+              inputProps={{ min: 0 }}
+              {...register("lead_time_days")}
+              error={!!errors.lead_time_days}
+              helperText={
+                errors.lead_time_days?.message ||
+                "من الطلب حتى الاستلام، تُستخدم في اقتراحات إعادة الطلب"
+              }
+            />
+
             <Box sx={{ gridColumn: { xs: "span 1", sm: "span 2" } }}>
               <TextField
                 label="العنوان"
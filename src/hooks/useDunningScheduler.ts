@@ -0,0 +1,48 @@
+import { useEffect, useRef } from "react";
+import { toast } from "sonner";
+import { useAuthorization } from "./useAuthorization";
+import { useSettings } from "@/context/SettingsContext";
+import receivablesService from "../services/receivablesService";
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Runs due dunning campaigns from the browser (statements are rendered
+ * client-side). Each run is claimed on the server first, so several open
+ * sessions send it once.
+ */
+export const useDunningScheduler = () => {
+  const { hasPermission, isLoggedIn } = useAuthorization();
+  const { settings } = useSettings();
+  const enabled = isLoggedIn && hasPermission("manage-dunning") && !!settings?.whatsapp_enabled;
+  const running = useRef(false);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const check = async () => {
+      if (running.current || !navigator.onLine) return;
+      running.current = true;
+      try {
+        const campaigns = await receivablesService.getCampaigns();
+        for (const campaign of campaigns.filter((c) => receivablesService.isCampaignDue(c))) {
+          if (!(await receivablesService.claimRun(campaign.id))) continue;
+          const result = await receivablesService.runCampaign(campaign, settingsRef.current);
+          toast.info(`تذكير المديونيات "${campaign.name}"`, {
+            description: `أُرسل ${result.sent}، فشل ${result.failed}، بدون هاتف ${result.skipped}`,
+          });
+        }
+      } catch (error) {
+        console.error("Dunning scheduler check failed:", error);
+      } finally {
+        running.current = false;
+      }
+    };
+
+    check();
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled]);
+};
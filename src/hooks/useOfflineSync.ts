@@ -1,37 +1,55 @@
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useRef } from "react";
 import { toast } from "sonner";
 import { offlineSaleService } from "../services/offlineSaleService";
+import { offlineSyncEngine } from "../services/offlineSyncEngine";
+import { stockLedgerService } from "../services/stockLedgerService";
 import { backendHealthService } from "../services/backendHealthService";
+import { SyncAction } from "../services/db";
 
 export const useOfflineSync = () => {
   const [isOnline, setIsOnline] = useState(false);
-  
+
   const [isSyncing, setIsSyncing] = useState(false);
   const [lastSyncedProducts, setLastSyncedProducts] = useState<any[]>([]); // Product[] but avoiding circular dep issue if types not perfect
+  // Actions the engine gave up on; they stay in IndexedDB until retried
+  const [deadLetterActions, setDeadLetterActions] = useState<SyncAction[]>([]);
 
-  const triggerSync = useCallback(async () => {
+  const refreshDeadLetters = useCallback(async () => {
+    try {
+      setDeadLetterActions(await offlineSyncEngine.getDeadLetterActions());
+    } catch (error) {
+      console.error("Failed to load dead-letter sync actions:", error);
+    }
+  }, []);
+
+  const triggerSync = useCallback(async (options: { force?: boolean } = {}) => {
     if (isSyncing) return;
-    
+
     // Don't check backend accessibility here - rely on isOnline state instead
     // This avoids making health check requests before every sync
     if (!isOnline) {
       // Backend not accessible (based on last health check), don't sync
       return;
     }
-    
+
     setIsSyncing(true);
     try {
-    
+
       // processSyncQueue now returns { results, updatedProducts }
-      const { updatedProducts } =
-        await offlineSaleService.processSyncQueue((error) => {
-          const msg =
-            error?.response?.data?.message || error?.message || "Sync failed";
-          toast.error(`Sync Error: ${msg}`);
-        });
+      const { results, updatedProducts } =
+        await offlineSaleService.processSyncQueue(undefined, options);
+
+      // Only surface failures the engine won't retry by itself
+      const deadLettered = results.filter((r) => r.status === "dead_letter");
+      deadLettered.forEach((r) => {
+        toast.error(`Sync Error: ${r.classified?.message || "Sync failed"}`);
+      });
 
       if (updatedProducts && updatedProducts.length > 0) {
-        setLastSyncedProducts(updatedProducts);
+        // Sales still waiting to sync keep holding their stock
+        setLastSyncedProducts(
+          await stockLedgerService.applyReservations(updatedProducts)
+        );
       }
 
       // Also refresh products occasionally - maybe we skip this now if we rely on partial updates
@@ -43,8 +61,29 @@ export const useOfflineSync = () => {
       toast.error(msg);
     } finally {
       setIsSyncing(false);
+      refreshDeadLetters();
     }
-  }, [isSyncing, isOnline]);
+  }, [isSyncing, isOnline, refreshDeadLetters]);
+
+  /**
+   * Re-queue dead-lettered actions (all by default), e.g. after fixing stock on the server, and sync now.
+   */
+  const retryDeadLetters = useCallback(
+    async (ids?: number[]) => {
+      const targets =
+        ids ?? deadLetterActions.map((a) => a.id).filter((id): id is number => !!id);
+      for (const id of targets) {
+        await offlineSyncEngine.retryAction(id);
+      }
+      await refreshDeadLetters();
+      await triggerSync({ force: true });
+    },
+    [deadLetterActions, refreshDeadLetters, triggerSync]
+  );
+
+  // Latest triggerSync for the interval below, which must not re-subscribe on every render
+  const triggerSyncRef = useRef(triggerSync);
+  triggerSyncRef.current = triggerSync;
 
   const checkBackend = useCallback(async () => {
     const accessible = await backendHealthService.checkBackendAccessible();
@@ -53,6 +92,8 @@ export const useOfflineSync = () => {
   }, []);
 
   useEffect(() => {
+    refreshDeadLetters();
+
     // Initial check on mount
     checkBackend().then((accessible) => {
       if (accessible) {
@@ -61,10 +102,15 @@ export const useOfflineSync = () => {
     });
 
     // Periodic health checks every 30 seconds (reduced frequency)
-    // Only check health, don't trigger sync automatically
+    // Only sync automatically when an action's backoff window has elapsed,
+    // otherwise let user actions or other events trigger sync
     const healthCheckInterval = setInterval(async () => {
-      await checkBackend();
-      // Don't auto-trigger sync - let user actions or other events trigger sync
+      const accessible = await checkBackend();
+      if (!accessible) return;
+      const due = await offlineSyncEngine.getRunnableActions();
+      if (due.length > 0) {
+        triggerSyncRef.current();
+      }
     }, 30000); // Increased to 30 seconds
 
     return () => {
@@ -72,5 +118,12 @@ export const useOfflineSync = () => {
     };
   }, [checkBackend]); // Removed triggerSync from dependencies to prevent loops
 
-  return { isOnline, isSyncing, triggerSync, lastSyncedProducts };
+  return {
+    isOnline,
+    isSyncing,
+    triggerSync,
+    lastSyncedProducts,
+    deadLetterActions,
+    retryDeadLetters,
+  };
 };
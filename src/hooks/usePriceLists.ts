@@ -0,0 +1,10 @@
+import { useQuery } from "@tanstack/react-query";
+import { priceListService, PriceList } from "../services/priceListService";
+
+export function usePriceLists() {
+  return useQuery<PriceList[]>({
+    queryKey: ["price-lists"],
+    queryFn: () => priceListService.getPriceLists(),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
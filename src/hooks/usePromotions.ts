@@ -0,0 +1,10 @@
+import { useQuery } from "@tanstack/react-query";
+import { promotionService, Promotion } from "../services/promotionService";
+
+export function usePromotions(activeOnly = true) {
+  return useQuery<Promotion[]>({
+    queryKey: ["promotions", activeOnly ? "active" : "all"],
+    queryFn: () => promotionService.getPromotions(activeOnly),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
@@ -1,9 +1,11 @@
 // src/hooks/useSaleOperations.ts
-import { useCallback } from 'react';
+import { useCallback, useRef } from 'react';
 import { toast } from 'sonner';
 import { Product } from '../services/productService';
 import saleService from '../services/saleService';
 import clientService from '../services/clientService';
+import { promotionService, Promotion } from '../services/promotionService';
+import { priceListService } from '../services/priceListService';
 import { transformBackendSaleToPOS, extractCartItemsFromSale } from '../utils/saleTransformers';
 import { Sale, CartItem } from '../components/pos/types';
 
@@ -217,9 +219,11 @@ export const useSaleOperations = ({
         return;
       }
 
+      // The list price stays on the line, so the change shows up in the overrides audit
       const updatedSale = await saleService.updateSaleItem(selectedSale.id, itemToUpdate.id, {
         quantity: itemToUpdate.quantity,
-        unit_price: newUnitPrice
+        unit_price: newUnitPrice,
+        list_price: itemToUpdate.listPrice ?? itemToUpdate.unitPrice
       });
 
       updateSaleFromBackend(updatedSale);
@@ -264,6 +268,95 @@ export const useSaleOperations = ({
     }
   }, [selectedSale, currentSaleItems, updateSaleFromBackend, showToast, onRefreshTrigger]);
 
+  // Last line discounts sent, so a backend that ignores them doesn't cause a request loop
+  const lastLineDiscountsRef = useRef<string | null>(null);
+
+  const sendLineDiscounts = useCallback(async (
+    lines: Parameters<typeof saleService.updateLineDiscountsPOS>[1]
+  ) => {
+    if (!selectedSale || lines.length === 0) return;
+    const signature = JSON.stringify([selectedSale.id, lines]);
+    if (lastLineDiscountsRef.current === signature) return;
+    lastLineDiscountsRef.current = signature;
+    const updatedSale = await saleService.updateLineDiscountsPOS(selectedSale.id, lines);
+    updateSaleFromBackend(updatedSale);
+    onRefreshTrigger();
+  }, [selectedSale, updateSaleFromBackend, onRefreshTrigger]);
+
+  /**
+   * Re-evaluate promotions on the cart (at the sale's creation time) and save
+   * the lines whose discount changed. Lines with a manual discount are kept.
+   */
+  const applyPromotions = useCallback(async (promotions: Promotion[]) => {
+    if (!selectedSale) return;
+    const context = { client_id: selectedSale.client_id, at: selectedSale.created_at };
+    const changed = currentSaleItems
+      .filter((item) => item.id && item.discountSource !== 'manual')
+      .map((item) => {
+        const applied = promotionService.evaluateLine(
+          {
+            product_id: item.product.id,
+            category_id: item.product.category_id ?? null,
+            quantity: item.quantity,
+            unit_price: item.unitPrice,
+          },
+          promotions,
+          context
+        );
+        return {
+          sale_item_id: item.id!,
+          discount_amount: applied?.discount_amount ?? 0,
+          discount_source: applied ? ('promotion' as const) : null,
+          promotion_id: applied?.promotion_id ?? null,
+          current: item,
+        };
+      })
+      .filter(({ discount_amount, promotion_id, current }) =>
+        Math.abs(discount_amount - (current.discountAmount || 0)) >= 0.005 ||
+        promotion_id !== (current.promotionId ?? null)
+      )
+      .map(({ sale_item_id, discount_amount, discount_source, promotion_id }) => ({
+        sale_item_id,
+        discount_amount,
+        discount_source,
+        promotion_id,
+      }));
+
+    try {
+      await sendLineDiscounts(changed);
+    } catch (error) {
+      console.error('Error applying promotions:', error);
+      showToast(saleService.getErrorMessage(error), 'error');
+    }
+  }, [selectedSale, currentSaleItems, sendLineDiscounts, showToast]);
+
+  // By line index: a product may sit on several lines (e.g. one per batch or unit)
+  const updateLineDiscount = useCallback(async (lineIndex: number, amount: number) => {
+    if (!selectedSale) {
+      showToast('لم يتم اختيار بيع', 'error');
+      return;
+    }
+    const item = currentSaleItems[lineIndex];
+    if (!item || !item.id) {
+      showToast('العنصر غير موجود في السلة', 'error');
+      return;
+    }
+    try {
+      await sendLineDiscounts([{
+        sale_item_id: item.id,
+        discount_amount: amount,
+        // 0 hands the line back to the promotions
+        discount_source: amount > 0 ? 'manual' : null,
+        promotion_id: null,
+      }]);
+      showToast('تم تحديث خصم الصنف', 'success');
+    } catch (error) {
+      console.error('Error updating line discount:', error);
+      showToast(saleService.getErrorMessage(error), 'error');
+      throw error;
+    }
+  }, [selectedSale, currentSaleItems, sendLineDiscounts, showToast]);
+
   const updateClient = useCallback(async (client: import('../services/clientService').Client | null) => {
     if (!selectedSale || !client) return;
     
@@ -273,13 +366,21 @@ export const useSaleOperations = ({
       const updatedSale = { ...selectedSale, client_id: client.id, client_name: client.name };
       onSaleUpdate(updatedSale);
       onSalesListUpdate(prev => prev.map(s => s.id === selectedSale.id ? updatedSale : s));
+
+      // Reprice with the client's list (hand-set prices are kept by the backend)
+      const priceListId = priceListService.getListForClient(client)?.id ?? null;
+      if (selectedSale.items.length > 0 && priceListId !== (selectedSale.price_list_id ?? null)) {
+        const repricedSale = await saleService.applyPriceListPOS(selectedSale.id, priceListId);
+        updateSaleFromBackend({ ...repricedSale, client_id: client.id, client_name: client.name });
+        onRefreshTrigger();
+      }
       
       showToast('تم تحديث البيع', 'success');
     } catch (error) {
       const errorMessage = saleService.getErrorMessage(error);
       showToast(errorMessage, 'error');
     }
-  }, [selectedSale, onSaleUpdate, onSalesListUpdate, showToast]);
+  }, [selectedSale, onSaleUpdate, onSalesListUpdate, updateSaleFromBackend, onRefreshTrigger, showToast]);
 
   return {
     addProductToSale,
@@ -289,6 +390,8 @@ export const useSaleOperations = ({
     updateBatch,
     removeFromCurrentSale,
     updateClient,
+    applyPromotions,
+    updateLineDiscount,
     showToast,
   };
 };
@@ -8,6 +8,13 @@ export interface Shift {
     start_time?: string;
     end_time?: string;
     status?: string;
+    // Cash drawer audit (per shift / user)
+    user_id?: number | null;
+    user_name?: string | null;
+    opening_float?: number | null;
+    expected_cash?: number | null;
+    counted_cash?: number | null;
+    over_short?: number | null;
 }
 
 export function useShifts() {
@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import { vatService } from "../services/vatService";
+
+interface UseVatReturnParams {
+  startDate: string;
+  endDate: string;
+}
+
+export function useVatReturn({ startDate, endDate }: UseVatReturnParams) {
+  return useQuery({
+    queryKey: ["vat-return", startDate, endDate],
+    queryFn: () => vatService.getVatReturn(startDate, endDate),
+    enabled: Boolean(startDate && endDate),
+  });
+}
@@ -188,6 +188,7 @@ const AnalyticsPage: React.FC = () => {
   const [selectedRange, setSelectedRange] = useState<DateRange>("30days");
   const [selectedTab, setSelectedTab] = useState("overview");
   const [isUsingMockData, setIsUsingMockData] = useState(false);
+  const [groupVariants, setGroupVariants] = useState(true);
 
   // Fetch analytics data
   const {
@@ -245,6 +246,12 @@ const AnalyticsPage: React.FC = () => {
     };
   }, [analyticsData]);
 
+  // Variant sales count towards their parent product unless shown separately
+  const topProducts = useMemo(() => {
+    const products = analyticsData?.top_products ?? [];
+    return (groupVariants ? analyticsService.rollUpVariants(products) : products).slice(0, 5);
+  }, [analyticsData, groupVariants]);
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -396,12 +403,19 @@ const AnalyticsPage: React.FC = () => {
 
             {/* Top Products */}
             <Card>
-              <CardHeader>
+              <CardHeader className="flex flex-row items-center justify-between">
                 <CardTitle>أكثر المنتجات مبيعاً</CardTitle>
+                <Button
+                  variant={groupVariants ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setGroupVariants((v) => !v)}
+                >
+                  تجميع المتغيرات
+                </Button>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
-                  <BarChart data={analyticsData.top_products?.slice(0, 5)}>
+                  <BarChart data={topProducts}>
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="name" />
                     <YAxis />
@@ -40,6 +40,7 @@ import {
 // API Client & Error Helpers
 import apiClient, { getErrorMessage } from "@/lib/axios"; // Adjust path as needed
 import { formatCurrency, formatNumber } from "@/constants";
+import PaymentsDueWidget from "@/components/dashboard/PaymentsDueWidget";
 
 // --- Types (Ensure these match your backend response) ---
 interface SalesSummary {
@@ -527,6 +528,7 @@ const DashboardPage: React.FC = () => {
             </Card>
           </div>{" "}
           {/* End Summary Cards Grid */}
+          <PaymentsDueWidget />
           {/* --- Low Stock Sample Display (If any) --- */}
           {summaryData.inventory.low_stock_count > 0 &&
             summaryData.inventory.low_stock_sample && (
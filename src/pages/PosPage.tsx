@@ -34,6 +34,8 @@ import { useSaleSelection } from "../hooks/useSaleSelection";
 import { useKeyboardShortcuts } from "../hooks/useKeyboardShortcuts";
 import { useSaleLoading } from "../hooks/useSaleLoading";
 import { useDialogState } from "../hooks/useDialogState";
+import { usePromotions } from "../hooks/usePromotions";
+import { priceListService } from "../services/priceListService";
 
 const PosPage: React.FC = () => {
   const { user } = useAuth();
@@ -80,6 +82,34 @@ const PosPage: React.FC = () => {
     onRefreshTrigger: saleState.refresh,
   });
 
+  const { data: promotions } = usePromotions();
+  const isSalePaid = !!saleState.selectedSale?.payments?.length;
+
+  // Price lists are looked up when a client is picked
+  useEffect(() => {
+    priceListService.refreshCache();
+  }, []);
+
+  // Keep promotion discounts in line with the cart and the client
+  // (applyPromotions changes with the sale and its items)
+  const { applyPromotions } = saleOperations;
+  const hasSelectedSale = !!saleState.selectedSale;
+  useEffect(() => {
+    if (!promotions || !hasSelectedSale || isSalePaid) return;
+    applyPromotions(promotions);
+  }, [promotions, hasSelectedSale, isSalePaid, applyPromotions]);
+
+  // Update line discount with loading state
+  const updateLineDiscount = useCallback(async (lineIndex: number, amount: number) => {
+    const productId = saleState.currentSaleItems[lineIndex]?.product.id;
+    if (productId !== undefined) loadingState.setUpdatingItem(productId, true);
+    try {
+      await saleOperations.updateLineDiscount(lineIndex, amount);
+    } finally {
+      if (productId !== undefined) loadingState.setUpdatingItem(productId, false);
+    }
+  }, [saleOperations, loadingState, saleState.currentSaleItems]);
+
   // Load sales on mount and when filters change
   useEffect(() => {
     loadTodaySales();
@@ -310,7 +340,8 @@ const PosPage: React.FC = () => {
                 onUpdateUnitPrice={updateUnitPrice}
                 onRemoveItem={removeFromCurrentSale}
                 onUpdateBatch={updateBatch}
-                isSalePaid={saleState.selectedSale ? (saleState.selectedSale.payments && saleState.selectedSale.payments.length > 0) : false}
+                onUpdateLineDiscount={updateLineDiscount}
+                isSalePaid={isSalePaid}
                 deletingItems={loadingState.deletingItems}
                 updatingItems={loadingState.updatingItems}
                 isLoading={loadingState.isLoadingSaleItems}
@@ -23,10 +23,35 @@ import { useAuth } from "@/context/AuthContext";
 import { usePosFilters } from "@/context/PosFilterContext";
 import { useSettings } from "@/context/SettingsContext";
 import { useOfflineSync } from "../hooks/useOfflineSync";
-import { offlineSaleService } from "../services/offlineSaleService";
+import {
+  offlineSaleService,
+  CatalogSyncProgress,
+} from "../services/offlineSaleService";
 import saleService from "../services/saleService";
-import { dbService, OfflineSale, OfflineSaleItem } from "../services/db";
+import shiftService from "../services/shiftService";
+import { offlineShiftService } from "../services/offlineShiftService";
+import {
+  cashDrawerService,
+  CashMovementType,
+  DrawerCount,
+} from "../services/cashDrawerService";
+import {
+  dbService,
+  OfflineSale,
+  OfflineSaleItem,
+  OfflineSaleReturn,
+  OfflineShift,
+} from "../services/db";
 import { Product } from "../services/productService";
+import { promotionService } from "../services/promotionService";
+import { priceListService } from "../services/priceListService";
+import {
+  getLineFactor,
+  getUnitFactor,
+  hasLineUnit,
+  UnitLine,
+  UnknownUnitError,
+} from "../utils/productUnits";
 import { CurrentSaleItemsColumn } from "../components/pos/CurrentSaleItemsColumn";
 import { CartItem } from "../components/pos/types";
 import { PendingSalesColumn } from "../components/pos/PendingSalesColumn";
@@ -35,13 +60,22 @@ import { OfflineSaleSummaryColumn } from "../components/pos/OfflineSaleSummaryCo
 import { PosOfflineHeader } from "../components/pos/PosOfflineHeader";
 import { PosShiftReportPdf } from "../components/pos/PosShiftReportPdf";
 import { CalculatorSummaryDialog } from "../components/pos/CalculatorSummaryDialog";
+import { OpenShiftDialog } from "../components/pos/OpenShiftDialog";
+import { CloseShiftCountDialog } from "../components/pos/CloseShiftCountDialog";
+import { CashMovementDialog } from "../components/pos/CashMovementDialog";
 import settingService from "@/services/settingService";
 
 export const PosPageOffline = () => {
   const { user } = useAuth();
-  const { isOnline, isSyncing, triggerSync, lastSyncedProducts } =
-    useOfflineSync();
-  const { getSetting, isLoadingSettings } = useSettings();
+  const {
+    isOnline,
+    isSyncing,
+    triggerSync,
+    lastSyncedProducts,
+    deadLetterActions,
+    retryDeadLetters,
+  } = useOfflineSync();
+  const { settings, getSetting, isLoadingSettings } = useSettings();
   const posMode = getSetting("pos_mode", "shift") as "shift" | "days";
   // console.log(settingService.getSettings(),'settingsservice')
   // Date state for days mode (initialize early, before shift state)
@@ -67,6 +101,27 @@ export const PosPageOffline = () => {
   const [availableShiftIds, setAvailableShiftIds] = useState<number[]>([]);
   const [isSummaryDialogOpen, setIsSummaryDialogOpen] = useState(false);
 
+  // Show a shift (server or local) and keep the localStorage copy in step
+  const applyShift = (next: {
+    id: number;
+    opened_at: string | null;
+    closed_at: string | null;
+    is_open: boolean;
+  }) => {
+    const normalizedShift = {
+      id: next.id,
+      opened_at: next.opened_at,
+      closed_at: next.closed_at,
+      is_open: next.is_open,
+    };
+    setShift(normalizedShift);
+    localStorage.setItem("current_pos_shift", JSON.stringify(normalizedShift));
+    setSelectedShiftId((prev) =>
+      // Follow the shift when its placeholder id is replaced by the server id
+      !prev || prev < 0 ? normalizedShift.id : prev
+    );
+  };
+
   useEffect(() => {
     // Skip shift fetching in days mode or if settings are still loading
     if (isLoadingSettings || posMode === "days") {
@@ -74,24 +129,27 @@ export const PosPageOffline = () => {
     }
 
     const fetchShift = async () => {
-      if (!isOnline) {
-        // Try load from local storage
+      // Local shift state wins while open/close events are still queued
+      const pendingLocal = await offlineShiftService.hasPendingEvents();
+      if (!isOnline || pendingLocal) {
+        const local = await offlineShiftService.getCurrentShift();
+        if (local) {
+          applyShift(local);
+          return;
+        }
+        // Shift cached before shifts were stored in IndexedDB
         const stored = localStorage.getItem("current_pos_shift");
         if (stored) {
           try {
             const parsed = JSON.parse(stored);
             // Ensure is_open is a boolean
-            const normalizedShift = {
+            applyShift({
               ...parsed,
               is_open:
                 parsed.is_open === true ||
                 parsed.is_open === "true" ||
                 parsed.is_open === 1,
-            };
-            setShift(normalizedShift);
-            if (!selectedShiftId && normalizedShift?.id) {
-              setSelectedShiftId(normalizedShift.id);
-            }
+            });
           } catch (e) {
             console.error("Error parsing stored shift", e);
           }
@@ -100,37 +158,15 @@ export const PosPageOffline = () => {
       }
       try {
         setShiftLoading(true);
-        const response = await apiClient.get("/shifts/current");
-        if (response.status === 200) {
-          const shiftData = response.data.data || response.data;
-          // Ensure is_open is a boolean
-          const normalizedShift = {
-            ...shiftData,
-            is_open:
-              shiftData.is_open === true ||
-              shiftData.is_open === "true" ||
-              shiftData.is_open === 1,
-          };
-          setShift(normalizedShift);
-          localStorage.setItem(
-            "current_pos_shift",
-            JSON.stringify(normalizedShift)
-          );
-          // Initialize selected shift ID
-          if (!selectedShiftId && normalizedShift?.id) {
-            setSelectedShiftId(normalizedShift.id);
-          }
+        const currentShift = await shiftService.getCurrentShift();
+        if (currentShift) {
+          applyShift(await offlineShiftService.recordServerShift(currentShift));
         } else {
           setShift(null);
           localStorage.removeItem("current_pos_shift");
         }
-      } catch (error: any) {
-        if (error?.response?.status === 204) {
-          setShift(null);
-          localStorage.removeItem("current_pos_shift");
-        } else {
-          console.error("Failed to load current shift:", error);
-        }
+      } catch (error) {
+        console.error("Failed to load current shift:", error);
       } finally {
         setShiftLoading(false);
       }
@@ -153,38 +189,61 @@ export const PosPageOffline = () => {
     }
   }, [posMode]);
 
-  const handleOpenShift = async () => {
+  // Cash drawer session of the current shift (local record, see offlineShiftService)
+  const [drawerShift, setDrawerShift] = useState<OfflineShift | null>(null);
+  const [isOpenShiftDialogOpen, setIsOpenShiftDialogOpen] = useState(false);
+  const [isCloseShiftDialogOpen, setIsCloseShiftDialogOpen] = useState(false);
+  const [isCashMovementDialogOpen, setIsCashMovementDialogOpen] = useState(false);
+
+  useEffect(() => {
+    const shiftId = selectedShiftId || shift?.id;
+    if (!shiftId || posMode === "days") {
+      setDrawerShift(null);
+      return;
+    }
+    offlineShiftService
+      .getShiftById(shiftId)
+      .then((local) => setDrawerShift(local ?? null))
+      .catch((error) => console.error("Failed to load drawer session:", error));
+  }, [selectedShiftId, shift?.id, shift?.is_open, posMode]);
+
+  // Completed sales of a shift, counted once (local copies of synced sales are skipped)
+  const getDrawerSales = (shiftId: number): OfflineSale[] => {
+    const syncedIds = new Set(syncedSales.map((s) => s.id));
+    return [
+      ...syncedSales.filter((s) => Number(s.shift_id) === shiftId),
+      ...localPendingSales.filter(
+        (s) =>
+          s.shift_id === shiftId &&
+          s.status === "completed" &&
+          !(s.id && syncedIds.has(s.id))
+      ),
+    ];
+  };
+
+  const handleOpenShift = async (openingFloat: number) => {
     try {
       setShiftLoading(true);
-      const response = await apiClient.post("/shifts/open");
-      const newShift = response.data.data || response.data;
-      // Ensure is_open is a boolean
-      const normalizedShift = {
-        ...newShift,
-        is_open: true, // Explicitly set to true when opening
-      };
-      setShift(normalizedShift);
-      localStorage.setItem(
-        "current_pos_shift",
-        JSON.stringify(normalizedShift)
+      const newShift = await offlineShiftService.openShift(
+        user?.id ?? null,
+        isOnline,
+        openingFloat
       );
+      applyShift(newShift);
+      setDrawerShift(newShift);
+      setIsOpenShiftDialogOpen(false);
 
       // Automatically select the newly opened shift
-      if (normalizedShift?.id) {
-        setSelectedShiftId(normalizedShift.id);
-      }
+      setSelectedShiftId(newShift.id);
 
-      // Delete all pending (unsynced) sales when opening a new shift
-      try {
-        await offlineSaleService.deleteAllPendingSales();
-        // Reload pending sales list to update the UI
-        await loadLocalPendingSales();
-      } catch (deleteError) {
-        console.error("Failed to delete pending sales:", deleteError);
-        // Don't fail the shift opening if deletion fails, just log it
-      }
+      // Unsynced sales of the previous shift are kept and keep syncing
+      await loadLocalPendingSales();
 
-      toast.success("تم فتح الوردية");
+      toast.success(
+        newShift.pending_open
+          ? "تم فتح الوردية محلياً وستتم مزامنتها عند الاتصال"
+          : "تم فتح الوردية"
+      );
     } catch (error) {
       console.error("Failed to open shift:", error);
       toast.error("فشل فتح الوردية");
@@ -193,22 +252,28 @@ export const PosPageOffline = () => {
     }
   };
 
-  const handleCloseShift = async () => {
+  const handleCloseShift = async (count: DrawerCount) => {
+    if (!shift) return;
     try {
       setShiftLoading(true);
-      const response = await apiClient.post("/shifts/close");
-      const updatedShift = response.data.data || response.data;
-      // Ensure is_open is a boolean
-      const normalizedShift = {
-        ...updatedShift,
-        is_open: false, // Explicitly set to false when closing
-      };
-      setShift(normalizedShift);
-      localStorage.setItem(
-        "current_pos_shift",
-        JSON.stringify(normalizedShift)
+      const local = (await offlineShiftService.getShiftById(shift.id)) ?? drawerShift;
+      const summary = cashDrawerService.summarize(
+        local ?? {},
+        getDrawerSales(shift.id),
+        await offlineShiftService.getShiftReturns(shift.id)
+      );
+      const closedShift = await offlineShiftService.closeShift(shift, isOnline, {
+        count,
+        expectedCash: summary.expected_cash,
+      });
+      applyShift(closedShift);
+      setDrawerShift(closedShift);
+      setIsCloseShiftDialogOpen(false);
+      toast.success(
+        closedShift.pending_close
+          ? "تم إغلاق الوردية محلياً وستتم مزامنتها عند الاتصال"
+          : "تم إغلاق الوردية"
       );
-      toast.success("تم إغلاق الوردية");
     } catch (error) {
       console.error("Failed to close shift:", error);
       toast.error("فشل إغلاق الوردية");
@@ -217,18 +282,48 @@ export const PosPageOffline = () => {
     }
   };
 
+  const handleCashMovement = async (data: {
+    type: CashMovementType;
+    amount: number;
+    reason: string;
+  }) => {
+    if (!shift) return;
+    const updated = await offlineShiftService.addCashMovement(shift.id, {
+      ...data,
+      user_id: user?.id ?? null,
+    });
+    setDrawerShift(updated);
+    toast.success("تم تسجيل الحركة النقدية");
+    triggerSync();
+  };
+
   // UI State
   const [products, setProducts] = useState<Product[]>([]);
   const [clients, setClients] = useState<any[]>([]); // Using any for client type for now as we didn't import strict type
   const [currentSale, setCurrentSale] = useState<OfflineSale>(
-    offlineSaleService.createDraftSale(null, user?.id ?? null)
+    offlineSaleService.createDraftSale(null, user?.id ?? null, user?.warehouse_id ?? null)
   );
   // MOVED TO HEADER: inputValue, autocompleteOpen, inputRef
 
   // Dialog State
   const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
   const [isShiftReportOpen, setIsShiftReportOpen] = useState(false);
+
+  // Returns of the drawer's shift, reloaded when the report is opened
+  const [drawerReturns, setDrawerReturns] = useState<OfflineSaleReturn[]>([]);
+  useEffect(() => {
+    if (!drawerShift) {
+      setDrawerReturns([]);
+      return;
+    }
+    offlineShiftService
+      .getShiftReturns(drawerShift.id)
+      .then(setDrawerReturns)
+      .catch((error) => console.error("Failed to load shift returns:", error));
+  }, [drawerShift, isShiftReportOpen]);
   const [isPageLoading, setIsPageLoading] = useState(true);
+  const [catalogSyncProgress, setCatalogSyncProgress] =
+    useState<CatalogSyncProgress | null>(null);
   
   // Track sales that are currently being processed/completed
   const [processingSales, setProcessingSales] = useState<Set<string>>(new Set());
@@ -247,13 +342,19 @@ export const PosPageOffline = () => {
         const localClients = await offlineSaleService.searchClients("");
         if (localClients.length > 0) setClients(localClients);
 
+        await promotionService.loadCache();
+        await priceListService.loadCache();
+
         // 2. If online, fetch fresh data
         if (isOnline) {
           try {
             await offlineSaleService.initializeProducts(
-              user?.warehouse_id || undefined
+              user?.warehouse_id || undefined,
+              setCatalogSyncProgress
             );
-            await offlineSaleService.initializeClients();
+            await offlineSaleService.initializeClients(setCatalogSyncProgress);
+            await promotionService.refreshCache();
+            await priceListService.refreshCache();
 
             // 3. Refresh state from updated DB
             const freshProducts = await offlineSaleService.searchProducts("");
@@ -263,6 +364,8 @@ export const PosPageOffline = () => {
             setClients(freshClients);
           } catch (e) {
             console.error("Auto-update failed", e);
+          } finally {
+            setCatalogSyncProgress(null);
           }
         }
       } finally {
@@ -336,43 +439,27 @@ export const PosPageOffline = () => {
 
   // --- Actions ---
 
-  // Helper function to get price based on unit type
+  // Price of the product in the sale's price list, falling back to the product price.
+  // A sale without a list yet (no client picked) uses the default list.
   const getPriceForUnitType = (
     product: Product,
-    unitType: "stocking" | "sellable" = "sellable"
+    unitType: "stocking" | "sellable",
+    sale: OfflineSale,
+    unitId: number | null = null
   ): number => {
-    const unitsPerStocking = product.units_per_stocking_unit || 1;
-
-    if (unitType === "stocking") {
-      // Calculate price per stocking unit (box)
-      const sellablePrice = Number(
-        product.last_sale_price_per_sellable_unit || 0
-      );
-      if (
-        sellablePrice === 0 &&
-        product.available_batches &&
-        product.available_batches.length > 0
-      ) {
-        const batchPrice = Number(product.available_batches[0].sale_price || 0);
-        return batchPrice * unitsPerStocking;
-      }
-      return sellablePrice * unitsPerStocking;
-    } else {
-      // Price per sellable unit (piece)
-      let price = Number(product.last_sale_price_per_sellable_unit || 0);
-      if (
-        price === 0 &&
-        product.available_batches &&
-        product.available_batches.length > 0
-      ) {
-        price = Number(product.available_batches[0].sale_price || 0);
-      }
-      return price;
-    }
+    const priceList =
+      sale.price_list_id !== undefined
+        ? priceListService.getById(sale.price_list_id)
+        : priceListService.getListForClient(null);
+    return priceListService.getUnitPrice(product, unitType, priceList, unitId);
   };
 
   const addToCart = useCallback(
-    (product: Product, unitType: "stocking" | "sellable" = "sellable") => {
+    (
+      product: Product,
+      unitType: "stocking" | "sellable" = "sellable",
+      count: number = 1 // Units added at once, e.g. by a multi-pack barcode
+    ) => {
       if (currentSale.is_synced) {
         toast.error("لا يمكن تعديل عملية بيع تمت مزامنتها");
         return;
@@ -397,7 +484,13 @@ export const PosPageOffline = () => {
       );
 
       if (currentStock <= 0) {
-        toast.error("عذراً، هذا المنتج غير متوفر في المخزون (الكمية 0)");
+        // Stock may only be exhausted by sales that haven't synced yet
+        const reserved = Number(product.reserved_quantity || 0);
+        toast.error(
+          reserved > 0
+            ? `عذراً، الكمية المتبقية محجوزة لمبيعات غير متزامنة (${reserved})`
+            : "عذراً، هذا المنتج غير متوفر في المخزون (الكمية 0)"
+        );
         return;
       }
 
@@ -406,7 +499,7 @@ export const PosPageOffline = () => {
         const availableStockingUnits = Math.floor(
           currentStock / unitsPerStocking
         );
-        if (availableStockingUnits <= 0) {
+        if (availableStockingUnits < count) {
           toast.error(
             `عذراً، لا يوجد مخزون كافٍ. المتاح: ${currentStock} ${
               product.sellable_unit_name || "قطعة"
@@ -414,11 +507,18 @@ export const PosPageOffline = () => {
           );
           return;
         }
+      } else if (currentStock < count) {
+        toast.error(
+          `عذراً، لا يوجد مخزون كافٍ. المتاح: ${currentStock} ${
+            product.sellable_unit_name || "قطعة"
+          }`
+        );
+        return;
       }
 
       updateCurrentSale((prev) => {
         const existing = prev.items.find((i) => i.product_id === product.id);
-        const price = getPriceForUnitType(product, unitType);
+        const price = getPriceForUnitType(product, unitType, prev);
         const currentStock = Number(
           product?.current_stock_quantity ?? product?.stock_quantity ?? 0
         );
@@ -428,10 +528,12 @@ export const PosPageOffline = () => {
 
         if (existing) {
           // If existing item has different unit type, convert quantity
-          const existingUnitType = (existing as any).unitType || "sellable";
-          if (existingUnitType === unitType) {
+          const existingLine = existing as OfflineSaleItem & UnitLine;
+          const existingUnitType = existingLine.unitType || "sellable";
+          if (existingUnitType === unitType && existingLine.unitId == null) {
             // Same unit type, just increment
-            const addedQty = unitType === "stocking" ? unitsPerStocking : 1;
+            const addedQty =
+              (unitType === "stocking" ? unitsPerStocking : 1) * count;
             quantityToDeduct = addedQty;
 
             newItems = prev.items.map((i) => {
@@ -444,7 +546,7 @@ export const PosPageOffline = () => {
                 };
                 return {
                   ...i,
-                  quantity: i.quantity + 1,
+                  quantity: i.quantity + count,
                   product: updatedProduct,
                 };
               }
@@ -452,12 +554,14 @@ export const PosPageOffline = () => {
             });
           } else {
             // Different unit type, convert and add
+            if (!hasLineUnit(product, existingLine)) {
+              toast.error(new UnknownUnitError(existingLine.unitId!).message);
+              return prev;
+            }
             const existingQtyInSellable =
-              existingUnitType === "stocking"
-                ? existing.quantity * unitsPerStocking
-                : existing.quantity;
+              existing.quantity * getLineFactor(product, existingLine);
             const newQtyInSellable =
-              unitType === "stocking" ? unitsPerStocking : 1;
+              (unitType === "stocking" ? unitsPerStocking : 1) * count;
             const totalSellableQty = existingQtyInSellable + newQtyInSellable;
             quantityToDeduct = newQtyInSellable;
 
@@ -482,7 +586,9 @@ export const PosPageOffline = () => {
                   ...i,
                   quantity: newQty,
                   unit_price: price,
+                  list_price: price,
                   unitType: unitType,
+                  unitId: null,
                   product: updatedProduct,
                 };
               }
@@ -491,7 +597,8 @@ export const PosPageOffline = () => {
           }
         } else {
           // New item - deduct quantity from stock
-          quantityToDeduct = unitType === "stocking" ? unitsPerStocking : 1;
+          quantityToDeduct =
+            (unitType === "stocking" ? unitsPerStocking : 1) * count;
 
           const updatedProduct: Product = {
             ...product,
@@ -507,8 +614,9 @@ export const PosPageOffline = () => {
           } = {
             product_id: product.id,
             product_name: product.name,
-            quantity: 1,
+            quantity: count,
             unit_price: price,
+            list_price: price,
             product: updatedProduct,
             id: undefined, // New item
             unitType: unitType,
@@ -535,10 +643,18 @@ export const PosPageOffline = () => {
           });
         }
 
-        return offlineSaleService.calculateTotals({ ...prev, items: newItems });
+        // Record the list the sale is priced with
+        const priceListId =
+          prev.price_list_id !== undefined
+            ? prev.price_list_id
+            : priceListService.getListForClient(null)?.id ?? null;
+        return offlineSaleService.calculateTotals(
+          { ...prev, price_list_id: priceListId, items: newItems },
+          settings
+        );
       });
     },
-    [currentSale.is_synced, shift, posMode]
+    [currentSale.is_synced, shift, posMode, settings]
   );
 
   const updateQuantity = (productId: number, qty: number) => {
@@ -554,40 +670,31 @@ export const PosPageOffline = () => {
     if (!currentItem) return;
 
     const product = currentItem.product as Product;
-    const unitType = (currentItem as any).unitType || "sellable";
-    const unitsPerStocking = product?.units_per_stocking_unit || 1;
+    const currentLine = currentItem as OfflineSaleItem & UnitLine;
+    if (!hasLineUnit(product, currentLine)) {
+      toast.error(new UnknownUnitError(currentLine.unitId!).message);
+      return;
+    }
+    // Sellable units in one unit of the line (stocking unit or a chain unit)
+    const factor = getLineFactor(product, currentLine);
     const currentStock = Number(
       product?.current_stock_quantity ?? product?.stock_quantity ?? 0
     );
 
     // Calculate quantity difference in sellable units
     const oldQuantity = currentItem.quantity;
-    const oldQuantityInSellable =
-      unitType === "stocking" ? oldQuantity * unitsPerStocking : oldQuantity;
-    const newQuantityInSellable =
-      unitType === "stocking" ? qty * unitsPerStocking : qty;
+    const oldQuantityInSellable = oldQuantity * factor;
+    const newQuantityInSellable = qty * factor;
     const quantityDiff = newQuantityInSellable - oldQuantityInSellable;
 
     // Validate stock availability
-    if (unitType === "stocking") {
-      const requiredSellableQty = qty * unitsPerStocking;
-      if (requiredSellableQty > currentStock) {
-        toast.error(
-          `المخزون غير كافٍ. المتاح: ${currentStock} ${
-            product?.sellable_unit_name || "قطعة"
-          }`
-        );
-        return;
-      }
-    } else {
-      if (qty > currentStock) {
-        toast.error(
-          `المخزون غير كافٍ. المتاح: ${currentStock} ${
-            product?.sellable_unit_name || "قطعة"
-          }`
-        );
-        return;
-      }
+    if (newQuantityInSellable > currentStock) {
+      toast.error(
+        `المخزون غير كافٍ. المتاح: ${currentStock} ${
+          product?.sellable_unit_name || "قطعة"
+        }`
+      );
+      return;
     }
 
     // Update sale items
@@ -609,7 +716,7 @@ export const PosPageOffline = () => {
         }
         return i;
       });
-      return offlineSaleService.calculateTotals({ ...prev, items: newItems });
+      return offlineSaleService.calculateTotals({ ...prev, items: newItems }, settings);
     });
 
     // Update products state to reflect stock change
@@ -633,17 +740,45 @@ export const PosPageOffline = () => {
       return;
     }
     updateCurrentSale((prev) => {
+      // list_price is kept, so the change is audited as a manual override
       const newItems = prev.items.map((i) =>
-        i.product_id === productId ? { ...i, unit_price: newPrice } : i
+        i.product_id === productId
+          ? { ...i, unit_price: newPrice, list_price: i.list_price ?? Number(i.unit_price) }
+          : i
+      );
+      return offlineSaleService.calculateTotals({ ...prev, items: newItems }, settings);
+    });
+  };
+
+  // Manual line discount by line index; 0 hands the line back to the promotions engine
+  const updateLineDiscount = (lineIndex: number, amount: number) => {
+    if (currentSale.is_synced) {
+      toast.error("لا يمكن تعديل عملية بيع تمت مزامنتها");
+      return;
+    }
+    updateCurrentSale((prev) => {
+      const newItems = prev.items.map((i, index) =>
+        index === lineIndex
+          ? amount > 0
+            ? {
+                ...i,
+                discount_amount: amount,
+                discount_source: "manual" as const,
+                promotion_id: null,
+                promotion_name: null,
+              }
+            : { ...i, discount_amount: 0, discount_source: null }
+          : i
       );
-      return offlineSaleService.calculateTotals({ ...prev, items: newItems });
+      return offlineSaleService.calculateTotals({ ...prev, items: newItems }, settings);
     });
   };
 
-  // Function to switch unit type for an item
+  // Function to switch unit type for an item (unitId: another unit of the product's chain)
   const switchUnitType = (
     productId: number,
-    newUnitType: "stocking" | "sellable"
+    newUnitType: "stocking" | "sellable",
+    newUnitId: number | null = null
   ) => {
     if (currentSale.is_synced) {
       toast.error("لا يمكن تعديل عملية بيع تمت مزامنتها");
@@ -653,59 +788,52 @@ export const PosPageOffline = () => {
       const newItems = prev.items.map((i) => {
         if (i.product_id === productId) {
           const product = i.product as Product;
-          const currentUnitType = (i as any).unitType || "sellable";
+          const line = i as OfflineSaleItem & UnitLine;
+          const currentUnitType = line.unitType || "sellable";
 
-          if (currentUnitType === newUnitType) {
+          if (currentUnitType === newUnitType && (line.unitId ?? null) === newUnitId) {
             return i; // No change needed
           }
-
-          const unitsPerStocking = product?.units_per_stocking_unit || 1;
-
-          // First, convert current quantity to sellable units (base unit)
-          let currentQuantityInSellable: number;
-          if (currentUnitType === "stocking") {
-            // Current quantity is in stocking units, convert to sellable
-            currentQuantityInSellable = i.quantity * unitsPerStocking;
-          } else {
-            // Current quantity is already in sellable units
-            currentQuantityInSellable = i.quantity;
+          if (!hasLineUnit(product, line)) {
+            toast.error(new UnknownUnitError(line.unitId!).message);
+            return i;
           }
 
-          // Now convert to the new unit type
-          let newQuantity: number;
-          if (newUnitType === "stocking") {
-            // Convert from sellable to stocking units
-            newQuantity = Math.floor(
-              currentQuantityInSellable / unitsPerStocking
+          // First, convert current quantity to sellable units (base unit)
+          const currentQuantityInSellable = i.quantity * getLineFactor(product, line);
+
+          // Now convert to the new unit
+          const newFactor = getUnitFactor(product, newUnitType, newUnitId);
+          const newQuantity =
+            newFactor > 1
+              ? Math.floor(currentQuantityInSellable / newFactor)
+              : currentQuantityInSellable / newFactor;
+          if (newQuantity === 0) {
+            toast.error(
+              `الكمية الحالية (${currentQuantityInSellable} ${
+                product?.sellable_unit_name || "قطعة"
+              }) غير كافية للتحويل إلى هذه الوحدة (يحتاج ${newFactor} ${
+                product?.sellable_unit_name || "قطعة"
+              } على الأقل)`
             );
-            if (newQuantity === 0) {
-              toast.error(
-                `الكمية الحالية (${currentQuantityInSellable} ${
-                  product?.sellable_unit_name || "قطعة"
-                }) غير كافية للتحويل إلى وحدة التخزين (يحتاج ${unitsPerStocking} ${
-                  product?.sellable_unit_name || "قطعة"
-                } على الأقل)`
-              );
-              return i;
-            }
-          } else {
-            // Convert from sellable to sellable (shouldn't happen, but just in case)
-            newQuantity = currentQuantityInSellable;
+            return i;
           }
 
-          // Get new price for the unit type
-          const newPrice = getPriceForUnitType(product, newUnitType);
+          // Get new price for the unit
+          const newPrice = getPriceForUnitType(product, newUnitType, prev, newUnitId);
 
           return {
             ...i,
             quantity: newQuantity,
             unit_price: newPrice,
+            list_price: newPrice,
             unitType: newUnitType,
+            unitId: newUnitId,
           };
         }
         return i;
       });
-      return offlineSaleService.calculateTotals({ ...prev, items: newItems });
+      return offlineSaleService.calculateTotals({ ...prev, items: newItems }, settings);
     });
   };
 
@@ -723,14 +851,12 @@ export const PosPageOffline = () => {
 
     if (itemToRemove) {
       const product = itemToRemove.product as Product;
-      const unitType = (itemToRemove as any).unitType || "sellable";
-      const unitsPerStocking = product?.units_per_stocking_unit || 1;
-
-      // Calculate quantity to restore in sellable units
-      quantityToRestore =
-        unitType === "stocking"
-          ? itemToRemove.quantity * unitsPerStocking
-          : itemToRemove.quantity;
+      const line = itemToRemove as OfflineSaleItem & UnitLine;
+
+      // Calculate quantity to restore in sellable units (unknown once its unit left the chain)
+      if (hasLineUnit(product, line)) {
+        quantityToRestore = itemToRemove.quantity * getLineFactor(product, line);
+      }
     }
 
     let shouldDeleteSale = false;
@@ -738,10 +864,10 @@ export const PosPageOffline = () => {
 
     updateCurrentSale((prev) => {
       const newItems = prev.items.filter((i) => i.product_id !== productId);
-      const updatedSale = offlineSaleService.calculateTotals({
-        ...prev,
-        items: newItems,
-      });
+      const updatedSale = offlineSaleService.calculateTotals(
+        { ...prev, items: newItems },
+        settings
+      );
 
       // Check if all items are removed and sale is pending
       if (newItems.length === 0 && prev.tempId && !prev.is_synced) {
@@ -782,15 +908,15 @@ export const PosPageOffline = () => {
 
         // Create a new draft sale
         if (posMode === "days") {
-          const newDraft = offlineSaleService.createDraftSale(null, user?.id ?? null);
+          const newDraft = offlineSaleService.createDraftSale(null, user?.id ?? null, user?.warehouse_id ?? null);
           setCurrentSale(newDraft);
           shouldAutoSave.current = false;
         } else if (shift && shift.is_open) {
-          const newDraft = offlineSaleService.createDraftSale(shift.id, user?.id ?? null);
+          const newDraft = offlineSaleService.createDraftSale(shift.id, user?.id ?? null, user?.warehouse_id ?? null);
           setCurrentSale(newDraft);
           shouldAutoSave.current = false;
         } else {
-          const newDraft = offlineSaleService.createDraftSale(null, user?.id ?? null);
+          const newDraft = offlineSaleService.createDraftSale(null, user?.id ?? null, user?.warehouse_id ?? null);
           setCurrentSale(newDraft);
           shouldAutoSave.current = false;
         }
@@ -823,7 +949,7 @@ export const PosPageOffline = () => {
       );
       // Note: We might need to store batch info (number/expiry) in OfflineSaleItem if we want to display it properly after reload
       // But basic mapping for calculation uses unit_price which is updated here.
-      return offlineSaleService.calculateTotals({ ...prev, items: newItems });
+      return offlineSaleService.calculateTotals({ ...prev, items: newItems }, settings);
     });
   };
 
@@ -866,6 +992,8 @@ export const PosPageOffline = () => {
           ? Number(s.discount_amount)
           : undefined,
         discount_type: s.discount_type || undefined,
+        tax_amount: s.tax_amount != null ? Number(s.tax_amount) : undefined,
+        price_list_id: s.price_list_id ?? null,
         items:
           s.items?.map((i: any) => {
             // Try to get current product data from IndexedDB for live stock info
@@ -875,6 +1003,14 @@ export const PosPageOffline = () => {
               product_id: i.product_id,
               quantity: i.quantity,
               unit_price: Number(i.unit_price),
+              tax_category: i.tax_category ?? null,
+              tax_rate: i.tax_rate ?? null,
+              tax_amount: i.tax_amount ?? null,
+              discount_amount: Number(i.discount_amount) || 0,
+              discount_source: i.discount_source ?? null,
+              promotion_id: i.promotion_id ?? null,
+              promotion_name: i.promotion_name ?? null,
+              list_price: i.list_price != null ? Number(i.list_price) : null,
               product: currentProduct ||
                 i.product || {
                   id: i.product_id,
@@ -1102,6 +1238,17 @@ export const PosPageOffline = () => {
     );
   }, [selectedShiftId, posMode, selectedDate]);
 
+  // After a sync, pick up the server id of a shift that was opened offline
+  useEffect(() => {
+    if (isSyncing || posMode === "days" || !shift || shift.id > 0) return;
+    offlineShiftService.getCurrentShift().then((local) => {
+      if (local && local.id !== shift.id) {
+        applyShift(local);
+        loadLocalPendingSales();
+      }
+    });
+  }, [isSyncing, posMode, shift, loadLocalPendingSales]);
+
   // Track if loadSyncedSales is currently running to prevent concurrent calls
   const isLoadingSyncedSalesRef = useRef(false);
   const lastSyncedSalesLoadRef = useRef<number>(0);
@@ -1220,6 +1367,8 @@ export const PosPageOffline = () => {
           ? Number(s.discount_amount)
           : undefined,
         discount_type: s.discount_type || undefined,
+        tax_amount: s.tax_amount != null ? Number(s.tax_amount) : undefined,
+        price_list_id: s.price_list_id ?? null,
         items:
           s.items?.map((i: any) => {
             // Try to get current product data from IndexedDB for live stock info
@@ -1229,6 +1378,14 @@ export const PosPageOffline = () => {
               product_id: i.product_id,
               quantity: i.quantity,
               unit_price: Number(i.unit_price),
+              tax_category: i.tax_category ?? null,
+              tax_rate: i.tax_rate ?? null,
+              tax_amount: i.tax_amount ?? null,
+              discount_amount: Number(i.discount_amount) || 0,
+              discount_source: i.discount_source ?? null,
+              promotion_id: i.promotion_id ?? null,
+              promotion_name: i.promotion_name ?? null,
+              list_price: i.list_price != null ? Number(i.list_price) : null,
               product: currentProduct ||
                 i.product || {
                   id: i.product_id,
@@ -1534,8 +1691,11 @@ export const PosPageOffline = () => {
   // Ref for header to control focus
   const headerRef = useRef<{ focusSearch: () => void }>(null);
 
-  const handleCompleteSale = async () => {
-    const saleTempId = currentSale.tempId;
+  // The payment dialog may pass the sale it just changed (e.g. with a credit override),
+  // which isn't in currentSale until the next render
+  const handleCompleteSale = async (completedSale?: OfflineSale) => {
+    const sale = completedSale ?? currentSale;
+    const saleTempId = sale.tempId;
     
     // Add sale to processing set
     if (saleTempId) {
@@ -1544,19 +1704,19 @@ export const PosPageOffline = () => {
     
     try {
       // Check if this is a synced sale (already exists on backend)
-      const isSynced = currentSale.is_synced && currentSale.id;
+      const isSynced = sale.is_synced && sale.id;
 
       if (isSynced) {
         // For synced sales, ensure all payments are synced
         // Payments should already be synced via handleSaleUpdate, but double-check
-        const payments = currentSale.payments || [];
+        const payments = sale.payments || [];
         
         // Ensure all payments without IDs are synced
         if (isOnline) {
           for (const payment of payments) {
             if (!(payment as any).id) {
               try {
-                await saleService.addPayment(currentSale.id!, {
+                await saleService.addPayment(sale.id!, {
                   method: payment.method,
                   amount: Number(payment.amount),
                   reference_number: (payment as any).reference_number || null,
@@ -1574,7 +1734,7 @@ export const PosPageOffline = () => {
         toast.success("تم تحديث عملية البيع بنجاح");
       } else {
         // For new sales, complete and sync as usual
-        await offlineSaleService.completeSale(currentSale);
+        await offlineSaleService.completeSale(sale);
         toast.success("تم إتمام عملية البيع بنجاح");
       }
 
@@ -1602,7 +1762,7 @@ export const PosPageOffline = () => {
     // Reset
     if (posMode === "days") {
       // In days mode, create new draft without shift
-      const newDraft = offlineSaleService.createDraftSale(null, user?.id ?? null);
+      const newDraft = offlineSaleService.createDraftSale(null, user?.id ?? null, user?.warehouse_id ?? null);
       setCurrentSale(newDraft);
       shouldAutoSave.current = false;
       setTimeout(() => {
@@ -1610,7 +1770,7 @@ export const PosPageOffline = () => {
       }, 100);
     } else if (shift && shift.is_open) {
       // In shift mode, require shift
-      const newDraft = offlineSaleService.createDraftSale(shift.id, user?.id ?? null);
+      const newDraft = offlineSaleService.createDraftSale(shift.id, user?.id ?? null, user?.warehouse_id ?? null);
       // await offlineSaleService.saveDraft(newDraft); // DONT SAVE IMMEDIATELY
       setCurrentSale(newDraft);
       shouldAutoSave.current = false; // Prevent auto-save until user edits
@@ -1621,7 +1781,7 @@ export const PosPageOffline = () => {
       }, 100);
     } else {
       // If shift closed/not available, just clear UI
-      const newDraft = offlineSaleService.createDraftSale(null, user?.id ?? null);
+      const newDraft = offlineSaleService.createDraftSale(null, user?.id ?? null, user?.warehouse_id ?? null);
       setCurrentSale(newDraft);
       shouldAutoSave.current = false;
     }
@@ -1631,7 +1791,7 @@ export const PosPageOffline = () => {
   const handleNewSale = useCallback(async () => {
     // In days mode, skip shift validation
     if (posMode === "days") {
-      const newSale = offlineSaleService.createDraftSale(null, user?.id ?? null);
+      const newSale = offlineSaleService.createDraftSale(null, user?.id ?? null, user?.warehouse_id ?? null);
       await offlineSaleService.saveDraft(newSale);
       setCurrentSale(newSale);
       await loadLocalPendingSales();
@@ -1693,7 +1853,7 @@ export const PosPageOffline = () => {
       return;
     }
 
-    const newSale = offlineSaleService.createDraftSale(currentShift.id, user?.id ?? null);
+    const newSale = offlineSaleService.createDraftSale(currentShift.id, user?.id ?? null, user?.warehouse_id ?? null);
     await offlineSaleService.saveDraft(newSale);
     setCurrentSale(newSale);
     // List refresh handled by useEffect or we can force it here
@@ -1716,8 +1876,14 @@ export const PosPageOffline = () => {
         product: product || ({} as Product), // Fallback to empty object if undefined
         quantity: item.quantity,
         unitPrice: Number(item.unit_price),
-        total: Number(item.unit_price) * item.quantity,
+        total: promotionService.getLineNet(item),
+        discountAmount: Number(item.discount_amount) || 0,
+        discountSource: item.discount_source ?? null,
+        promotionId: item.promotion_id ?? null,
+        promotionName: item.promotion_name ?? null,
+        listPrice: item.list_price != null ? Number(item.list_price) : null,
         unitType: (item as any).unitType || "sellable", // Default to sellable if not set
+        unitId: (item as OfflineSaleItem & UnitLine).unitId ?? null,
         selectedBatchId: item.purchase_item_id,
         // We'd ideally store these in OfflineSaleItem to persist display,
         // but for now we try to find them in product.available_batches or fallback
@@ -1745,14 +1911,14 @@ export const PosPageOffline = () => {
     if (currentSale.tempId === sale.tempId) {
       if (posMode === "days") {
         // In days mode, create new draft without shift
-        const newDraft = offlineSaleService.createDraftSale(null, user?.id ?? null);
+        const newDraft = offlineSaleService.createDraftSale(null, user?.id ?? null, user?.warehouse_id ?? null);
         setCurrentSale(newDraft);
         await loadLocalPendingSales();
       } else if (shift && shift.is_open) {
         handleNewSale();
       } else {
         // Fallback: clear to empty draft in memory without saving
-        const newDraft = offlineSaleService.createDraftSale(null, user?.id ?? null);
+        const newDraft = offlineSaleService.createDraftSale(null, user?.id ?? null, user?.warehouse_id ?? null);
         setCurrentSale(newDraft);
         await loadLocalPendingSales();
       }
@@ -1860,24 +2026,31 @@ export const PosPageOffline = () => {
         ref={headerRef}
         isOnline={isOnline}
         isSyncing={isSyncing}
-        onTriggerSync={triggerSync}
+        onTriggerSync={() => triggerSync({ force: true })}
+        failedSyncActions={deadLetterActions}
+        onRetryFailedSync={() => retryDeadLetters()}
         shift={shift}
         shiftLoading={shiftLoading}
-        onOpenShift={handleOpenShift}
-        onCloseShift={handleCloseShift}
+        onOpenShift={() => setIsOpenShiftDialogOpen(true)}
+        onCloseShift={() => setIsCloseShiftDialogOpen(true)}
+        onCashMovement={() => setIsCashMovementDialogOpen(true)}
         selectedShiftId={selectedShiftId}
         availableShiftIds={availableShiftIds}
         onShiftSelect={setSelectedShiftId}
         selectedDate={selectedDate}
         onDateSelect={setSelectedDate}
         products={products}
-        onAddToCart={(product) => addToCart(product, "sellable")}
+        onAddToCart={(product, unitType = "sellable", quantity = 1) =>
+          addToCart(product, unitType, quantity)
+        }
+        onBarcodeLookup={offlineSaleService.findProductByBarcode}
         onNewSale={handleNewSale}
         isSaleSelected={isPendingSaleSelected}
         onPaymentShortcut={handlePlusAction}
         onPrintShiftReport={() => setIsShiftReportOpen(true)}
         onShowSummary={() => setIsSummaryDialogOpen(true)}
         isPageLoading={isPageLoading}
+        catalogSyncProgress={catalogSyncProgress}
         posMode={posMode}
       />
 
@@ -1978,8 +2151,11 @@ export const PosPageOffline = () => {
             onUpdateBatch={async (id, batchId, num, expiry, price) =>
               updateBatch(id, batchId, num, expiry, price)
             }
-            onSwitchUnitType={async (id, unitType) =>
-              switchUnitType(id, unitType)
+            onSwitchUnitType={async (id, unitType, unitId) =>
+              switchUnitType(id, unitType, unitId)
+            }
+            onUpdateLineDiscount={async (lineIndex, amount) =>
+              updateLineDiscount(lineIndex, amount)
             }
             readOnly={!!currentSale.is_synced}
           />
@@ -2062,11 +2238,41 @@ export const PosPageOffline = () => {
                     }
               }
               userName="الكاشير"
+              drawer={
+                drawerShift
+                  ? cashDrawerService.summarize(
+                      drawerShift,
+                      getDrawerSales(drawerShift.id),
+                      drawerReturns
+                    )
+                  : null
+              }
+              cashMovements={drawerShift?.cash_movements}
             />
           </PDFViewer>
         </DialogContent>
       </Dialog>
 
+      {/* Cash drawer dialogs */}
+      <OpenShiftDialog
+        open={isOpenShiftDialogOpen}
+        onClose={() => setIsOpenShiftDialogOpen(false)}
+        onConfirm={handleOpenShift}
+        loading={shiftLoading}
+      />
+      <CloseShiftCountDialog
+        open={isCloseShiftDialogOpen}
+        onClose={() => setIsCloseShiftDialogOpen(false)}
+        onConfirm={handleCloseShift}
+        loading={shiftLoading}
+      />
+      <CashMovementDialog
+        open={isCashMovementDialogOpen}
+        onClose={() => setIsCashMovementDialogOpen(false)}
+        onSave={handleCashMovement}
+        movements={drawerShift?.cash_movements}
+      />
+
       {/* Calculator Summary Dialog */}
       <CalculatorSummaryDialog
         open={isSummaryDialogOpen}
@@ -14,7 +14,7 @@ import {
 } from "react-hook-form";
 import { useNavigate, useParams } from "react-router-dom";
 import { toast } from "sonner";
-import { format, parseISO } from "date-fns";
+import { addDays, format, parseISO } from "date-fns";
 
 // Import Child Components
 import { PurchaseHeaderFormSection } from "../components/purchases/PurchaseHeaderFormSection";
@@ -56,6 +56,7 @@ import {
 // Services and Types
 import purchaseService, {
   CreatePurchaseData,
+  PurchaseStatus,
   UpdatePurchaseData,
 } from "../services/purchaseService";
 import supplierService, { Supplier } from "../services/supplierService";
@@ -70,9 +71,10 @@ export type PurchaseFormValues = {
   warehouse_id: number;
   supplier_id: number;
   purchase_date: Date;
-  status: "received" | "pending" | "ordered";
+  status: PurchaseStatus;
   currency: "SDG" | "USD";
   reference_number?: string | null;
+  due_date?: Date | null;
   notes?: string | null;
   items: PurchaseItemFormValues[];
 };
@@ -128,6 +130,7 @@ const PurchaseFormPage: React.FC = () => {
       status: "pending" as const, // Default "pending"
       currency: "SDG" as "SDG" | "USD",
       reference_number: "",
+      due_date: null,
       notes: "",
       items: isEditMode
         ? [
@@ -152,10 +155,14 @@ const PurchaseFormPage: React.FC = () => {
     formState: { isSubmitting },
     setError,
     control,
+    getValues,
+    setValue,
   } = formMethods;
 
   const watchedItems = useWatch({ control, name: "items" });
   const watchedStatus = useWatch({ control, name: "status" });
+  const watchedPurchaseDate = useWatch({ control, name: "purchase_date" });
+  const autoDueDateRef = useRef<string | null>(null);
   // const isPurchaseReceived = watchedStatus === "received";
   const isPurchaseReceived = false; // Logic disabled as per request: allow editing even if received
 
@@ -180,6 +187,18 @@ const PurchaseFormPage: React.FC = () => {
     [watchedItems]
   );
 
+  // Due date follows the supplier's payment terms until the user picks one
+  useEffect(() => {
+    const current = getValues("due_date");
+    const currentKey = current ? format(current, "yyyy-MM-dd") : null;
+    if (currentKey && currentKey !== autoDueDateRef.current) return;
+    const terms = selectedSupplier?.payment_terms_days;
+    const next =
+      terms != null && watchedPurchaseDate ? addDays(watchedPurchaseDate, Number(terms)) : null;
+    autoDueDateRef.current = next ? format(next, "yyyy-MM-dd") : null;
+    setValue("due_date", next);
+  }, [selectedSupplier, watchedPurchaseDate, getValues, setValue]);
+
   // --- Initial suppliers load ---
   useEffect(() => {
     const loadInitialSuppliers = async () => {
@@ -310,6 +329,7 @@ const PurchaseFormPage: React.FC = () => {
           status: existingPurchase.status,
           currency: existingPurchase.currency,
           reference_number: existingPurchase.reference_number || "",
+          due_date: existingPurchase.due_date ? parseISO(existingPurchase.due_date) : null,
           notes: existingPurchase.notes || "",
           items: existingPurchase.items.map((item) => ({
             id: item.id,
@@ -436,6 +456,7 @@ const PurchaseFormPage: React.FC = () => {
       const apiData: CreatePurchaseData | UpdatePurchaseData = {
         ...data,
         purchase_date: format(data.purchase_date as Date, "yyyy-MM-dd"),
+        due_date: data.due_date ? format(data.due_date, "yyyy-MM-dd") : null,
         items: (data.items || []).map((item) => ({
           id: isEditMode ? item.id : undefined,
           product_id: item.product_id,
@@ -571,6 +592,7 @@ const PurchaseFormPage: React.FC = () => {
         status: existingPurchase.status,
         currency: existingPurchase.currency,
         reference_number: existingPurchase.reference_number || "",
+        due_date: existingPurchase.due_date ? parseISO(existingPurchase.due_date) : null,
         notes: existingPurchase.notes || "",
         items: existingPurchase.items.map((item) => ({
           id: item.id,
@@ -0,0 +1,256 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+// MUI Components
+import {
+  Box,
+  Button,
+  Typography,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+  Alert,
+} from "@mui/material";
+
+// Lucide Icons
+import { Plus, Edit, Trash2, Send, MessageCircleWarning } from "lucide-react";
+
+import DunningCampaignFormModal from "@/components/admin/dunning/DunningCampaignFormModal";
+import ConfirmationDialog from "@/components/common/ConfirmationDialog";
+import { useSettings } from "@/context/SettingsContext";
+import { getErrorMessage } from "@/lib/axios";
+import receivablesService, { DunningCampaign } from "@/services/receivablesService";
+import { AGING_BUCKET_LABELS } from "@/services/clientCreditService";
+import { formatNumber } from "@/constants";
+
+const DAY_LABELS = ["الأحد", "الاثنين", "الثلاثاء", "الأربعاء", "الخميس", "الجمعة", "السبت"];
+
+const DunningCampaignsPage: React.FC = () => {
+  const { settings } = useSettings();
+  const { data: campaigns = [], isLoading, error, refetch } = useQuery({
+    queryKey: ["dunning-campaigns"],
+    queryFn: receivablesService.getCampaigns,
+  });
+  const [isFormModalOpen, setIsFormModalOpen] = useState(false);
+  const [selectedCampaign, setSelectedCampaign] = useState<DunningCampaign | null>(null);
+  const [campaignToDelete, setCampaignToDelete] = useState<DunningCampaign | null>(null);
+  const [campaignToRun, setCampaignToRun] = useState<DunningCampaign | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const confirmDelete = async () => {
+    if (!campaignToDelete) return;
+    setIsDeleting(true);
+    try {
+      await receivablesService.deleteCampaign(campaignToDelete.id);
+      toast.success("تم حذف الحملة");
+      setCampaignToDelete(null);
+      refetch();
+    } catch (err) {
+      toast.error(getErrorMessage(err, "فشل حذف الحملة"));
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const confirmRun = async () => {
+    if (!campaignToRun) return;
+    const campaign = campaignToRun;
+    setCampaignToRun(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const result = await receivablesService.runCampaign(campaign, settings, (done, total) =>
+        setProgress({ done, total })
+      );
+      toast.success(`تم إرسال الحملة "${campaign.name}"`, {
+        description: `أُرسل ${result.sent}، فشل ${result.failed}، بدون هاتف ${result.skipped}`,
+      });
+    } catch (err) {
+      toast.error(getErrorMessage(err, "فشل إرسال الحملة"));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Box sx={{ p: { xs: 2, sm: 3 } }}>
+      <Stack
+        direction="row"
+        alignItems="center"
+        justifyContent="space-between"
+        sx={{ mb: 3 }}
+        flexWrap="wrap"
+        gap={2}
+      >
+        <Stack direction="row" alignItems="center" spacing={1.5}>
+          <MessageCircleWarning size={22} />
+          <Box>
+            <Typography variant="h6" fontWeight={600}>
+              تذكير المديونيات (واتساب)
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              يُرسل لكل عميل مدين كشف حسابه مع رسالة التذكير في الموعد المحدد
+            </Typography>
+          </Box>
+        </Stack>
+        <Button
+          variant="contained"
+          startIcon={<Plus size={16} />}
+          onClick={() => {
+            setSelectedCampaign(null);
+            setIsFormModalOpen(true);
+          }}
+        >
+          إضافة حملة
+        </Button>
+      </Stack>
+
+      {!settings?.whatsapp_enabled && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          واتساب غير مفعّل في الإعدادات؛ لن تُرسل الحملات المجدولة
+        </Alert>
+      )}
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          خطأ في تحميل الحملات
+        </Alert>
+      )}
+      {progress && (
+        <Alert severity="info" icon={<CircularProgress size={18} />} sx={{ mb: 2 }}>
+          جاري الإرسال... {progress.done} / {progress.total}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>الاسم</TableCell>
+              <TableCell>عمر الدين</TableCell>
+              <TableCell align="center">أقل رصيد</TableCell>
+              <TableCell>الموعد</TableCell>
+              <TableCell>آخر إرسال</TableCell>
+              <TableCell align="center">الحالة</TableCell>
+              <TableCell align="center">الإجراءات</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {isLoading && (
+              <TableRow>
+                <TableCell colSpan={7} align="center" sx={{ py: 4 }}>
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            )}
+            {!isLoading && campaigns.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} align="center" sx={{ py: 4, color: "text.secondary" }}>
+                  لا توجد حملات
+                </TableCell>
+              </TableRow>
+            )}
+            {campaigns.map((campaign) => (
+              <TableRow key={campaign.id} hover>
+                <TableCell sx={{ fontWeight: 500 }}>{campaign.name}</TableCell>
+                <TableCell>{AGING_BUCKET_LABELS[campaign.min_bucket]} فأكثر</TableCell>
+                <TableCell align="center">{formatNumber(campaign.min_balance)}</TableCell>
+                <TableCell>
+                  {campaign.days_of_week.map((d) => DAY_LABELS[d]).join("، ")} -{" "}
+                  {campaign.schedule_time?.slice(0, 5)}
+                </TableCell>
+                <TableCell>
+                  {campaign.last_run_at
+                    ? format(new Date(campaign.last_run_at), "yyyy-MM-dd HH:mm")
+                    : "لم تُرسل بعد"}
+                </TableCell>
+                <TableCell align="center">
+                  <Chip
+                    size="small"
+                    variant="outlined"
+                    color={campaign.is_active ? "success" : "default"}
+                    label={campaign.is_active ? "نشطة" : "موقوفة"}
+                  />
+                </TableCell>
+                <TableCell align="center">
+                  <Tooltip title="إرسال الآن">
+                    <span>
+                      <IconButton
+                        size="small"
+                        color="primary"
+                        disabled={!!progress}
+                        onClick={() => setCampaignToRun(campaign)}
+                      >
+                        <Send size={16} />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="تعديل">
+                    <IconButton
+                      size="small"
+                      onClick={() => {
+                        setSelectedCampaign(campaign);
+                        setIsFormModalOpen(true);
+                      }}
+                    >
+                      <Edit size={16} />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="حذف">
+                    <IconButton
+                      size="small"
+                      color="error"
+                      onClick={() => setCampaignToDelete(campaign)}
+                    >
+                      <Trash2 size={16} />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <DunningCampaignFormModal
+        isOpen={isFormModalOpen}
+        onClose={() => setIsFormModalOpen(false)}
+        campaignToEdit={selectedCampaign}
+        onSaveSuccess={() => refetch()}
+      />
+
+      <ConfirmationDialog
+        open={!!campaignToRun}
+        onClose={() => setCampaignToRun(null)}
+        onConfirm={confirmRun}
+        title="إرسال الحملة"
+        message={`سيتم إرسال كشف الحساب لكل العملاء المطابقين لحملة: ${campaignToRun?.name}. متابعة؟`}
+        confirmText="إرسال"
+        cancelText="إلغاء"
+      />
+
+      <ConfirmationDialog
+        open={!!campaignToDelete}
+        onClose={() => setCampaignToDelete(null)}
+        onConfirm={confirmDelete}
+        title="حذف الحملة"
+        message={`هل أنت متأكد من حذف الحملة: ${campaignToDelete?.name}؟`}
+        confirmText="حذف"
+        cancelText="إلغاء"
+        isLoading={isDeleting}
+      />
+    </Box>
+  );
+};
+
+export default DunningCampaignsPage;
@@ -0,0 +1,209 @@
+import React, { useState } from "react";
+import { toast } from "sonner";
+
+// MUI Components
+import {
+  Box,
+  Button,
+  Typography,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+  Alert,
+} from "@mui/material";
+
+// Lucide Icons
+import { Plus, Edit, Trash2, ListOrdered, Tags } from "lucide-react";
+
+import PriceListFormModal from "@/components/admin/price-lists/PriceListFormModal";
+import PriceListItemsDialog from "@/components/admin/price-lists/PriceListItemsDialog";
+import ConfirmationDialog from "@/components/common/ConfirmationDialog";
+import { usePriceLists } from "@/hooks/usePriceLists";
+import { getErrorMessage } from "@/lib/axios";
+import {
+  priceListService,
+  PriceList,
+  PRICE_LIST_TYPE_LABELS,
+} from "@/services/priceListService";
+
+const PriceListsPage: React.FC = () => {
+  const { data: priceLists = [], isLoading, error, refetch } = usePriceLists();
+  const [isFormModalOpen, setIsFormModalOpen] = useState(false);
+  const [selectedList, setSelectedList] = useState<PriceList | null>(null);
+  const [listForItems, setListForItems] = useState<PriceList | null>(null);
+  const [listToDelete, setListToDelete] = useState<PriceList | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleSaved = () => {
+    refetch();
+    // Keep the POS cache in step with the admin changes
+    priceListService.refreshCache();
+  };
+
+  const confirmDelete = async () => {
+    if (!listToDelete) return;
+    setIsDeleting(true);
+    try {
+      await priceListService.deletePriceList(listToDelete.id);
+      toast.success("تم حذف قائمة الأسعار");
+      setListToDelete(null);
+      handleSaved();
+    } catch (err) {
+      toast.error(getErrorMessage(err, "فشل حذف قائمة الأسعار"));
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Box sx={{ p: { xs: 2, sm: 3 } }}>
+      <Stack
+        direction="row"
+        alignItems="center"
+        justifyContent="space-between"
+        sx={{ mb: 3 }}
+        flexWrap="wrap"
+        gap={2}
+      >
+        <Stack direction="row" alignItems="center" spacing={1.5}>
+          <Tags size={22} />
+          <Box>
+            <Typography variant="h6" fontWeight={600}>
+              قوائم الأسعار
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              تُطبّق قائمة العميل تلقائياً عند اختياره في نقطة البيع
+            </Typography>
+          </Box>
+        </Stack>
+        <Button
+          variant="contained"
+          startIcon={<Plus size={16} />}
+          onClick={() => {
+            setSelectedList(null);
+            setIsFormModalOpen(true);
+          }}
+        >
+          إضافة قائمة
+        </Button>
+      </Stack>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          خطأ في تحميل قوائم الأسعار
+        </Alert>
+      )}
+
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>الاسم</TableCell>
+              <TableCell>النوع</TableCell>
+              <TableCell align="center">المنتجات</TableCell>
+              <TableCell align="center">العملاء</TableCell>
+              <TableCell align="center">الحالة</TableCell>
+              <TableCell align="center">الإجراءات</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {isLoading && (
+              <TableRow>
+                <TableCell colSpan={6} align="center" sx={{ py: 4 }}>
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            )}
+            {!isLoading && priceLists.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} align="center" sx={{ py: 4, color: "text.secondary" }}>
+                  لا توجد قوائم أسعار
+                </TableCell>
+              </TableRow>
+            )}
+            {priceLists.map((list) => (
+              <TableRow key={list.id} hover>
+                <TableCell sx={{ fontWeight: 500 }}>
+                  {list.name}
+                  {list.is_default && (
+                    <Chip size="small" color="primary" label="افتراضية" sx={{ mr: 1 }} />
+                  )}
+                </TableCell>
+                <TableCell>{PRICE_LIST_TYPE_LABELS[list.type]}</TableCell>
+                <TableCell align="center">{list.items_count ?? "-"}</TableCell>
+                <TableCell align="center">{list.clients_count ?? "-"}</TableCell>
+                <TableCell align="center">
+                  <Chip
+                    size="small"
+                    variant="outlined"
+                    color={list.is_active ? "success" : "default"}
+                    label={list.is_active ? "نشطة" : "موقوفة"}
+                  />
+                </TableCell>
+                <TableCell align="center">
+                  <Tooltip title="الأسعار">
+                    <IconButton size="small" onClick={() => setListForItems(list)}>
+                      <ListOrdered size={16} />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="تعديل">
+                    <IconButton
+                      size="small"
+                      onClick={() => {
+                        setSelectedList(list);
+                        setIsFormModalOpen(true);
+                      }}
+                    >
+                      <Edit size={16} />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="حذف">
+                    <IconButton size="small" color="error" onClick={() => setListToDelete(list)}>
+                      <Trash2 size={16} />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <PriceListFormModal
+        isOpen={isFormModalOpen}
+        onClose={() => setIsFormModalOpen(false)}
+        priceListToEdit={selectedList}
+        onSaveSuccess={handleSaved}
+      />
+
+      <PriceListItemsDialog
+        isOpen={!!listForItems}
+        onClose={() => setListForItems(null)}
+        priceList={listForItems}
+        onSaveSuccess={handleSaved}
+      />
+
+      <ConfirmationDialog
+        open={!!listToDelete}
+        onClose={() => setListToDelete(null)}
+        onConfirm={confirmDelete}
+        title="حذف قائمة الأسعار"
+        message={`هل أنت متأكد من حذف القائمة: ${listToDelete?.name}؟ سيعود عملاؤها إلى القائمة الافتراضية.`}
+        confirmText="حذف"
+        cancelText="إلغاء"
+        isLoading={isDeleting}
+      />
+    </Box>
+  );
+};
+
+export default PriceListsPage;
@@ -0,0 +1,234 @@
+import React, { useState } from "react";
+import { toast } from "sonner";
+
+// MUI Components
+import {
+  Box,
+  Button,
+  Typography,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Switch,
+  Chip,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+  Alert,
+} from "@mui/material";
+
+// Lucide Icons
+import { Plus, Edit, Trash2, Tag } from "lucide-react";
+
+import PromotionFormModal from "@/components/admin/promotions/PromotionFormModal";
+import ConfirmationDialog from "@/components/common/ConfirmationDialog";
+import { usePromotions } from "@/hooks/usePromotions";
+import { getErrorMessage } from "@/lib/axios";
+import {
+  promotionService,
+  Promotion,
+  PROMOTION_TYPE_LABELS,
+} from "@/services/promotionService";
+
+const DAY_SHORT = ["أحد", "إثنين", "ثلاثاء", "أربعاء", "خميس", "جمعة", "سبت"];
+
+const describeWindow = (promotion: Promotion): string => {
+  const parts: string[] = [];
+  if (promotion.starts_at || promotion.ends_at) {
+    parts.push(
+      `${promotion.starts_at?.slice(0, 10) || "..."} ← ${promotion.ends_at?.slice(0, 10) || "..."}`
+    );
+  }
+  if (promotion.days_of_week && promotion.days_of_week.length > 0) {
+    parts.push(promotion.days_of_week.map((d) => DAY_SHORT[d]).join("، "));
+  }
+  if (promotion.start_time && promotion.end_time) {
+    parts.push(`${promotion.start_time.slice(0, 5)} - ${promotion.end_time.slice(0, 5)}`);
+  }
+  return parts.length > 0 ? parts.join(" | ") : "دائماً";
+};
+
+const describeScope = (promotion: Promotion): string => {
+  const parts: string[] = [];
+  if (promotion.product_ids?.length) parts.push(`${promotion.product_ids.length} منتج`);
+  if (promotion.category_ids?.length) parts.push(`${promotion.category_ids.length} فئة`);
+  if (promotion.client_ids?.length) parts.push(`${promotion.client_ids.length} عميل`);
+  return parts.length > 0 ? parts.join("، ") : "الكل";
+};
+
+const PromotionsPage: React.FC = () => {
+  const { data: promotions = [], isLoading, error, refetch } = usePromotions(false);
+  const [isFormModalOpen, setIsFormModalOpen] = useState(false);
+  const [selectedPromotion, setSelectedPromotion] = useState<Promotion | null>(null);
+  const [promotionToDelete, setPromotionToDelete] = useState<Promotion | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [togglingId, setTogglingId] = useState<number | null>(null);
+
+  const handleSaved = () => {
+    refetch();
+    // Keep the POS cache in step with the admin changes
+    promotionService.refreshCache();
+  };
+
+  const handleToggleActive = async (promotion: Promotion) => {
+    setTogglingId(promotion.id);
+    try {
+      await promotionService.updatePromotion(promotion.id, { is_active: !promotion.is_active });
+      handleSaved();
+    } catch (err) {
+      toast.error(getErrorMessage(err, "فشل تحديث حالة العرض"));
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!promotionToDelete) return;
+    setIsDeleting(true);
+    try {
+      await promotionService.deletePromotion(promotionToDelete.id);
+      toast.success("تم حذف العرض بنجاح");
+      setPromotionToDelete(null);
+      handleSaved();
+    } catch (err) {
+      toast.error(getErrorMessage(err, "فشل حذف العرض"));
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Box sx={{ p: { xs: 2, sm: 3 } }}>
+      <Stack
+        direction="row"
+        alignItems="center"
+        justifyContent="space-between"
+        sx={{ mb: 3 }}
+        flexWrap="wrap"
+        gap={2}
+      >
+        <Stack direction="row" alignItems="center" spacing={1.5}>
+          <Tag size={22} />
+          <Box>
+            <Typography variant="h6" fontWeight={600}>
+              العروض والخصومات
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              تُطبّق تلقائياً في نقطة البيع، ويُختار أفضل عرض لكل صنف
+            </Typography>
+          </Box>
+        </Stack>
+        <Button
+          variant="contained"
+          startIcon={<Plus size={16} />}
+          onClick={() => {
+            setSelectedPromotion(null);
+            setIsFormModalOpen(true);
+          }}
+        >
+          إضافة عرض
+        </Button>
+      </Stack>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          خطأ في تحميل العروض
+        </Alert>
+      )}
+
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>الاسم</TableCell>
+              <TableCell>النوع</TableCell>
+              <TableCell>النطاق</TableCell>
+              <TableCell>فترة السريان</TableCell>
+              <TableCell align="center">الأولوية</TableCell>
+              <TableCell align="center">نشط</TableCell>
+              <TableCell align="center">الإجراءات</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {isLoading && (
+              <TableRow>
+                <TableCell colSpan={7} align="center" sx={{ py: 4 }}>
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            )}
+            {!isLoading && promotions.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} align="center" sx={{ py: 4, color: "text.secondary" }}>
+                  لا توجد عروض
+                </TableCell>
+              </TableRow>
+            )}
+            {promotions.map((promotion) => (
+              <TableRow key={promotion.id} hover>
+                <TableCell sx={{ fontWeight: 500 }}>{promotion.name}</TableCell>
+                <TableCell>
+                  <Chip size="small" variant="outlined" label={PROMOTION_TYPE_LABELS[promotion.type]} />
+                </TableCell>
+                <TableCell>{describeScope(promotion)}</TableCell>
+                <TableCell>{describeWindow(promotion)}</TableCell>
+                <TableCell align="center">{promotion.priority}</TableCell>
+                <TableCell align="center">
+                  <Switch
+                    size="small"
+                    checked={promotion.is_active}
+                    disabled={togglingId === promotion.id}
+                    onChange={() => handleToggleActive(promotion)}
+                  />
+                </TableCell>
+                <TableCell align="center">
+                  <Tooltip title="تعديل">
+                    <IconButton
+                      size="small"
+                      onClick={() => {
+                        setSelectedPromotion(promotion);
+                        setIsFormModalOpen(true);
+                      }}
+                    >
+                      <Edit size={16} />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="حذف">
+                    <IconButton size="small" color="error" onClick={() => setPromotionToDelete(promotion)}>
+                      <Trash2 size={16} />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <PromotionFormModal
+        isOpen={isFormModalOpen}
+        onClose={() => setIsFormModalOpen(false)}
+        promotionToEdit={selectedPromotion}
+        onSaveSuccess={handleSaved}
+      />
+
+      <ConfirmationDialog
+        open={!!promotionToDelete}
+        onClose={() => setPromotionToDelete(null)}
+        onConfirm={confirmDelete}
+        title="حذف العرض"
+        message={`هل أنت متأكد من حذف العرض: ${promotionToDelete?.name}؟`}
+        confirmText="حذف"
+        cancelText="إلغاء"
+        isLoading={isDeleting}
+      />
+    </Box>
+  );
+};
+
+export default PromotionsPage;
@@ -80,6 +80,13 @@ const SettingsPage: React.FC = () => {
       pdf_font: "Amiri",
       pos_mode: "shift",
       pos_filter_sales_by_user: false,
+      cash_rounding_increment: 0,
+      cash_rounding_mode: "nearest",
+      vat_enabled: false,
+      vat_rate: 15,
+      prices_include_tax: true,
+      purchase_over_receipt_tolerance: 0,
+      purchase_under_receipt_tolerance: 0,
     },
   });
 
@@ -116,6 +123,13 @@ const SettingsPage: React.FC = () => {
         pdf_font: settings.pdf_font || "Amiri",
         pos_mode: settings.pos_mode || "shift",
         pos_filter_sales_by_user: settings.pos_filter_sales_by_user || false,
+        cash_rounding_increment: Number(settings.cash_rounding_increment) || 0,
+        cash_rounding_mode: settings.cash_rounding_mode || "nearest",
+        vat_enabled: Boolean(settings.vat_enabled),
+        vat_rate: settings.vat_rate ?? 15,
+        prices_include_tax: settings.prices_include_tax ?? true,
+        purchase_over_receipt_tolerance: Number(settings.purchase_over_receipt_tolerance) || 0,
+        purchase_under_receipt_tolerance: Number(settings.purchase_under_receipt_tolerance) || 0,
       });
 
       if (settings.company_logo_url) setLogoPreview(settings.company_logo_url);
@@ -149,6 +163,13 @@ const SettingsPage: React.FC = () => {
       pdf_font: data.pdf_font || "Amiri",
       pos_mode: data.pos_mode || "shift",
       pos_filter_sales_by_user: Boolean(data.pos_filter_sales_by_user),
+      cash_rounding_increment: Number(data.cash_rounding_increment) || 0,
+      cash_rounding_mode: data.cash_rounding_mode || "nearest",
+      vat_enabled: Boolean(data.vat_enabled),
+      vat_rate: Number(data.vat_rate) || 0,
+      prices_include_tax: data.prices_include_tax ?? true,
+      purchase_over_receipt_tolerance: Number(data.purchase_over_receipt_tolerance) || 0,
+      purchase_under_receipt_tolerance: Number(data.purchase_under_receipt_tolerance) || 0,
     };
 
     try {
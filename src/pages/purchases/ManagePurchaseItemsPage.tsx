@@ -30,6 +30,8 @@ import {
   ProductUnitsMap,
 } from "@/components/purchases/manage-items";
 import { PurchasePdfDialog } from "@/components/purchases/PurchasePdfDialog";
+import { LabelPrintDialog } from "@/components/labels/LabelPrintDialog";
+import labelService from "@/services/labelService";
 
 const ManagePurchaseItemsPage: React.FC = () => {
   const { id: purchaseIdParam } = useParams<{ id: string }>();
@@ -40,6 +42,7 @@ const ManagePurchaseItemsPage: React.FC = () => {
   const [addItemDialogOpen, setAddItemDialogOpen] = useState(false);
   const [summaryDialogOpen, setSummaryDialogOpen] = useState(false);
   const [pdfDialogOpen, setPdfDialogOpen] = useState(false);
+  const [labelsDialogOpen, setLabelsDialogOpen] = useState(false);
 
   // Product units mapping
   const [productUnits, setProductUnits] = useState<ProductUnitsMap>({});
@@ -265,6 +268,15 @@ const ManagePurchaseItemsPage: React.FC = () => {
     [purchase?.status]
   );
 
+  // All items, not just the current page; zero-quantity lines get no labels
+  const labelItems = useMemo(
+    () =>
+      (purchase?.items || [])
+        .filter((item) => Number(item.quantity) > 0)
+        .map(labelService.fromPurchaseItem),
+    [purchase?.items]
+  );
+
   // ==================== HANDLERS ====================
 
   const handleItemUpdate = useCallback(
@@ -436,6 +448,7 @@ const ManagePurchaseItemsPage: React.FC = () => {
         onOpenSummaryDialog={() => setSummaryDialogOpen(true)}
         onCloseSummaryDialog={() => setSummaryDialogOpen(false)}
         onExportPdf={() => setPdfDialogOpen(true)}
+        onPrintLabels={() => setLabelsDialogOpen(true)}
       />
 
       {/* PDF Dialog */}
@@ -466,6 +479,14 @@ const ManagePurchaseItemsPage: React.FC = () => {
         items={purchase?.items || []}
       />
 
+      {/* Labels Dialog */}
+      <LabelPrintDialog
+        open={labelsDialogOpen}
+        onClose={() => setLabelsDialogOpen(false)}
+        title="ملصقات أصناف أمر الشراء"
+        items={labelItems}
+      />
+
       {/* Add Item Dialog */}
       <AddItemDialog
         open={addItemDialogOpen}
@@ -1,5 +1,5 @@
 // src/pages/PurchaseDetailsPage.tsx
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 
 import { toast } from "sonner";
@@ -21,16 +21,27 @@ import TableContainer from "@mui/material/TableContainer";
 import TableHead from "@mui/material/TableHead";
 import TableRow from "@mui/material/TableRow";
 import IconButton from "@mui/material/IconButton";
+import Stack from "@mui/material/Stack";
 
 // Icons
 import ArrowBackIcon from "@mui/icons-material/ArrowBack";
 import InventoryIcon from "@mui/icons-material/Inventory";
+import LocalShippingIcon from "@mui/icons-material/LocalShipping";
+import RemoveShoppingCartIcon from "@mui/icons-material/RemoveShoppingCart";
+import LocalOfferIcon from "@mui/icons-material/LocalOffer";
 // Or Lucide icons if using shadcn
 // import { ArrowLeft } from 'lucide-react';
 
 // Services and Types
 import purchaseService, { Purchase } from "../../services/purchaseService"; // Import Purchase type
-import { formatCurrency } from "@/constants";
+import goodsReceiptService, { GoodsReceipt } from "../../services/goodsReceiptService";
+import { GoodsReceiptDialog } from "@/components/purchases/GoodsReceiptDialog";
+import ConfirmationDialog from "@/components/common/ConfirmationDialog";
+import { LabelPrintDialog } from "@/components/labels/LabelPrintDialog";
+import labelService from "@/services/labelService";
+import { useSettings } from "@/context/SettingsContext";
+import { getErrorMessage } from "@/lib/axios";
+import { formatCurrency, formatNumber } from "@/constants";
 import { formatDate } from "date-fns";
 import dayjs from "dayjs";
 
@@ -40,11 +51,18 @@ const PurchaseDetailsPage: React.FC = () => {
   // Removed useTranslation
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>(); // Get the 'id' parameter from the URL
+  const { settings } = useSettings();
 
   // State
   const [purchase, setPurchase] = useState<Purchase | null>(null);
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [isReceiveOpen, setIsReceiveOpen] = useState(false);
+  const [isCloseBackorderOpen, setIsCloseBackorderOpen] = useState(false);
+  const [isClosingBackorder, setIsClosingBackorder] = useState(false);
+  const [isLabelsOpen, setIsLabelsOpen] = useState(false);
 
   useEffect(() => {
     const fetchPurchaseDetails = async (purchaseId: number) => {
@@ -54,8 +72,12 @@ const PurchaseDetailsPage: React.FC = () => {
       try {
         // Fetch the specific purchase, including items
         // Ensure the backend's show() method eager loads 'items.product' etc.
-        const data = await purchaseService.getPurchase(purchaseId);
+        const [data, receiptList] = await Promise.all([
+          purchaseService.getPurchase(purchaseId),
+          goodsReceiptService.getReceipts(purchaseId).catch(() => []),
+        ]);
         setPurchase(data);
+        setReceipts(receiptList);
       } catch (err) {
         console.error(`Failed to fetch purchase ${purchaseId}:`, err);
         const errorMsg = purchaseService.getErrorMessage(err);
@@ -78,7 +100,35 @@ const PurchaseDetailsPage: React.FC = () => {
       // Optionally navigate away if ID is invalid
       // navigate('/404');
     }
-  }, [id, navigate]); // Dependency array includes id
+  }, [id, navigate, reloadKey]); // Dependency array includes id
+
+  const tolerances = useMemo(() => goodsReceiptService.getTolerances(settings), [settings]);
+  const receivingLines = useMemo(
+    () => (purchase ? goodsReceiptService.buildReceivingLines(purchase, tolerances) : []),
+    [purchase, tolerances]
+  );
+  const isReceivable = purchase?.status === "ordered" || purchase?.status === "partially_received";
+  const hasBackorder = receivingLines.some((line) => line.outstanding > 0);
+  const showReceiving = isReceivable || receipts.length > 0;
+  const labelItems = useMemo(
+    () => (purchase?.items || []).map(labelService.fromPurchaseItem),
+    [purchase]
+  );
+
+  const closeBackorder = async () => {
+    if (!purchase) return;
+    setIsClosingBackorder(true);
+    try {
+      await goodsReceiptService.closeBackorder(purchase.id);
+      toast.success("نجح", { description: "تم إغلاق الكميات المتبقية" });
+      setIsCloseBackorderOpen(false);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      toast.error("خطأ", { description: getErrorMessage(err, "فشل إغلاق الطلبية المؤجلة") });
+    } finally {
+      setIsClosingBackorder(false);
+    }
+  };
 
   // --- Render Logic ---
 
@@ -191,6 +241,7 @@ const PurchaseDetailsPage: React.FC = () => {
                 label={
                   {
                     received: "تم الاستلام",
+                    partially_received: "مستلم جزئياً",
                     pending: "معلق",
                     ordered: "تم الطلب",
                   }[purchase.status] || purchase.status
@@ -201,6 +252,8 @@ const PurchaseDetailsPage: React.FC = () => {
                     ? "success"
                     : purchase.status === "pending"
                     ? "warning"
+                    : purchase.status === "partially_received"
+                    ? "info"
                     : "default"
                 }
               />
@@ -252,13 +305,43 @@ const PurchaseDetailsPage: React.FC = () => {
         <Typography variant="h6" component="h2">
           العناصر
         </Typography>
-        <Button
-          variant="contained"
-          startIcon={<InventoryIcon />}
-          onClick={() => navigate(`/purchases/${purchase.id}/items`)}
-        >
-          إدارة العناصر
-        </Button>
+        <Stack direction="row" spacing={1}>
+          {isReceivable && hasBackorder && (
+            <Button
+              variant="outlined"
+              color="warning"
+              startIcon={<RemoveShoppingCartIcon />}
+              onClick={() => setIsCloseBackorderOpen(true)}
+            >
+              إغلاق المتبقي
+            </Button>
+          )}
+          {isReceivable && (
+            <Button
+              variant="contained"
+              color="success"
+              startIcon={<LocalShippingIcon />}
+              onClick={() => setIsReceiveOpen(true)}
+            >
+              استلام بضاعة
+            </Button>
+          )}
+          <Button
+            variant="outlined"
+            startIcon={<LocalOfferIcon />}
+            onClick={() => setIsLabelsOpen(true)}
+            disabled={labelItems.length === 0}
+          >
+            طباعة الملصقات
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<InventoryIcon />}
+            onClick={() => navigate(`/purchases/${purchase.id}/items`)}
+          >
+            إدارة العناصر
+          </Button>
+        </Stack>
       </Box>
       <TableContainer
         component={Paper}
@@ -276,6 +359,16 @@ const PurchaseDetailsPage: React.FC = () => {
               <TableCell align="right" className="dark:text-gray-300">
                 الكمية
               </TableCell>
+              {showReceiving && (
+                <>
+                  <TableCell align="right" className="dark:text-gray-300">
+                    المستلم
+                  </TableCell>
+                  <TableCell align="right" className="dark:text-gray-300">
+                    المتبقي
+                  </TableCell>
+                </>
+              )}
               <TableCell align="right" className="dark:text-gray-300">
                 تكلفة الوحدة
               </TableCell>
@@ -285,7 +378,7 @@ const PurchaseDetailsPage: React.FC = () => {
             </TableRow>
           </TableHead>
           <TableBody>
-            {purchase.items?.map((item) => (
+            {receivingLines.map(({ item, received, outstanding }) => (
               <TableRow key={item.id} hover>
                 <TableCell className="dark:text-gray-100">
                   {item.product_name || `(منتج ID: ${item.product_id})`}
@@ -296,6 +389,22 @@ const PurchaseDetailsPage: React.FC = () => {
                 <TableCell align="right" className="dark:text-gray-100">
                   {item.quantity}
                 </TableCell>
+                {showReceiving && (
+                  <>
+                    <TableCell align="right" className="dark:text-gray-100">
+                      {formatNumber(received)}
+                    </TableCell>
+                    <TableCell align="right" className="dark:text-gray-100">
+                      {outstanding > 0 ? (
+                        <Chip size="small" color="warning" variant="outlined" label={formatNumber(outstanding)} />
+                      ) : item.backorder_closed && received < Number(item.quantity) ? (
+                        <Chip size="small" variant="outlined" label="مغلق" />
+                      ) : (
+                        "-"
+                      )}
+                    </TableCell>
+                  </>
+                )}
                 <TableCell align="right" className="dark:text-gray-100">
                   {formatCurrency(item.unit_cost)}
                 </TableCell>
@@ -328,6 +437,76 @@ const PurchaseDetailsPage: React.FC = () => {
           المجموع الكلي: {formatCurrency(purchase.total_amount)}
         </Typography>
       </Box>
+
+      {/* Goods Receipts */}
+      {receipts.length > 0 && (
+        <>
+          <Typography variant="h6" component="h2" sx={{ mt: 4, mb: 2 }}>
+            سندات الاستلام
+          </Typography>
+          <TableContainer component={Paper} elevation={1} className="dark:bg-gray-800">
+            <Table size="small">
+              <TableHead sx={{ backgroundColor: "action.hover" }} className="dark:bg-gray-700">
+                <TableRow>
+                  <TableCell className="dark:text-gray-300">رقم السند</TableCell>
+                  <TableCell className="dark:text-gray-300">التاريخ</TableCell>
+                  <TableCell className="dark:text-gray-300">الأصناف</TableCell>
+                  <TableCell className="dark:text-gray-300">بواسطة</TableCell>
+                  <TableCell className="dark:text-gray-300">ملاحظات</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {receipts.map((receipt) => (
+                  <TableRow key={receipt.id} hover>
+                    <TableCell className="dark:text-gray-100">{receipt.receipt_number}</TableCell>
+                    <TableCell className="dark:text-gray-100">
+                      {dayjs(receipt.received_at).format("YYYY-MM-DD")}
+                    </TableCell>
+                    <TableCell className="dark:text-gray-100">
+                      {receipt.items.map((line) => (
+                        <Typography key={line.id} variant="body2">
+                          {line.product_name || `#${line.product_id}`}: {formatNumber(line.quantity)}
+                          {line.batch_number && ` — دفعة ${line.batch_number}`}
+                          {line.expiry_date && ` — ينتهي ${line.expiry_date.slice(0, 10)}`}
+                        </Typography>
+                      ))}
+                    </TableCell>
+                    <TableCell className="dark:text-gray-100">{receipt.user_name || "---"}</TableCell>
+                    <TableCell className="dark:text-gray-100">{receipt.notes || "---"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+
+      <GoodsReceiptDialog
+        open={isReceiveOpen}
+        onClose={() => setIsReceiveOpen(false)}
+        purchaseId={purchase.id}
+        lines={receivingLines}
+        tolerances={tolerances}
+        onReceived={() => setReloadKey((key) => key + 1)}
+      />
+
+      <LabelPrintDialog
+        open={isLabelsOpen}
+        onClose={() => setIsLabelsOpen(false)}
+        title={`ملصقات أمر الشراء ${purchase.reference_number || `#${purchase.id}`}`}
+        items={labelItems}
+      />
+
+      <ConfirmationDialog
+        open={isCloseBackorderOpen}
+        onClose={() => setIsCloseBackorderOpen(false)}
+        onConfirm={closeBackorder}
+        title="إغلاق الكميات المتبقية"
+        message="لن يتم انتظار الكميات غير المستلمة من هذا الطلب وسيُعتبر مستلماً بالكامل. متابعة؟"
+        confirmText="إغلاق"
+        cancelText="إلغاء"
+        isLoading={isClosingBackorder}
+      />
     </Box>
   );
 };
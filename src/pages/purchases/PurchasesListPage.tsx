@@ -75,6 +75,7 @@ import {
   CheckCircle,
   Clock,
   Truck,
+  PackageOpen,
   RefreshCw,
   MoreHorizontal,
   ChevronDown,
@@ -143,6 +144,12 @@ const PurchasesListPage: React.FC = () => {
       variant: "secondary" as const,
       color: "text-blue-600 bg-blue-50 border-blue-200",
     },
+    partially_received: {
+      label: "مستلم جزئياً",
+      icon: PackageOpen,
+      variant: "secondary" as const,
+      color: "text-sky-600 bg-sky-50 border-sky-200",
+    },
     received: {
       label: "تم الاستلام",
       icon: CheckCircle,
@@ -528,6 +535,9 @@ const PurchasesListPage: React.FC = () => {
                       <SelectContent>
                         <SelectItem value="pending">قيد الانتظار</SelectItem>
                         <SelectItem value="ordered">تم الطلب</SelectItem>
+                        <SelectItem value="partially_received">
+                          مستلم جزئياً
+                        </SelectItem>
                         <SelectItem value="received">تم الاستلام</SelectItem>
                       </SelectContent>
                     </Select>
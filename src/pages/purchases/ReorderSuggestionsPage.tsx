@@ -0,0 +1,371 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+
+// MUI Components
+import {
+  Box,
+  Typography,
+  Stack,
+  TextField,
+  MenuItem,
+  Button,
+  CircularProgress,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableFooter,
+  Paper,
+  Alert,
+  Autocomplete,
+  Tooltip,
+} from "@mui/material";
+
+// Lucide Icons
+import { ArrowLeft, Calculator, ShoppingCart, Trash2 } from "lucide-react";
+
+import { formatNumber, preciseCalculation, preciseSum } from "@/constants";
+import { getErrorMessage } from "@/lib/axios";
+import categoryService, { Category } from "@/services/CategoryService";
+import supplierService, { SupplierSummary } from "@/services/supplierService";
+import replenishmentService, {
+  DEFAULT_REORDER_PARAMS,
+  DraftPurchase,
+  ReorderParams,
+  ReorderSuggestion,
+} from "@/services/replenishmentService";
+
+const PARAM_FIELDS: { key: keyof ReorderParams; label: string }[] = [
+  { key: "lookback_days", label: "فترة المبيعات (يوم)" },
+  { key: "safety_days", label: "مخزون الأمان (يوم)" },
+  { key: "cover_days", label: "فترة التغطية (يوم)" },
+  { key: "default_lead_time_days", label: "مدة التوريد الافتراضية (يوم)" },
+];
+
+const lineTotal = (line: ReorderSuggestion) =>
+  preciseCalculation(line.suggested_quantity, line.unit_cost, "multiply", 2);
+
+const ReorderSuggestionsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [params, setParams] = useState<ReorderParams>(DEFAULT_REORDER_PARAMS);
+  const [categoryId, setCategoryId] = useState<number | "">("");
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [suppliers, setSuppliers] = useState<SupplierSummary[]>([]);
+  const [drafts, setDrafts] = useState<DraftPurchase[] | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [creatingIndex, setCreatingIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    categoryService
+      .getCategories(1, 9999, "", false, true)
+      .then((data) => setCategories(Array.isArray(data) ? data : data.data))
+      .catch(() => setCategories([]));
+    supplierService
+      .getSuppliersSummary()
+      .then(setSuppliers)
+      .catch(() => setSuppliers([]));
+  }, []);
+
+  const calculate = async () => {
+    setError(null);
+    setDrafts(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const products = await replenishmentService.getCandidates(categoryId || null);
+      setProgress({ done: 0, total: products.length });
+      const suggestions = await replenishmentService.buildSuggestions(products, params, (done, total) =>
+        setProgress({ done, total })
+      );
+      setDrafts(replenishmentService.groupBySupplier(suggestions));
+    } catch (err) {
+      setError(getErrorMessage(err, "فشل حساب اقتراحات إعادة الطلب"));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const updateDraft = (index: number, update: (draft: DraftPurchase) => DraftPurchase | null) =>
+    setDrafts((prev) =>
+      (prev || [])
+        .map((draft, i) => (i === index ? update(draft) : draft))
+        .filter((draft): draft is DraftPurchase => draft !== null && draft.lines.length > 0)
+    );
+
+  const updateLine = (
+    index: number,
+    productId: number,
+    field: "suggested_quantity" | "unit_cost",
+    value: number
+  ) =>
+    updateDraft(index, (draft) => ({
+      ...draft,
+      lines: draft.lines.map((line) =>
+        line.product.id === productId ? { ...line, [field]: value } : line
+      ),
+    }));
+
+  const removeLine = (index: number, productId: number) =>
+    updateDraft(index, (draft) => ({
+      ...draft,
+      lines: draft.lines.filter((line) => line.product.id !== productId),
+    }));
+
+  const createPurchase = async (index: number, draft: DraftPurchase) => {
+    if (!draft.supplier_id) return;
+    setCreatingIndex(index);
+    try {
+      const purchase = await replenishmentService.createPurchaseFromDraft(draft, draft.supplier_id);
+      toast.success("نجح", {
+        description: `تم إنشاء أمر الشراء #${purchase.id} للمورد ${draft.supplier_name}`,
+        action: { label: "عرض", onClick: () => navigate(`/purchases/${purchase.id}`) },
+      });
+      updateDraft(index, () => null);
+    } catch (err) {
+      toast.error("خطأ", { description: getErrorMessage(err, "فشل إنشاء أمر الشراء") });
+    } finally {
+      setCreatingIndex(null);
+    }
+  };
+
+  return (
+    <Box sx={{ minHeight: "100vh" }}>
+      {/* Header */}
+      <Box sx={{ borderBottom: "1px solid", borderColor: "divider", bgcolor: "background.paper" }}>
+        <Box sx={{ maxWidth: "100%", px: { xs: 2, sm: 3, lg: 4 }, py: 2.5 }}>
+          <Stack direction="column" spacing={3}>
+            <Stack direction="row" alignItems="center" spacing={2}>
+              <IconButton
+                onClick={() => navigate("/purchases")}
+                size="small"
+                sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2 }}
+              >
+                <ArrowLeft size={18} />
+              </IconButton>
+              <Box>
+                <Typography variant="h6" component="h1" sx={{ fontWeight: 600, lineHeight: 1.3 }}>
+                  اقتراحات إعادة الطلب
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 0.25 }}>
+                  كميات مقترحة حسب سرعة البيع ومدة توريد المورد ومخزون الأمان، مجمعة حسب آخر مورد
+                </Typography>
+              </Box>
+            </Stack>
+
+            <Stack direction="row" spacing={2} alignItems="center" flexWrap="wrap" useFlexGap>
+              <TextField
+                select
+                size="small"
+                label="المنتجات"
+                value={categoryId}
+                onChange={(e) => setCategoryId(e.target.value === "" ? "" : Number(e.target.value))}
+                sx={{ minWidth: 220 }}
+              >
+                <MenuItem value="">منخفضة المخزون</MenuItem>
+                {categories.map((category) => (
+                  <MenuItem key={category.id} value={category.id}>
+                    الفئة: {category.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+              {PARAM_FIELDS.map(({ key, label }) => (
+                <TextField
+                  key={key}
+                  type="number"
+                  size="small"
+                  label={label}
+                  value={params[key]}
+                  onChange={(e) => setParams((prev) => ({ ...prev, [key]: Number(e.target.value) || 0 }))}
+                  inputProps={{ min: key === "lookback_days" ? 1 : 0 }}
+                  sx={{ width: 170 }}
+                />
+              ))}
+              <Button
+                variant="contained"
+                startIcon={progress ? <CircularProgress size={16} color="inherit" /> : <Calculator size={16} />}
+                onClick={calculate}
+                disabled={!!progress || params.lookback_days < 1}
+              >
+                حساب الاقتراحات
+              </Button>
+            </Stack>
+          </Stack>
+        </Box>
+      </Box>
+
+      <Box sx={{ maxWidth: "1400px", mx: "auto", px: { xs: 2, sm: 3, lg: 4 }, py: 3 }}>
+        {progress && (
+          <Alert severity="info" icon={<CircularProgress size={18} />} sx={{ mb: 2 }}>
+            جاري تحليل المبيعات... {progress.done} / {progress.total}
+          </Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {drafts && drafts.length === 0 && (
+          <Alert severity="success">لا توجد منتجات تحتاج إلى إعادة طلب</Alert>
+        )}
+
+        <Stack spacing={3}>
+          {drafts?.map((draft, index) => {
+            const total = preciseSum(draft.lines.map(lineTotal), 2);
+            return (
+              <Paper key={`${draft.supplier_id ?? "none"}-${index}`} variant="outlined" sx={{ p: 2 }}>
+                <Stack
+                  direction={{ xs: "column", md: "row" }}
+                  justifyContent="space-between"
+                  alignItems={{ md: "center" }}
+                  spacing={2}
+                  sx={{ mb: 2 }}
+                >
+                  <Autocomplete
+                    options={suppliers}
+                    getOptionLabel={(option) => option.name}
+                    value={suppliers.find((s) => s.id === draft.supplier_id) ?? null}
+                    onChange={(_, supplier) =>
+                      updateDraft(index, (d) => ({
+                        ...d,
+                        supplier_id: supplier?.id ?? null,
+                        supplier_name: supplier?.name ?? "بدون مورد سابق",
+                      }))
+                    }
+                    size="small"
+                    sx={{ minWidth: 260 }}
+                    renderInput={(inputParams) => (
+                      <TextField
+                        {...inputParams}
+                        label="المورد"
+                        error={!draft.supplier_id}
+                        helperText={!draft.supplier_id ? "اختر مورداً لإنشاء أمر الشراء" : undefined}
+                      />
+                    )}
+                  />
+                  <Stack direction="row" spacing={2} alignItems="center">
+                    <Typography variant="body2" color="text.secondary">
+                      {draft.lines.length} صنف — الإجمالي {formatNumber(total, 2)}
+                    </Typography>
+                    <Button
+                      variant="contained"
+                      color="success"
+                      startIcon={
+                        creatingIndex === index ? (
+                          <CircularProgress size={16} color="inherit" />
+                        ) : (
+                          <ShoppingCart size={16} />
+                        )
+                      }
+                      disabled={!draft.supplier_id || creatingIndex !== null}
+                      onClick={() => createPurchase(index, draft)}
+                    >
+                      إنشاء أمر شراء
+                    </Button>
+                  </Stack>
+                </Stack>
+
+                <TableContainer>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>المنتج</TableCell>
+                        <TableCell align="center">المخزون الحالي</TableCell>
+                        <TableCell align="center">البيع اليومي</TableCell>
+                        <TableCell align="center">مدة التوريد</TableCell>
+                        <TableCell align="center">نقطة إعادة الطلب</TableCell>
+                        <TableCell align="center" sx={{ width: 120 }}>
+                          الكمية (وحدة تخزين)
+                        </TableCell>
+                        <TableCell align="center" sx={{ width: 120 }}>
+                          تكلفة الوحدة
+                        </TableCell>
+                        <TableCell align="center">الإجمالي</TableCell>
+                        <TableCell />
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {draft.lines.map((line) => (
+                        <TableRow key={line.product.id} hover>
+                          <TableCell>
+                            {line.product.name}
+                            {line.product.sku && (
+                              <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+                                {line.product.sku}
+                              </Typography>
+                            )}
+                          </TableCell>
+                          <TableCell
+                            align="center"
+                            sx={{ color: line.current_stock <= 0 ? "error.main" : undefined }}
+                          >
+                            {formatNumber(line.current_stock)}
+                          </TableCell>
+                          <TableCell align="center">{formatNumber(line.daily_velocity, 2)}</TableCell>
+                          <TableCell align="center">{line.lead_time_days} يوم</TableCell>
+                          <TableCell align="center">
+                            <Tooltip title={`مخزون الأمان ${formatNumber(line.safety_stock, 2)}`}>
+                              <span>{formatNumber(line.reorder_point, 2)}</span>
+                            </Tooltip>
+                          </TableCell>
+                          <TableCell align="center">
+                            <TextField
+                              type="number"
+                              size="small"
+                              value={line.suggested_quantity}
+                              onChange={(e) =>
+                                updateLine(index, line.product.id, "suggested_quantity", Number(e.target.value) || 0)
+                              }
+                              inputProps={{ min: 0 }}
+                            />
+                          </TableCell>
+                          <TableCell align="center">
+                            <TextField
+                              type="number"
+                              size="small"
+                              value={line.unit_cost}
+                              onChange={(e) =>
+                                updateLine(index, line.product.id, "unit_cost", Number(e.target.value) || 0)
+                              }
+                              inputProps={{ min: 0, step: "any" }}
+                            />
+                          </TableCell>
+                          <TableCell align="center">{formatNumber(lineTotal(line), 2)}</TableCell>
+                          <TableCell align="center">
+                            <IconButton
+                              size="small"
+                              color="error"
+                              onClick={() => removeLine(index, line.product.id)}
+                            >
+                              <Trash2 size={16} />
+                            </IconButton>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell colSpan={7} sx={{ fontWeight: 600 }}>
+                          الإجمالي
+                        </TableCell>
+                        <TableCell align="center" sx={{ fontWeight: 600 }}>
+                          {formatNumber(total, 2)}
+                        </TableCell>
+                        <TableCell />
+                      </TableRow>
+                    </TableFooter>
+                  </Table>
+                </TableContainer>
+              </Paper>
+            );
+          })}
+        </Stack>
+      </Box>
+    </Box>
+  );
+};
+
+export default ReorderSuggestionsPage;
@@ -0,0 +1,268 @@
+import React, { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+// MUI Components
+import {
+  Box,
+  Typography,
+  Stack,
+  TextField,
+  CircularProgress,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableFooter,
+  Paper,
+  Card,
+  CardContent,
+  Grid,
+  Chip,
+  Tooltip,
+} from "@mui/material";
+
+// Lucide Icons
+import { ArrowLeft, Send } from "lucide-react";
+
+import { formatNumber, preciseSum } from "@/constants";
+import clientCreditService, {
+  AgingBucket,
+  AGING_BUCKET_LABELS,
+  ClientAging,
+} from "@/services/clientCreditService";
+import receivablesService, { DEFAULT_DUNNING_TEMPLATE } from "@/services/receivablesService";
+import { useSettings } from "@/context/SettingsContext";
+
+const BUCKETS: AgingBucket[] = ["current", "days_31_60", "days_61_90", "over_90"];
+
+const ClientAgingReportPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { settings } = useSettings();
+  const [asOf, setAsOf] = useState<string>(format(new Date(), "yyyy-MM-dd"));
+  const [sendingTo, setSendingTo] = useState<number | null>(null);
+
+  const { data: rows = [], isLoading, error } = useQuery({
+    queryKey: ["client-aging", asOf],
+    queryFn: () => clientCreditService.getAgingReport(asOf),
+    enabled: Boolean(asOf),
+  });
+
+  const totals = useMemo(
+    () => ({
+      current: preciseSum(rows.map((r) => r.current), 2),
+      days_31_60: preciseSum(rows.map((r) => r.days_31_60), 2),
+      days_61_90: preciseSum(rows.map((r) => r.days_61_90), 2),
+      over_90: preciseSum(rows.map((r) => r.over_90), 2),
+      total: preciseSum(rows.map((r) => r.total), 2),
+    }),
+    [rows]
+  );
+
+  const sendStatement = async (row: ClientAging) => {
+    setSendingTo(row.client_id);
+    const reminder = await receivablesService
+      .sendStatement(row, DEFAULT_DUNNING_TEMPLATE, settings)
+      .catch(() => null);
+    setSendingTo(null);
+    if (reminder?.status === "sent") {
+      toast.success(`تم إرسال كشف الحساب إلى ${row.client_name}`);
+    } else {
+      toast.error(reminder?.error || "فشل إرسال كشف الحساب");
+    }
+  };
+
+  return (
+    <Box sx={{ minHeight: "100vh" }}>
+      {/* Header */}
+      <Box sx={{ borderBottom: "1px solid", borderColor: "divider", bgcolor: "background.paper" }}>
+        <Box sx={{ maxWidth: "100%", px: { xs: 2, sm: 3, lg: 4 }, py: 2.5 }}>
+          <Stack direction="column" spacing={3}>
+            <Stack direction="row" alignItems="center" spacing={2}>
+              <IconButton
+                onClick={() => navigate("/dashboard")}
+                size="small"
+                sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2 }}
+              >
+                <ArrowLeft size={18} />
+              </IconButton>
+              <Box>
+                <Typography variant="h6" component="h1" sx={{ fontWeight: 600, lineHeight: 1.3 }}>
+                  أعمار ديون العملاء
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 0.25 }}>
+                  أرصدة العملاء المفتوحة حسب عمر الفواتير غير المسددة
+                </Typography>
+              </Box>
+            </Stack>
+
+            <Stack direction="row" spacing={2} alignItems="center">
+              <TextField
+                type="date"
+                size="small"
+                label="حتى تاريخ"
+                value={asOf}
+                onChange={(e) => setAsOf(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Stack>
+          </Stack>
+        </Box>
+      </Box>
+
+      <Box sx={{ maxWidth: "1400px", mx: "auto", px: { xs: 2, sm: 3, lg: 4 }, py: 3 }}>
+        {isLoading && (
+          <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {error && (
+          <Box sx={{ py: 4, textAlign: "center" }}>
+            <Typography variant="body2" color="error">
+              حدث خطأ أثناء تحميل البيانات
+            </Typography>
+          </Box>
+        )}
+
+        {!isLoading && !error && (
+          <>
+            {/* Summary Cards */}
+            <Grid container spacing={2} sx={{ mb: 3 }}>
+              {BUCKETS.map((bucket) => (
+                <Grid key={bucket} size={{ xs: 6, md: 3 }}>
+                  <Card>
+                    <CardContent>
+                      <Typography variant="body2" color="text.secondary" gutterBottom>
+                        {AGING_BUCKET_LABELS[bucket]}
+                      </Typography>
+                      <Typography
+                        variant="h5"
+                        fontWeight="bold"
+                        color={bucket === "over_90" && totals.over_90 > 0 ? "error.main" : undefined}
+                      >
+                        {formatNumber(totals[bucket], 2)}
+                      </Typography>
+                    </CardContent>
+                  </Card>
+                </Grid>
+              ))}
+            </Grid>
+
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>العميل</TableCell>
+                    <TableCell align="center">حد الائتمان</TableCell>
+                    <TableCell align="center">مدة السداد</TableCell>
+                    {BUCKETS.map((bucket) => (
+                      <TableCell key={bucket} align="center">
+                        {AGING_BUCKET_LABELS[bucket]}
+                      </TableCell>
+                    ))}
+                    <TableCell align="center">الإجمالي</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={9} align="center" sx={{ color: "text.secondary" }}>
+                        لا توجد أرصدة مفتوحة
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {rows.map((row) => {
+                    const overLimit = row.credit_limit != null && row.total > Number(row.credit_limit);
+                    return (
+                      <TableRow
+                        key={row.client_id}
+                        hover
+                        onClick={() => navigate(`/clients/${row.client_id}/ledger`)}
+                        sx={{ cursor: "pointer" }}
+                      >
+                        <TableCell>
+                          {row.client_name}
+                          {overLimit && (
+                            <Chip size="small" color="error" label="تجاوز الحد" sx={{ mr: 1 }} />
+                          )}
+                          {row.phone && (
+                            <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+                              {row.phone}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell align="center">
+                          {row.credit_limit != null ? formatNumber(row.credit_limit) : "-"}
+                        </TableCell>
+                        <TableCell align="center">
+                          {row.payment_terms_days != null ? `${row.payment_terms_days} يوم` : "-"}
+                        </TableCell>
+                        {BUCKETS.map((bucket) => (
+                          <TableCell
+                            key={bucket}
+                            align="center"
+                            sx={{ color: bucket === "over_90" && row.over_90 > 0 ? "error.main" : undefined }}
+                          >
+                            {row[bucket] > 0 ? formatNumber(row[bucket], 2) : "-"}
+                          </TableCell>
+                        ))}
+                        <TableCell align="center" sx={{ fontWeight: 600 }}>
+                          {formatNumber(row.total, 2)}
+                        </TableCell>
+                        <TableCell align="center" onClick={(e) => e.stopPropagation()}>
+                          <Tooltip title="إرسال كشف الحساب (واتساب)">
+                            <span>
+                              <IconButton
+                                size="small"
+                                color="primary"
+                                disabled={!row.phone || sendingTo !== null}
+                                onClick={() => sendStatement(row)}
+                              >
+                                {sendingTo === row.client_id ? (
+                                  <CircularProgress size={16} />
+                                ) : (
+                                  <Send size={16} />
+                                )}
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+                {rows.length > 0 && (
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={3} sx={{ fontWeight: 600 }}>
+                        الإجمالي ({rows.length} عميل)
+                      </TableCell>
+                      {BUCKETS.map((bucket) => (
+                        <TableCell key={bucket} align="center" sx={{ fontWeight: 600 }}>
+                          {formatNumber(totals[bucket], 2)}
+                        </TableCell>
+                      ))}
+                      <TableCell align="center" sx={{ fontWeight: 600 }}>
+                        {formatNumber(totals.total, 2)}
+                      </TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableFooter>
+                )}
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default ClientAgingReportPage;
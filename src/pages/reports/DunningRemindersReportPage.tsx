@@ -0,0 +1,219 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format, startOfMonth } from "date-fns";
+
+// MUI Components
+import {
+  Box,
+  Typography,
+  Stack,
+  TextField,
+  CircularProgress,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Pagination,
+  Chip,
+  Card,
+  CardContent,
+  Grid,
+  Tooltip,
+} from "@mui/material";
+
+// Lucide Icons
+import { ArrowLeft } from "lucide-react";
+
+import { formatNumber } from "@/constants";
+import receivablesService from "@/services/receivablesService";
+
+const DunningRemindersReportPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [startDate, setStartDate] = useState<string>(
+    format(startOfMonth(new Date()), "yyyy-MM-dd")
+  );
+  const [endDate, setEndDate] = useState<string>(format(new Date(), "yyyy-MM-dd"));
+  const [page, setPage] = useState(1);
+
+  const { data: report, isLoading, error } = useQuery({
+    queryKey: ["dunning-reminders", startDate, endDate, page],
+    queryFn: () =>
+      receivablesService.getReminders({ start_date: startDate, end_date: endDate, page }),
+    enabled: Boolean(startDate && endDate),
+  });
+
+  const summaryCards = report
+    ? [
+        { label: "رسائل مرسلة", value: report.summary.sent },
+        { label: "فشل الإرسال", value: report.summary.failed },
+        { label: "تبعها سداد", value: report.summary.paid },
+        { label: "المحصّل بعد التذكير", value: formatNumber(report.summary.paid_amount, 2) },
+      ]
+    : [];
+
+  return (
+    <Box sx={{ minHeight: "100vh" }}>
+      {/* Header */}
+      <Box sx={{ borderBottom: "1px solid", borderColor: "divider", bgcolor: "background.paper" }}>
+        <Box sx={{ maxWidth: "100%", px: { xs: 2, sm: 3, lg: 4 }, py: 2.5 }}>
+          <Stack direction="column" spacing={3}>
+            <Stack direction="row" alignItems="center" spacing={2}>
+              <IconButton
+                onClick={() => navigate("/dashboard")}
+                size="small"
+                sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2 }}
+              >
+                <ArrowLeft size={18} />
+              </IconButton>
+              <Box>
+                <Typography variant="h6" component="h1" sx={{ fontWeight: 600, lineHeight: 1.3 }}>
+                  متابعة تذكيرات المديونيات
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 0.25 }}>
+                  الرسائل المرسلة للعملاء وهل تبعها سداد
+                </Typography>
+              </Box>
+            </Stack>
+
+            <Stack direction="row" spacing={2} alignItems="center">
+              <TextField
+                type="date"
+                size="small"
+                label="من تاريخ"
+                value={startDate}
+                onChange={(e) => {
+                  setStartDate(e.target.value);
+                  setPage(1);
+                }}
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField
+                type="date"
+                size="small"
+                label="إلى تاريخ"
+                value={endDate}
+                onChange={(e) => {
+                  setEndDate(e.target.value);
+                  setPage(1);
+                }}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Stack>
+          </Stack>
+        </Box>
+      </Box>
+
+      <Box sx={{ maxWidth: "1400px", mx: "auto", px: { xs: 2, sm: 3, lg: 4 }, py: 3 }}>
+        {isLoading && (
+          <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {error && (
+          <Box sx={{ py: 4, textAlign: "center" }}>
+            <Typography variant="body2" color="error">
+              حدث خطأ أثناء تحميل البيانات
+            </Typography>
+          </Box>
+        )}
+
+        {report && !isLoading && (
+          <>
+            {/* Summary Cards */}
+            <Grid container spacing={2} sx={{ mb: 3 }}>
+              {summaryCards.map((card) => (
+                <Grid key={card.label} size={{ xs: 6, md: 3 }}>
+                  <Card>
+                    <CardContent>
+                      <Typography variant="body2" color="text.secondary" gutterBottom>
+                        {card.label}
+                      </Typography>
+                      <Typography variant="h5" fontWeight="bold">
+                        {card.value}
+                      </Typography>
+                    </CardContent>
+                  </Card>
+                </Grid>
+              ))}
+            </Grid>
+
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>وقت الإرسال</TableCell>
+                    <TableCell>العميل</TableCell>
+                    <TableCell>الهاتف</TableCell>
+                    <TableCell>الحملة</TableCell>
+                    <TableCell align="center">الرصيد</TableCell>
+                    <TableCell align="center">الحالة</TableCell>
+                    <TableCell align="center">السداد بعد التذكير</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {report.data.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} align="center" sx={{ color: "text.secondary" }}>
+                        لا توجد بيانات
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {report.data.map((row) => (
+                    <TableRow
+                      key={row.id}
+                      hover
+                      onClick={() => navigate(`/clients/${row.client_id}/ledger`)}
+                      sx={{ cursor: "pointer" }}
+                    >
+                      <TableCell>{format(new Date(row.sent_at), "yyyy-MM-dd HH:mm")}</TableCell>
+                      <TableCell>{row.client_name}</TableCell>
+                      <TableCell>{row.phone || "-"}</TableCell>
+                      <TableCell>{row.campaign_name || "يدوي"}</TableCell>
+                      <TableCell align="center">{formatNumber(row.balance, 2)}</TableCell>
+                      <TableCell align="center">
+                        {row.status === "sent" ? (
+                          <Chip size="small" color="success" variant="outlined" label="أُرسل" />
+                        ) : (
+                          <Tooltip title={row.error || ""}>
+                            <Chip size="small" color="error" variant="outlined" label="فشل" />
+                          </Tooltip>
+                        )}
+                      </TableCell>
+                      <TableCell align="center">
+                        {row.paid_at ? (
+                          <Typography variant="body2" color="success.main">
+                            {formatNumber(row.paid_amount ?? 0, 2)} —{" "}
+                            {format(new Date(row.paid_at), "yyyy-MM-dd")}
+                          </Typography>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            {report.last_page > 1 && (
+              <Box sx={{ display: "flex", justifyContent: "center", mt: 2 }}>
+                <Pagination
+                  count={report.last_page}
+                  page={page}
+                  onChange={(_, value) => setPage(value)}
+                />
+              </Box>
+            )}
+          </>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default DunningRemindersReportPage;
@@ -488,6 +488,11 @@ const InventoryLogPage: React.FC = () => {
                           دفعة: {row.batch_number}
                         </div>
                       )}
+                      {row.kit_product_name && (
+                        <div className="text-sm" style={{ color: "#8b5cf6" }}>
+                          مكون في الطقم: {row.kit_product_name}
+                        </div>
+                      )}
                     </td>
                     <td>
                       <div className="flex-row gap-2">
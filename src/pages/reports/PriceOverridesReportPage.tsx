@@ -0,0 +1,245 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format, startOfMonth } from "date-fns";
+
+// MUI Components
+import {
+  Box,
+  Typography,
+  Stack,
+  TextField,
+  CircularProgress,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Pagination,
+  Chip,
+} from "@mui/material";
+
+// Lucide Icons
+import { ArrowLeft } from "lucide-react";
+
+import { formatNumber } from "@/constants";
+import { priceListService } from "@/services/priceListService";
+
+const PriceOverridesReportPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [startDate, setStartDate] = useState<string>(
+    format(startOfMonth(new Date()), "yyyy-MM-dd")
+  );
+  const [endDate, setEndDate] = useState<string>(format(new Date(), "yyyy-MM-dd"));
+  const [userId, setUserId] = useState<number | null>(null);
+  const [page, setPage] = useState(1);
+
+  const { data: report, isLoading, error } = useQuery({
+    queryKey: ["price-overrides", startDate, endDate, userId, page],
+    queryFn: () =>
+      priceListService.getPriceOverrides({
+        start_date: startDate,
+        end_date: endDate,
+        user_id: userId,
+        page,
+      }),
+    enabled: Boolean(startDate && endDate),
+  });
+
+  const selectCashier = (id: number | null) => {
+    setUserId((current) => (current === id ? null : id));
+    setPage(1);
+  };
+
+  return (
+    <Box sx={{ minHeight: "100vh" }}>
+      {/* Header */}
+      <Box sx={{ borderBottom: "1px solid", borderColor: "divider", bgcolor: "background.paper" }}>
+        <Box sx={{ maxWidth: "100%", px: { xs: 2, sm: 3, lg: 4 }, py: 2.5 }}>
+          <Stack direction="column" spacing={3}>
+            <Stack direction="row" alignItems="center" spacing={2}>
+              <IconButton
+                onClick={() => navigate("/dashboard")}
+                size="small"
+                sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2 }}
+              >
+                <ArrowLeft size={18} />
+              </IconButton>
+              <Box>
+                <Typography variant="h6" component="h1" sx={{ fontWeight: 600, lineHeight: 1.3 }}>
+                  تعديلات الأسعار اليدوية
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 0.25 }}>
+                  الأصناف التي بيعت بسعر مختلف عن قائمة الأسعار، لكل كاشير
+                </Typography>
+              </Box>
+            </Stack>
+
+            <Stack direction="row" spacing={2} alignItems="center">
+              <TextField
+                type="date"
+                size="small"
+                label="من تاريخ"
+                value={startDate}
+                onChange={(e) => {
+                  setStartDate(e.target.value);
+                  setPage(1);
+                }}
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField
+                type="date"
+                size="small"
+                label="إلى تاريخ"
+                value={endDate}
+                onChange={(e) => {
+                  setEndDate(e.target.value);
+                  setPage(1);
+                }}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Stack>
+          </Stack>
+        </Box>
+      </Box>
+
+      <Box sx={{ maxWidth: "1400px", mx: "auto", px: { xs: 2, sm: 3, lg: 4 }, py: 3 }}>
+        {isLoading && (
+          <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {error && (
+          <Box sx={{ py: 4, textAlign: "center" }}>
+            <Typography variant="body2" color="error">
+              حدث خطأ أثناء تحميل البيانات
+            </Typography>
+          </Box>
+        )}
+
+        {report && !isLoading && (
+          <>
+            {/* Per cashier */}
+            <Typography variant="subtitle1" fontWeight={600} sx={{ mb: 1 }}>
+              حسب الكاشير
+            </Typography>
+            <TableContainer component={Paper} variant="outlined" sx={{ mb: 3 }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>الكاشير</TableCell>
+                    <TableCell align="center">عدد التعديلات</TableCell>
+                    <TableCell align="center">فرق القيمة</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {report.summary.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={3} align="center" sx={{ color: "text.secondary" }}>
+                        لا توجد تعديلات
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {report.summary.map((row) => (
+                    <TableRow
+                      key={row.user_id ?? 0}
+                      hover
+                      selected={userId === row.user_id}
+                      onClick={() => selectCashier(row.user_id)}
+                      sx={{ cursor: "pointer" }}
+                    >
+                      <TableCell>{row.user_name}</TableCell>
+                      <TableCell align="center">{row.overrides_count}</TableCell>
+                      <TableCell
+                        align="center"
+                        sx={{ color: row.total_difference < 0 ? "error.main" : "success.main" }}
+                      >
+                        {formatNumber(row.total_difference, 2)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+
+            {/* Details */}
+            <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 1 }}>
+              <Typography variant="subtitle1" fontWeight={600}>
+                التفاصيل
+              </Typography>
+              {userId !== null && (
+                <Chip
+                  size="small"
+                  label={report.summary.find((r) => r.user_id === userId)?.user_name}
+                  onDelete={() => selectCashier(null)}
+                />
+              )}
+            </Stack>
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>التاريخ</TableCell>
+                    <TableCell>الفاتورة</TableCell>
+                    <TableCell>الكاشير</TableCell>
+                    <TableCell>المنتج</TableCell>
+                    <TableCell>القائمة</TableCell>
+                    <TableCell align="center">الكمية</TableCell>
+                    <TableCell align="center">سعر القائمة</TableCell>
+                    <TableCell align="center">سعر البيع</TableCell>
+                    <TableCell align="center">الفرق</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {report.data.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={9} align="center" sx={{ color: "text.secondary" }}>
+                        لا توجد بيانات
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {report.data.map((row) => {
+                    const difference = (row.new_price - row.list_price) * row.quantity;
+                    return (
+                      <TableRow key={row.id}>
+                        <TableCell>{format(new Date(row.created_at), "yyyy-MM-dd HH:mm")}</TableCell>
+                        <TableCell>#{row.sale_id}</TableCell>
+                        <TableCell>{row.user_name || "-"}</TableCell>
+                        <TableCell>{row.product_name}</TableCell>
+                        <TableCell>{row.price_list_name || "-"}</TableCell>
+                        <TableCell align="center">{row.quantity}</TableCell>
+                        <TableCell align="center">{formatNumber(row.list_price)}</TableCell>
+                        <TableCell align="center">{formatNumber(row.new_price)}</TableCell>
+                        <TableCell
+                          align="center"
+                          sx={{ color: difference < 0 ? "error.main" : "success.main" }}
+                        >
+                          {formatNumber(difference, 2)}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            {report.last_page > 1 && (
+              <Box sx={{ display: "flex", justifyContent: "center", mt: 2 }}>
+                <Pagination
+                  count={report.last_page}
+                  page={page}
+                  onChange={(_, value) => setPage(value)}
+                />
+              </Box>
+            )}
+          </>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default PriceOverridesReportPage;
@@ -0,0 +1,248 @@
+import React, { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format, startOfMonth } from "date-fns";
+
+// MUI Components
+import {
+  Box,
+  Typography,
+  Stack,
+  TextField,
+  CircularProgress,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Card,
+  CardContent,
+  Grid,
+  Chip,
+  FormControlLabel,
+  Checkbox,
+} from "@mui/material";
+
+// Lucide Icons
+import { ArrowLeft } from "lucide-react";
+
+import { formatNumber, preciseCalculation, preciseSum } from "@/constants";
+import goodsReceiptService, { PurchaseVarianceRow } from "@/services/goodsReceiptService";
+
+const varianceOf = (row: PurchaseVarianceRow) =>
+  preciseCalculation(Number(row.received_quantity), Number(row.ordered_quantity), "subtract", 3);
+
+const PurchaseVarianceReportPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [startDate, setStartDate] = useState<string>(
+    format(startOfMonth(new Date()), "yyyy-MM-dd")
+  );
+  const [endDate, setEndDate] = useState<string>(format(new Date(), "yyyy-MM-dd"));
+  const [onlyVariances, setOnlyVariances] = useState(true);
+
+  const { data: rows = [], isLoading, error } = useQuery({
+    queryKey: ["po-variance", startDate, endDate, onlyVariances],
+    queryFn: () =>
+      goodsReceiptService.getVarianceReport({
+        start_date: startDate,
+        end_date: endDate,
+        only_variances: onlyVariances,
+      }),
+    enabled: Boolean(startDate && endDate),
+  });
+
+  const summary = useMemo(() => {
+    const valueOf = (row: PurchaseVarianceRow) =>
+      preciseCalculation(varianceOf(row), Number(row.unit_cost), "multiply", 2);
+    const short = rows.filter((row) => varianceOf(row) < 0);
+    const over = rows.filter((row) => varianceOf(row) > 0);
+    return [
+      { label: "أصناف بفروقات", value: formatNumber(short.length + over.length) },
+      { label: "قيمة النقص", value: formatNumber(Math.abs(preciseSum(short.map(valueOf), 2)), 2) },
+      { label: "قيمة الزيادة", value: formatNumber(preciseSum(over.map(valueOf), 2), 2) },
+      {
+        label: "طلبيات مؤجلة مفتوحة",
+        value: formatNumber(short.filter((row) => !row.backorder_closed).length),
+      },
+    ];
+  }, [rows]);
+
+  return (
+    <Box sx={{ minHeight: "100vh" }}>
+      {/* Header */}
+      <Box sx={{ borderBottom: "1px solid", borderColor: "divider", bgcolor: "background.paper" }}>
+        <Box sx={{ maxWidth: "100%", px: { xs: 2, sm: 3, lg: 4 }, py: 2.5 }}>
+          <Stack direction="column" spacing={3}>
+            <Stack direction="row" alignItems="center" spacing={2}>
+              <IconButton
+                onClick={() => navigate("/dashboard")}
+                size="small"
+                sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2 }}
+              >
+                <ArrowLeft size={18} />
+              </IconButton>
+              <Box>
+                <Typography variant="h6" component="h1" sx={{ fontWeight: 600, lineHeight: 1.3 }}>
+                  فروقات أوامر الشراء
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 0.25 }}>
+                  الكميات المطلوبة مقابل المستلمة فعلياً والطلبيات المؤجلة
+                </Typography>
+              </Box>
+            </Stack>
+
+            <Stack direction="row" spacing={2} alignItems="center" flexWrap="wrap">
+              <TextField
+                type="date"
+                size="small"
+                label="من تاريخ"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField
+                type="date"
+                size="small"
+                label="إلى تاريخ"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={onlyVariances}
+                    onChange={(e) => setOnlyVariances(e.target.checked)}
+                  />
+                }
+                label="الأصناف ذات الفروقات فقط"
+              />
+            </Stack>
+          </Stack>
+        </Box>
+      </Box>
+
+      <Box sx={{ maxWidth: "1400px", mx: "auto", px: { xs: 2, sm: 3, lg: 4 }, py: 3 }}>
+        {isLoading && (
+          <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {error && (
+          <Box sx={{ py: 4, textAlign: "center" }}>
+            <Typography variant="body2" color="error">
+              حدث خطأ أثناء تحميل البيانات
+            </Typography>
+          </Box>
+        )}
+
+        {!isLoading && !error && (
+          <>
+            {/* Summary Cards */}
+            <Grid container spacing={2} sx={{ mb: 3 }}>
+              {summary.map((card) => (
+                <Grid key={card.label} size={{ xs: 6, md: 3 }}>
+                  <Card>
+                    <CardContent>
+                      <Typography variant="body2" color="text.secondary" gutterBottom>
+                        {card.label}
+                      </Typography>
+                      <Typography variant="h5" fontWeight="bold">
+                        {card.value}
+                      </Typography>
+                    </CardContent>
+                  </Card>
+                </Grid>
+              ))}
+            </Grid>
+
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>أمر الشراء</TableCell>
+                    <TableCell>المورد</TableCell>
+                    <TableCell>التاريخ</TableCell>
+                    <TableCell>المنتج</TableCell>
+                    <TableCell align="center">المطلوب</TableCell>
+                    <TableCell align="center">المستلم</TableCell>
+                    <TableCell align="center">الفرق</TableCell>
+                    <TableCell align="center">قيمة الفرق</TableCell>
+                    <TableCell align="center">الحالة</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={9} align="center" sx={{ color: "text.secondary" }}>
+                        لا توجد بيانات
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {rows.map((row) => {
+                    const variance = varianceOf(row);
+                    return (
+                      <TableRow
+                        key={`${row.purchase_id}-${row.product_id}`}
+                        hover
+                        onClick={() => navigate(`/purchases/${row.purchase_id}`)}
+                        sx={{ cursor: "pointer" }}
+                      >
+                        <TableCell>{row.reference_number || `#${row.purchase_id}`}</TableCell>
+                        <TableCell>{row.supplier_name || "-"}</TableCell>
+                        <TableCell>{row.purchase_date.slice(0, 10)}</TableCell>
+                        <TableCell>
+                          {row.product_name}
+                          {row.product_sku && (
+                            <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+                              {row.product_sku}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell align="center">{formatNumber(row.ordered_quantity)}</TableCell>
+                        <TableCell align="center">{formatNumber(row.received_quantity)}</TableCell>
+                        <TableCell
+                          align="center"
+                          sx={{
+                            fontWeight: 600,
+                            color: variance < 0 ? "error.main" : variance > 0 ? "warning.main" : undefined,
+                          }}
+                        >
+                          {variance > 0 ? "+" : ""}
+                          {formatNumber(variance)}
+                        </TableCell>
+                        <TableCell align="center">
+                          {formatNumber(
+                            preciseCalculation(variance, Number(row.unit_cost), "multiply", 2),
+                            2
+                          )}
+                        </TableCell>
+                        <TableCell align="center">
+                          {variance < 0 && !row.backorder_closed ? (
+                            <Chip size="small" color="warning" variant="outlined" label="طلبية مؤجلة" />
+                          ) : variance < 0 ? (
+                            <Chip size="small" variant="outlined" label="نقص مغلق" />
+                          ) : variance > 0 ? (
+                            <Chip size="small" color="info" variant="outlined" label="زيادة" />
+                          ) : (
+                            <Chip size="small" color="success" variant="outlined" label="مطابق" />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default PurchaseVarianceReportPage;
@@ -6,6 +6,7 @@ import {
   Box,
   Button,
   Card,
+  Chip,
   CardContent,
   TextField,
   Table,
@@ -20,6 +21,23 @@ import {
 import { formatNumber } from "@/constants";
 import { SalesWithDiscountsPdfDialog } from "@/components/reports/sales/SalesWithDiscountsPdfDialog";
 
+// Discount given on the lines (promotions / manual), on top of the sale discount
+const getLineDiscount = (s: ApiSale) =>
+  s.line_discount_amount != null
+    ? Number(s.line_discount_amount)
+    : (s.items || []).reduce((sum, item) => sum + Number(item.discount_amount || 0), 0);
+
+// Promotions applied to the sale's lines
+const getPromotionNames = (s: ApiSale) =>
+  Array.from(
+    new Set(
+      (s.items || [])
+        .filter((item) => Number(item.discount_amount || 0) > 0)
+        .map((item) => item.promotion_name || (item.discount_source === "manual" ? "خصم يدوي" : null))
+        .filter((name): name is string => !!name)
+    )
+  );
+
 const SalesWithDiscountsPage: React.FC = () => {
   // Removed useTranslation
   const [sales, setSales] = useState<ApiSale[]>([]);
@@ -50,7 +68,7 @@ const SalesWithDiscountsPage: React.FC = () => {
       params.append("page", String(page));
       const resp = await saleService.getSales(page, params.toString());
       const items = (resp.data as ApiSale[]).filter(
-        (s) => Number((s as ApiSale).discount_amount || 0) > 0
+        (s) => Number((s as ApiSale).discount_amount || 0) > 0 || getLineDiscount(s) > 0
       );
       setSales(items);
     } catch (e: any) {
@@ -79,10 +97,12 @@ const SalesWithDiscountsPage: React.FC = () => {
         sum + Number((s.discount_amount as number | string | undefined) || 0),
       0
     );
+    const totalLineDiscount = sales.reduce((sum, s) => sum + getLineDiscount(s), 0);
     return {
       totalAmount,
       totalPaid,
       totalDiscount,
+      totalLineDiscount,
       totalDue: totalAmount - totalPaid,
     };
   }, [sales]);
@@ -144,6 +164,16 @@ const SalesWithDiscountsPage: React.FC = () => {
               </Typography>
             </CardContent>
           </Card>
+          <Card>
+            <CardContent sx={{ p: 2, textAlign: "center" }}>
+              <Typography variant="caption" color="text.secondary">
+                خصم الأصناف والعروض
+              </Typography>
+              <Typography variant="h5" sx={{ fontWeight: 700, color: "error.main" }}>
+                {formatNumber(totals.totalLineDiscount)}
+              </Typography>
+            </CardContent>
+          </Card>
           <Card>
             <CardContent sx={{ p: 2, textAlign: "center" }}>
               <Typography variant="caption" color="text.secondary">
@@ -169,18 +199,20 @@ const SalesWithDiscountsPage: React.FC = () => {
                     <TableCell align="center">المدفوع</TableCell>
                     <TableCell align="center">الخصم</TableCell>
                     <TableCell align="center">النوع</TableCell>
+                    <TableCell align="center">خصم الأصناف</TableCell>
+                    <TableCell align="center">العروض</TableCell>
                   </TableRow>
                 </TableHead>
                 <TableBody>
                   {loading ? (
                     <TableRow>
-                      <TableCell colSpan={7} align="center" sx={{ py: 6 }}>
+                      <TableCell colSpan={9} align="center" sx={{ py: 6 }}>
                         <CircularProgress size={24} />
                       </TableCell>
                     </TableRow>
                   ) : sales.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={7} align="center" sx={{ py: 6 }}>
+                      <TableCell colSpan={9} align="center" sx={{ py: 6 }}>
                         <Typography variant="body2" color="text.secondary">
                           لا توجد مبيعات مخفضة
                         </Typography>
@@ -212,6 +244,20 @@ const SalesWithDiscountsPage: React.FC = () => {
                         <TableCell align="center">
                           {(s.discount_type as string | undefined) || "-"}
                         </TableCell>
+                        <TableCell align="center" sx={{ color: "error.main" }}>
+                          {formatNumber(getLineDiscount(s))}
+                        </TableCell>
+                        <TableCell align="center">
+                          {getPromotionNames(s).length > 0 ? (
+                            <Stack direction="row" gap={0.5} flexWrap="wrap" justifyContent="center">
+                              {getPromotionNames(s).map((name) => (
+                                <Chip key={name} label={name} size="small" variant="outlined" />
+                              ))}
+                            </Stack>
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
                       </TableRow>
                     ))
                   )}
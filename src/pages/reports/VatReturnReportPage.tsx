@@ -0,0 +1,301 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, startOfMonth } from "date-fns";
+import { toast } from "sonner";
+
+// MUI Components
+import {
+  Box,
+  Button,
+  Typography,
+  Stack,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  TextField,
+  CircularProgress,
+  IconButton,
+  Card,
+  CardContent,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+} from "@mui/material";
+
+// Lucide Icons
+import { ArrowLeft, FileText, FileSpreadsheet, X } from "lucide-react";
+
+import { formatNumber } from "@/constants";
+import { useSettings } from "@/context/SettingsContext";
+import { useVatReturn } from "@/hooks/useVatReturn";
+import { TAX_CATEGORY_LABELS, VatReturnSection } from "@/services/vatService";
+import { VatReturnPdf } from "@/components/reports/tax/VatReturnPdf";
+import { PDFViewer } from "@react-pdf/renderer";
+
+const SectionTable: React.FC<{ title: string; section: VatReturnSection }> = ({
+  title,
+  section,
+}) => (
+  <Box sx={{ mb: 3 }}>
+    <Typography variant="subtitle1" fontWeight={600} sx={{ mb: 1 }}>
+      {title}
+    </Typography>
+    <TableContainer component={Paper} variant="outlined">
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>الفئة</TableCell>
+            <TableCell align="center">النسبة</TableCell>
+            <TableCell align="center">المبلغ الخاضع</TableCell>
+            <TableCell align="center">الضريبة</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {section.rows.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={4} align="center" sx={{ color: "text.secondary" }}>
+                لا توجد بيانات
+              </TableCell>
+            </TableRow>
+          )}
+          {section.rows.map((row) => (
+            <TableRow key={`${row.category}-${row.rate}`}>
+              <TableCell>{TAX_CATEGORY_LABELS[row.category]}</TableCell>
+              <TableCell align="center">{row.rate}%</TableCell>
+              <TableCell align="center">{formatNumber(row.taxable_amount, 2)}</TableCell>
+              <TableCell align="center">{formatNumber(row.tax_amount, 2)}</TableCell>
+            </TableRow>
+          ))}
+          <TableRow sx={{ "& td": { fontWeight: "bold" } }}>
+            <TableCell>الإجمالي</TableCell>
+            <TableCell />
+            <TableCell align="center">{formatNumber(section.taxable_amount, 2)}</TableCell>
+            <TableCell align="center">{formatNumber(section.tax_amount, 2)}</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    </TableContainer>
+  </Box>
+);
+
+const VatReturnReportPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { settings } = useSettings();
+  const [startDate, setStartDate] = useState<string>(
+    format(startOfMonth(new Date()), "yyyy-MM-dd")
+  );
+  const [endDate, setEndDate] = useState<string>(format(new Date(), "yyyy-MM-dd"));
+  const [pdfDialogOpen, setPdfDialogOpen] = useState(false);
+
+  const { data: report, isLoading, error } = useVatReturn({ startDate, endDate });
+
+  const handleExportExcel = () => {
+    const params = new URLSearchParams();
+    params.append("start_date", startDate);
+    params.append("end_date", endDate);
+    const excelUrl = `${
+      import.meta.env.VITE_API_BASE_URL
+    }/reports/vat-return-excel?${params.toString()}`;
+    window.open(excelUrl, "_blank");
+    toast.success("تم فتح ملف Excel في تبويب جديد");
+  };
+
+  return (
+    <Box sx={{ minHeight: "100vh" }}>
+      {/* Header */}
+      <Box
+        sx={{
+          borderBottom: "1px solid",
+          borderColor: "divider",
+          bgcolor: "background.paper",
+        }}
+      >
+        <Box sx={{ maxWidth: "100%", px: { xs: 2, sm: 3, lg: 4 }, py: 2.5 }}>
+          <Stack direction="column" spacing={3}>
+            <Stack
+              direction="row"
+              alignItems="center"
+              justifyContent="space-between"
+              flexWrap="wrap"
+              gap={2}
+            >
+              <Stack direction="row" alignItems="center" spacing={2}>
+                <IconButton
+                  onClick={() => navigate("/dashboard")}
+                  size="small"
+                  sx={{
+                    border: "1px solid",
+                    borderColor: "divider",
+                    borderRadius: 2,
+                  }}
+                >
+                  <ArrowLeft size={18} />
+                </IconButton>
+                <Box>
+                  <Typography
+                    variant="h6"
+                    component="h1"
+                    sx={{ fontWeight: 600, lineHeight: 1.3 }}
+                  >
+                    إقرار ضريبة القيمة المضافة
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary" sx={{ mt: 0.25 }}>
+                    ضريبة المبيعات والمشتريات وصافي الضريبة المستحقة لفترة
+                  </Typography>
+                </Box>
+              </Stack>
+
+              <Stack direction="row" gap={1} spacing={2}>
+                <Button
+                  onClick={handleExportExcel}
+                  variant="outlined"
+                  size="small"
+                  startIcon={<FileSpreadsheet size={16} />}
+                  disabled={isLoading || !report}
+                  sx={{ borderRadius: 2, textTransform: "none", px: 2.5, py: 1 }}
+                >
+                  تصدير Excel
+                </Button>
+                <Button
+                  onClick={() => setPdfDialogOpen(true)}
+                  variant="contained"
+                  size="small"
+                  startIcon={<FileText size={16} />}
+                  disabled={isLoading || !report}
+                  sx={{
+                    borderRadius: 2,
+                    textTransform: "none",
+                    px: 2.5,
+                    py: 1,
+                    boxShadow: "none",
+                  }}
+                >
+                  تصدير PDF
+                </Button>
+              </Stack>
+            </Stack>
+
+            {/* Date range */}
+            <Stack direction="row" spacing={2} alignItems="center">
+              <TextField
+                type="date"
+                size="small"
+                label="من تاريخ"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField
+                type="date"
+                size="small"
+                label="إلى تاريخ"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Stack>
+          </Stack>
+        </Box>
+      </Box>
+
+      <Box sx={{ maxWidth: "1400px", mx: "auto", px: { xs: 2, sm: 3, lg: 4 }, py: 3 }}>
+        {/* Summary Cards */}
+        {report && (
+          <Grid container spacing={2} sx={{ mb: 3 }}>
+            <Grid size={{ xs: 12, md: 4 }}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary" gutterBottom>
+                    ضريبة المخرجات (المبيعات)
+                  </Typography>
+                  <Typography variant="h5" fontWeight="bold">
+                    {formatNumber(report.output.tax_amount, 2)}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid size={{ xs: 12, md: 4 }}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary" gutterBottom>
+                    ضريبة المدخلات (المشتريات)
+                  </Typography>
+                  <Typography variant="h5" fontWeight="bold" color="primary.main">
+                    {formatNumber(report.input.tax_amount, 2)}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid size={{ xs: 12, md: 4 }}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary" gutterBottom>
+                    {report.net_payable >= 0 ? "صافي الضريبة المستحقة" : "صافي الضريبة المستردة"}
+                  </Typography>
+                  <Typography
+                    variant="h5"
+                    fontWeight="bold"
+                    color={report.net_payable >= 0 ? "error.main" : "success.main"}
+                  >
+                    {formatNumber(Math.abs(report.net_payable), 2)}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+          </Grid>
+        )}
+
+        {isLoading && (
+          <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {error && (
+          <Box sx={{ py: 4, textAlign: "center" }}>
+            <Typography variant="body2" color="error">
+              حدث خطأ أثناء تحميل البيانات
+            </Typography>
+          </Box>
+        )}
+
+        {report && !isLoading && (
+          <>
+            <SectionTable title="المبيعات (بعد خصم المرتجعات)" section={report.output} />
+            <SectionTable title="المشتريات" section={report.input} />
+          </>
+        )}
+      </Box>
+
+      {/* PDF Dialog */}
+      <Dialog open={pdfDialogOpen} onClose={() => setPdfDialogOpen(false)} maxWidth="lg" fullWidth>
+        <DialogTitle
+          sx={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}
+        >
+          <Typography variant="h6">إقرار ضريبة القيمة المضافة - PDF</Typography>
+          <IconButton onClick={() => setPdfDialogOpen(false)}>
+            <X size={18} />
+          </IconButton>
+        </DialogTitle>
+        <DialogContent sx={{ height: "80vh", p: 0 }}>
+          {report && (
+            <PDFViewer width="100%" height="100%" style={{ border: "none" }}>
+              <VatReturnPdf
+                report={report}
+                companyName={settings?.company_name}
+                taxNumber={settings?.tax_number}
+              />
+            </PDFViewer>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default VatReturnReportPage;
@@ -34,6 +34,7 @@ import {
 import productService, { Product } from "../../services/productService";
 import { warehouseService, Warehouse } from "../../services/warehouseService";
 import { formatNumber, formatCurrency } from "../../constants";
+import { formatUnitBreakdown } from "../../utils/productUnits";
 
 const WarehouseProductsPage: React.FC = () => {
   const { warehouseId } = useParams<{ warehouseId: string }>();
@@ -224,59 +225,75 @@ const WarehouseProductsPage: React.FC = () => {
                 </TableCell>
               </TableRow>
             ) : (
-              products.map((product) => (
-                <TableRow key={product.id} hover>
-                  <TableCell>{product.id}</TableCell>
-                  <TableCell>
-                    <Box>
-                      <Typography variant="body1" fontWeight="medium">
-                        {product.name}
-                      </Typography>
-                      {product.scientific_name && (
-                        <Typography variant="caption" color="text.secondary">
-                          {product.scientific_name}
+              products.map((product) => {
+                const breakdown = formatUnitBreakdown(
+                  product,
+                  (product as Product & { warehouse_quantity?: number }).warehouse_quantity || 0,
+                  formatNumber
+                );
+                return (
+                  <TableRow key={product.id} hover>
+                    <TableCell>{product.id}</TableCell>
+                    <TableCell>
+                      <Box>
+                        <Typography variant="body1" fontWeight="medium">
+                          {product.name}
+                        </Typography>
+                        {product.scientific_name && (
+                          <Typography variant="caption" color="text.secondary">
+                            {product.scientific_name}
+                          </Typography>
+                        )}
+                      </Box>
+                    </TableCell>
+                    <TableCell>{product.sku || "-"}</TableCell>
+                    <TableCell>{product.category_name || "-"}</TableCell>
+                    <TableCell align="right">
+                      <Chip
+                        label={formatNumber(
+                          (product as any).warehouse_quantity || 0
+                        )}
+                        color={
+                          (product as any).warehouse_quantity > 0
+                            ? "success"
+                            : "default"
+                        }
+                        size="small"
+                      />
+                      {product.sellable_unit_name && (
+                        <Typography
+                          variant="caption"
+                          color="text.secondary"
+                          sx={{ ml: 1 }}
+                        >
+                          {product.sellable_unit_name}
+                        </Typography>
+                      )}
+                      {breakdown && (
+                        <Typography
+                          variant="caption"
+                          color="text.secondary"
+                          sx={{ display: "block", mt: 0.5 }}
+                        >
+                          {breakdown}
                         </Typography>
                       )}
-                    </Box>
-                  </TableCell>
-                  <TableCell>{product.sku || "-"}</TableCell>
-                  <TableCell>{product.category_name || "-"}</TableCell>
-                  <TableCell align="right">
-                    <Chip
-                      label={formatNumber(
-                        (product as any).warehouse_quantity || 0
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatCurrency(
+                        Number(
+                          product.suggested_sale_price_per_sellable_unit || 0
+                        )
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatCurrency(
+                        Number(product.latest_cost_per_sellable_unit || 0)
                       )}
-                      color={
-                        (product as any).warehouse_quantity > 0
-                          ? "success"
-                          : "default"
-                      }
-                      size="small"
-                    />
-                    {product.sellable_unit_name && (
-                      <Typography
-                        variant="caption"
-                        color="text.secondary"
-                        sx={{ ml: 1 }}
-                      >
-                        {product.sellable_unit_name}
-                      </Typography>
-                    )}
-                  </TableCell>
-                  <TableCell align="right">
-                    {formatCurrency(
-                      Number(
-                        product.suggested_sale_price_per_sellable_unit || 0
-                      )
-                    )}
-                  </TableCell>
-                  <TableCell align="right">
-                    {formatCurrency(
-                      Number(product.latest_cost_per_sellable_unit || 0)
-                    )}
-                  </TableCell>
-                </TableRow>
-              ))
+                    </TableCell>
+                  </TableRow>
+                );
+              })
             )}
           </TableBody>
         </Table>
@@ -18,6 +18,7 @@ import PurchasesListPage from "./pages/purchases/PurchasesListPage";
 import PurchaseFormPage from "./pages/PurchaseFormPage";
 import PurchaseDetailsPage from "./pages/purchases/PurchaseDetailsPage";
 import ManagePurchaseItemsPage from "./pages/purchases/ManagePurchaseItemsPage";
+import ReorderSuggestionsPage from "./pages/purchases/ReorderSuggestionsPage";
 import StockAdjustmentsListPage from "./components/inventory/StockAdjustmentsListPage";
 import StockTransfersPage from "./pages/inventory/StockTransfersPage";
 import RequestStockPage from "./pages/inventory/RequestStockPage";
@@ -40,6 +41,11 @@ import InventoryLogPage from "./pages/reports/InventoryLogPage";
 import SuppliersSummaryPage from "./pages/reports/SuppliersSummaryPage";
 import SupplierPurchasesPage from "./pages/reports/SupplierPurchasesPage";
 import MonthlyExpensesPage from "./pages/reports/MonthlyExpensesPage";
+import VatReturnReportPage from "./pages/reports/VatReturnReportPage";
+import PriceOverridesReportPage from "./pages/reports/PriceOverridesReportPage";
+import ClientAgingReportPage from "./pages/reports/ClientAgingReportPage";
+import DunningRemindersReportPage from "./pages/reports/DunningRemindersReportPage";
+import PurchaseVarianceReportPage from "./pages/reports/PurchaseVarianceReportPage";
 // Admin
 import ProfilePage from "./pages/ProfilePage";
 import UsersListPage from "./components/admin/users/UsersListPage";
@@ -50,6 +56,9 @@ import SettingsPage from "./pages/admin/SettingsPage";
 import SystemPage from "./pages/admin/SystemPage";
 import BackupPage from "./pages/admin/BackupPage";
 import WhatsAppSchedulersPage from "./pages/admin/WhatsAppSchedulersPage";
+import DunningCampaignsPage from "./pages/admin/DunningCampaignsPage";
+import PromotionsPage from "./pages/admin/PromotionsPage";
+import PriceListsPage from "./pages/admin/PriceListsPage";
 import IndexedDBManagerPage from "./pages/admin/IndexedDBManagerPage";
 import NotFoundPage from "./pages/NotFoundPage";
 
@@ -145,6 +154,7 @@ const router = createHashRouter([
             children: [
               { index: true, element: <PurchasesListPage /> },
               { path: "add", element: <PurchaseFormPage /> },
+              { path: "reorder", element: <ReorderSuggestionsPage /> },
               { path: ":id/edit", element: <PurchaseFormPage /> },
               { path: ":id", element: <PurchaseDetailsPage /> },
               {
@@ -298,6 +308,46 @@ const router = createHashRouter([
                   </PermissionGuard>
                 ),
               },
+              {
+                path: "vat-return",
+                element: (
+                  <PermissionGuard requiredPermission="view-reports">
+                    <VatReturnReportPage />
+                  </PermissionGuard>
+                ),
+              },
+              {
+                path: "price-overrides",
+                element: (
+                  <PermissionGuard requiredPermission="view-reports">
+                    <PriceOverridesReportPage />
+                  </PermissionGuard>
+                ),
+              },
+              {
+                path: "client-aging",
+                element: (
+                  <PermissionGuard requiredPermission="view-reports">
+                    <ClientAgingReportPage />
+                  </PermissionGuard>
+                ),
+              },
+              {
+                path: "dunning-reminders",
+                element: (
+                  <PermissionGuard requiredPermission="view-reports">
+                    <DunningRemindersReportPage />
+                  </PermissionGuard>
+                ),
+              },
+              {
+                path: "po-variance",
+                element: (
+                  <PermissionGuard requiredPermission="view-reports">
+                    <PurchaseVarianceReportPage />
+                  </PermissionGuard>
+                ),
+              },
             ],
           },
 
@@ -369,6 +419,30 @@ const router = createHashRouter([
                   </PermissionGuard>
                 ),
               },
+              {
+                path: "dunning",
+                element: (
+                  <PermissionGuard requiredPermission="manage-dunning">
+                    <DunningCampaignsPage />
+                  </PermissionGuard>
+                ),
+              },
+              {
+                path: "promotions",
+                element: (
+                  <PermissionGuard requiredPermission="manage-promotions">
+                    <PromotionsPage />
+                  </PermissionGuard>
+                ),
+              },
+              {
+                path: "price-lists",
+                element: (
+                  <PermissionGuard requiredPermission="manage-price-lists">
+                    <PriceListsPage />
+                  </PermissionGuard>
+                ),
+              },
               {
                 path: "idb-manager",
                 element: (
@@ -2,6 +2,7 @@
 import apiClient, { getValidationErrors, getErrorMessage, ApiErrorResponse } from '../lib/axios';
 import axios, { AxiosError, isAxiosError } from 'axios';
 import { PaginatedResponse } from './clientService'; // Assuming shared type
+import type { TaxCategory } from './productService';
 
 export interface Category {
     id: number;
@@ -12,6 +13,8 @@ export interface Category {
     products_count?: number; // If included by resource withCount
     children_count?: number; // If included by resource withCount
     // children?: Category[]; // For recursive display if needed
+    tax_category?: TaxCategory | null; // VAT for the category's products (null = standard)
+    tax_rate?: number | null; // Percentage, null = default VAT rate
     created_at: string;
 }
 
@@ -19,6 +22,8 @@ export interface CategoryFormData {
     name: string;
     description?: string | null;
     parent_id?: number | null;
+    tax_category?: TaxCategory | null;
+    tax_rate?: number | null;
 }
 
 const categoryService = {
@@ -25,6 +25,8 @@ export interface ProductAnalytics {
   total_sold: number;
   revenue: number;
   category?: string;
+  parent_id?: number | null; // Set on product variants
+  parent_name?: string | null;
 }
 
 export interface SupplierAnalytics {
@@ -277,6 +279,30 @@ class AnalyticsService {
     }
   }
 
+  /**
+   * Sums variant sales into their parent product, best sellers first
+   */
+  rollUpVariants(products: ProductAnalytics[]): ProductAnalytics[] {
+    const byProduct = new Map<number, ProductAnalytics>();
+    products.forEach((product) => {
+      const id = product.parent_id ?? product.id;
+      const existing = byProduct.get(id);
+      if (existing) {
+        existing.total_sold += Number(product.total_sold) || 0;
+        existing.revenue += Number(product.revenue) || 0;
+      } else {
+        byProduct.set(id, {
+          id,
+          name: product.parent_id ? product.parent_name || product.name : product.name,
+          total_sold: Number(product.total_sold) || 0,
+          revenue: Number(product.revenue) || 0,
+          category: product.category,
+        });
+      }
+    });
+    return [...byProduct.values()].sort((a, b) => b.total_sold - a.total_sold);
+  }
+
   /**
    * Get dashboard summary data
    */
@@ -0,0 +1,42 @@
+// src/services/cashDrawerService.test.ts
+import { describe, expect, it } from "vitest";
+import { cashDrawerService } from "./cashDrawerService";
+
+const shift = {
+  opening_float: 100,
+  cash_movements: [],
+  closing_count: {
+    denominations: [],
+    other_amount: 0,
+    total: 230,
+    counted_at: "2026-01-01T18:00:00Z",
+  },
+};
+
+const sales = [
+  { status: "completed", payments: [{ method: "cash" as const, amount: 150 }] },
+  { status: "completed", payments: [{ method: "visa" as const, amount: 80 }] },
+];
+
+describe("cashDrawerService.summarize", () => {
+  it("subtracts cash refunds of returns from the expected cash", () => {
+    const summary = cashDrawerService.summarize(shift, sales, [
+      { credit_action: "refund", refund_payment_method: "cash", refunded_amount: 20 },
+    ]);
+
+    expect(summary.cash_refunds).toBe(20);
+    expect(summary.expected_cash).toBe(230);
+    expect(summary.over_short).toBe(0);
+  });
+
+  it("ignores refunds that don't leave the drawer", () => {
+    const summary = cashDrawerService.summarize(shift, sales, [
+      { credit_action: "refund", refund_payment_method: "bank", refunded_amount: 20 },
+      { credit_action: "store_credit", refunded_amount: 0 },
+    ]);
+
+    expect(summary.cash_refunds).toBe(0);
+    expect(summary.expected_cash).toBe(250);
+    expect(summary.over_short).toBe(-20);
+  });
+});
@@ -0,0 +1,137 @@
+// src/services/cashDrawerService.ts
+import { preciseCalculation } from "@/constants";
+import { OfflineSaleReturn, OfflineShift } from "./db";
+import { Payment } from "./saleService";
+
+export type CashMovementType =
+  | "cash_in" // Change added to the drawer
+  | "drop" // Cash taken to the safe
+  | "payout"; // Paid out of the drawer (supplier, expenses...)
+
+export interface CashMovement {
+  id: string; // Local id, also the sync client reference
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  created_at: string;
+  user_id?: number | null;
+  is_synced: boolean;
+}
+
+export interface DenominationCount {
+  denomination: number;
+  count: number;
+}
+
+export interface DrawerCount {
+  denominations: DenominationCount[];
+  other_amount: number; // Coins / notes not in the list
+  total: number;
+  counted_at: string;
+}
+
+export interface CashDrawerSummary {
+  opening_float: number;
+  cash_sales: number;
+  cash_refunds: number;
+  cash_in: number;
+  cash_out: number; // Drops + pay-outs
+  expected_cash: number;
+  counted_cash: number | null; // null until the blind count at close
+  over_short: number | null; // counted - expected (negative = short)
+}
+
+// Notes/coins shown in the blind count dialog
+export const DEFAULT_DENOMINATIONS = [1000, 500, 200, 100, 50, 20, 10, 5, 2, 1];
+
+export const CASH_MOVEMENT_LABELS: Record<CashMovementType, string> = {
+  cash_in: "إيداع نقدي",
+  drop: "سحب للخزنة",
+  payout: "مصروف من الدرج",
+};
+
+// Minimal shape of a sale needed to total its cash
+interface SaleWithPayments {
+  status?: string;
+  payments?: Pick<Payment, "method" | "amount" | "rounding_adjustment">[];
+}
+
+// Minimal shape of a return needed to total its cash refund
+type ReturnWithRefund = Pick<
+  OfflineSaleReturn,
+  "credit_action" | "refund_payment_method" | "refunded_amount"
+>;
+
+export const cashDrawerService = {
+  countTotal: (denominations: DenominationCount[], otherAmount = 0): number =>
+    denominations.reduce(
+      (sum, d) =>
+        preciseCalculation(sum, d.denomination * (Number(d.count) || 0), "add"),
+      Number(otherAmount) || 0
+    ),
+
+  /**
+   * Expected drawer cash for a shift: float + cash taken - cash refunded
+   * (refund payments and cash refunds of returns) + cash in - drops/pay-outs.
+   * Over/short once the drawer was counted.
+   */
+  summarize: (
+    shift: Pick<OfflineShift, "opening_float" | "cash_movements" | "closing_count">,
+    sales: SaleWithPayments[],
+    returns: ReturnWithRefund[] = []
+  ): CashDrawerSummary => {
+    let cashSales = 0;
+    let cashRefunds = 0;
+    sales
+      .filter((s) => s.status !== "draft" && s.status !== "cancelled")
+      .forEach((sale) => {
+        (sale.payments || []).forEach((p) => {
+          const amount = Number(p.amount) || 0;
+          if (p.method === "cash") {
+            // The drawer holds the rounded cash, not the exact amount applied
+            const drawerAmount = amount + (Number(p.rounding_adjustment) || 0);
+            cashSales = preciseCalculation(cashSales, drawerAmount, "add");
+          }
+          if (p.method === "refund") {
+            cashRefunds = preciseCalculation(cashRefunds, Math.abs(amount), "add");
+          }
+        });
+      });
+
+    returns
+      .filter(
+        (r) => r.credit_action === "refund" && (r.refund_payment_method ?? "cash") === "cash"
+      )
+      .forEach((r) => {
+        cashRefunds = preciseCalculation(cashRefunds, Number(r.refunded_amount) || 0, "add");
+      });
+
+    const movements = shift.cash_movements || [];
+    const sumOf = (types: CashMovementType[]) =>
+      movements
+        .filter((m) => types.includes(m.type))
+        .reduce((sum, m) => preciseCalculation(sum, Number(m.amount), "add"), 0);
+    const cashIn = sumOf(["cash_in"]);
+    const cashOut = sumOf(["drop", "payout"]);
+
+    const openingFloat = Number(shift.opening_float) || 0;
+    const expected =
+      openingFloat + cashSales - cashRefunds + cashIn - cashOut;
+    const expectedCash = preciseCalculation(expected, 0, "add");
+    const counted = shift.closing_count ? shift.closing_count.total : null;
+
+    return {
+      opening_float: openingFloat,
+      cash_sales: cashSales,
+      cash_refunds: cashRefunds,
+      cash_in: cashIn,
+      cash_out: cashOut,
+      expected_cash: expectedCash,
+      counted_cash: counted,
+      over_short:
+        counted === null
+          ? null
+          : preciseCalculation(counted, expectedCash, "subtract"),
+    };
+  },
+};
@@ -0,0 +1,248 @@
+// src/services/clientCreditService.ts
+import apiClient from "../lib/axios";
+import { preciseCalculation, preciseSum } from "@/constants";
+import { dbService } from "./db";
+import clientService, { Client } from "./clientService";
+import { ClientLedgerEntry } from "./clientLedgerService";
+
+export interface CreditCheckResult {
+  allowed: boolean;
+  reasons: string[]; // Why the credit sale is blocked (Arabic, shown to the cashier)
+  balance: number; // Ledger balance before this sale
+  pending_due: number; // Due of the client's sales not synced yet
+  projected_balance: number; // balance + pending_due + this sale's due
+  credit_limit: number | null;
+  available_credit: number | null;
+  overdue_days: number; // Days past the payment terms of the oldest unpaid sale
+}
+
+// A manager letting a blocked credit sale through, recorded on the server
+export interface CreditOverride {
+  id?: number | null; // Server id, sent with the sale so the override is linked to it
+  manager_id: number;
+  manager_name: string;
+  client_id: number | null;
+  amount: number; // Due amount approved
+  reasons: string[];
+  approved_at: string;
+}
+
+export type AgingBucket = "current" | "days_31_60" | "days_61_90" | "over_90";
+
+export interface ClientAging {
+  client_id: number;
+  client_name: string;
+  phone?: string | null;
+  credit_limit?: number | null;
+  payment_terms_days?: number | null;
+  current: number; // 0–30 days
+  days_31_60: number;
+  days_61_90: number;
+  over_90: number;
+  total: number;
+  oldest_unpaid_date: string | null;
+}
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: "0–30 يوم",
+  days_31_60: "31–60 يوم",
+  days_61_90: "61–90 يوم",
+  over_90: "أكثر من 90 يوم",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OVERRIDE_OFFLINE_MESSAGE = "موافقة المدير تتطلب الاتصال بالخادم";
+
+const daysBetween = (from: string | Date, to: Date) =>
+  Math.floor((to.getTime() - new Date(from).getTime()) / DAY_MS);
+
+const clientCreditService = {
+  /**
+   * Whether the client may take this sale on credit. A sale fully paid is
+   * always allowed; otherwise the client must exist, stay within the credit
+   * limit (null = no limit) and have nothing unpaid past the payment terms.
+   */
+  checkCredit: (
+    client: Pick<
+      Client,
+      "balance" | "credit_limit" | "payment_terms_days" | "oldest_unpaid_date"
+    > | null,
+    saleDue: number,
+    pendingDue = 0,
+    at: Date = new Date()
+  ): CreditCheckResult => {
+    const balance = Number(client?.balance) || 0;
+    const creditLimit = client?.credit_limit != null ? Number(client.credit_limit) : null;
+    const projected = preciseSum([balance, pendingDue, Math.max(0, saleDue)], 2);
+    const terms = client?.payment_terms_days != null ? Number(client.payment_terms_days) : null;
+    const overdueDays =
+      terms != null && client?.oldest_unpaid_date
+        ? Math.max(0, daysBetween(client.oldest_unpaid_date, at) - terms)
+        : 0;
+
+    const reasons: string[] = [];
+    if (saleDue > 0.01) {
+      if (!client) {
+        reasons.push("البيع الآجل يتطلب اختيار عميل");
+      } else {
+        if (creditLimit != null && projected > creditLimit + 0.01) {
+          reasons.push(
+            `تجاوز حد الائتمان (${creditLimit.toFixed(2)}): الرصيد بعد البيع ${projected.toFixed(2)}`
+          );
+        }
+        if (overdueDays > 0) {
+          reasons.push(`لدى العميل فواتير متأخرة عن مدة السداد بـ ${overdueDays} يوم`);
+        }
+      }
+    }
+
+    return {
+      allowed: reasons.length === 0,
+      reasons,
+      balance,
+      pending_due: pendingDue,
+      projected_balance: projected,
+      credit_limit: creditLimit,
+      available_credit:
+        creditLimit != null ? preciseCalculation(creditLimit, projected, "subtract", 2) : null,
+      overdue_days: overdueDays,
+    };
+  },
+
+  /**
+   * Credit check for a sale already saved on the server: its current due is in
+   * the client's balance, so only what remains after the payment is added back
+   */
+  checkSavedSale: async (
+    clientId: number | null,
+    currentDue: number,
+    dueAfter: number
+  ): Promise<{ client: Client | null; check: CreditCheckResult }> => {
+    const client = clientId ? await clientService.getClient(clientId) : null;
+    const withoutSale = client
+      ? {
+          ...client,
+          balance: preciseCalculation(Number(client.balance) || 0, currentDue, "subtract", 2),
+        }
+      : null;
+    return { client, check: clientCreditService.checkCredit(withoutSale, dueAfter) };
+  },
+
+  /**
+   * Due of the client's offline sales not synced yet (not in the cached balance)
+   */
+  getPendingDue: async (clientId: number, excludeTempId?: string): Promise<number> => {
+    const sales = await dbService.getPendingSales();
+    return preciseSum(
+      sales
+        .filter(
+          (s) =>
+            !s.is_synced &&
+            s.client_id === clientId &&
+            s.tempId !== excludeTempId &&
+            s.status === "completed"
+        )
+        .map((s) => Math.max(0, Number(s.total_amount) - Number(s.paid_amount || 0))),
+      2
+    );
+  },
+
+  // --- Manager override ---
+
+  /**
+   * Have the server verify a manager PIN and record the override. PINs are
+   * never checked (or their hashes kept) on the terminal, so this needs a
+   * connection; the override's id travels with the sale when it syncs.
+   */
+  authorizeOverride: async (
+    pin: string,
+    data: { client_id: number | null; sale_id?: number | null; amount: number; reasons: string[] }
+  ): Promise<CreditOverride> => {
+    if (!navigator.onLine) {
+      throw new Error(OVERRIDE_OFFLINE_MESSAGE);
+    }
+    try {
+      const response = await apiClient.post<{ data: CreditOverride }>("/credit-overrides", {
+        ...data,
+        pin,
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error("Credit override failed:", error);
+      // No response: the server is unreachable, not a wrong PIN
+      if (!(error as { response?: unknown })?.response) {
+        throw new Error(OVERRIDE_OFFLINE_MESSAGE);
+      }
+      throw error;
+    }
+  },
+
+  // --- Aging ---
+
+  /**
+   * Bucket a client's open balance by the age of the sales it comes from.
+   * Payments settle the oldest sales first (FIFO).
+   */
+  ageLedgerEntries: (
+    entries: ClientLedgerEntry[],
+    asOf: Date = new Date()
+  ): Omit<ClientAging, "client_id" | "client_name"> => {
+    const ordered = entries
+      .filter((e) => new Date(e.date).getTime() <= asOf.getTime())
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const open: { date: string; amount: number }[] = [];
+    let credit = 0;
+    for (const entry of ordered) {
+      if (Number(entry.debit) > 0) open.push({ date: entry.date, amount: Number(entry.debit) });
+      credit += Number(entry.credit) || 0;
+    }
+    for (const sale of open) {
+      const applied = Math.min(sale.amount, credit);
+      sale.amount = preciseCalculation(sale.amount, applied, "subtract", 2);
+      credit = preciseCalculation(credit, applied, "subtract", 2);
+    }
+
+    const buckets = { current: 0, days_31_60: 0, days_61_90: 0, over_90: 0 };
+    const unpaid = open.filter((s) => s.amount > 0.01);
+    for (const sale of unpaid) {
+      const age = daysBetween(sale.date, asOf);
+      const bucket: AgingBucket =
+        age <= 30 ? "current" : age <= 60 ? "days_31_60" : age <= 90 ? "days_61_90" : "over_90";
+      buckets[bucket] = preciseSum([buckets[bucket], sale.amount], 2);
+    }
+
+    return {
+      ...buckets,
+      total: preciseSum(Object.values(buckets), 2),
+      oldest_unpaid_date: unpaid[0]?.date ?? null,
+    };
+  },
+
+  /**
+   * Aging of every client with an open balance, from their ledger entries
+   */
+  getAgingReport: async (asOf: string): Promise<ClientAging[]> => {
+    try {
+      const response = await apiClient.get<{
+        data: { client: Client; ledger_entries: ClientLedgerEntry[] }[];
+      }>("/reports/client-aging", { params: { as_of: asOf } });
+      const asOfDate = new Date(`${asOf}T23:59:59`);
+      return response.data.data
+        .map(({ client, ledger_entries }) => ({
+          client_id: client.id,
+          client_name: client.name,
+          phone: client.phone,
+          credit_limit: client.credit_limit ?? null,
+          payment_terms_days: client.payment_terms_days ?? null,
+          ...clientCreditService.ageLedgerEntries(ledger_entries, asOfDate),
+        }))
+        .filter((row) => row.total > 0)
+        .sort((a, b) => b.total - a.total);
+    } catch (error) {
+      console.error("Error fetching client aging:", error);
+      throw error;
+    }
+  },
+};
+
+export default clientCreditService;
@@ -9,6 +9,12 @@ export interface Client {
   email: string | null; // قد يكون البريد الإلكتروني اختياريًا
   phone: string | null; // قد يكون الهاتف اختياريًا
   address: string | null; // قد يكون العنوان اختياريًا
+  tax_number?: string | null; // الرقم الضريبي للعميل (للفاتورة الضريبية)
+  price_list_id?: number | null; // قائمة الأسعار (فارغة = القائمة الافتراضية)
+  price_list_name?: string | null;
+  credit_limit?: number | null; // حد الائتمان (فارغ = بدون حد)
+  payment_terms_days?: number | null; // مدة السداد بالأيام (Net days)
+  oldest_unpaid_date?: string | null; // تاريخ أقدم فاتورة غير مسددة (من ClientResource)
   created_at: string; // تاريخ الإنشاء كسلسلة نصية (ISO format)
   updated_at: string; // تاريخ التحديث كسلسلة نصية (ISO format)
   // أضف أي حقول أخرى يتم إرجاعها بواسطة الـ API Resource هنا
@@ -19,6 +25,15 @@ export interface Client {
   balance?: number;
 }
 
+// استجابة GET /clients/changes (المزامنة التزايدية للوضع دون اتصال)
+export interface ClientChangesResponse {
+  data: Client[]; // العملاء الذين أُنشئوا أو عُدّلوا منذ المؤشر
+  deleted_ids?: number[]; // معرّفات العملاء المحذوفين منذ المؤشر
+  current_page: number;
+  last_page: number;
+  server_time?: string; // المؤشر الذي يُستخدم في الطلب التالي
+}
+
 // 2. نوع بيانات فورم العميل (Client Form Data Type)
 // يمثل البيانات المطلوبة عند إنشاء أو تحديث عميل (بدون الحقول التي يولدها النظام)
 export type ClientFormData = Omit<Client, "id" | "created_at" | "updated_at">;
@@ -63,6 +78,27 @@ const clientService = {
     }
   },
 
+  /**
+   * جلب العملاء الذين تغيّروا منذ مؤشر زمني (للمزامنة التزايدية دون اتصال).
+   * @param {string} since - المؤشر المُعاد من المزامنة السابقة (server_time).
+   * @param {number} page - رقم الصفحة المطلوب (افتراضيًا 1).
+   * @returns {Promise<ClientChangesResponse>} العملاء المعدّلون ومعرّفات المحذوفين.
+   */
+  getClientChanges: async (
+    since: string,
+    page: number = 1
+  ): Promise<ClientChangesResponse> => {
+    try {
+      const response = await apiClient.get<ClientChangesResponse>(
+        `/clients/changes?since=${encodeURIComponent(since)}&page=${page}`
+      );
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching client changes:", error);
+      throw error;
+    }
+  },
+
   /**
    * جلب بيانات عميل واحد بواسطة الـ ID الخاص به.
    * @param {number} id - معرّف العميل المطلوب.
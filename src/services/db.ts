@@ -1,9 +1,14 @@
 import { Product } from "./productService";
 import { AppSettings } from "./settingService";
 import { Sale, SaleItem } from "./saleService";
-
-// Database version
-const DB_VERSION = 3;
+import { productSearchIndex } from "./productSearchIndex";
+import { LATEST_DB_VERSION, runMigrations } from "./dbMigrations";
+import { CashMovement, DrawerCount } from "./cashDrawerService";
+import type { Client } from "./clientService";
+import type { CreditOverride } from "./clientCreditService";
+
+// Database version (bumped by adding a migration in dbMigrations.ts)
+const DB_VERSION = LATEST_DB_VERSION;
 const DB_NAME = "SalesPosOfflineDB";
 
 // Store names
@@ -13,15 +18,44 @@ export const STORES = {
   PENDING_SALES: "pending_sales",
   SYNC_QUEUE: "sync_queue",
   SETTINGS: "settings",
+  SHIFTS: "shifts",
+  SALE_RETURNS: "sale_returns",
 };
 
+export type SyncActionType =
+  | "CREATE_SALE"
+  | "UPDATE_SALE"
+  | "DELETE_SALE"
+  | "UPDATE_PRODUCT_STOCK"
+  | "OPEN_SHIFT"
+  | "CLOSE_SHIFT"
+  | "CASH_MOVEMENT"
+  | "CREATE_SALE_RETURN"
+  | "CREATE_RETURN_EXPENSE";
+
+// How a failed sync attempt was classified (see offlineSyncEngine)
+export type SyncErrorKind =
+  | "validation" // 422 - the server rejected the payload, retrying won't help
+  | "conflict" // 409 - e.g. stock was consumed by another terminal
+  | "network" // backend unreachable / request timed out
+  | "server" // 5xx, 408, 429
+  | "auth" // 401/403 - token expired, retry after re-login
+  | "dependency" // depends on another action that hasn't synced yet
+  | "unknown";
+
 export interface SyncAction {
   id?: number;
-  type: "CREATE_SALE" | "UPDATE_SALE" | "DELETE_SALE" | "UPDATE_PRODUCT_STOCK";
+  type: SyncActionType;
   payload: any;
   timestamp: number;
-  status: "pending" | "processing" | "failed";
+  // dead_letter: gave up retrying, kept for manual review / retry
+  status: "pending" | "processing" | "failed" | "dead_letter";
   retryCount: number;
+  nextAttemptAt?: number; // Backoff: don't retry before this time (ms)
+  lastAttemptAt?: number;
+  lastError?: string | null; // Server's reason for the last failure
+  errorKind?: SyncErrorKind | null;
+  errorDetails?: { [key: string]: string[] } | null; // 422 field errors
 }
 
 export interface OfflineSale
@@ -31,13 +65,98 @@ export interface OfflineSale
   offline_created_at: number;
   is_synced: boolean;
   shift_id?: number | null;
+  warehouse_id?: number | null; // Warehouse the stock is taken from
   client_id: number | null;
   client_name?: string | null;
   items: OfflineSaleItem[];
   sale_order_number?: number | null;
   status: "draft" | "held" | "completed" | "pending" | "cancelled";
+  // Mirrors the state of the sale's CREATE_SALE action so the UI can flag it
+  sync_state?: "queued" | "retrying" | "dead_letter" | null;
+  sync_error?: string | null;
+  // false while a synced sale's stock movement isn't reflected in the product cache yet
+  stock_reconciled?: boolean;
+  holds_stock?: 0 | 1; // Indexed: set on save from the fields above (see holdsStock)
+  // Manager approval of a credit sale over the client's limit/terms
+  credit_override?: CreditOverride | null;
+}
+
+/**
+ * A cashier shift as known locally. Shifts opened while the backend is unreachable
+ * get a negative placeholder id (sales reference it in shift_id) until OPEN_SHIFT syncs.
+ */
+export interface OfflineShift {
+  localId: string; // Stable key, also sent as the open request's client reference
+  id: number; // Server id once known, negative placeholder before
+  server_id: number | null;
+  placeholder_id?: number | null; // Placeholder id the shift had before OPEN_SHIFT synced
+  user_id?: number | null;
+  opened_at: string | null;
+  closed_at: string | null;
+  is_open: boolean;
+  // Open/close events still waiting in the sync queue
+  pending_open: boolean;
+  pending_close: boolean;
+  // Cash drawer session
+  opening_float?: number;
+  cash_movements?: CashMovement[];
+  closing_count?: DrawerCount | null; // Blind count entered at close
+  expected_cash?: number | null; // Computed when the drawer was counted
+  over_short?: number | null;
+}
+
+export interface OfflineSaleReturnItem {
+  original_sale_item_id: number | null; // Server line id, resolved at sync time if unknown
+  line_index: number; // Position of the line in the original sale's items
+  product_id: number;
+  purchase_item_id?: number | null; // Batch the line was sold from
+  quantity_returned: number; // Sellable units
+  unit_price: number; // Per sellable unit
+  condition: "resellable" | "damaged";
+}
+
+/**
+ * A return recorded in the POS. It may reference a sale that only exists locally
+ * (sale_tempId); the server sale id is resolved when CREATE_SALE_RETURN syncs.
+ */
+export interface OfflineSaleReturn {
+  tempId: string;
+  id?: number | null; // Server id once synced
+  sale_tempId: string | null;
+  original_sale_id: number | null;
+  invoice_number?: string | null;
+  shift_id?: number | null;
+  warehouse_id?: number | null;
+  return_date: string; // YYYY-MM-DD
+  return_reason?: string;
+  notes?: string;
+  credit_action: "refund" | "store_credit" | "none";
+  refund_payment_method?: "cash" | "bank";
+  refunded_amount: number;
+  items: OfflineSaleReturnItem[];
+  offline_created_at: number;
+  is_synced: boolean;
+  sync_state?: "queued" | "retrying" | "dead_letter" | null;
+  sync_error?: string | null;
+  // false while a synced return's stock isn't reflected in the product cache yet
+  stock_reconciled?: boolean;
+  // false while the cash refund of a synced return isn't booked as an expense yet
+  refund_expense_synced?: boolean;
+  holds_stock?: 0 | 1; // Indexed: set on save from the fields above (see holdsStock)
 }
 
+/**
+ * Sales and returns whose stock movement is not yet reflected in the cached
+ * products, i.e. what the stock ledger is built from. Stored as 0/1 on each
+ * record (booleans can't be IndexedDB keys) so the ledger reads only those rows.
+ */
+export const holdsStock = {
+  sale: (sale: OfflineSale): boolean =>
+    sale.status === "completed" && (!sale.is_synced || sale.stock_reconciled === false),
+  saleReturn: (saleReturn: OfflineSaleReturn): boolean =>
+    !saleReturn.is_synced || saleReturn.stock_reconciled === false,
+};
+
 export interface OfflineSaleItem extends SaleItem {
   tempId?: string;
 }
@@ -67,53 +186,32 @@ class IndexedDBService {
 
       request.onsuccess = (event) => {
         this.db = (event.target as IDBOpenDBRequest).result;
+        // Another tab is upgrading the schema: let it, we'll reopen on next access
+        this.db.onversionchange = () => {
+          this.db?.close();
+          this.db = null;
+        };
         resolve(this.db);
       };
 
+      request.onblocked = () => {
+        console.warn(
+          "IndexedDB upgrade blocked: close other POS tabs to finish updating the offline database"
+        );
+      };
+
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
-
-        // Create Products Store (for searching offline)
-        if (!db.objectStoreNames.contains(STORES.PRODUCTS)) {
-          const productStore = db.createObjectStore(STORES.PRODUCTS, {
-            keyPath: "id",
-          });
-          productStore.createIndex("name", "name", { unique: false });
-          productStore.createIndex("sku", "sku", { unique: false });
-          productStore.createIndex("category_id", "category_id", {
-            unique: false,
-          });
-        }
-
-        // Create Clients Store
-        if (!db.objectStoreNames.contains(STORES.CLIENTS)) {
-          const clientStore = db.createObjectStore(STORES.CLIENTS, {
-            keyPath: "id",
-          });
-          clientStore.createIndex("name", "name", { unique: false });
-          clientStore.createIndex("phone", "phone", { unique: false });
-        }
-
-        // Create Pending Sales Store
-        if (!db.objectStoreNames.contains(STORES.PENDING_SALES)) {
-          const saleStore = db.createObjectStore(STORES.PENDING_SALES, {
-            keyPath: "tempId",
-          });
-          saleStore.createIndex("created_at", "offline_created_at", {
-            unique: false,
-          });
-          saleStore.createIndex("is_synced", "is_synced", { unique: false });
-        }
-
-        // Create Sync Queue Store
-        if (!db.objectStoreNames.contains(STORES.SYNC_QUEUE)) {
-          const syncStore = db.createObjectStore(STORES.SYNC_QUEUE, {
-            keyPath: "id",
-            autoIncrement: true,
-          });
-          syncStore.createIndex("status", "status", { unique: false });
-          syncStore.createIndex("timestamp", "timestamp", { unique: false });
-        }
+        const transaction = request.transaction;
+        if (!transaction) return;
+
+        // A failed step aborts the upgrade; request.onerror then rejects open()
+        runMigrations(
+          db,
+          transaction,
+          event.oldVersion,
+          event.newVersion ?? this.dbVersion
+        ).catch(() => undefined);
       };
     });
   }
@@ -132,7 +230,7 @@ class IndexedDBService {
 
   async saveProducts(products: Product[]): Promise<void> {
     const store = await this.getStore(STORES.PRODUCTS, "readwrite");
-    return new Promise((resolve, reject) => {
+    return new Promise<void>((resolve, reject) => {
       const transaction = store.transaction;
       transaction.oncomplete = () => resolve();
       transaction.onerror = (e) => reject(e);
@@ -143,9 +241,22 @@ class IndexedDBService {
       products.forEach((product) => {
         store.put(product);
       });
+    }).then(() => {
+      if (productSearchIndex.isBuilt()) productSearchIndex.upsert(products);
     });
   }
 
+  async deleteProducts(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    const store = await this.getStore(STORES.PRODUCTS, "readwrite");
+    return new Promise<void>((resolve, reject) => {
+      const transaction = store.transaction;
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = (e) => reject(e);
+      ids.forEach((id) => store.delete(id));
+    }).then(() => productSearchIndex.remove(ids));
+  }
+
   async getAllProducts(): Promise<Product[]> {
     const store = await this.getStore(STORES.PRODUCTS, "readonly");
     return new Promise((resolve, reject) => {
@@ -155,16 +266,48 @@ class IndexedDBService {
     });
   }
 
-  async searchProducts(query: string): Promise<Product[]> {
-    const allProducts = await this.getAllProducts();
-    if (!query) return allProducts;
+  /**
+   * Ranked local search (name, scientific name, SKU/barcode) through the
+   * in-memory index, built from the store on first use.
+   */
+  async searchProducts(query: string, limit = 50): Promise<Product[]> {
+    if (!productSearchIndex.isBuilt() || !query) {
+      const allProducts = await this.getAllProducts();
+      if (!productSearchIndex.isBuilt()) productSearchIndex.rebuild(allProducts);
+      if (!query) return allProducts;
+    }
+    const hits = productSearchIndex.search(query, limit);
+    if (hits.length === 0) return [];
+
+    const products = await Promise.all(hits.map((h) => this.getProduct(h.id)));
+    return products.filter((p): p is Product => !!p);
+  }
 
-    const lowerQuery = query.toLowerCase();
-    return allProducts.filter(
-      (p) =>
-        p.name.toLowerCase().includes(lowerQuery) ||
-        (p.sku && p.sku.toLowerCase().includes(lowerQuery))
+  /**
+   * Cached products whose SKU or one of the barcodes equals code.
+   */
+  async getProductsByCode(code: string): Promise<Product[]> {
+    if (!productSearchIndex.isBuilt()) {
+      productSearchIndex.rebuild(await this.getAllProducts());
+    }
+    const products = await Promise.all(
+      productSearchIndex.findByCode(code).map((id) => this.getProduct(id))
     );
+    return products.filter((p): p is Product => !!p);
+  }
+
+  /**
+   * Exact scanner lookup through the `sku` index (no full scan).
+   */
+  async getProductByBarcode(code: string): Promise<Product | undefined> {
+    const trimmed = code.trim();
+    if (!trimmed) return undefined;
+    const store = await this.getStore(STORES.PRODUCTS, "readonly");
+    return new Promise((resolve, reject) => {
+      const request = store.index("sku").get(trimmed);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
   }
 
   // --- CLIENTS ---
@@ -182,6 +325,17 @@ class IndexedDBService {
     });
   }
 
+  async deleteClients(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    const store = await this.getStore(STORES.CLIENTS, "readwrite");
+    return new Promise((resolve, reject) => {
+      const transaction = store.transaction;
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = (e) => reject(e);
+      ids.forEach((id) => store.delete(id));
+    });
+  }
+
   async getAllClients(): Promise<any[]> {
     const store = await this.getStore(STORES.CLIENTS, "readonly");
     return new Promise((resolve, reject) => {
@@ -203,6 +357,15 @@ class IndexedDBService {
     );
   }
 
+  async getClient(id: number): Promise<Client | undefined> {
+    const store = await this.getStore(STORES.CLIENTS, "readonly");
+    return new Promise((resolve, reject) => {
+      const request = store.get(id);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   async getProduct(id: number): Promise<Product | undefined> {
     const store = await this.getStore(STORES.PRODUCTS, "readonly");
     return new Promise((resolve, reject) => {
@@ -217,7 +380,7 @@ class IndexedDBService {
   async savePendingSale(sale: OfflineSale): Promise<string> {
     const store = await this.getStore(STORES.PENDING_SALES, "readwrite");
     return new Promise((resolve, reject) => {
-      const request = store.put(sale);
+      const request = store.put({ ...sale, holds_stock: holdsStock.sale(sale) ? 1 : 0 });
       request.onsuccess = () => resolve(sale.tempId);
       request.onerror = () => reject(request.error);
     });
@@ -232,6 +395,15 @@ class IndexedDBService {
     });
   }
 
+  async getPendingSale(tempId: string): Promise<OfflineSale | undefined> {
+    const store = await this.getStore(STORES.PENDING_SALES, "readonly");
+    return new Promise((resolve, reject) => {
+      const request = store.get(tempId);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   async deletePendingSale(tempId: string): Promise<void> {
     const store = await this.getStore(STORES.PENDING_SALES, "readwrite");
     return new Promise((resolve, reject) => {
@@ -241,6 +413,116 @@ class IndexedDBService {
     });
   }
 
+  // Sales the stock ledger is built from (see holdsStock)
+  async getPendingSalesHoldingStock(): Promise<OfflineSale[]> {
+    const store = await this.getStore(STORES.PENDING_SALES, "readonly");
+    return new Promise((resolve, reject) => {
+      const request = store.index("holds_stock").getAll(1);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getPendingSalesByShift(shiftId: number): Promise<OfflineSale[]> {
+    const store = await this.getStore(STORES.PENDING_SALES, "readonly");
+    return new Promise((resolve, reject) => {
+      const request = store.index("shift_id").getAll(shiftId);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // --- SHIFTS ---
+
+  async saveShift(shift: OfflineShift): Promise<void> {
+    const store = await this.getStore(STORES.SHIFTS, "readwrite");
+    return new Promise((resolve, reject) => {
+      const request = store.put(shift);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getShift(localId: string): Promise<OfflineShift | undefined> {
+    const store = await this.getStore(STORES.SHIFTS, "readonly");
+    return new Promise((resolve, reject) => {
+      const request = store.get(localId);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Lookup by the id sales reference (server id or negative placeholder)
+  async getShiftById(id: number): Promise<OfflineShift | undefined> {
+    const store = await this.getStore(STORES.SHIFTS, "readonly");
+    return new Promise((resolve, reject) => {
+      const request = store.index("id").get(id);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Lookup of a synced shift by the placeholder id sales queued offline still carry
+  async getShiftByPlaceholderId(placeholderId: number): Promise<OfflineShift | undefined> {
+    const store = await this.getStore(STORES.SHIFTS, "readonly");
+    return new Promise((resolve, reject) => {
+      const request = store.index("placeholder_id").get(placeholderId);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getAllShifts(): Promise<OfflineShift[]> {
+    const store = await this.getStore(STORES.SHIFTS, "readonly");
+    return new Promise((resolve, reject) => {
+      const request = store.getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // --- SALE RETURNS ---
+
+  async saveSaleReturn(saleReturn: OfflineSaleReturn): Promise<void> {
+    const store = await this.getStore(STORES.SALE_RETURNS, "readwrite");
+    return new Promise((resolve, reject) => {
+      const request = store.put({
+        ...saleReturn,
+        holds_stock: holdsStock.saleReturn(saleReturn) ? 1 : 0,
+      });
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getSaleReturn(tempId: string): Promise<OfflineSaleReturn | undefined> {
+    const store = await this.getStore(STORES.SALE_RETURNS, "readonly");
+    return new Promise((resolve, reject) => {
+      const request = store.get(tempId);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getAllSaleReturns(): Promise<OfflineSaleReturn[]> {
+    const store = await this.getStore(STORES.SALE_RETURNS, "readonly");
+    return new Promise((resolve, reject) => {
+      const request = store.getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Returns the stock ledger is built from (see holdsStock)
+  async getSaleReturnsHoldingStock(): Promise<OfflineSaleReturn[]> {
+    const store = await this.getStore(STORES.SALE_RETURNS, "readonly");
+    return new Promise((resolve, reject) => {
+      const request = store.index("holds_stock").getAll(1);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   // --- SYNC QUEUE ---
 
   async addToSyncQueue(
@@ -279,6 +561,34 @@ class IndexedDBService {
     });
   }
 
+  async getAllSyncActions(): Promise<SyncAction[]> {
+    const store = await this.getStore(STORES.SYNC_QUEUE, "readonly");
+    return new Promise((resolve, reject) => {
+      const request = store.getAll();
+      request.onsuccess = () =>
+        resolve(
+          (request.result as SyncAction[]).sort(
+            (a, b) => a.timestamp - b.timestamp
+          )
+        );
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getDeadLetterActions(): Promise<SyncAction[]> {
+    const actions = await this.getAllSyncActions();
+    return actions.filter((a) => a.status === "dead_letter");
+  }
+
+  async updateSyncAction(action: SyncAction): Promise<void> {
+    const store = await this.getStore(STORES.SYNC_QUEUE, "readwrite");
+    return new Promise((resolve, reject) => {
+      const request = store.put(action);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   async removeSyncAction(id: number): Promise<void> {
     const store = await this.getStore(STORES.SYNC_QUEUE, "readwrite");
 
@@ -310,13 +620,36 @@ class IndexedDBService {
     });
   }
 
+  // Small key/value entries in the settings store (e.g. delta sync cursors)
+  async getSettingValue<T>(key: string): Promise<T | null> {
+    const store = await this.getStore(STORES.SETTINGS, "readonly");
+    return new Promise((resolve, reject) => {
+      const request = store.get(key);
+      request.onsuccess = () =>
+        resolve(request.result ? (request.result.value as T) : null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async setSettingValue<T>(key: string, value: T): Promise<void> {
+    const store = await this.getStore(STORES.SETTINGS, "readwrite");
+    return new Promise((resolve, reject) => {
+      const request = store.put({ id: key, value });
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   // --- UTILS (Admin) ---
 
   async clearStore(storeName: string): Promise<void> {
     const store = await this.getStore(storeName, "readwrite");
     return new Promise((resolve, reject) => {
       const request = store.clear();
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => {
+        if (storeName === STORES.PRODUCTS) productSearchIndex.clear();
+        resolve();
+      };
       request.onerror = () => reject(request.error);
     });
   }
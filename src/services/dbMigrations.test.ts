@@ -0,0 +1,227 @@
+// src/services/dbMigrations.test.ts
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DbMigration, LATEST_DB_VERSION, MIGRATIONS, runMigrations } from "./dbMigrations";
+
+let dbName = "";
+let openDbs: IDBDatabase[] = [];
+
+// Open the test database at `version`, upgrading through `migrations` like db.ts does
+const openAt = (version: number, migrations: DbMigration[] = MIGRATIONS) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(dbName, version);
+    request.onupgradeneeded = (event) => {
+      runMigrations(
+        request.result,
+        request.transaction!,
+        event.oldVersion,
+        event.newVersion ?? version,
+        migrations
+      ).catch(() => undefined);
+    };
+    request.onsuccess = () => {
+      openDbs.push(request.result);
+      resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+// Open without upgrading, at whatever version is on disk
+const openCurrent = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(dbName);
+    request.onsuccess = () => {
+      openDbs.push(request.result);
+      resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+const put = (db: IDBDatabase, store: string, records: object[]) =>
+  new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(store, "readwrite");
+    records.forEach((record) => transaction.objectStore(store).put(record));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+const getAll = <T = Record<string, unknown>>(db: IDBDatabase, store: string) =>
+  new Promise<T[]>((resolve, reject) => {
+    const request = db.transaction(store, "readonly").objectStore(store).getAll();
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+
+const migrationsUpTo = (version: number) => MIGRATIONS.filter((m) => m.version <= version);
+
+// Unsynced work a cashier may have left in an old schema
+const seedUnsyncedWork = async (db: IDBDatabase, legacyQueue = false) => {
+  await put(db, "pending_sales", [
+    { tempId: "sale-1", status: "completed", is_synced: false, shift_id: 7, items: [] },
+    { tempId: "sale-2", status: "draft", is_synced: false, shift_id: 7, items: [] },
+  ]);
+  await put(db, "sync_queue", [
+    legacyQueue
+      ? { type: "CREATE_SALE", payload: { tempId: "sale-1" }, timestamp: 1 }
+      : {
+          type: "CREATE_SALE",
+          payload: { tempId: "sale-1" },
+          timestamp: 1,
+          status: "failed",
+          retryCount: 3,
+        },
+  ]);
+};
+
+beforeEach(() => {
+  dbName = `migrations-test-${Math.random().toString(36).slice(2)}`;
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  openDbs.forEach((db) => db.close());
+  openDbs = [];
+  vi.restoreAllMocks();
+});
+
+describe("runMigrations", () => {
+  it("creates every store on a fresh install", async () => {
+    const db = await openAt(LATEST_DB_VERSION);
+    expect(db.version).toBe(LATEST_DB_VERSION);
+    expect([...db.objectStoreNames].sort()).toEqual([
+      "clients",
+      "pending_sales",
+      "products",
+      "sale_returns",
+      "settings",
+      "shifts",
+      "sync_queue",
+    ]);
+  });
+
+  it("upgrades v1 to latest keeping pending sales and the sync queue", async () => {
+    const v1 = await openAt(1, migrationsUpTo(1));
+    await seedUnsyncedWork(v1, true);
+    v1.close();
+
+    const db = await openAt(LATEST_DB_VERSION);
+    expect(db.version).toBe(LATEST_DB_VERSION);
+
+    const sales = await getAll(db, "pending_sales");
+    expect(sales).toHaveLength(2);
+    expect(sales.find((s) => s.tempId === "sale-1")).toMatchObject({ sync_state: "queued" });
+    expect(sales.find((s) => s.tempId === "sale-2")?.sync_state).toBeUndefined();
+
+    const queue = await getAll(db, "sync_queue");
+    expect(queue).toEqual([
+      expect.objectContaining({
+        type: "CREATE_SALE",
+        payload: { tempId: "sale-1" },
+        status: "pending",
+        retryCount: 0,
+      }),
+    ]);
+  });
+
+  it("upgrades v4 to latest keeping pending sales and the sync queue", async () => {
+    const v4 = await openAt(4, migrationsUpTo(4));
+    await seedUnsyncedWork(v4);
+    v4.close();
+
+    const db = await openAt(LATEST_DB_VERSION);
+    const sales = await getAll(db, "pending_sales");
+    expect(sales.map((s) => s.tempId).sort()).toEqual(["sale-1", "sale-2"]);
+
+    // The v5 index finds the sales of a shift
+    const byShift = await new Promise<unknown[]>((resolve) => {
+      const request = db
+        .transaction("pending_sales", "readonly")
+        .objectStore("pending_sales")
+        .index("shift_id")
+        .getAll(7);
+      request.onsuccess = () => resolve(request.result);
+    });
+    expect(byShift).toHaveLength(2);
+
+    // Retry state of an already migrated action is kept
+    const queue = await getAll(db, "sync_queue");
+    expect(queue).toEqual([expect.objectContaining({ status: "failed", retryCount: 3 })]);
+  });
+
+  it("upgrades v6 to latest keeping pending sales, shifts and the sync queue", async () => {
+    const v6 = await openAt(6, migrationsUpTo(6));
+    await seedUnsyncedWork(v6);
+    await put(v6, "shifts", [{ localId: "shift-1", id: -5, server_id: null, pending_open: true }]);
+    v6.close();
+
+    const db = await openAt(LATEST_DB_VERSION);
+    expect(db.objectStoreNames.contains("sale_returns")).toBe(true);
+    expect(await getAll(db, "pending_sales")).toHaveLength(2);
+    expect(await getAll(db, "sync_queue")).toHaveLength(1);
+    expect(await getAll(db, "shifts")).toEqual([expect.objectContaining({ localId: "shift-1" })]);
+  });
+
+  it("indexes the sales and returns that hold stock", async () => {
+    const v9 = await openAt(9, migrationsUpTo(9));
+    await seedUnsyncedWork(v9);
+    await put(v9, "pending_sales", [
+      { tempId: "sale-3", status: "completed", is_synced: true, items: [] },
+    ]);
+    await put(v9, "sale_returns", [
+      { tempId: "return-1", is_synced: true, stock_reconciled: false, items: [] },
+      { tempId: "return-2", is_synced: true, items: [] },
+    ]);
+    v9.close();
+
+    const db = await openAt(LATEST_DB_VERSION);
+    const holdingStock = (store: string) =>
+      new Promise<{ tempId: string }[]>((resolve) => {
+        const request = db.transaction(store, "readonly").objectStore(store).index("holds_stock").getAll(1);
+        request.onsuccess = () => resolve(request.result);
+      });
+    expect((await holdingStock("pending_sales")).map((s) => s.tempId)).toEqual(["sale-1"]);
+    expect((await holdingStock("sale_returns")).map((r) => r.tempId)).toEqual(["return-1"]);
+  });
+
+  it("drops the cached manager PIN hashes", async () => {
+    const v8 = await openAt(8, migrationsUpTo(8));
+    await put(v8, "settings", [
+      { id: "credit_approvers", value: [{ user_id: 1, pin_hash: "abc", salt: "x" }] },
+      { id: "products_sync_cursor", value: "2026-01-01" },
+    ]);
+    v8.close();
+
+    const db = await openAt(LATEST_DB_VERSION);
+    expect(await getAll(db, "settings")).toEqual([
+      { id: "products_sync_cursor", value: "2026-01-01" },
+    ]);
+  });
+
+  it("leaves the version and data untouched when a step fails", async () => {
+    const v4 = await openAt(4, migrationsUpTo(4));
+    await seedUnsyncedWork(v4);
+    v4.close();
+
+    // v5 rewrites the sales before the failing step runs
+    const failing: DbMigration = {
+      version: 6,
+      description: "Broken step",
+      migrate: () => {
+        throw new Error("boom");
+      },
+    };
+    await expect(openAt(6, [...migrationsUpTo(5), failing])).rejects.toBeTruthy();
+
+    const db = await openCurrent();
+    expect(db.version).toBe(4);
+    const saleStore = db.transaction("pending_sales", "readonly").objectStore("pending_sales");
+    expect(saleStore.indexNames.contains("shift_id")).toBe(false);
+
+    const sales = await getAll(db, "pending_sales");
+    expect(sales.find((s) => s.tempId === "sale-1")?.sync_state).toBeUndefined();
+    expect(await getAll(db, "sync_queue")).toEqual([
+      expect.objectContaining({ status: "failed", retryCount: 3 }),
+    ]);
+  });
+});
@@ -0,0 +1,232 @@
+// src/services/dbMigrations.ts
+// Versioned schema migrations for the offline IndexedDB (see db.ts).
+//
+// Rules:
+// - Never edit a migration that has shipped; add a new one with the next version.
+// - Steps run inside the versionchange transaction, so a step that throws aborts
+//   the whole upgrade and the database stays at its previous version with its data intact.
+// - Prefer rewriting records over clearing stores: pending sales and the sync
+//   queue may hold cashiers' unsynced work.
+
+export interface DbMigration {
+  version: number;
+  description: string;
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void | Promise<void>;
+}
+
+// Store names as they existed when the migrations were written (kept literal on purpose)
+const PRODUCTS = "products";
+const CLIENTS = "clients";
+const PENDING_SALES = "pending_sales";
+const SYNC_QUEUE = "sync_queue";
+const SETTINGS = "settings";
+const SHIFTS = "shifts";
+const SALE_RETURNS = "sale_returns";
+
+// --- Helpers for migration steps ---
+
+export const ensureStore = (
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  name: string,
+  options?: IDBObjectStoreParameters
+): IDBObjectStore =>
+  db.objectStoreNames.contains(name)
+    ? transaction.objectStore(name)
+    : db.createObjectStore(name, options);
+
+export const ensureIndex = (
+  store: IDBObjectStore,
+  name: string,
+  keyPath: string | string[],
+  options?: IDBIndexParameters
+) => {
+  if (!store.indexNames.contains(name)) {
+    store.createIndex(name, keyPath, options);
+  }
+};
+
+/**
+ * Rewrite every record of a store. Return the new record, or undefined to leave it as is.
+ */
+export const rewriteRecords = <T>(
+  store: IDBObjectStore,
+  transform: (record: T) => T | undefined
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const updated = transform(cursor.value as T);
+      if (updated !== undefined) cursor.update(updated);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+// --- Migrations (ordered by version) ---
+
+export const MIGRATIONS: DbMigration[] = [
+  {
+    version: 1,
+    description: "Base stores: products, clients, pending sales, sync queue",
+    migrate: (db, transaction) => {
+      const productStore = ensureStore(db, transaction, PRODUCTS, { keyPath: "id" });
+      ensureIndex(productStore, "name", "name", { unique: false });
+      ensureIndex(productStore, "sku", "sku", { unique: false });
+      ensureIndex(productStore, "category_id", "category_id", { unique: false });
+
+      const clientStore = ensureStore(db, transaction, CLIENTS, { keyPath: "id" });
+      ensureIndex(clientStore, "name", "name", { unique: false });
+      ensureIndex(clientStore, "phone", "phone", { unique: false });
+
+      const saleStore = ensureStore(db, transaction, PENDING_SALES, {
+        keyPath: "tempId",
+      });
+      ensureIndex(saleStore, "created_at", "offline_created_at", { unique: false });
+      ensureIndex(saleStore, "is_synced", "is_synced", { unique: false });
+
+      const syncStore = ensureStore(db, transaction, SYNC_QUEUE, {
+        keyPath: "id",
+        autoIncrement: true,
+      });
+      ensureIndex(syncStore, "status", "status", { unique: false });
+      ensureIndex(syncStore, "timestamp", "timestamp", { unique: false });
+    },
+  },
+  {
+    version: 4,
+    description: "Settings store (app settings, sync cursors); retry fields on queued actions",
+    migrate: async (db, transaction) => {
+      ensureStore(db, transaction, SETTINGS, { keyPath: "id" });
+
+      // Actions queued before the sync engine had backoff/dead-letter support
+      await rewriteRecords<Record<string, unknown>>(
+        transaction.objectStore(SYNC_QUEUE),
+        (action) => {
+          if (action.retryCount !== undefined && action.status) return undefined;
+          return {
+            ...action,
+            status: action.status ?? "pending",
+            retryCount: action.retryCount ?? 0,
+          };
+        }
+      );
+    },
+  },
+  {
+    version: 5,
+    description: "Index pending sales by shift; flag completed unsynced sales as queued",
+    migrate: async (_db, transaction) => {
+      const saleStore = transaction.objectStore(PENDING_SALES);
+      ensureIndex(saleStore, "shift_id", "shift_id", { unique: false });
+
+      await rewriteRecords<Record<string, unknown>>(saleStore, (sale) => {
+        if (sale.status !== "completed" || sale.is_synced || sale.sync_state) {
+          return undefined;
+        }
+        return { ...sale, sync_state: "queued" };
+      });
+    },
+  },
+  {
+    version: 6,
+    description: "Shifts store for shifts opened/closed offline",
+    migrate: (db, transaction) => {
+      const shiftStore = ensureStore(db, transaction, SHIFTS, { keyPath: "localId" });
+      ensureIndex(shiftStore, "id", "id", { unique: false });
+      ensureIndex(shiftStore, "server_id", "server_id", { unique: false });
+    },
+  },
+  {
+    version: 7,
+    description: "Sale returns recorded in the POS (offline-capable)",
+    migrate: (db, transaction) => {
+      const returnStore = ensureStore(db, transaction, SALE_RETURNS, {
+        keyPath: "tempId",
+      });
+      ensureIndex(returnStore, "sale_tempId", "sale_tempId", { unique: false });
+      ensureIndex(returnStore, "original_sale_id", "original_sale_id", {
+        unique: false,
+      });
+    },
+  },
+  {
+    version: 8,
+    description: "Index shifts by the placeholder id they had before syncing",
+    migrate: (_db, transaction) => {
+      ensureIndex(transaction.objectStore(SHIFTS), "placeholder_id", "placeholder_id", {
+        unique: false,
+      });
+    },
+  },
+  {
+    version: 9,
+    description: "Drop the cached manager PIN hashes (credit overrides are approved online)",
+    migrate: (_db, transaction) => {
+      transaction.objectStore(SETTINGS).delete("credit_approvers");
+    },
+  },
+  {
+    version: 10,
+    description: "Index the sales and returns the stock ledger is built from",
+    migrate: async (_db, transaction) => {
+      type LedgerRecord = {
+        status?: string;
+        is_synced?: boolean;
+        stock_reconciled?: boolean;
+        holds_stock?: 0 | 1;
+      };
+      const unreconciled = (r: LedgerRecord) => !r.is_synced || r.stock_reconciled === false;
+
+      const saleStore = transaction.objectStore(PENDING_SALES);
+      ensureIndex(saleStore, "holds_stock", "holds_stock", { unique: false });
+      await rewriteRecords<LedgerRecord>(saleStore, (sale) => ({
+        ...sale,
+        holds_stock: sale.status === "completed" && unreconciled(sale) ? 1 : 0,
+      }));
+
+      const returnStore = transaction.objectStore(SALE_RETURNS);
+      ensureIndex(returnStore, "holds_stock", "holds_stock", { unique: false });
+      await rewriteRecords<LedgerRecord>(returnStore, (saleReturn) => ({
+        ...saleReturn,
+        holds_stock: unreconciled(saleReturn) ? 1 : 0,
+      }));
+    },
+  },
+];
+
+export const LATEST_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Run the migrations between oldVersion (exclusive) and newVersion (inclusive), in order.
+ * Any failure aborts the versionchange transaction.
+ */
+export const runMigrations = async (
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number,
+  migrations: DbMigration[] = MIGRATIONS
+): Promise<void> => {
+  const pending = migrations
+    .filter((m) => m.version > oldVersion && m.version <= newVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    console.log(
+      `IndexedDB migration v${migration.version}: ${migration.description}`
+    );
+    try {
+      await migration.migrate(db, transaction);
+    } catch (error) {
+      console.error(`IndexedDB migration v${migration.version} failed:`, error);
+      transaction.abort();
+      throw error;
+    }
+  }
+};
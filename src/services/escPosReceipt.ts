@@ -0,0 +1,451 @@
+// src/services/escPosReceipt.ts
+import { formatNumber } from "@/constants";
+import { getPresentationForm, shapeArabic, toPrintableLine } from "@/utils/arabicShaping";
+import { OfflineSale } from "./db";
+import { AppSettings } from "./settingService";
+import { tenderService } from "./tenderService";
+import { vatService } from "./vatService";
+import { promotionService } from "./promotionService";
+import { zatcaService } from "./zatcaService";
+
+/**
+ * ESC/POS receipt generation for thermal printers, fully client side so offline
+ * sales (tempId only) print without the backend. Text is shaped and reordered
+ * for the printer (see arabicShaping) and encoded in the Arabic code page PC864.
+ */
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export type ReceiptAlign = "left" | "center" | "right";
+
+// 1-bit image, rows of ceil(width / 8) bytes, MSB = leftmost dot, 1 = black
+export interface MonoBitmap {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface ReceiptColumn {
+  text: string;
+  width: number;
+  align?: ReceiptAlign;
+}
+
+// PC864 upper half (0x80-0xFF) -> Unicode; 0 = unassigned
+const PC864_HIGH = [
+  0x00b0, 0x00b7, 0x2219, 0x221a, 0x2592, 0x2500, 0x2502, 0x253c,
+  0x2524, 0x252c, 0x251c, 0x2534, 0x2510, 0x250c, 0x2514, 0x2518,
+  0x03b2, 0x221e, 0x03c6, 0x00b1, 0x00bd, 0x00bc, 0x2248, 0x00ab,
+  0x00bb, 0xfef7, 0xfef8, 0, 0, 0xfefb, 0xfefc, 0,
+  0x00a0, 0x00ad, 0xfe82, 0x00a3, 0x00a4, 0xfe84, 0, 0,
+  0xfe8e, 0xfe8f, 0xfe95, 0xfe99, 0x060c, 0xfe9d, 0xfea1, 0xfea5,
+  0x0660, 0x0661, 0x0662, 0x0663, 0x0664, 0x0665, 0x0666, 0x0667,
+  0x0668, 0x0669, 0xfed1, 0x061b, 0xfeb1, 0xfeb5, 0xfeb9, 0x061f,
+  0x00a2, 0xfe80, 0xfe81, 0xfe83, 0xfe85, 0xfeca, 0xfe8b, 0xfe8d,
+  0xfe91, 0xfe93, 0xfe97, 0xfe9b, 0xfe9f, 0xfea3, 0xfea7, 0xfea9,
+  0xfeab, 0xfead, 0xfeaf, 0xfeb3, 0xfeb7, 0xfebb, 0xfebf, 0xfec1,
+  0xfec5, 0xfecb, 0xfecf, 0x00a6, 0x00ac, 0x00f7, 0x00d7, 0xfec9,
+  0x0640, 0xfed3, 0xfed7, 0xfedb, 0xfedf, 0xfee3, 0xfee7, 0xfeeb,
+  0xfeed, 0xfeef, 0xfef3, 0xfebd, 0xfecc, 0xfece, 0xfecd, 0xfee1,
+  0xfe7d, 0x0651, 0xfee5, 0xfee9, 0xfeec, 0xfef0, 0xfef2, 0xfed0,
+  0xfed5, 0xfef5, 0xfef6, 0xfedd, 0xfed9, 0xfef1, 0x25a0, 0,
+];
+
+const PC864_ENCODE = new Map<number, number>();
+PC864_HIGH.forEach((cp, i) => cp && PC864_ENCODE.set(cp, 0x80 + i));
+// Forms PC864 lacks, mapped to the nearest glyph it has
+PC864_ENCODE.set(0xfe87, 0xc7); // alef hamza below -> alef
+PC864_ENCODE.set(0xfe88, 0xa8);
+PC864_ENCODE.set(0xfef9, 0x9d); // lam-alef hamza below -> lam-alef
+PC864_ENCODE.set(0xfefa, 0x9e);
+PC864_ENCODE.set(0xfe89, 0xe9); // yeh hamza isolated -> alef maksura
+
+const encodeChar = (cp: number): number => {
+  if (cp < 0x80) return cp;
+  const direct = PC864_ENCODE.get(cp);
+  if (direct !== undefined) return direct;
+
+  // Missing contextual form: medial -> initial -> isolated, final -> isolated
+  const presentation = getPresentationForm(cp);
+  if (presentation) {
+    const fallbacks =
+      presentation.form === 3 ? [presentation.isolated + 2, presentation.isolated] : [presentation.isolated];
+    for (const candidate of fallbacks) {
+      const byte = PC864_ENCODE.get(candidate);
+      if (byte !== undefined) return byte;
+    }
+  }
+  return 0x3f; // "?"
+};
+
+/**
+ * Encode a line already in visual order (see toPrintableLine)
+ */
+export const encodePc864 = (visualText: string): number[] =>
+  Array.from(visualText).map((c) => encodeChar(c.codePointAt(0)!));
+
+// Display width of a logical string once printed (ligatures merge characters)
+const printedLength = (text: string) => Array.from(shapeArabic(text)).length;
+
+const pad = (visual: string, width: number, align: ReceiptAlign) => {
+  const length = Array.from(visual).length;
+  if (length >= width) return Array.from(visual).slice(0, width).join("");
+  const space = width - length;
+  if (align === "left") return visual + " ".repeat(space);
+  if (align === "right") return " ".repeat(space) + visual;
+  const left = Math.floor(space / 2);
+  return " ".repeat(left) + visual + " ".repeat(space - left);
+};
+
+/**
+ * Split logical text into lines of at most `width` printed characters, on words
+ */
+export const wrapText = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  let current = "";
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (printedLength(candidate) <= width) {
+      current = candidate;
+      return;
+    }
+    if (current) lines.push(current);
+    // A single word longer than the line is cut
+    let rest = word;
+    while (printedLength(rest) > width) {
+      lines.push(Array.from(rest).slice(0, width).join(""));
+      rest = Array.from(rest).slice(width).join("");
+    }
+    current = rest;
+  });
+  if (current) lines.push(current);
+  return lines.length ? lines : [""];
+};
+
+/**
+ * Byte stream builder. Text goes in logical order; with rtl (default) lines are
+ * laid out right-to-left, i.e. the first column is printed on the right.
+ */
+export const createEscPosBuilder = (options: {
+  width: number; // Characters per line (Font A: 48 on 80mm, 32 on 58mm)
+  codePage?: number; // ESC t n selecting PC864, printer dependent
+  rtl?: boolean;
+}) => {
+  const { width, codePage = 22, rtl = true } = options;
+  const bytes: number[] = [];
+
+  const builder = {
+    width,
+
+    raw: (...data: number[]) => {
+      bytes.push(...data);
+      return builder;
+    },
+
+    init: () => builder.raw(ESC, 0x40, ESC, 0x74, codePage),
+
+    align: (value: ReceiptAlign) =>
+      builder.raw(ESC, 0x61, value === "left" ? 0 : value === "center" ? 1 : 2),
+
+    bold: (on = true) => builder.raw(ESC, 0x45, on ? 1 : 0),
+
+    // Character size multipliers, 1-8
+    size: (widthScale = 1, heightScale = 1) =>
+      builder.raw(GS, 0x21, ((widthScale - 1) << 4) | (heightScale - 1)),
+
+    /**
+     * A line of text, wrapped to the paper width. Alignment is done by the printer.
+     */
+    line: (text = "") => {
+      wrapText(text, width).forEach((part) => {
+        bytes.push(...encodePc864(toPrintableLine(part)), LF);
+      });
+      return builder;
+    },
+
+    /**
+     * Columns in reading order; the visual order is reversed for rtl receipts
+     */
+    columns: (columns: ReceiptColumn[]) => {
+      const cells = columns.map((col) =>
+        pad(toPrintableLine(col.text), col.width, col.align ?? (rtl ? "right" : "left"))
+      );
+      const visual = (rtl ? cells.reverse() : cells).join("");
+      const aligned = rtl ? pad(visual, width, "right") : visual;
+      bytes.push(...encodePc864(aligned), LF);
+      return builder;
+    },
+
+    /**
+     * Label / value on one line (label on the reading side, value on the other)
+     */
+    pair: (label: string, value: string) => {
+      const valueWidth = Math.max(printedLength(value), 1);
+      return builder.columns([
+        { text: label, width: width - valueWidth - 1 },
+        { text: " ", width: 1 },
+        { text: value, width: valueWidth, align: rtl ? "left" : "right" },
+      ]);
+    },
+
+    divider: (char = "-") => {
+      bytes.push(...encodePc864(char.repeat(width)), LF);
+      return builder;
+    },
+
+    feed: (lines = 1) => builder.raw(ESC, 0x64, lines),
+
+    /**
+     * QR code (model 2) printed with GS ( k
+     */
+    qr: (data: string, moduleSize = 6) => {
+      const payload = Array.from(new TextEncoder().encode(data));
+      const length = payload.length + 3;
+      return builder
+        .raw(GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00)
+        .raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, moduleSize)
+        .raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31) // Error correction M
+        .raw(GS, 0x28, 0x6b, length & 0xff, length >> 8, 0x31, 0x50, 0x30, ...payload)
+        .raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30);
+    },
+
+    /**
+     * Raster bit image (GS v 0)
+     */
+    image: (bitmap: MonoBitmap) => {
+      const bytesPerRow = Math.ceil(bitmap.width / 8);
+      builder.raw(
+        GS, 0x76, 0x30, 0x00,
+        bytesPerRow & 0xff, bytesPerRow >> 8,
+        bitmap.height & 0xff, bitmap.height >> 8
+      );
+      bitmap.data.forEach((b) => bytes.push(b));
+      return builder.raw(LF);
+    },
+
+    // Feed to the cutter and partial cut
+    cut: () => builder.raw(GS, 0x56, 0x42, 0x03),
+
+    // Pulse on drawer pin 2
+    kickDrawer: () => builder.raw(ESC, 0x70, 0x00, 0x19, 0xfa),
+
+    build: () => new Uint8Array(bytes),
+  };
+
+  return builder;
+};
+
+export interface SaleReceiptOptions {
+  paperWidth?: 58 | 80;
+  codePage?: number;
+  logo?: MonoBitmap | null;
+  qrData?: string | null; // Defaults to the e-invoice QR, or the invoice reference without VAT
+  userName?: string;
+  openDrawer?: boolean;
+}
+
+export const RECEIPT_CHARS_PER_LINE: Record<58 | 80, number> = { 58: 32, 80: 48 };
+export const RECEIPT_DOTS_PER_LINE: Record<58 | 80, number> = { 58: 384, 80: 576 };
+
+/**
+ * Render a POS sale as an ESC/POS byte stream (same content as PosInvoicePdf)
+ */
+export const renderSaleReceipt = (
+  sale: OfflineSale,
+  settings: AppSettings | null | undefined,
+  options: SaleReceiptOptions = {}
+): Uint8Array => {
+  const width = RECEIPT_CHARS_PER_LINE[options.paperWidth ?? 80];
+  const printer = createEscPosBuilder({ width, codePage: options.codePage });
+  const reference = sale.invoice_number || (sale.is_synced && sale.id ? String(sale.id) : sale.tempId);
+  const money = (value: number) => formatNumber(value, 2);
+  const vat = vatService.calculate(sale, settings);
+  const isTaxInvoice = zatcaService.isConfigured(settings);
+
+  printer.init().align("center");
+  if (options.logo) printer.image(options.logo);
+  printer
+    .bold()
+    .size(2, 2)
+    .line(settings?.company_name || "")
+    .size()
+    .bold(false);
+  if (isTaxInvoice) printer.line("فاتورة ضريبية مبسطة");
+  if (settings?.company_address) printer.line(settings.company_address);
+  if (settings?.company_phone) printer.line(settings.company_phone);
+  if (settings?.tax_number) printer.line(`الرقم الضريبي: ${settings.tax_number}`);
+  printer
+    .line(`رقم الفاتورة: #${reference}`)
+    .line(new Date(sale.offline_created_at).toLocaleString("en-GB"));
+  if (options.userName) printer.line(`الكاشير: ${options.userName}`);
+
+  const qtyWidth = 6;
+  const amountWidth = 12;
+  const nameWidth = width - qtyWidth - amountWidth;
+  printer.align("right").divider().bold().columns([
+    { text: "الصنف", width: nameWidth },
+    { text: "الكمية", width: qtyWidth, align: "center" },
+    { text: "المبلغ", width: amountWidth, align: "left" },
+  ]).bold(false).divider();
+
+  let subtotal = 0;
+  sale.items.forEach((item, index) => {
+    const lineTotal = promotionService.getLineNet(item);
+    subtotal += lineTotal;
+    const nameLines = wrapText(item.product_name || `Item ${index + 1}`, nameWidth - 1);
+    nameLines.forEach((name, i) =>
+      printer.columns([
+        { text: name, width: nameWidth },
+        { text: i === 0 ? String(item.quantity) : "", width: qtyWidth, align: "center" },
+        { text: i === 0 ? money(lineTotal) : "", width: amountWidth, align: "left" },
+      ])
+    );
+    const lineDiscount = Number(item.discount_amount) || 0;
+    if (lineDiscount > 0) {
+      printer.columns([
+        { text: `  ${item.promotion_name || "خصم"}`, width: nameWidth + qtyWidth },
+        { text: `-${money(lineDiscount)}`, width: amountWidth, align: "left" },
+      ]);
+    }
+  });
+
+  printer.divider().pair("المجموع:", money(subtotal));
+  const discountAmount = Number(sale.discount_amount || 0);
+  if (discountAmount > 0) {
+    const discount =
+      sale.discount_type === "percentage" ? (subtotal * discountAmount) / 100 : discountAmount;
+    printer.pair("الخصم:", money(discount));
+  }
+  if (vat.enabled) {
+    printer.pair("غير شامل الضريبة:", money(vat.net));
+    vat.groups
+      .filter((group) => group.tax > 0)
+      .forEach((group) => printer.pair(`الضريبة ${group.rate}%:`, money(group.tax)));
+  }
+  printer.bold().size(1, 2).pair("الإجمالي:", money(Number(sale.total_amount || 0))).size().bold(false);
+
+  const tender = tenderService.summarize(sale.payments || []);
+  if (tender.applied > 0) {
+    printer.pair("المدفوع:", money(tender.applied));
+    if (tender.rounding !== 0) printer.pair("تقريب:", money(tender.rounding));
+    if (tender.tendered !== tender.applied) printer.pair("المستلم:", money(tender.tendered));
+    if (tender.change > 0) printer.bold().pair("الباقي:", money(tender.change)).bold(false);
+  }
+
+  printer.divider().align("center");
+  // Tax invoices carry the e-invoice QR, other receipts the invoice reference
+  const qrData =
+    options.qrData !== undefined
+      ? options.qrData
+      : isTaxInvoice
+      ? zatcaService.buildQrPayload(sale, settings, vat)
+      : reference;
+  if (qrData) printer.qr(qrData).feed(1);
+  printer.line("شكراً لزيارتكم").feed(3).cut();
+  if (options.openDrawer) printer.kickDrawer();
+
+  return printer.build();
+};
+
+/**
+ * Text rendering of an ESC/POS stream (the subset produced here), to preview a
+ * receipt on screen or assert on it in tests. Lines come out in visual order,
+ * so display them without bidi reordering (unicode-bidi: bidi-override).
+ */
+export const renderEscPosPreview = (bytes: Uint8Array, width = 48): string => {
+  const lines: string[] = [];
+  let current: number[] = [];
+  let align: ReceiptAlign = "left";
+  let qrData: number[] = [];
+
+  const decode = (b: number) =>
+    b < 0x80 ? String.fromCharCode(b) : String.fromCodePoint(PC864_HIGH[b - 0x80] || 0x3f);
+  const flush = () => {
+    lines.push(pad(current.map(decode).join(""), width, align).trimEnd());
+    current = [];
+  };
+
+  for (let i = 0; i < bytes.length; i++) {
+    const b = bytes[i];
+    if (b === LF) {
+      flush();
+    } else if (b === ESC) {
+      const command = bytes[i + 1];
+      if (command === 0x40) i += 1; // init
+      else if (command === 0x61) {
+        const n = bytes[i + 2];
+        align = n === 1 ? "center" : n === 2 ? "right" : "left";
+        i += 2;
+      } else if (command === 0x64) {
+        for (let n = 0; n < bytes[i + 2]; n++) lines.push("");
+        i += 2;
+      } else if (command === 0x70) {
+        lines.push("[DRAWER]");
+        i += 4;
+      } else i += 2; // ESC t n, ESC E n
+    } else if (b === GS) {
+      const command = bytes[i + 1];
+      if (command === 0x21) i += 2;
+      else if (command === 0x56) {
+        lines.push("[CUT]");
+        i += 3;
+      } else if (command === 0x28) {
+        const length = bytes[i + 3] | (bytes[i + 4] << 8);
+        const fn = bytes[i + 6];
+        if (fn === 0x50) qrData = Array.from(bytes.slice(i + 8, i + 5 + length));
+        if (fn === 0x51) lines.push(`[QR ${new TextDecoder().decode(new Uint8Array(qrData))}]`);
+        i += 4 + length;
+      } else if (command === 0x76) {
+        const bytesPerRow = bytes[i + 4] | (bytes[i + 5] << 8);
+        const height = bytes[i + 6] | (bytes[i + 7] << 8);
+        lines.push(`[IMAGE ${bytesPerRow * 8}x${height}]`);
+        i += 7 + bytesPerRow * height;
+      }
+    } else {
+      current.push(b);
+    }
+  }
+  if (current.length) flush();
+  return lines.join("\n");
+};
+
+/**
+ * Load an image (the company logo) and threshold it to a printable bitmap
+ */
+export const loadMonoBitmap = (url: string, maxWidth: number, maxHeight = 160): Promise<MonoBitmap> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => {
+      const scale = Math.min(1, maxWidth / img.width, maxHeight / img.height);
+      const width = Math.max(8, Math.floor((img.width * scale) / 8) * 8);
+      const height = Math.max(1, Math.round(img.height * scale));
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Canvas not available"));
+        return;
+      }
+      ctx.fillStyle = "#fff";
+      ctx.fillRect(0, 0, width, height);
+      ctx.drawImage(img, 0, 0, width, height);
+      const pixels = ctx.getImageData(0, 0, width, height).data;
+
+      const bytesPerRow = width / 8;
+      const data = new Uint8Array(bytesPerRow * height);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const p = (y * width + x) * 4;
+          const luminance = 0.299 * pixels[p] + 0.587 * pixels[p + 1] + 0.114 * pixels[p + 2];
+          if (luminance < 128) data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+        }
+      }
+      resolve({ width, height, data });
+    };
+    img.onerror = () => reject(new Error(`Failed to load image ${url}`));
+    img.src = url;
+  });
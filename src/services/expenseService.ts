@@ -58,6 +58,12 @@ const expenseService = {
     return res.data;
   },
 
+  // Expense booked for e.g. a sale return ("SALE-RETURN-<id>"), if any
+  findExpenseByReference: async (reference: string): Promise<Expense | null> => {
+    const res = await expenseService.getExpenses(1, 15, { search: reference });
+    return res.data.find((e) => e.reference === reference) ?? null;
+  },
+
   getExpense: async (id: number): Promise<Expense> => {
     const res = await apiClient.get<{ expense: Expense }>(`/admin/expenses/${id}`);
     return res.data.expense;
@@ -0,0 +1,200 @@
+// src/services/goodsReceiptService.ts
+import apiClient from "../lib/axios";
+import { preciseCalculation, preciseSum } from "@/constants";
+import type { AppSettings } from "./settingService";
+import type { Purchase, PurchaseItem, PurchaseStatus } from "./purchaseService";
+
+// A goods received note (GRN) line; quantities are in STOCKING units
+export interface GoodsReceiptItem {
+  id: number;
+  purchase_item_id: number;
+  product_id: number;
+  product_name?: string;
+  quantity: number;
+  batch_number: string | null;
+  expiry_date: string | null;
+}
+
+export interface GoodsReceipt {
+  id: number;
+  purchase_id: number;
+  receipt_number: string;
+  received_at: string;
+  notes: string | null;
+  user_name?: string;
+  items: GoodsReceiptItem[];
+}
+
+export interface CreateGoodsReceiptData {
+  received_at: string; // YYYY-MM-DD
+  notes?: string | null;
+  // Each line becomes its own batch on the server
+  items: Array<{
+    purchase_item_id: number;
+    quantity: number;
+    batch_number?: string | null;
+    expiry_date?: string | null;
+  }>;
+}
+
+export interface ReceiptTolerances {
+  over: number; // %
+  under: number; // %
+}
+
+// Receiving state of one PO line
+export interface ReceivingLine {
+  item: PurchaseItem;
+  ordered: number;
+  received: number;
+  outstanding: number; // Backorder, 0 once complete or closed
+  maxReceivable: number; // Outstanding plus over-receipt allowance
+  isComplete: boolean;
+}
+
+export interface PurchaseVarianceRow {
+  purchase_id: number;
+  reference_number: string | null;
+  supplier_name: string | null;
+  purchase_date: string;
+  status: PurchaseStatus;
+  product_id: number;
+  product_name: string;
+  product_sku: string | null;
+  ordered_quantity: number;
+  received_quantity: number;
+  unit_cost: number;
+  backorder_closed: boolean;
+}
+
+export interface PurchaseVarianceFilters {
+  start_date?: string;
+  end_date?: string;
+  only_variances?: boolean;
+}
+
+const goodsReceiptService = {
+  getTolerances: (settings?: AppSettings | null): ReceiptTolerances => ({
+    over: Number(settings?.purchase_over_receipt_tolerance) || 0,
+    under: Number(settings?.purchase_under_receipt_tolerance) || 0,
+  }),
+
+  /**
+   * Ordered vs received per PO line. A line within the under-receipt tolerance,
+   * or with its backorder closed, counts as complete.
+   */
+  buildReceivingLines: (purchase: Purchase, tolerances: ReceiptTolerances): ReceivingLine[] =>
+    (purchase.items || []).map((item) => {
+      const ordered = Number(item.quantity);
+      const received = Number(item.received_quantity) || 0;
+      const minToComplete = preciseCalculation(ordered, 1 - tolerances.under / 100, "multiply", 3);
+      const isComplete = Boolean(item.backorder_closed) || received >= minToComplete;
+      const maxTotal = preciseCalculation(ordered, 1 + tolerances.over / 100, "multiply", 3);
+      return {
+        item,
+        ordered,
+        received,
+        outstanding: isComplete ? 0 : preciseCalculation(ordered, received, "subtract", 3),
+        maxReceivable: item.backorder_closed
+          ? 0
+          : Math.max(0, preciseCalculation(maxTotal, received, "subtract", 3)),
+        isComplete,
+      };
+    }),
+
+  /**
+   * Validates quantities keyed by purchase item id; returns errors keyed the same way.
+   */
+  validateReceipt: (
+    lines: ReceivingLine[],
+    quantities: Record<number, number>
+  ): Record<number, string> => {
+    const errors: Record<number, string> = {};
+    lines.forEach((line) => {
+      const qty = Number(quantities[line.item.id]) || 0;
+      if (qty < 0) {
+        errors[line.item.id] = "الكمية لا يمكن أن تكون سالبة";
+      } else if (qty > line.maxReceivable) {
+        errors[line.item.id] = `الحد الأقصى المسموح ${line.maxReceivable}`;
+      }
+    });
+    return errors;
+  },
+
+  // Status the PO will have once the given quantities are received
+  statusAfterReceipt: (
+    lines: ReceivingLine[],
+    quantities: Record<number, number>,
+    tolerances: ReceiptTolerances
+  ): PurchaseStatus => {
+    const allComplete = lines.every((line) => {
+      if (line.isComplete) return true;
+      const received = preciseSum([line.received, Number(quantities[line.item.id]) || 0], 3);
+      return received >= preciseCalculation(line.ordered, 1 - tolerances.under / 100, "multiply", 3);
+    });
+    return allComplete ? "received" : "partially_received";
+  },
+
+  getReceipts: async (purchaseId: number): Promise<GoodsReceipt[]> => {
+    try {
+      const response = await apiClient.get<{ data: GoodsReceipt[] }>(
+        `/purchases/${purchaseId}/receipts`
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error fetching receipts for purchase ${purchaseId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Records a partial or full receipt; the server creates a batch per line and
+   * updates the PO status.
+   */
+  createReceipt: async (
+    purchaseId: number,
+    data: CreateGoodsReceiptData
+  ): Promise<GoodsReceipt> => {
+    try {
+      const response = await apiClient.post<{ data: GoodsReceipt }>(
+        `/purchases/${purchaseId}/receipts`,
+        data
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error creating receipt for purchase ${purchaseId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Cancels the outstanding quantity of the given lines (all open lines when omitted).
+   */
+  closeBackorder: async (purchaseId: number, purchaseItemIds?: number[]): Promise<Purchase> => {
+    try {
+      const response = await apiClient.post<{ purchase: Purchase }>(
+        `/purchases/${purchaseId}/close-backorder`,
+        { purchase_item_ids: purchaseItemIds }
+      );
+      return response.data.purchase;
+    } catch (error) {
+      console.error(`Error closing backorder for purchase ${purchaseId}:`, error);
+      throw error;
+    }
+  },
+
+  getVarianceReport: async (filters: PurchaseVarianceFilters): Promise<PurchaseVarianceRow[]> => {
+    try {
+      const response = await apiClient.get<{ data: PurchaseVarianceRow[] }>(
+        "/reports/po-variance",
+        { params: filters }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching PO variance report:", error);
+      throw error;
+    }
+  },
+};
+
+export default goodsReceiptService;
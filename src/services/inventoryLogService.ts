@@ -16,6 +16,9 @@ export interface InventoryLogEntry {
   reason_notes: string | null;
   warehouse_id: number;
   warehouse_name: string;
+  // Component movements of a kit sale reference the kit sold
+  kit_product_id?: number | null;
+  kit_product_name?: string | null;
 }
 
 const inventoryLogService = {
@@ -0,0 +1,79 @@
+// src/services/kitService.ts
+import type { KitComponent, Product } from "./productService";
+
+// Bill of materials edited in the product form
+export interface KitSetup {
+  enabled: boolean;
+  components: KitComponent[];
+}
+
+export const EMPTY_KIT_SETUP: KitSetup = { enabled: false, components: [] };
+
+const kitService = {
+  isKit: (product?: Pick<Product, "is_kit" | "kit_components"> | null): boolean =>
+    Boolean(product?.is_kit && product.kit_components?.length),
+
+  /**
+   * Whole kits the component stock can assemble, or null when a component's
+   * stock is unknown. `stockOf` returns sellable units of a component.
+   */
+  availableKits: (
+    components: KitComponent[],
+    stockOf: (component: KitComponent) => number | null | undefined
+  ): number | null => {
+    if (components.length === 0) return null;
+    let available = Infinity;
+    for (const component of components) {
+      const stock = stockOf(component);
+      if (stock == null) return null;
+      const perKit = Number(component.quantity) || 0;
+      if (perKit <= 0) continue;
+      available = Math.min(available, Math.floor(Math.max(0, Number(stock)) / perKit));
+    }
+    return Number.isFinite(available) ? available : null;
+  },
+
+  /**
+   * Copy of a kit with its stock computed from the components. Uses the
+   * component stock sent by the server unless `stockOf` is given (offline cache).
+   */
+  withAvailability: (
+    product: Product,
+    stockOf?: (componentId: number) => number | null | undefined
+  ): Product => {
+    if (!kitService.isKit(product)) return product;
+    const available = kitService.availableKits(product.kit_components!, (component) =>
+      stockOf ? stockOf(component.component_id) : component.component_stock
+    );
+    if (available == null) return product;
+    return { ...product, stock_quantity: available, current_stock_quantity: available };
+  },
+
+  /**
+   * Component quantities (sellable units) moved by `quantity` kits.
+   */
+  expand: (product: Product, quantity: number): { product_id: number; quantity: number }[] =>
+    (product.kit_components ?? []).map((component) => ({
+      product_id: component.component_id,
+      quantity: quantity * (Number(component.quantity) || 0),
+    })),
+
+  /**
+   * Returns an error message, or null when the components can be saved.
+   */
+  validateSetup: (setup: KitSetup, kitId?: number | null): string | null => {
+    if (!setup.enabled) return null;
+    if (setup.components.length === 0) return "أضف مكوناً واحداً على الأقل للطقم";
+    if (kitId && setup.components.some((c) => c.component_id === kitId)) {
+      return "لا يمكن إضافة الطقم كمكون لنفسه";
+    }
+    const invalid = setup.components.find((c) => !(Number(c.quantity) > 0));
+    if (invalid) return `كمية المكون غير صحيحة: ${invalid.component_name ?? invalid.component_id}`;
+    return null;
+  },
+
+  toPayload: (setup: KitSetup): Pick<KitComponent, "component_id" | "quantity">[] =>
+    setup.components.map((c) => ({ component_id: c.component_id, quantity: Number(c.quantity) })),
+};
+
+export default kitService;
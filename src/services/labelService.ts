@@ -0,0 +1,192 @@
+// src/services/labelService.ts
+import { PDF_FONTS } from "@/utils/pdfFontRegistry";
+import type { BarcodeSymbology } from "@/utils/barcodeEncoder";
+import type { AppSettings } from "./settingService";
+import type { Product } from "./productService";
+import type { PurchaseItem } from "./purchaseService";
+
+export type LabelField = "company" | "name" | "barcode" | "sku" | "price" | "unit" | "batch" | "expiry";
+
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  kind: "product" | "shelf"; // Shelf-edge labels print the price large
+  width_mm: number;
+  height_mm: number;
+  // "roll": one label per page (thermal label printers), "a4": labels tiled on A4 sheets
+  sheet: "roll" | "a4";
+  font_family: string;
+  font_size: number; // Points, the price is scaled up from it
+  symbology: BarcodeSymbology | "auto";
+  fields: LabelField[];
+}
+
+// One distinct label and how many copies to print
+export interface LabelItem {
+  key: string;
+  name: string;
+  sku: string | null;
+  barcode: string | null; // Encoded value, falls back to the SKU
+  price: number | null; // Per SELLABLE unit
+  unit_name: string | null;
+  batch_number: string | null;
+  expiry_date: string | null;
+  copies: number;
+}
+
+// Product fields a label needs; list rows carry prices as strings
+export type LabelProduct = Pick<
+  Product,
+  "id" | "name" | "sku" | "sellable_unit_name" | "barcodes" | "last_sale_price_per_sellable_unit"
+> & { suggested_sale_price_per_sellable_unit?: string | number | null };
+
+export const LABEL_FIELDS: Record<LabelField, string> = {
+  company: "اسم المنشأة",
+  name: "اسم المنتج",
+  barcode: "الباركود",
+  sku: "SKU",
+  price: "السعر",
+  unit: "الوحدة",
+  batch: "رقم الدفعة",
+  expiry: "تاريخ الانتهاء",
+};
+
+export const DEFAULT_LABEL_TEMPLATES: LabelTemplate[] = [
+  {
+    id: "product-50x25",
+    name: "ملصق منتج 50×25 مم",
+    kind: "product",
+    width_mm: 50,
+    height_mm: 25,
+    sheet: "roll",
+    font_family: PDF_FONTS.TAJAWAL,
+    font_size: 7,
+    symbology: "auto",
+    fields: ["name", "barcode", "price"],
+  },
+  {
+    id: "product-a4-65",
+    name: "ورق A4 (38×21 مم)",
+    kind: "product",
+    width_mm: 38,
+    height_mm: 21,
+    sheet: "a4",
+    font_family: PDF_FONTS.TAJAWAL,
+    font_size: 6,
+    symbology: "auto",
+    fields: ["name", "barcode", "price"],
+  },
+  {
+    id: "shelf-70x35",
+    name: "ملصق رف 70×35 مم",
+    kind: "shelf",
+    width_mm: 70,
+    height_mm: 35,
+    sheet: "a4",
+    font_family: PDF_FONTS.TAJAWAL,
+    font_size: 9,
+    symbology: "auto",
+    fields: ["name", "price", "unit", "barcode"],
+  },
+];
+
+export const MM_TO_PT = 72 / 25.4;
+export const A4_SIZE_MM = { width: 210, height: 297 };
+export const A4_MARGIN_MM = 8;
+export const LABEL_GAP_MM = 2;
+// A purchase line defaults to at most this many labels; the user can raise it
+export const MAX_DEFAULT_COPIES = 100;
+const ROLL_PREVIEW_LABELS = 4;
+
+const labelService = {
+  /**
+   * Saved templates from the app settings, or the built-in defaults.
+   */
+  getTemplates: (settings?: AppSettings | null): LabelTemplate[] =>
+    settings?.label_templates?.length ? settings.label_templates : DEFAULT_LABEL_TEMPLATES,
+
+  newTemplate: (kind: LabelTemplate["kind"]): LabelTemplate => ({
+    ...(kind === "shelf" ? DEFAULT_LABEL_TEMPLATES[2] : DEFAULT_LABEL_TEMPLATES[0]),
+    id: `custom-${Date.now()}`,
+    name: kind === "shelf" ? "ملصق رف جديد" : "ملصق منتج جديد",
+  }),
+
+  isValidTemplate: (template: LabelTemplate): boolean =>
+    template.width_mm >= 10 && template.height_mm >= 10 && template.font_size >= 4,
+
+  /**
+   * The first labels only (one A4 sheet, or a few roll labels): enough to check
+   * the layout without rendering every copy.
+   */
+  getPreviewItems: (template: LabelTemplate, items: LabelItem[]): LabelItem[] => {
+    const { columns, rows } = labelService.getSheetGrid(template);
+    let remaining = template.sheet === "a4" ? columns * rows : ROLL_PREVIEW_LABELS;
+    const preview: LabelItem[] = [];
+    for (const item of items) {
+      const copies = Math.min(Math.max(0, Math.floor(item.copies)), remaining);
+      if (copies > 0) preview.push({ ...item, copies });
+      remaining -= copies;
+      if (remaining <= 0) break;
+    }
+    return preview;
+  },
+
+  // Labels per row and rows per A4 sheet for a template
+  getSheetGrid: (template: LabelTemplate): { columns: number; rows: number } => {
+    const fit = (available: number, size: number) =>
+      Math.max(1, Math.floor((available + LABEL_GAP_MM) / (size + LABEL_GAP_MM)));
+    return {
+      columns: fit(A4_SIZE_MM.width - A4_MARGIN_MM * 2, template.width_mm),
+      rows: fit(A4_SIZE_MM.height - A4_MARGIN_MM * 2, template.height_mm),
+    };
+  },
+
+  /**
+   * A purchase line; copies default to the quantity in SELLABLE units
+   * (received so far when the PO is being received), capped at MAX_DEFAULT_COPIES.
+   */
+  fromPurchaseItem: (item: PurchaseItem): LabelItem => {
+    const unitsPerStocking = Number(item.product?.units_per_stocking_unit) || 1;
+    const stockingQty = Number(item.received_quantity) || Number(item.quantity) || 0;
+    return {
+      key: `purchase-item-${item.id}`,
+      name: item.product_name || item.product?.name || "",
+      sku: item.product_sku ?? item.product?.sku ?? null,
+      barcode: labelService.getSellableBarcode(item.product) ?? item.product_sku ?? null,
+      price: item.sale_price != null ? Number(item.sale_price) : null,
+      unit_name: item.product?.sellable_unit_name ?? null,
+      batch_number: item.batch_number,
+      expiry_date: item.expiry_date,
+      copies: Math.min(MAX_DEFAULT_COPIES, Math.ceil(stockingQty * unitsPerStocking)),
+    };
+  },
+
+  fromProduct: (product: LabelProduct): LabelItem => {
+    const price =
+      product.suggested_sale_price_per_sellable_unit ?? product.last_sale_price_per_sellable_unit;
+    return {
+      key: `product-${product.id}`,
+      name: product.name,
+      sku: product.sku,
+      barcode: labelService.getSellableBarcode(product) ?? product.sku,
+      price: price != null ? Number(price) : null,
+      unit_name: product.sellable_unit_name ?? null,
+      batch_number: null,
+      expiry_date: null,
+      copies: 1,
+    };
+  },
+
+  // A barcode scanning one sellable unit, preferred over the SKU on labels
+  getSellableBarcode: (product?: Pick<Product, "barcodes"> | null): string | null =>
+    product?.barcodes?.find((b) => b.unit_type === "sellable" && Number(b.quantity) === 1)
+      ?.barcode ?? null,
+
+  // One entry per printed label
+  expand: (items: LabelItem[]): LabelItem[] =>
+    items.flatMap((item) =>
+      new Array<LabelItem>(Math.max(0, Math.floor(Number(item.copies) || 0))).fill(item)
+    ),
+};
+
+export default labelService;
@@ -1,7 +1,12 @@
-import { dbService, OfflineSale, OfflineSaleItem } from "./db";
-import saleService, { CreateSaleData } from "./saleService";
+import axios from "axios";
+import { dbService, OfflineSale, OfflineSaleReturn } from "./db";
 import productService, { Product } from "./productService";
-import clientService from "./clientService";
+import clientService, { Client } from "./clientService";
+import { offlineSyncEngine } from "./offlineSyncEngine";
+import { stockLedgerService } from "./stockLedgerService";
+import { productSearchIndex } from "./productSearchIndex";
+import { vatService, VatSettings } from "./vatService";
+import { promotionService } from "./promotionService";
 // import { v4 as uuidv4 } from 'uuid'; // Removed: using fallback
 
 // Simple UUID fallback if package not available
@@ -9,14 +14,140 @@ const generateId = () => {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 };
 
+export interface CatalogSyncProgress {
+  entity: "products" | "clients";
+  loaded: number;
+  total: number | null; // Unknown for incremental pages without a total
+}
+
+const CLIENTS_CURSOR_KEY = "sync_cursor:clients";
+
+// Deleted or deactivated products must never be sold offline
+const isTombstone = (p: Product) => p.is_active === false || !!p.deleted_at;
+
+// Newest updated_at in a batch, used as the cursor when the server sends none
+const latestUpdatedAt = (records: { updated_at?: string }[]): string | null =>
+  records.reduce<string | null>((latest, r) => {
+    if (!r.updated_at) return latest;
+    return !latest || new Date(r.updated_at) > new Date(latest)
+      ? r.updated_at
+      : latest;
+  }, null);
+
+/**
+ * Apply GET /products/changes pages to the cache and advance the cursor.
+ */
+const syncProductChanges = async (
+  cursor: string,
+  cursorKey: string,
+  warehouseId?: number,
+  onProgress?: (progress: CatalogSyncProgress) => void
+) => {
+  let page = 1;
+  let lastPage = 1;
+  let loaded = 0;
+  // The first page's server_time marks the snapshot; later changes come next time
+  let serverTime: string | null = null;
+  let newestSeen: string | null = null;
+  const changedIds: number[] = [];
+
+  do {
+    const response = await productService.getProductChanges(
+      cursor,
+      page,
+      1000,
+      warehouseId
+    );
+    const changed = response.data || [];
+    const live = changed.filter((p) => !isTombstone(p));
+    const deletedIds = [
+      ...(response.deleted_ids || []),
+      ...changed.filter(isTombstone).map((p) => p.id),
+    ];
+
+    await dbService.saveProducts(live);
+    await dbService.deleteProducts(deletedIds);
+    changedIds.push(...live.map((p) => p.id));
+
+    serverTime = serverTime ?? response.server_time ?? null;
+    newestSeen = latestUpdatedAt([{ updated_at: newestSeen ?? undefined }, ...changed]);
+
+    loaded += changed.length + (response.deleted_ids?.length || 0);
+    lastPage = response.meta?.last_page ?? 1;
+    onProgress?.({
+      entity: "products",
+      loaded,
+      total: response.meta?.total ?? null,
+    });
+    page++;
+  } while (page <= lastPage);
+
+  if (changedIds.length > 0) {
+    await stockLedgerService.reconcile(changedIds);
+  }
+  console.log(`Delta sync: ${loaded} product changes since ${cursor}`);
+  await dbService.setSettingValue(cursorKey, serverTime ?? newestSeen ?? cursor);
+};
+
+/**
+ * Apply GET /clients/changes pages to the cache and advance the cursor.
+ */
+const syncClientChanges = async (
+  cursor: string,
+  onProgress?: (progress: CatalogSyncProgress) => void
+) => {
+  let page = 1;
+  let lastPage = 1;
+  let loaded = 0;
+  let serverTime: string | null = null;
+  let newestSeen: string | null = null;
+
+  do {
+    const response = await clientService.getClientChanges(cursor, page);
+    const changed = response.data || [];
+    await dbService.saveClients(changed);
+    await dbService.deleteClients(response.deleted_ids || []);
+
+    serverTime = serverTime ?? response.server_time ?? null;
+    newestSeen = latestUpdatedAt([{ updated_at: newestSeen ?? undefined }, ...changed]);
+    loaded += changed.length + (response.deleted_ids?.length || 0);
+    lastPage = response.last_page ?? 1;
+    onProgress?.({ entity: "clients", loaded, total: null });
+    page++;
+  } while (page <= lastPage);
+
+  await dbService.setSettingValue(
+    CLIENTS_CURSOR_KEY,
+    serverTime ?? newestSeen ?? cursor
+  );
+};
+
 export const offlineSaleService = {
   // --- Initialization & Sync ---
 
   /**
-   * Initialize local DB with products from backend
+   * Bring the local products cache up to date. Uses the "changed since" cursor
+   * stored in the settings store when there is one, otherwise downloads everything.
    */
-  initializeProducts: async (warehouseId?: number) => {
+  initializeProducts: async (
+    warehouseId?: number,
+    onProgress?: (progress: CatalogSyncProgress) => void
+  ) => {
+    const cursorKey = `sync_cursor:products:${warehouseId ?? "all"}`;
     try {
+      const cursor = await dbService.getSettingValue<string>(cursorKey);
+      if (cursor) {
+        try {
+          await syncProductChanges(cursor, cursorKey, warehouseId, onProgress);
+          return true;
+        } catch (error) {
+          // Backend without /products/changes: fall back to a full download
+          if (!axios.isAxiosError(error) || error.response?.status !== 404) {
+            throw error;
+          }
+        }
+      }
+
       // Fetch all products by looping through all pages
       let page = 1;
       let hasMore = true;
@@ -38,6 +169,11 @@ export const offlineSaleService = {
 
         if (response && response.data) {
           allProducts.push(...response.data);
+          onProgress?.({
+            entity: "products",
+            loaded: allProducts.length,
+            total: response.meta?.total ?? null,
+          });
 
           // Check if there are more pages
           if (response.meta && response.meta.current_page < response.meta.last_page) {
@@ -50,12 +186,25 @@ export const offlineSaleService = {
         }
       }
 
+      const liveProducts = allProducts.filter((p) => !isTombstone(p));
+
+      // Drop cached products the server no longer returns (deleted/deactivated)
+      const liveIds = new Set(liveProducts.map((p) => p.id));
+      const cached = await dbService.getAllProducts();
+      await dbService.deleteProducts(
+        cached.map((p) => p.id).filter((id) => !liveIds.has(id))
+      );
+
       // Save all products to IndexedDB
-      if (allProducts.length > 0) {
-        await dbService.saveProducts(allProducts);
-        console.log(`Successfully cached ${allProducts.length} products`);
+      if (liveProducts.length > 0) {
+        await dbService.saveProducts(liveProducts);
+        await stockLedgerService.reconcile(liveProducts.map((p) => p.id));
+        console.log(`Successfully cached ${liveProducts.length} products`);
       }
 
+      const nextCursor = latestUpdatedAt(allProducts);
+      if (nextCursor) await dbService.setSettingValue(cursorKey, nextCursor);
+
       return true;
     } catch (error) {
       console.error("Failed to initialize products offline cache:", error);
@@ -64,16 +213,37 @@ export const offlineSaleService = {
   },
 
   /**
-   * Initialize local DB with clients from backend
+   * Bring the local clients cache up to date (incrementally when a cursor exists)
    */
-  initializeClients: async () => {
+  initializeClients: async (
+    onProgress?: (progress: CatalogSyncProgress) => void
+  ) => {
     try {
+      const cursor = await dbService.getSettingValue<string>(CLIENTS_CURSOR_KEY);
+      if (cursor) {
+        try {
+          await syncClientChanges(cursor, onProgress);
+          return true;
+        } catch (error) {
+          if (!axios.isAxiosError(error) || error.response?.status !== 404) {
+            throw error;
+          }
+        }
+      }
+
       let page = 1;
       let hasMore = true;
+      const allClients: Client[] = [];
       while (hasMore) {
         const response = await clientService.getClients(page);
         if (response && response.data) {
           await dbService.saveClients(response.data);
+          allClients.push(...response.data);
+          onProgress?.({
+            entity: "clients",
+            loaded: allClients.length,
+            total: response.total ?? null,
+          });
           if (response.current_page < response.last_page) {
             page++;
           } else {
@@ -83,6 +253,16 @@ export const offlineSaleService = {
           hasMore = false;
         }
       }
+
+      // Drop cached clients that were deleted on the server
+      const liveIds = new Set(allClients.map((c) => c.id));
+      const cached = await dbService.getAllClients();
+      await dbService.deleteClients(
+        cached.map((c) => c.id).filter((id: number) => !liveIds.has(id))
+      );
+
+      const nextCursor = latestUpdatedAt(allClients);
+      if (nextCursor) await dbService.setSettingValue(CLIENTS_CURSOR_KEY, nextCursor);
       return true;
     } catch (error) {
       console.error("Failed to initialize clients offline cache:", error);
@@ -91,176 +271,26 @@ export const offlineSaleService = {
   },
 
   /**
-   * Process the sync queue
+   * Process the sync queue (see offlineSyncEngine for retry/dead-letter rules)
    */
-  processSyncQueue: async (onError?: (error: any) => void) => {
-    const pendingActions = await dbService.getPendingSyncActions();
-    const results: { id: number; success: boolean; error?: any }[] = [];
-    if (pendingActions.length === 0) return { results, updatedProducts: [] };
-
-    console.log(`Processing ${pendingActions.length} offline actions...`);
-
-    const productsToUpdate = new Set<number>();
-
-    for (const action of pendingActions) {
-      if (!action.id) continue;
-
-      try {
-        if (action.type === "CREATE_SALE") {
-          const offlineSale = action.payload as OfflineSale;
-
-          // Convert OfflineSale to CreateSaleData for backend
-          // Backend expects quantities in sellable units, so convert if needed
-          const saleData: CreateSaleData = {
-            client_id: offlineSale.client_id,
-            sale_date: offlineSale.sale_date,
-            status: "completed", // POS sales are usually completed
-            notes: offlineSale.notes,
-            shift_id: offlineSale.shift_id ?? null, // Explicitly send null for days mode
-            discount_amount: offlineSale.discount_amount ? Number(offlineSale.discount_amount) : undefined,
-            discount_type: offlineSale.discount_type || undefined,
-            items: offlineSale.items.map((item) => {
-              const product = item.product as Product;
-              const unitType = (item as any).unitType || "sellable";
-              const unitsPerStocking = product?.units_per_stocking_unit || 1;
-
-              // Convert quantity to sellable units if needed
-              let quantityInSellable = item.quantity;
-              let unitPriceInSellable = Number(item.unit_price);
-
-              if (unitType === "stocking") {
-                // Convert from stocking units to sellable units
-                quantityInSellable = item.quantity * unitsPerStocking;
-                // Price is per stocking unit, convert to per sellable unit
-                unitPriceInSellable =
-                  Number(item.unit_price) / unitsPerStocking;
-              }
-
-              return {
-                product_id: item.product_id,
-                quantity: quantityInSellable,
-                unit_price: unitPriceInSellable,
-                purchase_item_id: item.purchase_item_id,
-              };
-            }),
-            payments: offlineSale.payments
-              ?.filter((p) => Number(p.amount) > 0)
-              .map((p) => ({
-                method: p.method,
-                amount: p.amount,
-                payment_date: p.payment_date
-                  ? p.payment_date.split("T")[0]
-                  : new Date().toISOString().split("T")[0],
-                notes: p.notes,
-              })),
-          };
-
-          console.log("[Discount] Syncing sale to backend with discount:", {
-            discount_amount: saleData.discount_amount,
-            discount_type: saleData.discount_type,
-            tempId: offlineSale.tempId,
-          });
-
-          const createdSale = await saleService.createSale(saleData);
-          
-          console.log("[Discount] Sale synced successfully, response:", {
-            id: createdSale.id,
-            discount_amount: createdSale.discount_amount,
-            discount_type: createdSale.discount_type,
-          });
-
-          // If successful, update local pending sale to synced
-          // Merge payments: prefer backend payments but ensure method field is preserved
-          // Match payments by amount and date to preserve method from offline payments if backend is missing it
-          const backendPayments = createdSale.payments || [];
-          const offlinePayments = offlineSale.payments || [];
-          
-          const mergedPayments = backendPayments.map((backendPayment: any) => {
-            // Try to find matching offline payment by amount and date
-            const matchingOfflinePayment = offlinePayments.find(
-              (offlinePayment: any) =>
-                Number(offlinePayment.amount) === Number(backendPayment.amount) &&
-                offlinePayment.payment_date === backendPayment.payment_date
-            );
-            
-            return {
-              ...backendPayment,
-              method: backendPayment.method || matchingOfflinePayment?.method || 'cash', // Ensure method is always present
-            };
-          });
-          
-          // If backend didn't return payments but we have offline payments, use offline payments
-          const finalPayments = mergedPayments.length > 0 ? mergedPayments : offlinePayments.map((p: any) => ({
-            ...p,
-            method: p.method || 'cash', // Ensure method is always present
-          }));
-          
-          const syncedSale: OfflineSale = {
-            ...offlineSale,
-            is_synced: true,
-            id: createdSale.id,
-            invoice_number: createdSale.invoice_number,
-            sale_order_number: createdSale.sale_order_number ?? null,
-            payments: finalPayments,
-            paid_amount: createdSale.paid_amount || offlineSale.paid_amount || 0, // Update paid_amount from server
-          };
-          await dbService.savePendingSale(syncedSale);
-
-          await dbService.removeSyncAction(action.id);
-          results.push({ id: action.id, success: true });
-
-          // Collect product IDs to update cache
-          if (offlineSale.items && offlineSale.items.length > 0) {
-            offlineSale.items.forEach((item) =>
-              productsToUpdate.add(item.product_id)
-            );
-          }
-        }
-      } catch (error: any) {
-        console.error("Sync action failed:", action, error);
-        results.push({ id: action.id, success: false, error });
-        if (onError) onError(error);
-        // Implement retry logic or mark as failed
-      }
-    }
-
-    // Batch update cached products for synced items
-    let updatedProductsList: Product[] = [];
-    if (productsToUpdate.size > 0) {
-      try {
-        const idsToFetch = Array.from(productsToUpdate);
-        console.log("Updating local cache for synced products:", idsToFetch);
-        // Fetch fresh data for these products
-        const updatedProducts = await productService.getProductsByIds(
-          idsToFetch
-        );
-
-        if (updatedProducts && updatedProducts.length > 0) {
-          await dbService.saveProducts(updatedProducts);
-          console.log(
-            `Successfully updated ${updatedProducts.length} products in local cache.`
-          );
-          updatedProductsList = updatedProducts;
-        }
-      } catch (updateError) {
-        console.error(
-          "Failed to update product cache after sync:",
-          updateError
-        );
-        // Don't fail the sync result just because cache update failed, but log it
-      }
-    }
-
-    return { results, updatedProducts: updatedProductsList };
+  processSyncQueue: async (
+    onError?: (error: unknown) => void,
+    options: { force?: boolean } = {}
+  ) => {
+    return offlineSyncEngine.processQueue({
+      force: options.force,
+      onError: onError ? (error) => onError(error) : undefined,
+    });
   },
 
   // --- POS Operations (Frontend First) ---
 
   /**
-   * Search products from local DB
+   * Search products from local DB, with stock held by unsynced sales deducted
    */
   searchProducts: async (query: string): Promise<Product[]> => {
-    return dbService.searchProducts(query);
+    const products = await dbService.searchProducts(query);
+    return stockLedgerService.applyReservations(products);
   },
 
   getProductById: async (id: number): Promise<Product | undefined> => {
@@ -268,7 +298,29 @@ export const offlineSaleService = {
     // For now, if dbService doesn't expose it, we might need to add it there.
     // But let's assume we can add it to dbService or use search for now if we can't edit db.ts easily.
     // Actually, I can edit db.ts.
-    return dbService.getProduct(id);
+    const product = await dbService.getProduct(id);
+    if (!product) return undefined;
+    const [withReservations] = await stockLedgerService.applyReservations([
+      product,
+    ]);
+    return withReservations;
+  },
+
+  /**
+   * Resolve scanner input to a cached product. Tries the `sku` index first,
+   * then the search index (which ignores case/whitespace/Arabic-Indic digits).
+   */
+  findProductByBarcode: async (code: string): Promise<Product | undefined> => {
+    let product = await dbService.getProductByBarcode(code);
+    if (!product && productSearchIndex.isBuilt()) {
+      const [id] = productSearchIndex.findByCode(code);
+      if (id !== undefined) product = await dbService.getProduct(id);
+    }
+    if (!product) return undefined;
+    const [withReservations] = await stockLedgerService.applyReservations([
+      product,
+    ]);
+    return withReservations;
   },
 
   searchClients: async (query: string) => {
@@ -278,12 +330,17 @@ export const offlineSaleService = {
   /**
    * Create a new temporary sale object
    */
-  createDraftSale: (shiftId: number | null = null, userId: number | null = null): OfflineSale => {
+  createDraftSale: (
+    shiftId: number | null = null,
+    userId: number | null = null,
+    warehouseId: number | null = null
+  ): OfflineSale => {
     return {
       tempId: generateId(),
       offline_created_at: Date.now(),
       is_synced: false,
       shift_id: shiftId,
+      warehouse_id: warehouseId,
       sale_date: new Date().toISOString().split("T")[0],
       total_amount: 0,
       paid_amount: 0,
@@ -300,15 +357,29 @@ export const offlineSaleService = {
   },
 
   /**
-   * Calculate totals (simple version)
+   * Calculate totals (simple version). Promotions are re-evaluated for unsynced
+   * sales, at the time the sale was started so the result doesn't drift while the
+   * cart is open. With VAT enabled the VAT is kept on the sale, and added to the
+   * total when prices are entered tax-exclusive.
    */
-  calculateTotals: (sale: OfflineSale): OfflineSale => {
+  calculateTotals: (
+    sale: OfflineSale,
+    vatSettings?: Partial<VatSettings> | null
+  ): OfflineSale => {
+    if (!sale.is_synced) {
+      sale = {
+        ...sale,
+        items: promotionService.applyToItems(sale.items, {
+          client_id: sale.client_id,
+          at: sale.offline_created_at,
+        }),
+      };
+    }
+
     let total = 0;
     sale.items.forEach((item) => {
-      // ensure numbers
-      const price = Number(item.unit_price);
-      const qty = Number(item.quantity);
-      total += price * qty;
+      // Line total after its promotion / manual discount
+      total += promotionService.getLineNet(item);
     });
 
     // Apply discount if needed (simple implementation)
@@ -321,9 +392,26 @@ export const offlineSaleService = {
       }
     }
 
+    let taxAmount: number | undefined;
+    let items = sale.items;
+    if (vatService.isEnabled(vatSettings)) {
+      const breakdown = vatService.calculate(sale, vatSettings);
+      taxAmount = breakdown.tax;
+      finalTotal = breakdown.gross;
+      // Keep the rate each line is sold at, and its share of the VAT
+      items = sale.items.map((item, index) => ({
+        ...item,
+        tax_category: breakdown.lines[index].category,
+        tax_rate: breakdown.lines[index].rate,
+        tax_amount: breakdown.lines[index].tax,
+      }));
+    }
+
     const result = {
       ...sale,
+      items,
       total_amount: finalTotal > 0 ? finalTotal : 0,
+      tax_amount: taxAmount,
       // Explicitly preserve discount fields to ensure they're not lost
       discount_amount: sale.discount_amount,
       discount_type: sale.discount_type,
@@ -343,7 +431,12 @@ export const offlineSaleService = {
    */
   completeSale: async (sale: OfflineSale) => {
     // 1. Save to Pending Sales (History)
-    const completedSale = { ...sale, status: "completed" as const };
+    const completedSale: OfflineSale = {
+      ...sale,
+      status: "completed",
+      sync_state: "queued",
+      sync_error: null,
+    };
     await dbService.savePendingSale(completedSale);
 
     // 2. Add to Sync Queue
@@ -360,8 +453,9 @@ export const offlineSaleService = {
     if (backendAccessible) {
       const { results } = await offlineSaleService.processSyncQueue();
       const myResult = results.find((r) => r.id === queueId);
-      if (myResult && !myResult.success) {
-        // Pass the error up so UI can show it
+      // The sale is queued: retryable failures (network, server, shift not synced
+      // yet) sync later. Only a rejected sale is passed up so the UI can show it.
+      if (myResult && !myResult.success && myResult.status === "dead_letter") {
         throw myResult.error || new Error("Sync failed");
       }
     }
@@ -369,6 +463,62 @@ export const offlineSaleService = {
     return completedSale;
   },
 
+  /**
+   * Record a return locally (stock goes back to the cache right away through the
+   * stock ledger) and queue CREATE_SALE_RETURN. Works for sales that only exist
+   * locally: the server sale id is resolved when the return syncs.
+   */
+  createSaleReturn: async (
+    data: Omit<OfflineSaleReturn, "tempId" | "offline_created_at" | "is_synced">
+  ): Promise<OfflineSaleReturn> => {
+    const saleReturn: OfflineSaleReturn = {
+      ...data,
+      tempId: generateId(),
+      offline_created_at: Date.now(),
+      is_synced: false,
+      sync_state: "queued",
+      sync_error: null,
+    };
+    await dbService.saveSaleReturn(saleReturn);
+
+    const queueId = await dbService.addToSyncQueue({
+      type: "CREATE_SALE_RETURN",
+      payload: { tempId: saleReturn.tempId },
+    });
+
+    const { backendHealthService } = await import("./backendHealthService");
+    if (await backendHealthService.checkBackendAccessible()) {
+      const { results } = await offlineSaleService.processSyncQueue();
+      const myResult = results.find((r) => r.id === queueId);
+      // Retryable failures (e.g. the sale isn't synced yet) stay queued
+      if (myResult && !myResult.success && myResult.status === "dead_letter") {
+        throw myResult.error || new Error("Sync failed");
+      }
+    }
+
+    return (await dbService.getSaleReturn(saleReturn.tempId)) ?? saleReturn;
+  },
+
+  /**
+   * Quantities already returned locally per line of a sale (by line_index)
+   */
+  getReturnedQuantities: async (sale: OfflineSale): Promise<Record<number, number>> => {
+    const returns = await dbService.getAllSaleReturns();
+    const returned: Record<number, number> = {};
+    returns
+      .filter(
+        (r) =>
+          r.sale_tempId === sale.tempId ||
+          (sale.id != null && r.original_sale_id === sale.id)
+      )
+      .forEach((r) =>
+        r.items.forEach((item) => {
+          returned[item.line_index] = (returned[item.line_index] || 0) + item.quantity_returned;
+        })
+      );
+    return returned;
+  },
+
   /**
    * Save a draft sale without completing or syncing it
    */
@@ -389,8 +539,8 @@ export const offlineSaleService = {
     await dbService.deletePendingSale(tempId);
 
     // 2. Remove from Sync Queue if present
-    // We need to check both pending and processing/failed actions
-    const allActions = await dbService.getPendingSyncActions();
+    // We need to check pending, failed and dead-lettered actions
+    const allActions = await dbService.getAllSyncActions();
     const actionToRemove = allActions.find(
       (a) =>
         a.type === "CREATE_SALE" && (a.payload as OfflineSale).tempId === tempId
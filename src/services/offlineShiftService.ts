@@ -0,0 +1,263 @@
+// src/services/offlineShiftService.ts
+import axios from "axios";
+import { preciseCalculation } from "@/constants";
+import { dbService, OfflineSaleReturn, OfflineShift } from "./db";
+import shiftService, { Shift } from "./shiftService";
+import { CashMovement, CashMovementType, DrawerCount } from "./cashDrawerService";
+
+// Simple UUID fallback (same as offlineSaleService)
+const generateId = () => {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+};
+
+// No response at all: backend unreachable, the event has to be queued
+const isNetworkError = (error: unknown) =>
+  axios.isAxiosError(error) && !error.response;
+
+// Local shift by the id sales reference; sales queued before OPEN_SHIFT synced
+// still carry the placeholder id
+const findShift = async (id: number): Promise<OfflineShift | undefined> =>
+  (await dbService.getShiftById(id)) ??
+  (id < 0 ? await dbService.getShiftByPlaceholderId(id) : undefined);
+
+// Server state of a shift, keeping the drawer data recorded on this terminal
+const toOfflineShift = (shift: Shift, existing?: OfflineShift): OfflineShift => ({
+  opening_float: Number(shift.opening_float ?? 0),
+  cash_movements: [],
+  closing_count: null,
+  ...existing,
+  localId: existing?.localId ?? generateId(),
+  id: shift.id,
+  server_id: shift.id,
+  user_id: shift.user_id ?? null,
+  opened_at: shift.opened_at,
+  closed_at: shift.closed_at,
+  is_open: shift.is_open,
+  pending_open: false,
+  pending_close: false,
+});
+
+/**
+ * Shifts as first-class offline entities.
+ *
+ * Opening/closing works without the backend: the shift is stored in IndexedDB and
+ * OPEN_SHIFT / CLOSE_SHIFT actions are queued. A shift opened offline has a negative
+ * placeholder id that sales use as shift_id; when OPEN_SHIFT syncs, the shift and
+ * its sales are remapped to the server id (see offlineSyncEngine).
+ */
+export const offlineShiftService = {
+  /**
+   * Most recently opened shift known locally
+   */
+  getCurrentShift: async (): Promise<OfflineShift | null> => {
+    const shifts = await dbService.getAllShifts();
+    if (shifts.length === 0) return null;
+    return shifts.reduce((latest, s) =>
+      new Date(s.opened_at ?? 0) > new Date(latest.opened_at ?? 0) ? s : latest
+    );
+  },
+
+  /**
+   * Local shift by server id, or by the placeholder id it had before syncing
+   */
+  getShiftById: (id: number): Promise<OfflineShift | undefined> => findShift(id),
+
+  /**
+   * Returns recorded in a shift on this terminal (their cash refunds leave the drawer)
+   */
+  getShiftReturns: async (shiftId: number): Promise<OfflineSaleReturn[]> =>
+    (await dbService.getAllSaleReturns()).filter((r) => r.shift_id === shiftId),
+
+  /**
+   * Open/close events not yet confirmed by the server; while there are any,
+   * the local shift state wins over GET /shifts/current.
+   */
+  hasPendingEvents: async (): Promise<boolean> => {
+    const shifts = await dbService.getAllShifts();
+    return shifts.some((s) => s.pending_open || s.pending_close);
+  },
+
+  /**
+   * Mirror a shift fetched from the server in the local store
+   */
+  recordServerShift: async (shift: Shift): Promise<OfflineShift> => {
+    const existing = await dbService.getShiftById(shift.id);
+    const record = toOfflineShift(shift, existing);
+    await dbService.saveShift(record);
+    return record;
+  },
+
+  openShift: async (
+    userId: number | null,
+    isOnline: boolean,
+    openingFloat = 0
+  ): Promise<OfflineShift> => {
+    if (isOnline) {
+      try {
+        const shift = await shiftService.openShift({ opening_float: openingFloat });
+        const record = { ...toOfflineShift(shift), opening_float: openingFloat };
+        await dbService.saveShift(record);
+        return record;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    const shift: OfflineShift = {
+      localId: generateId(),
+      id: -Date.now(), // Placeholder until OPEN_SHIFT syncs
+      server_id: null,
+      user_id: userId,
+      opened_at: new Date().toISOString(),
+      closed_at: null,
+      is_open: true,
+      pending_open: true,
+      pending_close: false,
+      opening_float: openingFloat,
+      cash_movements: [],
+      closing_count: null,
+    };
+    await dbService.saveShift(shift);
+    await dbService.addToSyncQueue({
+      type: "OPEN_SHIFT",
+      payload: { localId: shift.localId },
+    });
+    return shift;
+  },
+
+  /**
+   * Close the shift with the cashier's blind drawer count. expectedCash is what the
+   * terminal computed (see cashDrawerService.summarize), stored for the over/short audit.
+   */
+  closeShift: async (
+    shift: Shift,
+    isOnline: boolean,
+    drawer?: { count: DrawerCount; expectedCash: number }
+  ): Promise<OfflineShift> => {
+    const local = (await findShift(shift.id)) ?? toOfflineShift(shift);
+    const counted: OfflineShift = {
+      ...local,
+      closing_count: drawer?.count ?? null,
+      expected_cash: drawer?.expectedCash ?? null,
+      over_short: drawer
+        ? preciseCalculation(drawer.count.total, drawer.expectedCash, "subtract")
+        : null,
+    };
+
+    // The server can only close a shift it knows about
+    if (isOnline && !counted.pending_open) {
+      try {
+        const closed = await shiftService.closeShift({
+          shift_id: counted.server_id ?? undefined,
+          ...offlineShiftService.getCloseDrawerData(counted),
+        });
+        const record = toOfflineShift({ ...closed, id: counted.id }, counted);
+        await dbService.saveShift(record);
+        return record;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    const closed: OfflineShift = {
+      ...counted,
+      is_open: false,
+      closed_at: new Date().toISOString(),
+      pending_close: true,
+    };
+    await dbService.saveShift(closed);
+    await dbService.addToSyncQueue({
+      type: "CLOSE_SHIFT",
+      payload: { localId: closed.localId },
+    });
+    return closed;
+  },
+
+  /**
+   * Drawer fields of the close request
+   */
+  getCloseDrawerData: (shift: OfflineShift) =>
+    shift.closing_count
+      ? {
+          counted_cash: shift.closing_count.total,
+          denominations: shift.closing_count.denominations.filter((d) => d.count > 0),
+          expected_cash: shift.expected_cash ?? undefined,
+          over_short: shift.over_short ?? undefined,
+        }
+      : {},
+
+  /**
+   * Record a cash drop / pay-out / cash-in locally and queue it for the server
+   */
+  addCashMovement: async (
+    shiftId: number,
+    data: { type: CashMovementType; amount: number; reason: string; user_id?: number | null }
+  ): Promise<OfflineShift> => {
+    const local = await findShift(shiftId);
+    if (!local || !local.is_open) {
+      throw new Error("لا توجد وردية مفتوحة");
+    }
+
+    const movement: CashMovement = {
+      ...data,
+      id: generateId(),
+      created_at: new Date().toISOString(),
+      is_synced: false,
+    };
+    const updated: OfflineShift = {
+      ...local,
+      cash_movements: [...(local.cash_movements || []), movement],
+    };
+    await dbService.saveShift(updated);
+    await dbService.addToSyncQueue({
+      type: "CASH_MOVEMENT",
+      payload: { localId: local.localId, movementId: movement.id },
+    });
+    return updated;
+  },
+
+  /**
+   * Replace a shift's placeholder id by the server's, in the shift, its sales and returns
+   */
+  remapShift: async (localId: string, serverShift: Shift): Promise<void> => {
+    const local = await dbService.getShift(localId);
+    if (!local) return;
+    const placeholderId = local.id;
+
+    await dbService.saveShift({
+      ...local,
+      id: serverShift.id,
+      server_id: serverShift.id,
+      placeholder_id: placeholderId < 0 ? placeholderId : local.placeholder_id ?? null,
+      opened_at: serverShift.opened_at ?? local.opened_at,
+      pending_open: false,
+    });
+
+    if (placeholderId === serverShift.id) return;
+    const sales = await dbService.getPendingSalesByShift(placeholderId);
+    for (const sale of sales) {
+      await dbService.savePendingSale({ ...sale, shift_id: serverShift.id });
+    }
+    const returns = (await dbService.getAllSaleReturns()).filter(
+      (r) => r.shift_id === placeholderId
+    );
+    for (const saleReturn of returns) {
+      await dbService.saveSaleReturn({ ...saleReturn, shift_id: serverShift.id });
+    }
+    console.log(
+      `Shift ${localId} synced as #${serverShift.id}, remapped ${sales.length} sales`
+    );
+  },
+
+  /**
+   * Server id for a sale's shift_id (server id or placeholder). Returns undefined
+   * while the shift it refers to hasn't been created on the server yet.
+   */
+  resolveServerShiftId: async (
+    shiftId: number | null | undefined
+  ): Promise<number | null | undefined> => {
+    if (shiftId == null || shiftId > 0) return shiftId ?? null;
+    const local = await findShift(shiftId);
+    return local?.server_id ?? undefined;
+  },
+};
@@ -0,0 +1,442 @@
+// src/services/offlineSyncEngine.test.ts
+import "fake-indexeddb/auto";
+import { AxiosError, AxiosResponse } from "axios";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { dbService, STORES } from "./db";
+import { offlineSyncEngine } from "./offlineSyncEngine";
+import { offlineShiftService } from "./offlineShiftService";
+import { offlineSaleService } from "./offlineSaleService";
+import { backendHealthService } from "./backendHealthService";
+import saleService from "./saleService";
+import productService from "./productService";
+import shiftService from "./shiftService";
+import expenseService from "./expenseService";
+import clientService from "./clientService";
+import type { Product } from "./productService";
+
+vi.mock("./backendHealthService", () => ({
+  backendHealthService: { checkBackendAccessible: vi.fn(async () => false) },
+}));
+vi.mock("./saleService", () => ({
+  default: {
+    createSale: vi.fn(),
+    findSaleByIdempotencyKey: vi.fn(),
+    getSale: vi.fn(),
+    createSaleReturn: vi.fn(),
+    findSaleReturnByIdempotencyKey: vi.fn(),
+  },
+}));
+vi.mock("./shiftService", () => ({
+  default: {
+    openShift: vi.fn(),
+    closeShift: vi.fn(),
+    getShift: vi.fn(),
+    getCurrentShift: vi.fn(),
+    addCashMovement: vi.fn(),
+  },
+}));
+vi.mock("./productService", () => ({
+  default: { getProductsByIds: vi.fn(async () => []) },
+}));
+vi.mock("./expenseService", () => ({
+  default: { createExpense: vi.fn(), findExpenseByReference: vi.fn(async () => null) },
+}));
+vi.mock("./clientService", () => ({
+  default: { getClient: vi.fn() },
+}));
+
+const product = {
+  id: 1,
+  name: "Paracetamol",
+  sku: "P-1",
+  stock_quantity: 10,
+  units_per_stocking_unit: 1,
+} as Product;
+
+const httpError = (status: number, data: unknown) =>
+  new AxiosError("Request failed", undefined, undefined, undefined, {
+    status,
+    data,
+    statusText: "",
+    headers: {},
+    config: { headers: {} },
+  } as AxiosResponse);
+
+const kit = {
+  id: 10,
+  name: "First aid kit",
+  sku: "KIT-1",
+  stock_quantity: 0,
+  units_per_stocking_unit: 1,
+  is_kit: true,
+  kit_components: [
+    { component_id: 2, quantity: 1 },
+    { component_id: 3, quantity: 2 },
+  ],
+} as Product;
+
+// Completed offline sale of one unit of `sold`
+const sellOffline = async (shiftId: number | null, sold: Product = product) => {
+  const draft = offlineSaleService.createDraftSale(shiftId, 1);
+  return offlineSaleService.completeSale({
+    ...draft,
+    total_amount: 5,
+    items: [{ product_id: sold.id, product: sold, quantity: 1, unit_price: 5 }],
+  } as unknown as typeof draft);
+};
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+  for (const store of Object.values(STORES)) {
+    await dbService.clearStore(store);
+  }
+});
+
+describe("offline shifts", () => {
+  it("syncs sales made in a shift opened offline under the server shift id", async () => {
+    const shift = await offlineShiftService.openShift(1, false);
+    expect(shift.id).toBeLessThan(0);
+    const sale = await sellOffline(shift.id);
+
+    vi.mocked(shiftService.openShift).mockResolvedValue({
+      id: 42,
+      opened_at: shift.opened_at,
+      closed_at: null,
+      is_open: true,
+    } as never);
+    vi.mocked(saleService.createSale).mockResolvedValue({
+      id: 900,
+      invoice_number: "INV-900",
+      payments: [],
+    } as never);
+
+    const { results } = await offlineSyncEngine.processQueue();
+
+    expect(results.map((r) => [r.type, r.success])).toEqual([
+      ["OPEN_SHIFT", true],
+      ["CREATE_SALE", true],
+    ]);
+    expect(saleService.createSale).toHaveBeenCalledWith(
+      expect.objectContaining({ shift_id: 42, idempotency_key: sale.tempId })
+    );
+    expect(await dbService.getPendingSale(sale.tempId)).toMatchObject({
+      is_synced: true,
+      id: 900,
+      shift_id: 42,
+    });
+    expect(await dbService.getAllSyncActions()).toEqual([]);
+    // The page may still hold the placeholder id of the shift
+    expect((await offlineShiftService.getShiftById(shift.id))?.server_id).toBe(42);
+  });
+
+  it("keeps the sale queued while the shift isn't opened on the server", async () => {
+    const shift = await offlineShiftService.openShift(1, false);
+    await sellOffline(shift.id);
+    vi.mocked(shiftService.openShift).mockRejectedValue(new Error("boom"));
+
+    const { results } = await offlineSyncEngine.processQueue();
+
+    expect(results.map((r) => r.classified?.kind)).toEqual(["unknown", "dependency"]);
+    expect(saleService.createSale).not.toHaveBeenCalled();
+    const actions = await dbService.getAllSyncActions();
+    expect(actions.map((a) => a.status)).toEqual(["failed", "failed"]);
+  });
+});
+
+describe("shift conflicts", () => {
+  it("adopts the open shift only when it carries our reference", async () => {
+    const shift = await offlineShiftService.openShift(1, false);
+    vi.mocked(shiftService.openShift).mockRejectedValue(httpError(409, {}));
+    vi.mocked(shiftService.getCurrentShift).mockResolvedValue({
+      id: 8,
+      opened_at: "2026-01-01T08:00:00Z",
+      closed_at: null,
+      is_open: true,
+      client_reference: "another-shift",
+    });
+
+    const { results } = await offlineSyncEngine.processQueue();
+
+    expect(results[0]).toMatchObject({ success: false, status: "dead_letter" });
+    expect((await offlineShiftService.getShiftById(shift.id))?.server_id).toBeNull();
+  });
+
+  it("adopts a shift opened by a replay of the same request", async () => {
+    const shift = await offlineShiftService.openShift(1, false);
+    const local = await offlineShiftService.getShiftById(shift.id);
+    vi.mocked(shiftService.openShift).mockRejectedValue(httpError(409, {}));
+    vi.mocked(shiftService.getCurrentShift).mockResolvedValue({
+      id: 8,
+      opened_at: shift.opened_at,
+      closed_at: null,
+      is_open: true,
+      client_reference: local!.localId,
+    });
+
+    const { results } = await offlineSyncEngine.processQueue();
+
+    expect(results[0].success).toBe(true);
+    expect((await offlineShiftService.getShiftById(shift.id))?.server_id).toBe(8);
+  });
+
+  it("keeps a close pending while the server has the shift open", async () => {
+    const opened = { id: 8, opened_at: "2026-01-01T08:00:00Z", closed_at: null, is_open: true };
+    vi.mocked(shiftService.openShift).mockResolvedValue(opened);
+    const shift = await offlineShiftService.openShift(1, true);
+    await offlineShiftService.closeShift(opened, false);
+    vi.mocked(shiftService.closeShift).mockRejectedValue(
+      httpError(422, { errors: { counted_cash: ["invalid"] } })
+    );
+    vi.mocked(shiftService.getShift).mockResolvedValue(opened);
+
+    await offlineSyncEngine.processQueue();
+
+    expect(await offlineShiftService.getShiftById(shift.id)).toMatchObject({
+      pending_close: true,
+      is_open: false,
+    });
+  });
+});
+
+describe("sale sync", () => {
+  it("sends the sale as edited after it was queued", async () => {
+    const sale = await sellOffline(null);
+    const edited = await dbService.getPendingSale(sale.tempId);
+    await dbService.savePendingSale({
+      ...edited!,
+      items: edited!.items.map((i) => ({ ...i, quantity: 3 })),
+    });
+    vi.mocked(saleService.createSale).mockResolvedValue({ id: 5, payments: [] } as never);
+
+    await offlineSyncEngine.processQueue();
+
+    expect(saleService.createSale).toHaveBeenCalledWith(
+      expect.objectContaining({ items: [expect.objectContaining({ quantity: 3 })] })
+    );
+    expect(await dbService.getPendingSale(sale.tempId)).toMatchObject({
+      is_synced: true,
+      items: [expect.objectContaining({ quantity: 3 })],
+    });
+  });
+
+  it("refreshes the cached balance of the sale's client", async () => {
+    const sale = await sellOffline(null);
+    await dbService.savePendingSale({ ...(await dbService.getPendingSale(sale.tempId))!, client_id: 7 });
+    await dbService.saveClients([{ id: 7, name: "Client", balance: 0 }]);
+    vi.mocked(saleService.createSale).mockResolvedValue({ id: 6, payments: [] } as never);
+    vi.mocked(clientService.getClient).mockResolvedValue({ id: 7, name: "Client", balance: 5 } as never);
+
+    await offlineSyncEngine.processQueue();
+
+    expect(clientService.getClient).toHaveBeenCalledWith(7);
+    expect((await dbService.getClient(7))?.balance).toBe(5);
+  });
+});
+
+describe("sale idempotency", () => {
+  it("adopts the server's sale on an idempotency key conflict", async () => {
+    const sale = await sellOffline(null);
+    vi.mocked(saleService.createSale).mockRejectedValue(
+      httpError(422, { errors: { idempotency_key: ["taken"] } })
+    );
+    vi.mocked(saleService.findSaleByIdempotencyKey).mockResolvedValue({
+      id: 77,
+      invoice_number: "INV-77",
+      idempotency_key: sale.tempId,
+    } as never);
+
+    const { results } = await offlineSyncEngine.processQueue();
+
+    expect(results[0].success).toBe(true);
+    expect(await dbService.getPendingSale(sale.tempId)).toMatchObject({ is_synced: true, id: 77 });
+  });
+
+  it("doesn't treat other conflicts as an existing sale", async () => {
+    const sale = await sellOffline(null);
+    vi.mocked(saleService.createSale).mockRejectedValue(
+      httpError(409, { message: "Insufficient stock" })
+    );
+
+    const { results } = await offlineSyncEngine.processQueue();
+
+    expect(results[0]).toMatchObject({ success: false, status: "dead_letter" });
+    expect(saleService.findSaleByIdempotencyKey).not.toHaveBeenCalled();
+    expect(await dbService.getPendingSale(sale.tempId)).toMatchObject({
+      is_synced: false,
+      sync_state: "dead_letter",
+    });
+  });
+
+  it("doesn't adopt a sale that carries another key", async () => {
+    const sale = await sellOffline(null);
+    vi.mocked(saleService.createSale).mockRejectedValue(
+      httpError(409, { sale: { id: 5, idempotency_key: "other" } })
+    );
+
+    const { results } = await offlineSyncEngine.processQueue();
+
+    expect(results[0].success).toBe(false);
+    expect((await dbService.getPendingSale(sale.tempId))?.is_synced).toBe(false);
+  });
+});
+
+describe("sale units", () => {
+  it("dead-letters a sale whose line unit left the product's chain", async () => {
+    const draft = offlineSaleService.createDraftSale(null, 1);
+    const sale = await offlineSaleService.completeSale({
+      ...draft,
+      total_amount: 50,
+      items: [
+        { product_id: product.id, product, quantity: 1, unit_price: 50, unitType: "sellable", unitId: 9 },
+      ],
+    } as unknown as typeof draft);
+
+    const { results } = await offlineSyncEngine.processQueue();
+
+    expect(results[0]).toMatchObject({ success: false, status: "dead_letter" });
+    expect(results[0].classified?.kind).toBe("validation");
+    expect(saleService.createSale).not.toHaveBeenCalled();
+    expect((await dbService.getPendingSale(sale.tempId))?.sync_state).toBe("dead_letter");
+  });
+});
+
+describe("sale return refunds", () => {
+  const queueRefund = async () => {
+    await dbService.saveSaleReturn({
+      tempId: "return-2",
+      sale_tempId: null,
+      original_sale_id: 1,
+      invoice_number: "INV-1",
+      return_date: "2026-01-01",
+      credit_action: "refund",
+      refund_payment_method: "cash",
+      refunded_amount: 20,
+      items: [
+        {
+          original_sale_item_id: 5,
+          line_index: 0,
+          product_id: product.id,
+          quantity_returned: 1,
+          unit_price: 20,
+          condition: "resellable",
+        },
+      ],
+      offline_created_at: Date.now(),
+      is_synced: false,
+    });
+    await dbService.addToSyncQueue({ type: "CREATE_SALE_RETURN", payload: { tempId: "return-2" } });
+  };
+
+  it("books the refund of a return the server already recorded", async () => {
+    await queueRefund();
+    vi.mocked(saleService.createSaleReturn).mockRejectedValue(
+      httpError(422, { errors: { idempotency_key: ["taken"] } })
+    );
+    vi.mocked(saleService.findSaleReturnByIdempotencyKey).mockResolvedValue({
+      id: 31,
+      idempotency_key: "return-2",
+    } as never);
+
+    await offlineSyncEngine.processQueue();
+    await offlineSyncEngine.processQueue();
+
+    expect(expenseService.createExpense).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 20, reference: "SALE-RETURN-31" })
+    );
+    expect(await dbService.getSaleReturn("return-2")).toMatchObject({
+      id: 31,
+      is_synced: true,
+      refund_expense_synced: true,
+    });
+  });
+
+  it("retries a failed refund expense without creating the return again", async () => {
+    await queueRefund();
+    vi.mocked(saleService.createSaleReturn).mockResolvedValue({ id: 32 } as never);
+    vi.mocked(expenseService.createExpense).mockRejectedValueOnce(httpError(503, {}));
+
+    await offlineSyncEngine.processQueue();
+    const { results } = await offlineSyncEngine.processQueue({ force: true });
+    expect(results[0]).toMatchObject({ type: "CREATE_RETURN_EXPENSE", success: false });
+
+    await offlineSyncEngine.processQueue({ force: true });
+
+    expect(saleService.createSaleReturn).toHaveBeenCalledTimes(1);
+    expect(expenseService.createExpense).toHaveBeenCalledTimes(2);
+    expect((await dbService.getSaleReturn("return-2"))?.refund_expense_synced).toBe(true);
+    expect(await dbService.getAllSyncActions()).toEqual([]);
+  });
+});
+
+describe("product cache refresh", () => {
+  it("refreshes the components of a synced kit sale", async () => {
+    await sellOffline(null, kit);
+    vi.mocked(saleService.createSale).mockResolvedValue({ id: 1, payments: [] } as never);
+
+    await offlineSyncEngine.processQueue();
+
+    expect(new Set(vi.mocked(productService.getProductsByIds).mock.calls[0][0])).toEqual(
+      new Set([2, 3, 10])
+    );
+  });
+
+  it("refreshes the components of a synced kit return", async () => {
+    await dbService.saveProducts([kit]);
+    await dbService.saveSaleReturn({
+      tempId: "return-1",
+      sale_tempId: null,
+      original_sale_id: 1,
+      return_date: "2026-01-01",
+      credit_action: "none",
+      refunded_amount: 0,
+      items: [
+        {
+          original_sale_item_id: 5,
+          line_index: 0,
+          product_id: kit.id,
+          quantity_returned: 1,
+          unit_price: 5,
+          condition: "resellable",
+        },
+      ],
+      offline_created_at: Date.now(),
+      is_synced: false,
+    });
+    await dbService.addToSyncQueue({
+      type: "CREATE_SALE_RETURN",
+      payload: { tempId: "return-1" },
+    });
+    vi.mocked(saleService.createSaleReturn).mockResolvedValue({ id: 3 } as never);
+
+    await offlineSyncEngine.processQueue();
+
+    expect(new Set(vi.mocked(productService.getProductsByIds).mock.calls[0][0])).toEqual(
+      new Set([2, 3, 10])
+    );
+  });
+});
+
+describe("completeSale", () => {
+  it("completes the sale when the immediate sync fails with a retryable error", async () => {
+    vi.mocked(backendHealthService.checkBackendAccessible).mockResolvedValueOnce(true);
+    vi.mocked(saleService.createSale).mockRejectedValue(httpError(503, {}));
+
+    const sale = await sellOffline(null);
+
+    expect(await dbService.getPendingSale(sale.tempId)).toMatchObject({
+      status: "completed",
+      sync_state: "retrying",
+    });
+  });
+
+  it("surfaces a sale the server rejected", async () => {
+    vi.mocked(backendHealthService.checkBackendAccessible).mockResolvedValueOnce(true);
+    vi.mocked(saleService.createSale).mockRejectedValue(
+      httpError(422, { message: "Invalid", errors: { items: ["required"] } })
+    );
+
+    await expect(sellOffline(null)).rejects.toBeTruthy();
+  });
+});
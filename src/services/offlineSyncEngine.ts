@@ -0,0 +1,879 @@
+// src/services/offlineSyncEngine.ts
+import axios from "axios";
+import { getErrorMessage, getValidationErrors } from "../lib/axios";
+import {
+  dbService,
+  OfflineSale,
+  OfflineSaleItem,
+  OfflineSaleReturn,
+  SyncAction,
+  SyncActionType,
+  SyncErrorKind,
+} from "./db";
+import saleService, {
+  CreateSaleData,
+  Sale,
+  SaleItem,
+  SaleReturnItemData,
+  UpdateSaleData,
+} from "./saleService";
+import expenseService from "./expenseService";
+import clientService from "./clientService";
+import productService, { Product } from "./productService";
+import shiftService, { Shift } from "./shiftService";
+import { offlineShiftService } from "./offlineShiftService";
+import { stockLedgerService } from "./stockLedgerService";
+import { getLineFactor, UnitLine, UnknownUnitError } from "../utils/productUnits";
+
+// --- Retry policy ---
+const BASE_RETRY_DELAY_MS = 5000; // First retry after 5s
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000; // Never wait more than 30 minutes
+const MAX_RETRIES = 10; // Transient failures are dead-lettered after this
+// An action stuck in "processing" longer than this was interrupted (tab closed, crash)
+const STALE_PROCESSING_MS = 2 * 60 * 1000;
+
+// --- Payloads per action type ---
+
+export interface UpdateSalePayload {
+  sale_id?: number | null; // Server id, if known when queued
+  tempId?: string | null; // Offline sale to resolve the server id from
+  data: UpdateSaleData;
+}
+
+export interface DeleteSalePayload {
+  sale_id?: number | null;
+  tempId?: string | null;
+}
+
+export interface UpdateProductStockPayload {
+  product_ids: number[];
+}
+
+export interface ShiftEventPayload {
+  localId: string; // OfflineShift key
+}
+
+export interface CashMovementPayload extends ShiftEventPayload {
+  movementId: string;
+}
+
+export interface CreateSaleReturnPayload {
+  tempId: string; // OfflineSaleReturn key
+}
+
+export interface ClassifiedSyncError {
+  kind: SyncErrorKind;
+  retryable: boolean;
+  message: string;
+  details: { [key: string]: string[] } | null;
+}
+
+export interface SyncActionResult {
+  id: number;
+  type: SyncActionType;
+  success: boolean;
+  status?: SyncAction["status"];
+  error?: unknown;
+  classified?: ClassifiedSyncError;
+}
+
+export interface ProcessQueueOptions {
+  // Ignore backoff windows (e.g. when the cashier presses "sync" manually)
+  force?: boolean;
+  onError?: (error: unknown, action: SyncAction, classified: ClassifiedSyncError) => void;
+}
+
+// Thrown by a handler when the action can't run yet (e.g. its sale isn't created on the server)
+class SyncDependencyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncDependencyError";
+  }
+}
+
+// --- Queue lock ---
+// Only one replay of the queue may run at a time, across all open POS tabs.
+const QUEUE_LOCK_NAME = "pos-sync-queue";
+const LEASE_KEY = "pos_sync_queue_lease"; // Fallback when the Web Locks API is missing
+const LEASE_TTL_MS = 60 * 1000;
+const LEASE_WAIT_MS = 15 * 1000;
+const tabId = Date.now().toString(36) + Math.random().toString(36).slice(2);
+let inTabRun: Promise<unknown> = Promise.resolve();
+
+const tryAcquireLease = (): boolean => {
+  const now = Date.now();
+  try {
+    const raw = localStorage.getItem(LEASE_KEY);
+    const lease = raw ? (JSON.parse(raw) as { owner: string; expires: number }) : null;
+    if (lease && lease.owner !== tabId && lease.expires > now) return false;
+    localStorage.setItem(
+      LEASE_KEY,
+      JSON.stringify({ owner: tabId, expires: now + LEASE_TTL_MS })
+    );
+    // Re-read: another tab may have written in between
+    return JSON.parse(localStorage.getItem(LEASE_KEY) || "{}").owner === tabId;
+  } catch {
+    return true; // Storage unavailable: nothing to coordinate with
+  }
+};
+
+const releaseLease = () => {
+  try {
+    const raw = localStorage.getItem(LEASE_KEY);
+    if (raw && JSON.parse(raw).owner === tabId) localStorage.removeItem(LEASE_KEY);
+  } catch {
+    // ignore
+  }
+};
+
+/**
+ * Run fn while holding the queue lock. Runs in this tab are chained; other tabs
+ * are excluded with navigator.locks, or a localStorage lease in older browsers.
+ * Returns null if the lease couldn't be acquired in time.
+ */
+const withQueueLock = <T>(fn: () => Promise<T>): Promise<T | null> => {
+  const run = inTabRun.then(async () => {
+    if (typeof navigator !== "undefined" && navigator.locks) {
+      return navigator.locks.request(QUEUE_LOCK_NAME, fn);
+    }
+
+    const deadline = Date.now() + LEASE_WAIT_MS;
+    while (!tryAcquireLease()) {
+      if (Date.now() > deadline) return null;
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+    // Keep the lease alive for long runs
+    const renew = setInterval(tryAcquireLease, LEASE_TTL_MS / 2);
+    try {
+      return await fn();
+    } finally {
+      clearInterval(renew);
+      releaseLease();
+    }
+  });
+  inTabRun = run.catch(() => undefined);
+  return run;
+};
+
+interface HandlerContext {
+  productsToUpdate: Set<number>;
+  clientsToUpdate: Set<number>;
+}
+
+type SyncHandler = (action: SyncAction, ctx: HandlerContext) => Promise<void>;
+
+/**
+ * Convert an OfflineSale to the payload expected by POST /sales.
+ * Backend expects quantities in sellable units, so stocking/chain-unit lines are converted.
+ */
+export const buildCreateSaleData = (offlineSale: OfflineSale): CreateSaleData => ({
+  client_id: offlineSale.client_id,
+  sale_date: offlineSale.sale_date,
+  status: "completed", // POS sales are usually completed
+  notes: offlineSale.notes,
+  shift_id: offlineSale.shift_id ?? null, // Explicitly send null for days mode
+  discount_amount: offlineSale.discount_amount
+    ? Number(offlineSale.discount_amount)
+    : undefined,
+  discount_type: offlineSale.discount_type || undefined,
+  idempotency_key: offlineSale.tempId,
+  tax_amount:
+    offlineSale.tax_amount != null ? Number(offlineSale.tax_amount) : undefined,
+  price_list_id: offlineSale.price_list_id ?? null,
+  credit_override: offlineSale.credit_override
+    ? {
+        id: offlineSale.credit_override.id ?? null,
+        manager_id: offlineSale.credit_override.manager_id,
+        amount: offlineSale.credit_override.amount,
+        reasons: offlineSale.credit_override.reasons,
+        approved_at: offlineSale.credit_override.approved_at,
+      }
+    : null,
+  items: offlineSale.items.map((item) => {
+    const product = item.product as Product;
+    const line = item as OfflineSaleItem & UnitLine;
+    // Sellable units in one unit of the line (stocking unit or a chain unit such as a strip)
+    const factor = getLineFactor(product, line);
+
+    // Quantity and prices are sent in sellable units
+    const quantityInSellable = item.quantity * factor;
+    const unitPriceInSellable = Number(item.unit_price) / factor;
+    const listPriceInSellable =
+      item.list_price != null ? Number(item.list_price) / factor : null;
+
+    return {
+      product_id: item.product_id,
+      quantity: quantityInSellable,
+      unit_price: unitPriceInSellable,
+      sale_unit_id: line.unitId ?? null, // Unit the cashier sold in, for the invoice
+      purchase_item_id: item.purchase_item_id,
+      tax_category: item.tax_category ?? null,
+      tax_rate: item.tax_rate ?? null,
+      tax_amount: item.tax_amount != null ? Number(item.tax_amount) : null,
+      discount_amount: Number(item.discount_amount) || 0,
+      discount_source: item.discount_source ?? null,
+      promotion_id: item.promotion_id ?? null,
+      list_price: listPriceInSellable,
+    };
+  }),
+  payments: offlineSale.payments
+    ?.filter((p) => Number(p.amount) > 0)
+    .map((p) => ({
+      method: p.method,
+      amount: p.amount,
+      tendered_amount: p.tendered_amount ?? null,
+      change_amount: p.change_amount ?? null,
+      rounding_adjustment: p.rounding_adjustment ?? null,
+      payment_date: p.payment_date
+        ? p.payment_date.split("T")[0]
+        : new Date().toISOString().split("T")[0],
+      notes: p.notes,
+    })),
+});
+
+/**
+ * Merge the server's copy of a created sale into the local OfflineSale.
+ * Prefer backend payments but keep the method from offline payments if the backend omits it.
+ */
+const mergeCreatedSale = (
+  offlineSale: OfflineSale,
+  createdSale: Sale
+): OfflineSale => {
+  const backendPayments = createdSale.payments || [];
+  const offlinePayments = offlineSale.payments || [];
+
+  const mergedPayments = backendPayments.map((backendPayment) => {
+    const matchingOfflinePayment = offlinePayments.find(
+      (offlinePayment) =>
+        Number(offlinePayment.amount) === Number(backendPayment.amount) &&
+        offlinePayment.payment_date === backendPayment.payment_date
+    );
+    return {
+      ...backendPayment,
+      method: backendPayment.method || matchingOfflinePayment?.method || "cash",
+      tendered_amount:
+        backendPayment.tendered_amount ?? matchingOfflinePayment?.tendered_amount,
+      change_amount: backendPayment.change_amount ?? matchingOfflinePayment?.change_amount,
+      rounding_adjustment:
+        backendPayment.rounding_adjustment ?? matchingOfflinePayment?.rounding_adjustment,
+    };
+  });
+
+  const finalPayments =
+    mergedPayments.length > 0
+      ? mergedPayments
+      : offlinePayments.map((p) => ({ ...p, method: p.method || "cash" }));
+
+  return {
+    ...offlineSale,
+    is_synced: true,
+    stock_reconciled: false, // Until the product cache is refreshed
+    sync_state: null,
+    sync_error: null,
+    id: createdSale.id,
+    invoice_number: createdSale.invoice_number,
+    sale_order_number: createdSale.sale_order_number ?? null,
+    payments: finalPayments,
+    paid_amount: createdSale.paid_amount || offlineSale.paid_amount || 0,
+  };
+};
+
+/**
+ * Resolve the server id of a sale referenced by an action payload.
+ * Sales created offline only have a tempId until their CREATE_SALE action syncs.
+ */
+const resolveServerSaleId = async (payload: {
+  sale_id?: number | null;
+  tempId?: string | null;
+}): Promise<number> => {
+  if (payload.sale_id) return payload.sale_id;
+  if (payload.tempId) {
+    const local = await dbService.getPendingSale(payload.tempId);
+    if (local?.is_synced && local.id) return local.id;
+  }
+  throw new SyncDependencyError("Sale has not been synced to the server yet");
+};
+
+/**
+ * If a failed POST /sales means "a sale with this idempotency key already exists",
+ * return that sale. Only explicit duplicate answers count: a 409 carrying the sale,
+ * or a 409/422 on the idempotency_key field. Other conflicts (e.g. stock) are
+ * real failures. The sale is only adopted if it carries our key.
+ */
+const findExistingSale = async (
+  error: unknown,
+  idempotencyKey: string
+): Promise<Sale | null> => {
+  if (!axios.isAxiosError(error)) return null;
+  const status = error.response?.status;
+  const body = error.response?.data;
+  const fromBody = status === 409 ? body?.sale ?? body?.data : null;
+  const isKeyConflict =
+    (status === 409 || status === 422) && !!body?.errors?.idempotency_key;
+
+  let existing: Sale | null = null;
+  if (fromBody?.id) {
+    existing = fromBody as Sale;
+  } else if (isKeyConflict) {
+    try {
+      existing = await saleService.findSaleByIdempotencyKey(idempotencyKey);
+    } catch {
+      return null;
+    }
+  }
+  return existing?.idempotency_key === idempotencyKey ? existing : null;
+};
+
+/**
+ * Server line ids for a return's items. Lines of sales created offline have no id
+ * locally, so they're matched on the server sale by product/batch, in line order.
+ */
+const resolveReturnItems = async (
+  saleReturn: OfflineSaleReturn,
+  saleId: number
+): Promise<SaleReturnItemData[]> => {
+  let serverItems: SaleItem[] | null = null;
+  const items: SaleReturnItemData[] = [];
+
+  for (const item of saleReturn.items) {
+    let lineId = item.original_sale_item_id;
+    if (!lineId) {
+      serverItems = serverItems ?? (await saleService.getSale(saleId)).items ?? [];
+      const localSale = saleReturn.sale_tempId
+        ? await dbService.getPendingSale(saleReturn.sale_tempId)
+        : undefined;
+      // Same product (and batch) lines before this one map to the same server lines
+      const sameLinesBefore = (localSale?.items ?? [])
+        .slice(0, item.line_index)
+        .filter((l) => l.product_id === item.product_id).length;
+      const candidates = serverItems.filter(
+        (l) =>
+          l.product_id === item.product_id &&
+          (!item.purchase_item_id || l.purchase_item_id === item.purchase_item_id)
+      );
+      lineId = (candidates[sameLinesBefore] ?? candidates[0])?.id ?? null;
+    }
+    if (!lineId) {
+      throw new Error(`Sale line for product #${item.product_id} not found on the server`);
+    }
+    items.push({
+      original_sale_item_id: lineId,
+      product_id: item.product_id,
+      quantity_returned: item.quantity_returned,
+      condition: item.condition,
+      return_to_purchase_item_id: item.purchase_item_id ?? null,
+    });
+  }
+  return items;
+};
+
+// 409/422 on a shift event: the server's shift state already differs from ours
+const isShiftStateConflict = (error: unknown) =>
+  axios.isAxiosError(error) &&
+  (error.response?.status === 409 || error.response?.status === 422);
+
+const handlers: Record<SyncActionType, SyncHandler> = {
+  CREATE_SALE: async (action, ctx) => {
+    const queued = action.payload as OfflineSale;
+    // Send the local copy as it is now: a completed sale may be edited (or fixed
+    // after a rejection) while it waits in the queue
+    const offlineSale = (await dbService.getPendingSale(queued.tempId)) ?? queued;
+
+    // Another run (or tab) already synced it
+    if (offlineSale.is_synced && offlineSale.id) return;
+
+    // Sales made in a shift opened offline carry its placeholder id
+    const shiftId = await offlineShiftService.resolveServerShiftId(
+      offlineSale.shift_id
+    );
+    if (shiftId === undefined) {
+      throw new SyncDependencyError("Shift has not been synced to the server yet");
+    }
+
+    let createdSale: Sale;
+    try {
+      createdSale = await saleService.createSale(
+        buildCreateSaleData({ ...offlineSale, shift_id: shiftId })
+      );
+    } catch (error) {
+      // The server already has this sale (e.g. the response was lost): adopt it
+      const existing = await findExistingSale(error, offlineSale.tempId);
+      if (!existing) throw error;
+      console.log(
+        `Sale ${offlineSale.tempId} already exists on server as #${existing.id}, adopting it`
+      );
+      createdSale = existing;
+    }
+
+    await dbService.savePendingSale(mergeCreatedSale(offlineSale, createdSale));
+
+    // Once synced the sale's due only counts through the client's balance
+    if (offlineSale.client_id) ctx.clientsToUpdate.add(offlineSale.client_id);
+    (await stockLedgerService.getStockProductIds(offlineSale.items ?? [])).forEach((id) =>
+      ctx.productsToUpdate.add(id)
+    );
+  },
+
+  UPDATE_SALE: async (action) => {
+    const payload = action.payload as UpdateSalePayload;
+    const saleId = await resolveServerSaleId(payload);
+    await saleService.updateSale(saleId, payload.data);
+  },
+
+  DELETE_SALE: async (action, ctx) => {
+    const payload = action.payload as DeleteSalePayload;
+    const saleId = await resolveServerSaleId(payload);
+    try {
+      await saleService.deleteSale(saleId);
+    } catch (error) {
+      // Already gone on the server: the goal of the action is reached
+      if (!axios.isAxiosError(error) || error.response?.status !== 404) {
+        throw error;
+      }
+    }
+    if (payload.tempId) {
+      const local = await dbService.getPendingSale(payload.tempId);
+      (await stockLedgerService.getStockProductIds(local?.items ?? [])).forEach((id) =>
+        ctx.productsToUpdate.add(id)
+      );
+      await dbService.deletePendingSale(payload.tempId);
+    }
+  },
+
+  UPDATE_PRODUCT_STOCK: async (action, ctx) => {
+    const payload = action.payload as UpdateProductStockPayload;
+    payload.product_ids?.forEach((id) => ctx.productsToUpdate.add(id));
+  },
+
+  OPEN_SHIFT: async (action) => {
+    const { localId } = action.payload as ShiftEventPayload;
+    const local = await dbService.getShift(localId);
+    if (!local || !local.pending_open) return;
+
+    let serverShift: Shift;
+    try {
+      serverShift = await shiftService.openShift({
+        opened_at: local.opened_at ?? undefined,
+        client_reference: localId,
+        opening_float: local.opening_float ?? 0,
+      });
+    } catch (error) {
+      // Already opened by a replay of this request (the response was lost): adopt
+      // it. Any other open shift, or a rejected payload, needs the cashier.
+      if (!isShiftStateConflict(error)) throw error;
+      const current = await shiftService.getCurrentShift();
+      if (current?.client_reference !== localId) throw error;
+      serverShift = current;
+    }
+    await offlineShiftService.remapShift(localId, serverShift);
+  },
+
+  CLOSE_SHIFT: async (action) => {
+    const { localId } = action.payload as ShiftEventPayload;
+    const local = await dbService.getShift(localId);
+    if (!local || !local.pending_close) return;
+    if (!local.server_id) {
+      throw new SyncDependencyError("Shift has not been opened on the server yet");
+    }
+
+    let closedAt = local.closed_at;
+    try {
+      const closed = await shiftService.closeShift({
+        shift_id: local.server_id,
+        closed_at: local.closed_at ?? undefined,
+        ...offlineShiftService.getCloseDrawerData(local),
+      });
+      closedAt = closed.closed_at ?? closedAt;
+    } catch (error) {
+      // Fine only if the server has this shift closed already (e.g. a replay);
+      // otherwise keep it pending so the blind count isn't lost
+      if (!isShiftStateConflict(error)) throw error;
+      const serverShift = await shiftService.getShift(local.server_id);
+      if (serverShift.is_open) throw error;
+      closedAt = serverShift.closed_at ?? closedAt;
+    }
+    await dbService.saveShift({
+      ...local,
+      is_open: false,
+      closed_at: closedAt,
+      pending_close: false,
+    });
+  },
+
+  CREATE_SALE_RETURN: async (action, ctx) => {
+    const { tempId } = action.payload as CreateSaleReturnPayload;
+    const saleReturn = await dbService.getSaleReturn(tempId);
+    if (!saleReturn || saleReturn.is_synced) return;
+
+    const saleId = await resolveServerSaleId({
+      sale_id: saleReturn.original_sale_id,
+      tempId: saleReturn.sale_tempId,
+    });
+    const items = await resolveReturnItems(saleReturn, saleId);
+
+    let returnId: number | null = null;
+    try {
+      const created = await saleService.createSaleReturn({
+        original_sale_id: saleId,
+        return_date: saleReturn.return_date,
+        return_reason: saleReturn.return_reason,
+        notes: saleReturn.notes,
+        status: "completed",
+        credit_action: saleReturn.credit_action,
+        refunded_amount: saleReturn.refunded_amount,
+        items,
+        idempotency_key: tempId,
+      });
+      returnId = created?.id ?? null;
+    } catch (error) {
+      // Replay of a return the server already recorded (lost response). Other
+      // conflicts (e.g. quantity already returned) are real failures.
+      if (!axios.isAxiosError(error)) throw error;
+      const status = error.response?.status;
+      const body = error.response?.data;
+      const existing = status === 409 ? body?.sale_return ?? body?.data : null;
+      const isDuplicate =
+        ((status === 409 || status === 422) && !!body?.errors?.idempotency_key) ||
+        (!!existing?.id && existing.idempotency_key === tempId);
+      if (!isDuplicate) throw error;
+      returnId =
+        existing?.id ?? (await saleService.findSaleReturnByIdempotencyKey(tempId))?.id ?? null;
+      if (!returnId) throw error;
+    }
+
+    // Cash refunds are booked as an expense, same as returns made online, in a
+    // step of their own so a failure is retried without creating the return again
+    const hasRefundExpense =
+      saleReturn.credit_action === "refund" && saleReturn.refunded_amount > 0;
+    await dbService.saveSaleReturn({
+      ...saleReturn,
+      id: returnId,
+      original_sale_id: saleId,
+      is_synced: true,
+      stock_reconciled: false,
+      refund_expense_synced: hasRefundExpense ? false : undefined,
+      sync_state: null,
+      sync_error: null,
+    });
+    if (hasRefundExpense) {
+      await dbService.addToSyncQueue({ type: "CREATE_RETURN_EXPENSE", payload: { tempId } });
+    }
+    (await stockLedgerService.getStockProductIds(saleReturn.items)).forEach((id) =>
+      ctx.productsToUpdate.add(id)
+    );
+  },
+
+  CREATE_RETURN_EXPENSE: async (action) => {
+    const { tempId } = action.payload as CreateSaleReturnPayload;
+    const saleReturn = await dbService.getSaleReturn(tempId);
+    if (!saleReturn || saleReturn.refund_expense_synced !== false) return;
+    if (!saleReturn.id) {
+      throw new SyncDependencyError("Sale return has not been synced to the server yet");
+    }
+
+    // The reference makes a replay (lost response) find the expense instead of doubling it
+    const reference = `SALE-RETURN-${saleReturn.id}`;
+    if (!(await expenseService.findExpenseByReference(reference))) {
+      const invoice = saleReturn.invoice_number || saleReturn.original_sale_id;
+      await expenseService.createExpense({
+        title: `إرجاع مبيعات - فاتورة #${invoice}`,
+        amount: saleReturn.refunded_amount,
+        expense_date: saleReturn.return_date,
+        payment_method: saleReturn.refund_payment_method ?? "cash",
+        description: `إرجاع أصناف من الفاتورة رقم ${invoice}. سبب الإرجاع: ${
+          saleReturn.return_reason || "غير محدد"
+        }. رقم عملية الإرجاع: ${saleReturn.id}`,
+        reference,
+        shift_id:
+          (await offlineShiftService.resolveServerShiftId(saleReturn.shift_id)) ?? null,
+      });
+    }
+    await dbService.saveSaleReturn({ ...saleReturn, refund_expense_synced: true });
+  },
+
+  CASH_MOVEMENT: async (action) => {
+    const { localId, movementId } = action.payload as CashMovementPayload;
+    const local = await dbService.getShift(localId);
+    const movement = local?.cash_movements?.find((m) => m.id === movementId);
+    if (!local || !movement || movement.is_synced) return;
+    if (!local.server_id) {
+      throw new SyncDependencyError("Shift has not been opened on the server yet");
+    }
+
+    try {
+      await shiftService.addCashMovement(local.server_id, {
+        type: movement.type,
+        amount: movement.amount,
+        reason: movement.reason,
+        created_at: movement.created_at,
+        client_reference: movement.id,
+      });
+    } catch (error) {
+      // 409: already recorded (replayed request)
+      if (!axios.isAxiosError(error) || error.response?.status !== 409) {
+        throw error;
+      }
+    }
+
+    // Re-read: more movements may have been added meanwhile
+    const current = (await dbService.getShift(localId)) ?? local;
+    await dbService.saveShift({
+      ...current,
+      cash_movements: (current.cash_movements || []).map((m) =>
+        m.id === movementId ? { ...m, is_synced: true } : m
+      ),
+    });
+  },
+};
+
+// Must only run while holding the queue lock (see processQueue)
+const processQueueLocked = async (
+  options: ProcessQueueOptions
+): Promise<{ results: SyncActionResult[]; updatedProducts: Product[] }> => {
+  const actions = await offlineSyncEngine.getRunnableActions(options.force);
+  const results: SyncActionResult[] = [];
+  if (actions.length === 0) return { results, updatedProducts: [] };
+
+  console.log(`Processing ${actions.length} offline actions...`);
+  const ctx: HandlerContext = {
+    productsToUpdate: new Set<number>(),
+    clientsToUpdate: new Set<number>(),
+  };
+
+  for (const action of actions) {
+    if (!action.id) continue;
+
+    action.status = "processing";
+    action.lastAttemptAt = Date.now();
+    await dbService.updateSyncAction(action);
+
+    try {
+      await handlers[action.type](action, ctx);
+      await dbService.removeSyncAction(action.id);
+      results.push({ id: action.id, type: action.type, success: true });
+    } catch (error) {
+      const classified = offlineSyncEngine.classifyError(error);
+      const failed = await offlineSyncEngine.recordFailure(action, classified);
+      console.error("Sync action failed:", action, classified);
+      results.push({
+        id: action.id,
+        type: action.type,
+        success: false,
+        status: failed.status,
+        error,
+        classified,
+      });
+      options.onError?.(error, failed, classified);
+
+      // Backend is unreachable: the rest of the queue would fail the same way
+      if (classified.kind === "network") break;
+    }
+  }
+
+  // Refresh cached products touched by synced actions
+  let updatedProducts: Product[] = [];
+  if (ctx.productsToUpdate.size > 0) {
+    try {
+      const idsToFetch = Array.from(ctx.productsToUpdate);
+      updatedProducts = await productService.getProductsByIds(idsToFetch);
+      if (updatedProducts.length > 0) {
+        await dbService.saveProducts(updatedProducts);
+        await stockLedgerService.reconcile(updatedProducts.map((p) => p.id));
+      }
+    } catch (updateError) {
+      // Don't fail the sync result just because cache update failed
+      console.error("Failed to update product cache after sync:", updateError);
+    }
+  }
+
+  // Refresh the balances of clients whose sales were synced, used by the offline credit check
+  if (ctx.clientsToUpdate.size > 0) {
+    try {
+      const clients = await Promise.all(
+        Array.from(ctx.clientsToUpdate).map((id) => clientService.getClient(id))
+      );
+      await dbService.saveClients(clients);
+    } catch (updateError) {
+      console.error("Failed to update client cache after sync:", updateError);
+    }
+  }
+
+  return { results, updatedProducts };
+};
+
+export const offlineSyncEngine = {
+  /**
+   * Classify a failed attempt so we know whether retrying can ever succeed.
+   */
+  classifyError: (error: unknown): ClassifiedSyncError => {
+    if (error instanceof SyncDependencyError) {
+      return { kind: "dependency", retryable: true, message: error.message, details: null };
+    }
+    if (error instanceof UnknownUnitError) {
+      // The line can't be converted to sellable units until the cashier fixes it
+      return { kind: "validation", retryable: false, message: error.message, details: null };
+    }
+
+    const message = getErrorMessage(error, "Sync failed");
+
+    if (!axios.isAxiosError(error)) {
+      return { kind: "unknown", retryable: true, message, details: null };
+    }
+
+    const status = error.response?.status;
+    if (!status) {
+      return { kind: "network", retryable: true, message, details: null };
+    }
+    if (status === 422) {
+      return {
+        kind: "validation",
+        retryable: false,
+        message,
+        details: getValidationErrors(error),
+      };
+    }
+    if (status === 409) {
+      return { kind: "conflict", retryable: false, message, details: null };
+    }
+    if (status === 401 || status === 403) {
+      return { kind: "auth", retryable: true, message, details: null };
+    }
+    if (status === 408 || status === 429 || status >= 500) {
+      return { kind: "server", retryable: true, message, details: null };
+    }
+    return { kind: "unknown", retryable: false, message, details: null };
+  },
+
+  /**
+   * Exponential backoff with a little jitter so terminals don't retry in lockstep.
+   */
+  getRetryDelay: (retryCount: number): number => {
+    const delay = Math.min(
+      BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, retryCount - 1)),
+      MAX_RETRY_DELAY_MS
+    );
+    return Math.round(delay * (0.9 + Math.random() * 0.2));
+  },
+
+  /**
+   * Actions that may be attempted now, in queue order.
+   * Resets actions left in "processing" by an interrupted run.
+   */
+  getRunnableActions: async (force = false): Promise<SyncAction[]> => {
+    const now = Date.now();
+    const all = await dbService.getAllSyncActions();
+    const runnable: SyncAction[] = [];
+
+    for (const action of all) {
+      if (
+        action.status === "processing" &&
+        now - (action.lastAttemptAt ?? action.timestamp) > STALE_PROCESSING_MS
+      ) {
+        action.status = "failed";
+        await dbService.updateSyncAction(action);
+      }
+      if (action.status !== "pending" && action.status !== "failed") continue;
+      if (!force && action.nextAttemptAt && action.nextAttemptAt > now) continue;
+      runnable.push(action);
+    }
+    return runnable;
+  },
+
+  /**
+   * Replay the sync queue. Successful actions are removed; failures are retried
+   * with backoff or moved to the dead-letter state with the server's reason.
+   */
+  processQueue: async (
+    options: ProcessQueueOptions = {}
+  ): Promise<{ results: SyncActionResult[]; updatedProducts: Product[] }> => {
+    const outcome = await withQueueLock(() => processQueueLocked(options));
+    return outcome ?? { results: [], updatedProducts: [] };
+  },
+
+  /**
+   * Persist a failed attempt: schedule the next retry or dead-letter the action.
+   */
+  recordFailure: async (
+    action: SyncAction,
+    classified: ClassifiedSyncError
+  ): Promise<SyncAction> => {
+    const retryCount = action.retryCount + 1;
+    const deadLetter = !classified.retryable || retryCount >= MAX_RETRIES;
+
+    const updated: SyncAction = {
+      ...action,
+      retryCount,
+      status: deadLetter ? "dead_letter" : "failed",
+      nextAttemptAt: deadLetter
+        ? undefined
+        : Date.now() + offlineSyncEngine.getRetryDelay(retryCount),
+      lastError: classified.message,
+      errorKind: classified.kind,
+      errorDetails: classified.details,
+    };
+    await dbService.updateSyncAction(updated);
+
+    if (action.type === "CREATE_SALE") {
+      const tempId = (action.payload as OfflineSale).tempId;
+      const local = await dbService.getPendingSale(tempId);
+      if (local && !local.is_synced) {
+        await dbService.savePendingSale({
+          ...local,
+          sync_state: deadLetter ? "dead_letter" : "retrying",
+          sync_error: classified.message,
+        });
+      }
+    }
+    if (action.type === "CREATE_SALE_RETURN") {
+      const { tempId } = action.payload as CreateSaleReturnPayload;
+      const local = await dbService.getSaleReturn(tempId);
+      if (local && !local.is_synced) {
+        await dbService.saveSaleReturn({
+          ...local,
+          sync_state: deadLetter ? "dead_letter" : "retrying",
+          sync_error: classified.message,
+        });
+      }
+    }
+    return updated;
+  },
+
+  getDeadLetterActions: async (): Promise<SyncAction[]> => {
+    return dbService.getDeadLetterActions();
+  },
+
+  /**
+   * Put a dead-lettered (or backing-off) action back in the queue for an immediate retry.
+   */
+  retryAction: async (id: number): Promise<void> => {
+    const all = await dbService.getAllSyncActions();
+    const action = all.find((a) => a.id === id);
+    if (!action) return;
+
+    // A rejected sale is retried as the cashier fixed it, not as it was queued
+    const localSale =
+      action.type === "CREATE_SALE"
+        ? await dbService.getPendingSale((action.payload as OfflineSale).tempId)
+        : undefined;
+
+    await dbService.updateSyncAction({
+      ...action,
+      payload: localSale && !localSale.is_synced ? localSale : action.payload,
+      status: "pending",
+      retryCount: 0,
+      nextAttemptAt: undefined,
+    });
+
+    if (localSale && !localSale.is_synced) {
+      await dbService.savePendingSale({ ...localSale, sync_state: "queued" });
+    }
+    if (action.type === "CREATE_SALE_RETURN") {
+      const local = await dbService.getSaleReturn(
+        (action.payload as CreateSaleReturnPayload).tempId
+      );
+      if (local && !local.is_synced) {
+        await dbService.saveSaleReturn({ ...local, sync_state: "queued" });
+      }
+    }
+  },
+};
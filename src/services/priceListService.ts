@@ -0,0 +1,296 @@
+// src/services/priceListService.ts
+import apiClient from "../lib/axios";
+import { dbService } from "./db";
+import { Product } from "./productService";
+import { SaleItem } from "./saleService";
+import { Client } from "./clientService";
+import { getUnitFactor } from "../utils/productUnits";
+
+export type PriceListType = "retail" | "wholesale" | "client";
+
+export interface PriceListItem {
+  id?: number;
+  price_list_id?: number;
+  product_id: number;
+  product_name?: string;
+  product_sku?: string | null;
+  // At least one is set; the other is derived with units_per_stocking_unit
+  price_per_stocking_unit: number | null;
+  price_per_sellable_unit: number | null;
+}
+
+export interface PriceList {
+  id: number;
+  name: string;
+  type: PriceListType;
+  is_default: boolean; // Used for clients without a list (only one list)
+  is_active: boolean;
+  notes?: string | null;
+  items_count?: number;
+  clients_count?: number;
+  items?: PriceListItem[]; // Loaded by getPriceList and the offline cache
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type PriceListFormData = Pick<PriceList, "name" | "type" | "is_default" | "is_active" | "notes">;
+
+// A cashier changing a line away from its automatic (list) price
+export interface PriceOverride {
+  id: number;
+  sale_id: number;
+  sale_item_id: number | null;
+  product_id: number;
+  product_name?: string;
+  user_id: number | null;
+  user_name?: string;
+  price_list_id: number | null;
+  price_list_name?: string | null;
+  list_price: number;
+  new_price: number;
+  quantity: number;
+  created_at: string;
+}
+
+export interface PriceOverrideFilters {
+  start_date?: string;
+  end_date?: string;
+  user_id?: number | null;
+  page?: number;
+}
+
+export interface PriceOverridesResponse {
+  data: PriceOverride[];
+  // Per cashier over the whole period
+  summary: {
+    user_id: number | null;
+    user_name: string;
+    overrides_count: number;
+    total_difference: number; // Σ (new_price - list_price) × quantity
+  }[];
+  current_page: number;
+  last_page: number;
+  total: number;
+}
+
+export const PRICE_LIST_TYPE_LABELS: Record<PriceListType, string> = {
+  retail: "تجزئة",
+  wholesale: "جملة",
+  client: "خاصة بعميل",
+};
+
+const CACHE_KEY = "price_lists";
+
+// Tolerance when comparing prices entered by hand
+const PRICE_EPSILON = 0.005;
+
+// In-memory copy of the active lists with their items, for synchronous lookups in the POS
+let cachedPriceLists: PriceList[] = [];
+
+export const priceListService = {
+  // --- Pricing ---
+
+  /**
+   * Price from the product's batches/history, used when no list price exists
+   */
+  getBasePrice: (product: Product, unitType: "stocking" | "sellable" = "sellable"): number => {
+    let price = Number(product.last_sale_price_per_sellable_unit || 0);
+    if (price === 0 && product.available_batches && product.available_batches.length > 0) {
+      price = Number(product.available_batches[0].sale_price || 0);
+    }
+    return unitType === "stocking" ? price * (product.units_per_stocking_unit || 1) : price;
+  },
+
+  /**
+   * Price of the product in the list, or null when the list doesn't price it
+   */
+  getListPrice: (
+    product: Product,
+    unitType: "stocking" | "sellable",
+    priceList: PriceList | null | undefined
+  ): number | null => {
+    const entry = priceList?.items?.find((i) => i.product_id === product.id);
+    if (!entry) return null;
+    const unitsPerStocking = product.units_per_stocking_unit || 1;
+    const stocking = entry.price_per_stocking_unit != null ? Number(entry.price_per_stocking_unit) : null;
+    const sellable = entry.price_per_sellable_unit != null ? Number(entry.price_per_sellable_unit) : null;
+    if (unitType === "stocking") {
+      return stocking ?? (sellable != null ? sellable * unitsPerStocking : null);
+    }
+    return sellable ?? (stocking != null ? stocking / unitsPerStocking : null);
+  },
+
+  getUnitPrice: (
+    product: Product,
+    unitType: "stocking" | "sellable",
+    priceList: PriceList | null | undefined,
+    unitId?: number | null // Other chain unit, priced from the sellable price
+  ): number => {
+    if (unitId != null) {
+      const perSellable =
+        priceListService.getListPrice(product, "sellable", priceList) ??
+        priceListService.getBasePrice(product, "sellable");
+      return perSellable * getUnitFactor(product, unitType, unitId);
+    }
+    return (
+      priceListService.getListPrice(product, unitType, priceList) ??
+      priceListService.getBasePrice(product, unitType)
+    );
+  },
+
+  /**
+   * The client's own list, or the default list
+   */
+  getListForClient: (
+    client: Pick<Client, "price_list_id"> | null | undefined,
+    lists: PriceList[] = cachedPriceLists
+  ): PriceList | null => {
+    const active = lists.filter((l) => l.is_active);
+    return (
+      (client?.price_list_id != null && active.find((l) => l.id === client.price_list_id)) ||
+      active.find((l) => l.is_default) ||
+      null
+    );
+  },
+
+  getById: (id: number | null | undefined): PriceList | null =>
+    id != null ? cachedPriceLists.find((l) => l.id === id) || null : null,
+
+  isOverridden: (item: Pick<SaleItem, "unit_price" | "list_price">): boolean =>
+    item.list_price != null && Math.abs(Number(item.unit_price) - Number(item.list_price)) >= PRICE_EPSILON,
+
+  /**
+   * Reprice the lines with a new list (e.g. after picking a client). Lines the
+   * cashier priced by hand keep their price.
+   */
+  applyToItems: <T extends SaleItem & { unitType?: "stocking" | "sellable"; unitId?: number | null }>(
+    items: T[],
+    priceList: PriceList | null
+  ): T[] =>
+    items.map((item) => {
+      if (!item.product || priceListService.isOverridden(item)) return item;
+      const price = priceListService.getUnitPrice(
+        item.product,
+        item.unitType || "sellable",
+        priceList,
+        item.unitId
+      );
+      return { ...item, unit_price: price, list_price: price };
+    }),
+
+  // --- Offline cache ---
+
+  getCached: (): PriceList[] => cachedPriceLists,
+
+  /**
+   * Load the lists saved by the last refreshCache (offline start)
+   */
+  loadCache: async (): Promise<PriceList[]> => {
+    cachedPriceLists = (await dbService.getSettingValue<PriceList[]>(CACHE_KEY)) || [];
+    return cachedPriceLists;
+  },
+
+  /**
+   * Download the active lists with their items and keep them for offline use
+   */
+  refreshCache: async (): Promise<PriceList[]> => {
+    try {
+      const response = await apiClient.get<{ data: PriceList[] }>("/price-lists", {
+        params: { active: 1, with_items: 1 },
+      });
+      cachedPriceLists = response.data.data;
+      await dbService.setSettingValue(CACHE_KEY, cachedPriceLists);
+    } catch (error) {
+      console.error("Failed to refresh price lists cache:", error);
+      await priceListService.loadCache();
+    }
+    return cachedPriceLists;
+  },
+
+  // --- API ---
+
+  getPriceLists: async (): Promise<PriceList[]> => {
+    try {
+      const response = await apiClient.get<{ data: PriceList[] }>("/price-lists");
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching price lists:", error);
+      throw error;
+    }
+  },
+
+  getPriceList: async (id: number): Promise<PriceList> => {
+    try {
+      const response = await apiClient.get<{ data: PriceList }>(`/price-lists/${id}`);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error fetching price list ${id}:`, error);
+      throw error;
+    }
+  },
+
+  createPriceList: async (data: PriceListFormData): Promise<PriceList> => {
+    try {
+      const response = await apiClient.post<{ data: PriceList }>("/price-lists", data);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error creating price list:", error);
+      throw error;
+    }
+  },
+
+  updatePriceList: async (id: number, data: Partial<PriceListFormData>): Promise<PriceList> => {
+    try {
+      const response = await apiClient.put<{ data: PriceList }>(`/price-lists/${id}`, data);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error updating price list:", error);
+      throw error;
+    }
+  },
+
+  deletePriceList: async (id: number): Promise<void> => {
+    try {
+      await apiClient.delete(`/price-lists/${id}`);
+    } catch (error) {
+      console.error("Error deleting price list:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Replace the list's product prices
+   */
+  savePriceListItems: async (id: number, items: PriceListItem[]): Promise<PriceList> => {
+    try {
+      const response = await apiClient.put<{ data: PriceList }>(`/price-lists/${id}/items`, {
+        items: items.map(({ product_id, price_per_stocking_unit, price_per_sellable_unit }) => ({
+          product_id,
+          price_per_stocking_unit,
+          price_per_sellable_unit,
+        })),
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error("Error saving price list items:", error);
+      throw error;
+    }
+  },
+
+  getPriceOverrides: async (filters: PriceOverrideFilters = {}): Promise<PriceOverridesResponse> => {
+    try {
+      const params = new URLSearchParams();
+      if (filters.start_date) params.append("start_date", filters.start_date);
+      if (filters.end_date) params.append("end_date", filters.end_date);
+      if (filters.user_id) params.append("user_id", String(filters.user_id));
+      params.append("page", String(filters.page || 1));
+      const response = await apiClient.get<PriceOverridesResponse>(
+        `/reports/price-overrides?${params.toString()}`
+      );
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching price overrides:", error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,210 @@
+// src/services/productSearchIndex.ts
+import { Product } from "./productService";
+import { normalizeArabic, normalizeCode, tokenize } from "../utils/arabicSearch";
+import { getProductCodes } from "../utils/productBarcodes";
+
+// Ranking weights per matched field
+const SCORE = {
+  CODE_EXACT: 100,
+  CODE_PREFIX: 40,
+  NAME_EXACT: 30,
+  NAME_PREFIX: 20,
+  SCIENTIFIC_EXACT: 15,
+  SCIENTIFIC_PREFIX: 10,
+  NAME_STARTS_WITH_QUERY: 25,
+};
+
+interface IndexedDoc {
+  id: number;
+  name: string; // Normalized
+  nameTokens: Set<string>;
+  scientificTokens: Set<string>;
+  codes: string[]; // Normalized SKU / barcodes
+}
+
+export interface ProductSearchHit {
+  id: number;
+  score: number;
+}
+
+/**
+ * In-memory inverted index over name, scientific name and SKU/barcode.
+ * Tokens are kept sorted so a prefix lookup is a binary search instead of a scan.
+ */
+export const createProductSearchIndex = () => {
+  const docs = new Map<number, IndexedDoc>();
+  const postings = new Map<string, Set<number>>();
+  const codeIndex = new Map<string, Set<number>>();
+  let sortedTokens: string[] = [];
+  let sortedDirty = false;
+  let built = false;
+
+  const addPosting = (map: Map<string, Set<number>>, key: string, id: number) => {
+    let ids = map.get(key);
+    if (!ids) {
+      ids = new Set();
+      map.set(key, ids);
+      if (map === postings) sortedDirty = true;
+    }
+    ids.add(id);
+  };
+
+  const removePosting = (map: Map<string, Set<number>>, key: string, id: number) => {
+    const ids = map.get(key);
+    if (!ids) return;
+    ids.delete(id);
+    if (ids.size === 0) {
+      map.delete(key);
+      if (map === postings) sortedDirty = true;
+    }
+  };
+
+  const remove = (id: number) => {
+    const doc = docs.get(id);
+    if (!doc) return;
+    [...doc.nameTokens, ...doc.scientificTokens].forEach((t) =>
+      removePosting(postings, t, id)
+    );
+    doc.codes.forEach((c) => removePosting(codeIndex, c, id));
+    docs.delete(id);
+  };
+
+  const upsert = (product: Product) => {
+    remove(product.id);
+    const doc: IndexedDoc = {
+      id: product.id,
+      name: normalizeArabic(product.name),
+      nameTokens: new Set(tokenize(product.name)),
+      scientificTokens: new Set(tokenize(product.scientific_name)),
+      codes: getProductCodes(product),
+    };
+    docs.set(product.id, doc);
+    [...doc.nameTokens, ...doc.scientificTokens].forEach((t) =>
+      addPosting(postings, t, product.id)
+    );
+    doc.codes.forEach((c) => {
+      addPosting(codeIndex, c, product.id);
+      addPosting(postings, c, product.id); // Partial codes match by prefix
+    });
+  };
+
+  // All ids having a token starting with prefix
+  const idsWithPrefix = (prefix: string): Set<number> => {
+    if (sortedDirty) {
+      sortedTokens = Array.from(postings.keys()).sort();
+      sortedDirty = false;
+    }
+    let lo = 0;
+    let hi = sortedTokens.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sortedTokens[mid] < prefix) lo = mid + 1;
+      else hi = mid;
+    }
+    const result = new Set<number>();
+    for (let i = lo; i < sortedTokens.length; i++) {
+      if (!sortedTokens[i].startsWith(prefix)) break;
+      postings.get(sortedTokens[i])?.forEach((id) => result.add(id));
+    }
+    return result;
+  };
+
+  const scoreTerm = (doc: IndexedDoc, term: string): number => {
+    let best = 0;
+    const consider = (score: number) => {
+      if (score > best) best = score;
+    };
+    doc.codes.forEach((c) => {
+      if (c === term) consider(SCORE.CODE_EXACT);
+      else if (c.startsWith(term)) consider(SCORE.CODE_PREFIX);
+    });
+    if (doc.nameTokens.has(term)) consider(SCORE.NAME_EXACT);
+    if (doc.scientificTokens.has(term)) consider(SCORE.SCIENTIFIC_EXACT);
+    for (const t of doc.nameTokens) {
+      if (t.startsWith(term)) {
+        consider(SCORE.NAME_PREFIX);
+        break;
+      }
+    }
+    for (const t of doc.scientificTokens) {
+      if (t.startsWith(term)) {
+        consider(SCORE.SCIENTIFIC_PREFIX);
+        break;
+      }
+    }
+    return best;
+  };
+
+  return {
+    isBuilt: () => built,
+
+    rebuild: (products: Product[]) => {
+      docs.clear();
+      postings.clear();
+      codeIndex.clear();
+      products.forEach(upsert);
+      built = true;
+    },
+
+    upsert: (products: Product[]) => products.forEach(upsert),
+
+    remove: (ids: number[]) => ids.forEach(remove),
+
+    clear: () => {
+      docs.clear();
+      postings.clear();
+      codeIndex.clear();
+      sortedTokens = [];
+      built = false;
+    },
+
+    /**
+     * Ids of products whose SKU/barcode equals code exactly.
+     */
+    findByCode: (code: string): number[] =>
+      Array.from(codeIndex.get(normalizeCode(code)) ?? []),
+
+    /**
+     * Ranked search: every query term must prefix-match some token.
+     */
+    search: (query: string, limit = 50): ProductSearchHit[] => {
+      const terms = tokenize(query);
+      if (terms.length === 0) return [];
+
+      // Intersect candidates, smallest set first
+      const sets = terms
+        .map(idsWithPrefix)
+        .sort((a, b) => a.size - b.size);
+      let candidates = sets[0];
+      for (const set of sets.slice(1)) {
+        candidates = new Set([...candidates].filter((id) => set.has(id)));
+        if (candidates.size === 0) break;
+      }
+
+      const normalizedQuery = normalizeArabic(query);
+      const hits: ProductSearchHit[] = [];
+      candidates.forEach((id) => {
+        const doc = docs.get(id);
+        if (!doc) return;
+        let score = terms.reduce((sum, term) => sum + scoreTerm(doc, term), 0);
+        if (doc.name.startsWith(normalizedQuery)) {
+          score += SCORE.NAME_STARTS_WITH_QUERY;
+        }
+        hits.push({ id, score });
+      });
+
+      return hits
+        .sort(
+          (a, b) =>
+            b.score - a.score ||
+            (docs.get(a.id)?.name.length ?? 0) - (docs.get(b.id)?.name.length ?? 0)
+        )
+        .slice(0, limit);
+    },
+  };
+};
+
+export type ProductSearchIndex = ReturnType<typeof createProductSearchIndex>;
+
+// Shared index over the IndexedDB products cache (kept in sync by dbService)
+export const productSearchIndex = createProductSearchIndex();
@@ -11,6 +11,52 @@ import { Category } from "./CategoryService";
 
 // --- Interfaces ---
 
+// ZATCA / UN/ECE 5305 tax category codes
+export type TaxCategory = "S" | "Z" | "E" | "O";
+
+// A scannable code for the product; one scan adds `quantity` of `unit_type`
+export interface ProductBarcode {
+  id?: number;
+  barcode: string;
+  unit_type: "sellable" | "stocking";
+  quantity: number; // e.g. 2 for a twin pack of the sellable unit, default 1
+}
+
+// A unit of measure in the product's chain, e.g. strip = 10 pieces, box = 3 strips
+export interface ProductUnit {
+  id?: number;
+  unit_id: number;
+  unit_name?: string;
+  factor: number; // SELLABLE units in one of this unit (1 for the sellable unit)
+  is_sale_unit: boolean; // Can be chosen in the POS
+  is_default_purchase: boolean; // Preselected when entering purchase quantities
+}
+
+// An attribute variants differ by, e.g. { name: "التركيز", values: ["250mg", "500mg"] }
+export interface VariantAttribute {
+  name: string;
+  values: string[];
+}
+
+// One row of the variant matrix sent with the parent product
+export interface ProductVariantFormData {
+  id?: number; // Existing variant product
+  variant_values: Record<string, string>; // Attribute name -> value
+  sku: string | null;
+  stock_quantity: number; // Opening stock, new variants only
+  sale_price: number | null; // Per SELLABLE unit
+  is_active: boolean;
+}
+
+// A line of a kit's bill of materials; selling one kit deducts `quantity` of the component
+export interface KitComponent {
+  component_id: number;
+  component_name?: string;
+  component_sku?: string | null;
+  quantity: number; // Sellable units of the component per kit
+  component_stock?: number | null; // Component's current stock (sellable units), from the server
+}
+
 // Matches ProductResource structure from Laravel
 export interface Product {
   id: number;
@@ -35,6 +81,12 @@ export interface Product {
   category_id?: number | null; // Optional if not included in resource
   category_name?: string | null; // Optional if included by resource
   has_expiry_date?: boolean;
+  // VAT: category code (S standard, Z zero-rated, E exempt, O out of scope) and rate,
+  // null = inherit from the product category
+  tax_category?: TaxCategory | null;
+  tax_rate?: number | null; // Percentage
+  category_tax_category?: TaxCategory | null; // Category's VAT, added by ProductResource
+  category_tax_rate?: number | null;
   // Optional accessors that might be added by backend ProductResource
   // --- Stock (always in sellable units) ---
   latest_purchase_cost?: string | number | null;
@@ -44,6 +96,21 @@ export interface Product {
   last_sale_price_per_sellable_unit?: number | null;
   earliest_expiry_date?: string | null;
   current_stock_quantity?: number;
+  reserved_quantity?: number; // Offline POS only: held by completed sales not yet synced
+  is_active?: boolean; // Deactivated products must not be sold
+  barcodes?: ProductBarcode[]; // Extra codes besides the SKU
+  units?: ProductUnit[]; // Unit chain; empty = sellable and stocking units only
+  // --- Variants: a parent groups sellable variant products ---
+  has_variants?: boolean; // Parent product, not sold itself
+  variant_attributes?: VariantAttribute[] | null; // On the parent
+  variant_count?: number;
+  parent_id?: number | null; // On a variant
+  parent_name?: string | null;
+  variant_values?: Record<string, string> | null; // On a variant
+  // --- Kits: stock is computed from the components, their batches are deducted on sale ---
+  is_kit?: boolean;
+  kit_components?: KitComponent[];
+  deleted_at?: string | null; // Set on soft-deleted products returned by /products/changes
   // --- Inventory Report specific fields ---
   total_items_purchased?: number | null;
   total_items_sold?: number | null;
@@ -85,6 +152,15 @@ export interface ProductFormData {
   // unit?: string | null;
   category_id?: number | null;
   has_expiry_date?: boolean;
+  tax_category?: TaxCategory | null;
+  tax_rate?: number | null;
+  barcodes?: ProductBarcode[];
+  units?: ProductUnit[];
+  // Server creates/updates the variant products; variants left out are deactivated
+  variant_attributes?: VariantAttribute[] | null;
+  variants?: ProductVariantFormData[];
+  is_kit?: boolean;
+  kit_components?: Pick<KitComponent, "component_id" | "quantity">[];
 }
 
 // Matches Laravel API Resource Collection structure
@@ -112,6 +188,18 @@ export interface ApiPaginatedResponse<T> {
   };
 }
 
+// Response of GET /products/changes (incremental offline sync)
+export interface ProductChangesResponse {
+  data: Product[]; // Created/updated since the cursor (incl. stock changes)
+  deleted_ids?: number[]; // Tombstones: deleted since the cursor
+  meta: {
+    current_page: number;
+    last_page: number;
+    total: number;
+  };
+  server_time?: string; // Cursor to use for the next request
+}
+
 // --- Service Object ---
 const productService = {
   /**
@@ -249,6 +337,23 @@ const productService = {
     }
   },
 
+  /**
+   * Product owning a SKU or barcode, null when the code is free.
+   */
+  findByBarcode: async (code: string): Promise<Product | null> => {
+    try {
+      const response = await apiClient.get<{ data: Product | null }>(
+        "/products/by-barcode",
+        { params: { code } }
+      );
+      return response.data.data ?? null;
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 404) return null;
+      console.error(`Error looking up barcode ${code}:`, error);
+      throw error;
+    }
+  },
+
   /**
    * Create a new product.
    * Accepts ProductFormData, sends potentially converted data if needed.
@@ -426,6 +531,37 @@ const productService = {
     }
   },
 
+  /**
+   * Get products changed since a cursor (ISO timestamp), for incremental offline sync.
+   * Includes soft-deleted/deactivated products and the IDs of deleted ones.
+   * @param since Cursor returned by the previous sync (server_time).
+   * @param page Page number.
+   * @param limit Number of items per page.
+   * @param warehouseId Optional warehouse for stock figures.
+   */
+  getProductChanges: async (
+    since: string,
+    page: number = 1,
+    limit: number = 1000,
+    warehouseId?: number
+  ): Promise<ProductChangesResponse> => {
+    try {
+      const params = new URLSearchParams();
+      params.append("since", since);
+      params.append("page", page.toString());
+      params.append("per_page", limit.toString());
+      if (warehouseId) params.append("warehouse_id", warehouseId.toString());
+
+      const response = await apiClient.get<ProductChangesResponse>(
+        `/products/changes?${params.toString()}`
+      );
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching product changes:", error);
+      throw error;
+    }
+  },
+
   getPurchaseHistory: async (
     productId: number,
     page: number = 1,
@@ -0,0 +1,338 @@
+// src/services/promotionService.ts
+import apiClient from "../lib/axios";
+import { preciseCalculation } from "@/constants";
+import { dbService } from "./db";
+import { SaleItem } from "./saleService";
+import { getLineFactor, hasLineUnit, UnitLine } from "../utils/productUnits";
+
+export type PromotionType =
+  | "buy_x_get_y" // Every buy_quantity units, get_quantity more at get_discount_percent off
+  | "quantity_break" // Tiered discount by quantity on the line
+  | "category_percent" // % off products of the selected categories
+  | "happy_hour" // Discount inside a time window (start_time-end_time)
+  | "client_price"; // Special unit prices for the selected clients
+
+export type LineDiscountSource = "promotion" | "manual";
+
+export interface PromotionTier {
+  min_quantity: number;
+  discount_type: "percentage" | "fixed"; // fixed = off each unit
+  discount_value: number;
+}
+
+export interface PromotionClientPrice {
+  product_id: number;
+  price: number; // Per sellable unit
+}
+
+export interface Promotion {
+  id: number;
+  name: string;
+  type: PromotionType;
+  is_active: boolean;
+  priority: number; // Wins ties between promotions giving the same discount
+  // Validity (all optional, empty = always)
+  starts_at?: string | null; // YYYY-MM-DD
+  ends_at?: string | null;
+  days_of_week?: number[] | null; // 0 = Sunday
+  start_time?: string | null; // HH:mm
+  end_time?: string | null;
+  // Scope (empty = every product / client)
+  product_ids?: number[] | null;
+  category_ids?: number[] | null;
+  client_ids?: number[] | null;
+  // Rule parameters, depending on type
+  discount_type?: "percentage" | "fixed" | null;
+  discount_value?: number | null;
+  buy_quantity?: number | null;
+  get_quantity?: number | null;
+  get_discount_percent?: number | null; // 100 = free
+  tiers?: PromotionTier[] | null;
+  client_prices?: PromotionClientPrice[] | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type PromotionFormData = Omit<Promotion, "id" | "created_at" | "updated_at">;
+
+export interface PromotionLine {
+  product_id: number;
+  category_id?: number | null;
+  quantity: number;
+  unit_price: number;
+}
+
+export interface PromotionContext {
+  client_id?: number | null;
+  at: Date | number | string; // When the sale was started
+}
+
+export interface AppliedPromotion {
+  promotion_id: number;
+  promotion_name: string;
+  discount_amount: number;
+}
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  buy_x_get_y: "اشتر X واحصل على Y",
+  quantity_break: "خصم الكميات",
+  category_percent: "خصم على فئة",
+  happy_hour: "ساعة سعيدة",
+  client_price: "أسعار خاصة للعميل",
+};
+
+const CACHE_KEY = "promotions";
+
+const round2 = (value: number) => preciseCalculation(value, 0, "add");
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+const toYmd = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(
+    date.getDate()
+  ).padStart(2, "0")}`;
+
+const hasAny = (list?: number[] | null) => !!list && list.length > 0;
+
+/**
+ * Whether the promotion runs at the given moment (local time). A window whose
+ * end is before its start spans midnight.
+ */
+const isInWindow = (promotion: Promotion, at: Date): boolean => {
+  const day = toYmd(at);
+  if (promotion.starts_at && day < promotion.starts_at.slice(0, 10)) return false;
+  if (promotion.ends_at && day > promotion.ends_at.slice(0, 10)) return false;
+  if (hasAny(promotion.days_of_week) && !promotion.days_of_week!.includes(at.getDay())) {
+    return false;
+  }
+  if (promotion.start_time && promotion.end_time) {
+    const now = at.getHours() * 60 + at.getMinutes();
+    const start = toMinutes(promotion.start_time);
+    const end = toMinutes(promotion.end_time);
+    const inside = start <= end ? now >= start && now < end : now >= start || now < end;
+    if (!inside) return false;
+  }
+  return true;
+};
+
+const appliesTo = (promotion: Promotion, line: PromotionLine, context: PromotionContext) => {
+  if (hasAny(promotion.client_ids) && !promotion.client_ids!.includes(Number(context.client_id))) {
+    return false;
+  }
+  const byProduct = hasAny(promotion.product_ids);
+  const byCategory = hasAny(promotion.category_ids);
+  if (!byProduct && !byCategory) return true;
+  return (
+    (byProduct && promotion.product_ids!.includes(line.product_id)) ||
+    (byCategory && line.category_id != null && promotion.category_ids!.includes(line.category_id))
+  );
+};
+
+const unitDiscount = (
+  type: "percentage" | "fixed" | null | undefined,
+  value: number | null | undefined,
+  unitPrice: number
+) => {
+  const v = Number(value) || 0;
+  return type === "fixed" ? v : (unitPrice * v) / 100;
+};
+
+/**
+ * Discount a promotion gives a line (0 when its rule isn't met)
+ */
+const lineDiscount = (promotion: Promotion, line: PromotionLine): number => {
+  const { quantity, unit_price: price } = line;
+  switch (promotion.type) {
+    case "buy_x_get_y": {
+      const buy = Number(promotion.buy_quantity) || 0;
+      const get = Number(promotion.get_quantity) || 0;
+      if (buy <= 0 || get <= 0) return 0;
+      const discountedUnits = Math.floor(quantity / (buy + get)) * get;
+      return (discountedUnits * price * (Number(promotion.get_discount_percent ?? 100) || 0)) / 100;
+    }
+    case "quantity_break": {
+      // Highest tier reached
+      const tier = (promotion.tiers || [])
+        .filter((t) => quantity >= Number(t.min_quantity))
+        .sort((a, b) => Number(b.min_quantity) - Number(a.min_quantity))[0];
+      return tier ? unitDiscount(tier.discount_type, tier.discount_value, price) * quantity : 0;
+    }
+    case "category_percent":
+      return unitDiscount("percentage", promotion.discount_value, price) * quantity;
+    case "happy_hour":
+      return unitDiscount(promotion.discount_type, promotion.discount_value, price) * quantity;
+    case "client_price": {
+      const special = (promotion.client_prices || []).find((p) => p.product_id === line.product_id);
+      return special ? Math.max(0, price - Number(special.price)) * quantity : 0;
+    }
+    default:
+      return 0;
+  }
+};
+
+// In-memory copy of the active promotions, so cart totals can be computed synchronously
+let cachedPromotions: Promotion[] = [];
+
+export const promotionService = {
+  // --- Engine ---
+
+  /**
+   * Best promotion for one line. Promotions don't stack: the biggest discount
+   * wins, then the higher priority, then the lower id, so the same cart always
+   * gets the same result.
+   */
+  evaluateLine: (
+    line: PromotionLine,
+    promotions: Promotion[],
+    context: PromotionContext
+  ): AppliedPromotion | null => {
+    const at = new Date(context.at);
+    const lineAmount = round2(line.unit_price * line.quantity);
+    if (lineAmount <= 0) return null;
+
+    let best: { promotion: Promotion; discount: number } | null = null;
+    for (const promotion of promotions) {
+      if (!promotion.is_active || !isInWindow(promotion, at) || !appliesTo(promotion, line, context)) {
+        continue;
+      }
+      const discount = Math.min(lineAmount, round2(lineDiscount(promotion, line)));
+      if (discount <= 0) continue;
+      if (
+        !best ||
+        discount > best.discount ||
+        (discount === best.discount &&
+          (promotion.priority > best.promotion.priority ||
+            (promotion.priority === best.promotion.priority && promotion.id < best.promotion.id)))
+      ) {
+        best = { promotion, discount };
+      }
+    }
+
+    return best
+      ? {
+          promotion_id: best.promotion.id,
+          promotion_name: best.promotion.name,
+          discount_amount: best.discount,
+        }
+      : null;
+  },
+
+  /**
+   * Set each line's promotion discount. Lines with a manual discount keep it.
+   */
+  applyToItems: <T extends SaleItem>(
+    items: T[],
+    context: PromotionContext,
+    promotions: Promotion[] = cachedPromotions
+  ): T[] =>
+    items.map((item) => {
+      if (item.discount_source === "manual") return item;
+      // Unit no longer in the chain: the sale is rejected at sync, don't price it
+      if (!hasLineUnit(item.product, item as SaleItem & UnitLine)) return item;
+      // Rules are in sellable units; the offline cart may hold stocking or chain units
+      const factor = getLineFactor(item.product, item as SaleItem & UnitLine);
+      const applied = promotionService.evaluateLine(
+        {
+          product_id: item.product_id,
+          category_id: item.product?.category_id ?? null,
+          quantity: Number(item.quantity) * factor,
+          unit_price: Number(item.unit_price) / factor,
+        },
+        promotions,
+        context
+      );
+      return {
+        ...item,
+        discount_amount: applied?.discount_amount ?? 0,
+        promotion_id: applied?.promotion_id ?? null,
+        promotion_name: applied?.promotion_name ?? null,
+        discount_source: applied ? "promotion" : null,
+      };
+    }),
+
+  /**
+   * Line total after its discount
+   */
+  getLineNet: (item: Pick<SaleItem, "unit_price" | "quantity" | "discount_amount">): number =>
+    Math.max(
+      0,
+      preciseCalculation(
+        round2(Number(item.unit_price) * Number(item.quantity)),
+        Number(item.discount_amount) || 0,
+        "subtract"
+      )
+    ),
+
+  // --- Offline cache ---
+
+  getCached: (): Promotion[] => cachedPromotions,
+
+  /**
+   * Load the promotions saved by the last refreshCache (offline start)
+   */
+  loadCache: async (): Promise<Promotion[]> => {
+    cachedPromotions = (await dbService.getSettingValue<Promotion[]>(CACHE_KEY)) || [];
+    return cachedPromotions;
+  },
+
+  /**
+   * Download the active promotions and keep them for offline use
+   */
+  refreshCache: async (): Promise<Promotion[]> => {
+    try {
+      const promotions = await promotionService.getPromotions(true);
+      cachedPromotions = promotions;
+      await dbService.setSettingValue(CACHE_KEY, promotions);
+    } catch (error) {
+      console.error("Failed to refresh promotions cache:", error);
+      await promotionService.loadCache();
+    }
+    return cachedPromotions;
+  },
+
+  // --- API ---
+
+  getPromotions: async (activeOnly = false): Promise<Promotion[]> => {
+    try {
+      const response = await apiClient.get<{ data: Promotion[] }>("/promotions", {
+        params: activeOnly ? { active: 1 } : undefined,
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching promotions:", error);
+      throw error;
+    }
+  },
+
+  createPromotion: async (data: PromotionFormData): Promise<Promotion> => {
+    try {
+      const response = await apiClient.post<{ data: Promotion }>("/promotions", data);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error creating promotion:", error);
+      throw error;
+    }
+  },
+
+  updatePromotion: async (id: number, data: Partial<PromotionFormData>): Promise<Promotion> => {
+    try {
+      const response = await apiClient.put<{ data: Promotion }>(`/promotions/${id}`, data);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error updating promotion:", error);
+      throw error;
+    }
+  },
+
+  deletePromotion: async (id: number): Promise<void> => {
+    try {
+      await apiClient.delete(`/promotions/${id}`);
+    } catch (error) {
+      console.error("Error deleting promotion:", error);
+      throw error;
+    }
+  },
+};
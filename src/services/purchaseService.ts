@@ -16,6 +16,9 @@ export interface PurchaseItem {
   product_sku?: string;
   batch_number: string | null;
   quantity: number; // Original quantity in STOCKING units
+  unit_id?: number | null; // Unit the quantity was entered in, when not the stocking unit
+  unit_name?: string | null;
+  unit_quantity?: number | null; // Quantity in that unit
   remaining_quantity: number; // Quantity remaining in SELLABLE units
   unit_cost: string | number; // Cost per STOCKING unit
   cost_per_sellable_unit: string | number; // New: Cost per SELLABLE unit (calculated by backend)
@@ -23,9 +26,13 @@ export interface PurchaseItem {
   sale_price: string | number | null; // Intended sale price per SELLABLE unit for this batch
   sale_price_stocking_unit?: string | number | null; // Optional: sale price per STOCKING unit
   expiry_date: string | null; // Format YYYY-MM-DD
+  received_quantity?: number; // STOCKING units received so far through goods receipts
+  backorder_closed?: boolean; // Outstanding quantity cancelled, no longer expected
   product?: Product; // Optional full product details
 }
 
+export type PurchaseStatus = "received" | "partially_received" | "pending" | "ordered";
+
 // Data structure for updating an existing purchase
 // It's often similar to CreatePurchaseData but items MUST have IDs if they are existing,
 // or no ID if they are new items being added during the update.
@@ -34,9 +41,10 @@ export interface UpdatePurchaseData {
   supplier_id?: number; // Optional if not changing supplier
   purchase_date?: string; // Format YYYY-MM-DD
   reference_number?: string | null;
-  status?: "received" | "pending" | "ordered";
+  status?: PurchaseStatus;
   notes?: string | null;
   currency?: string;
+  due_date?: string | null;
   // Items array can contain existing items (with ID) and new items (without ID)
   items: Array<{
     id?: number | null; // ID of existing item to update, null/missing for new item
@@ -61,10 +69,13 @@ export interface Purchase {
   warehouse_name?: string; // Warehouse name if eager loaded
   purchase_date: string; // Format YYYY-MM-DD
   reference_number: string | null;
-  status: "received" | "pending" | "ordered";
+  status: PurchaseStatus; // partially_received is set by goods receipts only
   total_amount: string; // Comes as string
   notes: string | null;
   currency?: string;
+  due_date?: string | null; // Payment due date, from the supplier's terms unless set
+  paid_amount?: number; // Allocated from supplier payments
+  payment_status?: "unpaid" | "partial" | "paid";
   created_at: string;
   items?: PurchaseItem[]; // Array of items, included if eager loaded (e.g., on show)
   supplier?: Supplier; // Optional: Full supplier details if loaded
@@ -78,6 +89,7 @@ export interface CreatePurchaseData {
   status: "received" | "pending" | "ordered";
   notes?: string | null;
   currency?: string; // Add currency here
+  due_date?: string | null;
   items: Array<{
     product_id: number;
     batch_number?: string | null; // New
@@ -0,0 +1,215 @@
+// src/services/receiptPrinterService.ts
+import { dbService, OfflineSale } from "./db";
+import { AppSettings } from "./settingService";
+import {
+  loadMonoBitmap,
+  renderSaleReceipt,
+  RECEIPT_DOTS_PER_LINE,
+  SaleReceiptOptions,
+} from "./escPosReceipt";
+
+export type PrinterTransportType = "usb" | "serial" | "download";
+
+/**
+ * Where the ESC/POS bytes go. Implementations only need the bytes; the receipt
+ * itself is rendered by escPosReceipt.
+ */
+export interface PrinterTransport {
+  type: PrinterTransportType;
+  label: string;
+  isSupported: () => boolean;
+  print: (bytes: Uint8Array, config: ReceiptPrinterConfig) => Promise<void>;
+}
+
+// Per-terminal printer setup, kept in the local settings store
+export interface ReceiptPrinterConfig {
+  transport: PrinterTransportType;
+  paperWidth: 58 | 80;
+  codePage: number; // ESC t n for PC864 (see the printer's self-test page)
+  baudRate: number; // Web Serial only
+  printLogo: boolean;
+  openDrawer: boolean; // Kick the cash drawer after cash sales
+}
+
+export const DEFAULT_PRINTER_CONFIG: ReceiptPrinterConfig = {
+  transport: "usb",
+  paperWidth: 80,
+  codePage: 22,
+  baudRate: 9600,
+  printLogo: true,
+  openDrawer: true,
+};
+
+const CONFIG_KEY = "receipt_printer";
+const USB_PRINTER_CLASS = 7;
+
+// Minimal WebUSB / Web Serial surface (not in the TS DOM lib)
+interface UsbEndpointLike {
+  direction: "in" | "out";
+  type: "bulk" | "interrupt" | "isochronous";
+  endpointNumber: number;
+}
+interface UsbDeviceLike {
+  opened: boolean;
+  configuration: {
+    interfaces: {
+      interfaceNumber: number;
+      alternate: { endpoints: UsbEndpointLike[] };
+    }[];
+  } | null;
+  open: () => Promise<void>;
+  selectConfiguration: (value: number) => Promise<void>;
+  claimInterface: (interfaceNumber: number) => Promise<void>;
+  transferOut: (endpointNumber: number, data: Uint8Array) => Promise<unknown>;
+}
+interface UsbLike {
+  getDevices: () => Promise<UsbDeviceLike[]>;
+  requestDevice: (options: { filters: { classCode?: number }[] }) => Promise<UsbDeviceLike>;
+}
+interface SerialPortLike {
+  writable: WritableStream<Uint8Array> | null;
+  open: (options: { baudRate: number }) => Promise<void>;
+  close: () => Promise<void>;
+}
+interface SerialLike {
+  getPorts: () => Promise<SerialPortLike[]>;
+  requestPort: () => Promise<SerialPortLike>;
+}
+
+const getUsb = () => (navigator as Navigator & { usb?: UsbLike }).usb;
+const getSerial = () => (navigator as Navigator & { serial?: SerialLike }).serial;
+
+// Claimed USB printer, reused between receipts
+let usbPrinter: { device: UsbDeviceLike; endpoint: number } | null = null;
+
+const connectUsbPrinter = async () => {
+  if (usbPrinter?.device.opened) return usbPrinter;
+  const usb = getUsb();
+  if (!usb) throw new Error("WebUSB غير مدعوم في هذا المتصفح");
+
+  const [known] = await usb.getDevices();
+  const device =
+    known ?? (await usb.requestDevice({ filters: [{ classCode: USB_PRINTER_CLASS }] }));
+  if (!device.opened) await device.open();
+  if (!device.configuration) await device.selectConfiguration(1);
+
+  const printerInterface = device.configuration?.interfaces.find((i) =>
+    i.alternate.endpoints.some((e) => e.direction === "out" && e.type === "bulk")
+  );
+  const endpoint = printerInterface?.alternate.endpoints.find(
+    (e) => e.direction === "out" && e.type === "bulk"
+  );
+  if (!printerInterface || !endpoint) {
+    throw new Error("الجهاز المحدد ليس طابعة");
+  }
+  await device.claimInterface(printerInterface.interfaceNumber);
+  usbPrinter = { device, endpoint: endpoint.endpointNumber };
+  return usbPrinter;
+};
+
+const transports: Record<PrinterTransportType, PrinterTransport> = {
+  usb: {
+    type: "usb",
+    label: "USB",
+    isSupported: () => !!getUsb(),
+    print: async (bytes) => {
+      const printer = await connectUsbPrinter();
+      try {
+        await printer.device.transferOut(printer.endpoint, bytes);
+      } catch (error) {
+        usbPrinter = null; // Unplugged: reconnect on the next receipt
+        throw error;
+      }
+    },
+  },
+
+  serial: {
+    type: "serial",
+    label: "Serial / Bluetooth",
+    isSupported: () => !!getSerial(),
+    print: async (bytes, config) => {
+      const serial = getSerial();
+      if (!serial) throw new Error("Web Serial غير مدعوم في هذا المتصفح");
+      const [known] = await serial.getPorts();
+      const port = known ?? (await serial.requestPort());
+      await port.open({ baudRate: config.baudRate });
+      try {
+        const writer = port.writable?.getWriter();
+        if (!writer) throw new Error("تعذر الكتابة إلى المنفذ");
+        await writer.write(bytes);
+        writer.releaseLock();
+      } finally {
+        await port.close();
+      }
+    },
+  },
+
+  // Raw .bin file, for printers shared through the OS (copy /b file LPT1) or debugging
+  download: {
+    type: "download",
+    label: "تنزيل ملف",
+    isSupported: () => true,
+    print: async (bytes) => {
+      const blob = new Blob([bytes], { type: "application/octet-stream" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `receipt-${Date.now()}.bin`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    },
+  },
+};
+
+export const receiptPrinterService = {
+  getTransports: (): PrinterTransport[] => Object.values(transports),
+
+  getConfig: async (): Promise<ReceiptPrinterConfig> => {
+    const saved = await dbService.getSettingValue<Partial<ReceiptPrinterConfig>>(CONFIG_KEY);
+    return { ...DEFAULT_PRINTER_CONFIG, ...saved };
+  },
+
+  saveConfig: async (config: ReceiptPrinterConfig): Promise<void> => {
+    await dbService.setSettingValue(CONFIG_KEY, config);
+  },
+
+  /**
+   * ESC/POS bytes for a sale with this terminal's printer setup
+   */
+  buildSaleReceipt: async (
+    sale: OfflineSale,
+    settings: AppSettings | null | undefined,
+    config: ReceiptPrinterConfig,
+    options: Pick<SaleReceiptOptions, "userName" | "qrData"> = {}
+  ): Promise<Uint8Array> => {
+    let logo = null;
+    if (config.printLogo && settings?.company_logo_url) {
+      try {
+        logo = await loadMonoBitmap(
+          settings.company_logo_url,
+          Math.floor(RECEIPT_DOTS_PER_LINE[config.paperWidth] / 2)
+        );
+      } catch (error) {
+        console.warn("Receipt logo skipped:", error); // Offline or CORS
+      }
+    }
+    const paidCash = (sale.payments || []).some((p) => p.method === "cash");
+    return renderSaleReceipt(sale, settings, {
+      ...options,
+      paperWidth: config.paperWidth,
+      codePage: config.codePage,
+      logo,
+      openDrawer: config.openDrawer && paidCash,
+    });
+  },
+
+  print: async (bytes: Uint8Array, config: ReceiptPrinterConfig): Promise<void> => {
+    const transport = transports[config.transport];
+    if (!transport.isSupported()) {
+      throw new Error(`طريقة الطباعة "${transport.label}" غير مدعومة في هذا المتصفح`);
+    }
+    await transport.print(bytes, config);
+  },
+};
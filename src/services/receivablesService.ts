@@ -0,0 +1,317 @@
+// src/services/receivablesService.ts
+import apiClient from "../lib/axios";
+import { formatNumber } from "@/constants";
+import clientCreditService, { AgingBucket, ClientAging } from "./clientCreditService";
+import clientLedgerService from "./clientLedgerService";
+import whatsappService from "./whatsappService";
+import { AppSettings } from "./settingService";
+import { renderClientStatement } from "@/utils/clientStatementPdf";
+
+// A scheduled reminder run: every debtor matching the filters gets their
+// statement over WhatsApp with the templated caption
+export interface DunningCampaign {
+  id: number;
+  name: string;
+  min_bucket: AgingBucket; // Oldest unpaid sale must be at least this old
+  min_balance: number;
+  message_template: string;
+  days_of_week: number[]; // 0 = Sunday
+  schedule_time: string; // HH:mm
+  is_active: boolean;
+  last_run_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type DunningCampaignFormData = Omit<
+  DunningCampaign,
+  "id" | "last_run_at" | "created_at" | "updated_at"
+>;
+
+export type DunningReminderStatus = "sent" | "failed";
+
+export interface DunningReminder {
+  id: number;
+  campaign_id: number | null; // null when sent by hand
+  campaign_name?: string | null;
+  client_id: number;
+  client_name: string;
+  phone: string;
+  balance: number; // Open balance when the reminder went out
+  status: DunningReminderStatus;
+  error?: string | null;
+  sent_at: string;
+  // First payment received after the reminder (filled by the server)
+  paid_amount?: number | null;
+  paid_at?: string | null;
+}
+
+export interface DunningRemindersResponse {
+  data: DunningReminder[];
+  summary: { sent: number; failed: number; paid: number; paid_amount: number };
+  last_page: number;
+}
+
+export interface DunningRunResult {
+  sent: number;
+  failed: number;
+  skipped: number; // Debtors without a phone number
+}
+
+export const DUNNING_PLACEHOLDERS: { key: string; label: string }[] = [
+  { key: "client_name", label: "اسم العميل" },
+  { key: "balance", label: "الرصيد المستحق" },
+  { key: "overdue_amount", label: "المتأخر (أكثر من 30 يوم)" },
+  { key: "oldest_date", label: "تاريخ أقدم فاتورة" },
+  { key: "company_name", label: "اسم الشركة" },
+];
+
+export const DEFAULT_DUNNING_TEMPLATE =
+  "عزيزنا {client_name}، نرفق لكم كشف الحساب. الرصيد المستحق: {balance}. نرجو التكرم بالسداد، مع الشكر - {company_name}";
+
+const BUCKET_ORDER: AgingBucket[] = ["current", "days_31_60", "days_61_90", "over_90"];
+
+// WhatsApp chat ids are digits only, international format
+const toChatNumber = (phone?: string | null) => (phone || "").replace(/\D/g, "");
+
+const receivablesService = {
+  /**
+   * Fill {placeholders} of a reminder template; unknown ones are left as typed
+   */
+  renderTemplate: (template: string, vars: Record<string, string>): string =>
+    template.replace(/\{(\w+)\}/g, (match, key: string) => vars[key] ?? match),
+
+  templateVars: (debtor: ClientAging, settings: AppSettings | null): Record<string, string> => ({
+    client_name: debtor.client_name,
+    balance: formatNumber(debtor.total, 2),
+    overdue_amount: formatNumber(debtor.days_31_60 + debtor.days_61_90 + debtor.over_90, 2),
+    oldest_date: debtor.oldest_unpaid_date?.slice(0, 10) || "-",
+    company_name: settings?.company_name || "",
+  }),
+
+  /**
+   * Debtors a campaign targets: balance at least min_balance and an unpaid
+   * amount in min_bucket or an older bucket
+   */
+  getDebtors: async (
+    campaign: Pick<DunningCampaign, "min_bucket" | "min_balance">,
+    asOf: string
+  ): Promise<ClientAging[]> => {
+    const aging = await clientCreditService.getAgingReport(asOf);
+    const buckets = BUCKET_ORDER.slice(BUCKET_ORDER.indexOf(campaign.min_bucket));
+    return aging.filter(
+      (row) =>
+        row.total >= Number(campaign.min_balance || 0) && buckets.some((b) => row[b] > 0)
+    );
+  },
+
+  /**
+   * Upload a rendered statement; WhatsApp fetches documents by URL
+   */
+  uploadStatement: async (clientId: number, blob: Blob): Promise<string> => {
+    const form = new FormData();
+    form.append("statement", blob, `statement-${clientId}.pdf`);
+    try {
+      const response = await apiClient.post<{ data: { url: string } }>(
+        `/clients/${clientId}/statements`,
+        form,
+        { headers: { "Content-Type": "multipart/form-data" } }
+      );
+      return response.data.data.url;
+    } catch (error) {
+      console.error("Error uploading client statement:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Send one debtor their statement and log the reminder, sent or failed
+   */
+  sendStatement: async (
+    debtor: ClientAging,
+    template: string,
+    settings: AppSettings | null,
+    campaignId: number | null = null
+  ): Promise<DunningReminder> => {
+    const phone = toChatNumber(debtor.phone);
+    let error: string | null = null;
+    try {
+      if (!phone) throw new Error("لا يوجد رقم هاتف للعميل");
+      const ledger = await clientLedgerService.getLedger(debtor.client_id);
+      const url = await receivablesService.uploadStatement(
+        debtor.client_id,
+        await renderClientStatement(ledger, settings)
+      );
+      await whatsappService.sendPdfReport(
+        phone,
+        url,
+        receivablesService.renderTemplate(template, receivablesService.templateVars(debtor, settings))
+      );
+    } catch (err) {
+      console.error(`Error sending statement to client ${debtor.client_id}:`, err);
+      error = err instanceof Error ? err.message : "فشل الإرسال";
+    }
+    return receivablesService.recordReminder({
+      campaign_id: campaignId,
+      client_id: debtor.client_id,
+      phone,
+      balance: debtor.total,
+      status: error ? "failed" : "sent",
+      error,
+    });
+  },
+
+  recordReminder: async (data: {
+    campaign_id: number | null;
+    client_id: number;
+    phone: string;
+    balance: number;
+    status: DunningReminderStatus;
+    error: string | null;
+  }): Promise<DunningReminder> => {
+    try {
+      const response = await apiClient.post<{ data: DunningReminder }>("/dunning-reminders", data);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error recording dunning reminder:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Send a campaign to all its debtors, one at a time
+   */
+  runCampaign: async (
+    campaign: DunningCampaign,
+    settings: AppSettings | null,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<DunningRunResult> => {
+    const debtors = await receivablesService.getDebtors(
+      campaign,
+      new Date().toISOString().slice(0, 10)
+    );
+    const result: DunningRunResult = { sent: 0, failed: 0, skipped: 0 };
+    for (const [index, debtor] of debtors.entries()) {
+      if (!toChatNumber(debtor.phone)) {
+        result.skipped++;
+      } else {
+        try {
+          const reminder = await receivablesService.sendStatement(
+            debtor,
+            campaign.message_template,
+            settings,
+            campaign.id
+          );
+          result[reminder.status === "sent" ? "sent" : "failed"]++;
+        } catch {
+          // The reminder couldn't be logged: count it and carry on with the others,
+          // the run is already claimed
+          result.failed++;
+        }
+      }
+      onProgress?.(index + 1, debtors.length);
+    }
+    return result;
+  },
+
+  // --- Scheduling ---
+
+  /**
+   * Whether today's slot of an active campaign has come and not run yet
+   */
+  isCampaignDue: (campaign: DunningCampaign, now: Date = new Date()): boolean => {
+    if (!campaign.is_active || !campaign.days_of_week.includes(now.getDay())) return false;
+    const [hours, minutes] = campaign.schedule_time.split(":").map(Number);
+    const slot = new Date(now);
+    slot.setHours(hours || 0, minutes || 0, 0, 0);
+    if (now < slot) return false;
+    return !campaign.last_run_at || new Date(campaign.last_run_at) < slot;
+  },
+
+  /**
+   * Claim a scheduled run so only one open browser sends it. False when
+   * another session already has it (409).
+   */
+  claimRun: async (campaignId: number): Promise<boolean> => {
+    try {
+      await apiClient.post(`/admin/dunning-campaigns/${campaignId}/claim`);
+      return true;
+    } catch (error) {
+      if ((error as { response?: { status?: number } })?.response?.status === 409) return false;
+      console.error("Error claiming dunning campaign run:", error);
+      throw error;
+    }
+  },
+
+  // --- Campaigns ---
+
+  getCampaigns: async (): Promise<DunningCampaign[]> => {
+    try {
+      const response = await apiClient.get<{ data: DunningCampaign[] }>("/admin/dunning-campaigns");
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching dunning campaigns:", error);
+      throw error;
+    }
+  },
+
+  createCampaign: async (data: DunningCampaignFormData): Promise<DunningCampaign> => {
+    try {
+      const response = await apiClient.post<{ data: DunningCampaign }>(
+        "/admin/dunning-campaigns",
+        data
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error("Error creating dunning campaign:", error);
+      throw error;
+    }
+  },
+
+  updateCampaign: async (
+    id: number,
+    data: Partial<DunningCampaignFormData>
+  ): Promise<DunningCampaign> => {
+    try {
+      const response = await apiClient.put<{ data: DunningCampaign }>(
+        `/admin/dunning-campaigns/${id}`,
+        data
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error("Error updating dunning campaign:", error);
+      throw error;
+    }
+  },
+
+  deleteCampaign: async (id: number): Promise<void> => {
+    try {
+      await apiClient.delete(`/admin/dunning-campaigns/${id}`);
+    } catch (error) {
+      console.error("Error deleting dunning campaign:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Sent reminders with the payment that followed each one
+   */
+  getReminders: async (params: {
+    start_date: string;
+    end_date: string;
+    campaign_id?: number | null;
+    page?: number;
+  }): Promise<DunningRemindersResponse> => {
+    try {
+      const response = await apiClient.get<DunningRemindersResponse>("/reports/dunning-reminders", {
+        params,
+      });
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching dunning reminders:", error);
+      throw error;
+    }
+  },
+};
+
+export default receivablesService;
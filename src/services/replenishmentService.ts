@@ -0,0 +1,258 @@
+// src/services/replenishmentService.ts
+import { format, subDays } from "date-fns";
+import { preciseCalculation } from "@/constants";
+import analyticsService from "./analyticsService";
+import productService, { Product } from "./productService";
+import purchaseService, { Purchase } from "./purchaseService";
+import supplierService from "./supplierService";
+
+export interface ReorderParams {
+  lookback_days: number; // Sales window used for velocity
+  safety_days: number; // Safety stock, in days of sales
+  cover_days: number; // Days of sales each order should cover beyond the lead time
+  default_lead_time_days: number; // For suppliers without a lead time
+}
+
+export const DEFAULT_REORDER_PARAMS: ReorderParams = {
+  lookback_days: 30,
+  safety_days: 7,
+  cover_days: 14,
+  default_lead_time_days: 7,
+};
+
+// Last purchase of a product, used as its default supplier and cost
+export interface LastSupply {
+  supplier_id: number | null;
+  supplier_name: string | null;
+  unit_cost: number; // Per STOCKING unit
+  sale_price: number | null; // Per SELLABLE unit
+  purchase_date: string;
+}
+
+// Stock figures are in SELLABLE units, the suggested quantity in STOCKING units
+export interface ReorderSuggestion {
+  product: Product;
+  supplier_id: number | null;
+  supplier_name: string | null;
+  lead_time_days: number;
+  sold_quantity: number;
+  daily_velocity: number;
+  current_stock: number;
+  safety_stock: number;
+  reorder_point: number;
+  suggested_quantity: number;
+  unit_cost: number;
+  sale_price: number;
+}
+
+// Suggestions for one supplier, edited on screen before becoming a purchase
+export interface DraftPurchase {
+  supplier_id: number | null;
+  supplier_name: string;
+  lines: ReorderSuggestion[];
+}
+
+const HISTORY_PAGE_SIZE = 100;
+const CONCURRENCY = 4;
+
+const replenishmentService = {
+  /**
+   * Products to evaluate: a whole category, or everything at/below its alert level.
+   */
+  getCandidates: async (categoryId?: number | null): Promise<Product[]> => {
+    if (!categoryId) {
+      const lowStock = await analyticsService.getLowStockItems();
+      return productService.getProductsByIds(lowStock.map((item) => item.id));
+    }
+    const products: Product[] = [];
+    let page = 1;
+    let lastPage = 1;
+    do {
+      const response = await productService.getProducts(
+        page,
+        "",
+        "name",
+        "asc",
+        HISTORY_PAGE_SIZE,
+        categoryId
+      );
+      products.push(...response.data);
+      lastPage = response.meta.last_page;
+      page++;
+    } while (page <= lastPage);
+    return products.filter((product) => product.is_active !== false);
+  },
+
+  /**
+   * SELLABLE units sold since the given date, paging back through the sales history.
+   */
+  getSoldQuantity: async (productId: number, since: Date): Promise<number> => {
+    const cutoff = format(since, "yyyy-MM-dd");
+    let sold = 0;
+    let page = 1;
+    let lastPage = 1;
+    do {
+      const response = await productService.getSalesHistory(productId, page, HISTORY_PAGE_SIZE);
+      for (const item of response.data) {
+        if (item.created_at && item.created_at.slice(0, 10) < cutoff) return sold;
+        sold = preciseCalculation(sold, Number(item.quantity) || 0, "add", 3);
+      }
+      lastPage = response.last_page;
+      page++;
+    } while (page <= lastPage);
+    return sold;
+  },
+
+  getLastSupply: async (productId: number): Promise<LastSupply | null> => {
+    const purchases = await purchaseService.getPurchasesForProduct(productId);
+    const latest = [...purchases]
+      .filter((purchase: Purchase) => purchase.supplier_id)
+      .sort((a, b) => b.purchase_date.localeCompare(a.purchase_date))[0];
+    if (!latest) return null;
+    const item = latest.items?.find((line) => line.product_id === productId);
+    return {
+      supplier_id: latest.supplier_id,
+      supplier_name: latest.supplier_name || null,
+      unit_cost: Number(item?.unit_cost) || 0,
+      sale_price: item?.sale_price != null ? Number(item.sale_price) : null,
+      purchase_date: latest.purchase_date,
+    };
+  },
+
+  /**
+   * Reorder point = velocity x lead time + safety stock (never below the alert level).
+   * At or below it, order enough to reach the reorder point plus the cover period.
+   */
+  computeSuggestion: (
+    product: Product,
+    soldQuantity: number,
+    supply: LastSupply | null,
+    leadTimeDays: number,
+    params: ReorderParams
+  ): ReorderSuggestion => {
+    const dailyVelocity = preciseCalculation(soldQuantity, params.lookback_days || 1, "divide", 3);
+    const currentStock = Number(product.current_stock_quantity ?? product.stock_quantity) || 0;
+    const safetyStock = preciseCalculation(dailyVelocity, params.safety_days, "multiply", 3);
+    const reorderPoint = Math.max(
+      preciseCalculation(dailyVelocity * leadTimeDays, safetyStock, "add", 3),
+      Number(product.stock_alert_level) || 0
+    );
+    const target = preciseCalculation(reorderPoint, dailyVelocity * params.cover_days, "add", 3);
+    const unitsPerStocking = Number(product.units_per_stocking_unit) || 1;
+    const suggested =
+      currentStock <= reorderPoint
+        ? Math.max(1, Math.ceil((target - currentStock) / unitsPerStocking))
+        : 0;
+
+    return {
+      product,
+      supplier_id: supply?.supplier_id ?? null,
+      supplier_name: supply?.supplier_name ?? null,
+      lead_time_days: leadTimeDays,
+      sold_quantity: soldQuantity,
+      daily_velocity: dailyVelocity,
+      current_stock: currentStock,
+      safety_stock: safetyStock,
+      reorder_point: reorderPoint,
+      suggested_quantity: suggested,
+      unit_cost: supply?.unit_cost || Number(product.latest_purchase_cost) || 0,
+      sale_price:
+        supply?.sale_price ??
+        Number(
+          product.suggested_sale_price_per_sellable_unit ??
+            product.last_sale_price_per_sellable_unit ??
+            0
+        ),
+    };
+  },
+
+  /**
+   * Evaluates every product and returns those that need ordering.
+   */
+  buildSuggestions: async (
+    products: Product[],
+    params: ReorderParams,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<ReorderSuggestion[]> => {
+    const since = subDays(new Date(), params.lookback_days);
+    const leadTimes = new Map<number, Promise<number | null>>();
+    const leadTimeOf = (supplierId: number) => {
+      if (!leadTimes.has(supplierId)) {
+        leadTimes.set(
+          supplierId,
+          supplierService
+            .getSupplier(supplierId)
+            .then((supplier) => supplier.lead_time_days ?? null)
+            .catch(() => null)
+        );
+      }
+      return leadTimes.get(supplierId)!;
+    };
+
+    const suggestions: ReorderSuggestion[] = [];
+    let done = 0;
+    for (let i = 0; i < products.length; i += CONCURRENCY) {
+      const chunk = products.slice(i, i + CONCURRENCY);
+      const results = await Promise.all(
+        chunk.map(async (product) => {
+          const [sold, supply] = await Promise.all([
+            replenishmentService.getSoldQuantity(product.id, since),
+            replenishmentService.getLastSupply(product.id),
+          ]);
+          const leadTime =
+            (supply?.supplier_id ? await leadTimeOf(supply.supplier_id) : null) ??
+            params.default_lead_time_days;
+          return replenishmentService.computeSuggestion(product, sold, supply, leadTime, params);
+        })
+      );
+      suggestions.push(...results.filter((suggestion) => suggestion.suggested_quantity > 0));
+      done += chunk.length;
+      onProgress?.(done, products.length);
+    }
+    return suggestions;
+  },
+
+  groupBySupplier: (suggestions: ReorderSuggestion[]): DraftPurchase[] => {
+    const drafts = new Map<number | null, DraftPurchase>();
+    suggestions.forEach((suggestion) => {
+      const draft = drafts.get(suggestion.supplier_id) ?? {
+        supplier_id: suggestion.supplier_id,
+        supplier_name: suggestion.supplier_name || "بدون مورد سابق",
+        lines: [],
+      };
+      draft.lines.push(suggestion);
+      drafts.set(suggestion.supplier_id, draft);
+    });
+    // Drafts without a supplier last, they need one assigned first
+    return [...drafts.values()].sort(
+      (a, b) => Number(a.supplier_id === null) - Number(b.supplier_id === null)
+    );
+  },
+
+  /**
+   * Creates an ordered purchase from a draft; returns the new purchase.
+   */
+  createPurchaseFromDraft: async (draft: DraftPurchase, supplierId: number): Promise<Purchase> => {
+    try {
+      return await purchaseService.createPurchase({
+        supplier_id: supplierId,
+        purchase_date: format(new Date(), "yyyy-MM-dd"),
+        status: "ordered",
+        notes: "أمر شراء من اقتراحات إعادة الطلب",
+        items: draft.lines
+          .filter((line) => line.suggested_quantity > 0)
+          .map((line) => ({
+            product_id: line.product.id,
+            quantity: line.suggested_quantity,
+            unit_cost: line.unit_cost,
+            sale_price: line.sale_price,
+          })),
+      });
+    } catch (error) {
+      console.error("Error creating purchase from reorder draft:", error);
+      throw error;
+    }
+  },
+};
+
+export default replenishmentService;
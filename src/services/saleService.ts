@@ -10,10 +10,11 @@ import { AxiosError } from "axios";
 import { PaginatedResponse } from "./clientService"; // Or adjust import path
 
 // Import related entity types
-import { Product } from "./productService";
+import { Product, TaxCategory } from "./productService";
 import { Client } from "./clientService";
 import { User } from "./authService";
 import { PurchaseItem as BatchType } from "./purchaseService"; // Batch is a PurchaseItem
+import type { LineDiscountSource } from "./promotionService";
 
 // --- Interfaces for Sales Module ---
 
@@ -32,6 +33,10 @@ export interface Payment {
     | "store_credit"
     | "refund";
   amount: string | number; // String from form, number for API
+  // Cash tender: handed over by the customer vs applied (amount)
+  tendered_amount?: number | null;
+  change_amount?: number | null;
+  rounding_adjustment?: number | null; // Cash rounding to the smallest coin
   payment_date: string; // YYYY-MM-DD
   reference_number?: string | null;
   notes?: string | null;
@@ -63,6 +68,17 @@ export interface SaleItem {
   unit_price: string | number;
   total_price?: string | number; // Usually calculated by backend/resource
   cost_price_at_sale?: string | number; // Cost per sellable unit at sale time
+  // VAT at sale time (the rate is kept so later rate changes don't alter the invoice)
+  tax_category?: TaxCategory | null;
+  tax_rate?: number | null;
+  tax_amount?: string | number | null;
+  // Line discount, off unit_price × quantity (the sale discount comes after it)
+  discount_amount?: string | number | null;
+  discount_source?: LineDiscountSource | null;
+  promotion_id?: number | null; // Promotion that gave the discount
+  promotion_name?: string | null;
+  // Automatic price of the line (price list or product price); a different unit_price is a manual override
+  list_price?: number | null;
   // available_stock from batch was a temporary UI field, not usually part of SaleItem model
   created_at?: string;
   updated_at?: string;
@@ -90,7 +106,12 @@ export interface Sale {
   due_amount?: string | number; // Calculated (total_amount - paid_amount)
   discount_amount?: string | number; // Discount amount
   discount_type?: "percentage" | "fixed"; // Discount type
+  tax_amount?: string | number; // VAT included in total_amount
+  line_discount_amount?: string | number; // Sum of the items' discounts (lists without items)
+  price_list_id?: number | null; // Price list the sale was priced with
+  price_list_name?: string | null;
   is_returned?: boolean; // Whether this sale has been returned
+  idempotency_key?: string | null; // Key the sale was created with (offline tempId)
 
   notes: string | null;
   created_at: string;
@@ -110,11 +131,31 @@ export interface CreateSaleData {
   shift_id?: number | null;
   discount_amount?: number | string; // Discount amount
   discount_type?: "percentage" | "fixed"; // Discount type
+  // Client-generated key (the offline tempId) so a replayed POST returns the existing sale
+  idempotency_key?: string | null;
+  tax_amount?: number; // VAT of the sale, included in the total
+  price_list_id?: number | null;
+  // Manager approval of a due over the client's credit limit/terms (offline approvals are recorded on sync)
+  credit_override?: {
+    id?: number | null;
+    manager_id: number;
+    amount: number;
+    reasons: string[];
+    approved_at: string;
+  } | null;
   items: Array<{
     product_id: number;
     purchase_item_id?: number | null; // If specific batch is selected
     quantity: number;
     unit_price: number | string;
+    tax_category?: TaxCategory | null;
+    tax_rate?: number | null;
+    tax_amount?: number | null;
+    discount_amount?: number | null;
+    discount_source?: LineDiscountSource | null;
+    promotion_id?: number | null;
+    list_price?: number | null; // Lets the backend audit manual price overrides
+    sale_unit_id?: number | null; // Chain unit the line was sold in; quantity stays in sellable units
   }>;
   payments?: Array<{
     // Optional payments array on creation
@@ -182,6 +223,7 @@ export interface CreateSaleReturnData {
   credit_action: "refund" | "store_credit" | "none";
   refunded_amount?: number;
   items: SaleReturnItemData[];
+  idempotency_key?: string; // Local return tempId, makes sync replays safe
 }
 
 export interface SaleReturn {
@@ -197,6 +239,7 @@ export interface SaleReturn {
   items?: any[]; // Simplified for now
   client?: { id: number; name: string };
   original_sale?: { id: number; invoice_number: string };
+  idempotency_key?: string | null;
 }
 
 // --- Service Object ---
@@ -221,6 +264,27 @@ const saleService = {
     }
   },
 
+  /**
+   * Return recorded with the given idempotency key (a POS return whose
+   * response was lost), or null
+   */
+  findSaleReturnByIdempotencyKey: async (key: string): Promise<SaleReturn | null> => {
+    try {
+      const params = new URLSearchParams();
+      params.append("idempotency_key", key);
+      params.append("per_page", "1");
+      const response = await apiClient.get<PaginatedResponse<SaleReturn>>(
+        `/sale-returns?${params.toString()}`
+      );
+      return (
+        response.data.data?.find((saleReturn) => saleReturn.idempotency_key === key) ?? null
+      );
+    } catch (error) {
+      console.error(`Error looking up sale return by idempotency key ${key}:`, error);
+      throw error;
+    }
+  },
+
   /**
    * Get today's sales by created_at (for POS TodaySalesColumn)
    */
@@ -368,7 +432,10 @@ const saleService = {
     try {
       const response = await apiClient.post<{ sale: Sale } | Sale>(
         "/sales",
-        saleData
+        saleData,
+        saleData.idempotency_key
+          ? { headers: { "Idempotency-Key": saleData.idempotency_key } }
+          : undefined
       );
       if ("sale" in response.data) {
         return response.data.sale;
@@ -383,6 +450,28 @@ const saleService = {
     }
   },
 
+  /**
+   * Find a sale created with the given idempotency key (offline tempId).
+   * Returns null if the server has no such sale, or answers with a sale that
+   * doesn't carry the key (filter not supported).
+   */
+  findSaleByIdempotencyKey: async (key: string): Promise<Sale | null> => {
+    try {
+      const params = new URLSearchParams();
+      params.append("idempotency_key", key);
+      params.append("per_page", "1");
+      const response = await apiClient.get<PaginatedResponse<Sale>>(
+        `/sales?${params.toString()}`
+      );
+      return (
+        response.data.data?.find((sale) => sale.idempotency_key === key) ?? null
+      );
+    } catch (error) {
+      console.error(`Error looking up sale by idempotency key ${key}:`, error);
+      throw error;
+    }
+  },
+
   /**
    * Create an empty sale (draft) for POS operations.
    */
@@ -485,6 +574,9 @@ const saleService = {
     paymentData: {
       method: string;
       amount: number;
+      tendered_amount?: number | null;
+      change_amount?: number | null;
+      rounding_adjustment?: number | null;
       reference_number?: string | null;
       notes?: string | null;
     }
@@ -579,6 +671,7 @@ const saleService = {
       quantity: number;
       unit_price: number;
       purchase_item_id?: number | null; // Optional batch selection
+      list_price?: number | null; // Kept so the backend can audit a manual price
     }
   ): Promise<Sale> => {
     try {
@@ -776,6 +869,47 @@ const saleService = {
     }
   },
 
+  /**
+   * Set line discounts (promotions or manual) and return updated Sale
+   */
+  updateLineDiscountsPOS: async (
+    saleId: number,
+    lines: Array<{
+      sale_item_id: number;
+      discount_amount: number;
+      discount_source: LineDiscountSource | null;
+      promotion_id: number | null;
+    }>
+  ): Promise<Sale> => {
+    try {
+      const response = await apiClient.put<{ sale: Sale }>(
+        `/sales/${saleId}/line-discounts`,
+        { lines }
+      );
+      return response.data.sale;
+    } catch (error) {
+      console.error(`Error updating line discounts (POS):`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Reprice the sale with a price list (null = product prices). The backend
+   * keeps the lines whose price was changed by hand.
+   */
+  applyPriceListPOS: async (saleId: number, priceListId: number | null): Promise<Sale> => {
+    try {
+      const response = await apiClient.put<{ sale: Sale }>(
+        `/sales/${saleId}/price-list`,
+        { price_list_id: priceListId }
+      );
+      return response.data.sale;
+    } catch (error) {
+      console.error(`Error applying price list (POS):`, error);
+      throw error;
+    }
+  },
+
   /**
    * Update batch for an item and return updated Sale
    */
@@ -859,7 +993,13 @@ const saleService = {
     try {
       const response = await apiClient.post<
         { sale_return: SaleReturn } | SaleReturn
-      >("/sale-returns", data);
+      >(
+        "/sale-returns",
+        data,
+        data.idempotency_key
+          ? { headers: { "Idempotency-Key": data.idempotency_key } }
+          : undefined
+      );
       if ("sale_return" in response.data) {
         return response.data.sale_return;
       }
@@ -5,6 +5,7 @@ import apiClient, {
   ApiErrorResponse,
 } from "../lib/axios";
 import { AxiosError } from "axios";
+import type { LabelTemplate } from "./labelService";
 
 // Interface for the settings object (should match keys in config/app_settings.php)
 export interface AppSettings {
@@ -41,10 +42,20 @@ export interface AppSettings {
   pdf_font?: string;
   pos_mode?: "shift" | "days"; // POS operation mode: shift-based or day-based
   pos_filter_sales_by_user?: boolean; // Filter sales by logged-in user in POS
+  cash_rounding_increment?: number; // Smallest coin cash totals round to, 0 = off
+  cash_rounding_mode?: "nearest" | "up" | "down";
+  vat_enabled?: boolean;
+  vat_rate?: number; // Default VAT percentage (e.g. 15)
+  prices_include_tax?: boolean; // Sale prices are entered VAT-inclusive
+  vat_exemption_code_e?: string; // ZATCA VATEX-SA-* reason of exempt (E) lines
+  vat_exemption_code_z?: string; // ZATCA VATEX-SA-* reason of zero-rated (Z) lines
   product_images_show_in_list?: boolean;
   product_images_show_in_pos?: boolean;
   product_images_show_in_invoices?: boolean;
   product_images_show_in_reports?: boolean;
+  purchase_over_receipt_tolerance?: number; // % a PO line may be over-received
+  purchase_under_receipt_tolerance?: number; // % short that still completes a PO line
+  label_templates?: LabelTemplate[]; // Barcode/shelf label layouts, defaults when empty
 }
 
 // Type for the update payload (can be partial)
@@ -0,0 +1,85 @@
+// src/services/shiftService.ts
+import apiClient from "../lib/axios";
+import { CashMovementType, DenominationCount } from "./cashDrawerService";
+
+export interface Shift {
+  id: number;
+  user_id?: number | null;
+  opened_at: string | null;
+  closed_at: string | null;
+  is_open: boolean;
+  client_reference?: string | null; // Local id of a shift opened offline
+  // Cash drawer (set by the server from the open/close requests)
+  opening_float?: number | null;
+  expected_cash?: number | null;
+  counted_cash?: number | null;
+  over_short?: number | null;
+}
+
+export interface OpenShiftData {
+  opened_at?: string; // When the cashier actually opened it (shifts opened offline)
+  client_reference?: string; // Local shift id, lets the server recognize a replayed open
+  opening_float?: number;
+}
+
+export interface CloseShiftData {
+  shift_id?: number;
+  closed_at?: string;
+  // Blind count; expected and over/short are what the terminal computed
+  counted_cash?: number;
+  denominations?: DenominationCount[];
+  expected_cash?: number;
+  over_short?: number;
+}
+
+export interface CashMovementData {
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  created_at?: string;
+  client_reference?: string; // Local movement id, makes replays harmless
+}
+
+// The API sends is_open as boolean, "true" or 1 depending on the serializer
+const normalizeShift = (
+  data: Omit<Shift, "is_open"> & { is_open: boolean | string | number }
+): Shift => ({
+  ...data,
+  is_open: data.is_open === true || data.is_open === "true" || data.is_open === 1,
+});
+
+const shiftService = {
+  /**
+   * Current shift of the logged-in user, or null if none (204)
+   */
+  getCurrentShift: async (): Promise<Shift | null> => {
+    const response = await apiClient.get("/shifts/current");
+    if (response.status !== 200 || !response.data) return null;
+    return normalizeShift(response.data.data || response.data);
+  },
+
+  getShift: async (id: number): Promise<Shift> => {
+    const response = await apiClient.get(`/shifts/${id}`);
+    return normalizeShift(response.data.data || response.data);
+  },
+
+  openShift: async (data: OpenShiftData = {}): Promise<Shift> => {
+    const response = await apiClient.post("/shifts/open", data);
+    return { ...normalizeShift(response.data.data || response.data), is_open: true };
+  },
+
+  closeShift: async (data: CloseShiftData = {}): Promise<Shift> => {
+    const response = await apiClient.post("/shifts/close", data);
+    return { ...normalizeShift(response.data.data || response.data), is_open: false };
+  },
+
+  /**
+   * Record a cash drop / pay-out / cash-in on a shift's drawer
+   */
+  addCashMovement: async (shiftId: number, data: CashMovementData) => {
+    const response = await apiClient.post(`/shifts/${shiftId}/cash-movements`, data);
+    return response.data.data || response.data;
+  },
+};
+
+export default shiftService;
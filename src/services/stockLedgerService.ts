@@ -0,0 +1,279 @@
+// src/services/stockLedgerService.ts
+import { dbService, OfflineSaleItem } from "./db";
+import { Product } from "./productService";
+import kitService from "./kitService";
+import { getLineFactor, hasLineUnit, UnitLine } from "../utils/productUnits";
+
+/**
+ * Local stock ledger for the offline POS.
+ *
+ * Cached products in IndexedDB always hold the server's stock figures. Sales that
+ * were completed locally but whose stock movement the server hasn't confirmed yet
+ * (unsynced, or synced but product cache not refreshed) reserve stock; those
+ * reservations are subtracted whenever products are handed to the UI.
+ * Returns of resellable items work the same way with a negative quantity.
+ * Kit lines reserve their components; a kit's own stock is computed from them.
+ */
+export interface StockReservation {
+  saleTempId: string; // Sale or return tempId
+  product_id: number;
+  warehouse_id: number | null;
+  purchase_item_id: number | null; // Batch, if the cashier picked one
+  quantity: number; // Sellable units (negative: returned to stock)
+  kit_product_id?: number | null; // Kit sold, when this is one of its components
+}
+
+/**
+ * Quantity of a sale line in sellable units (lines can be entered in stocking
+ * or other chain units).
+ */
+export const toSellableQuantity = (item: OfflineSaleItem): number =>
+  (Number(item.quantity) || 0) *
+  getLineFactor(item.product as Product | undefined, item as OfflineSaleItem & UnitLine);
+
+// Products whose stock a line moves: the components of a kit, else the product itself
+const stockProductIds = (productId: number, product?: Product | null): number[] =>
+  product && kitService.isKit(product)
+    ? product.kit_components!.map((c) => c.component_id)
+    : [productId];
+
+// Cached kit products among the given ids (return lines don't carry the product)
+const loadKits = async (productIds: number[]): Promise<Map<number, Product>> => {
+  const kits = new Map<number, Product>();
+  for (const id of new Set(productIds)) {
+    const product = await dbService.getProduct(id);
+    if (product && kitService.isKit(product)) kits.set(id, product);
+  }
+  return kits;
+};
+
+export const stockLedgerService = {
+  /**
+   * Build the ledger from the sales and returns that still hold stock (read
+   * through an index, not the whole history).
+   */
+  getReservations: async (): Promise<StockReservation[]> => {
+    const sales = await dbService.getPendingSalesHoldingStock();
+    const reservations: StockReservation[] = [];
+    sales.forEach((sale) => {
+      sale.items.forEach((item) => {
+        const product = item.product as Product | undefined;
+        // Unit no longer in the chain: the sale is rejected at sync, so it holds no stock
+        if (!hasLineUnit(product, item as OfflineSaleItem & UnitLine)) return;
+        const quantity = toSellableQuantity(item);
+        if (quantity <= 0) return;
+        if (product && kitService.isKit(product)) {
+          // Components are deducted in batch order (FEFO as listed by the server)
+          kitService.expand(product, quantity).forEach((component) => {
+            reservations.push({
+              saleTempId: sale.tempId,
+              product_id: component.product_id,
+              warehouse_id: sale.warehouse_id ?? null,
+              purchase_item_id: null,
+              quantity: component.quantity,
+              kit_product_id: item.product_id,
+            });
+          });
+          return;
+        }
+        reservations.push({
+          saleTempId: sale.tempId,
+          product_id: item.product_id,
+          warehouse_id: sale.warehouse_id ?? null,
+          purchase_item_id: item.purchase_item_id ?? null,
+          quantity,
+        });
+      });
+    });
+
+    const returns = await dbService.getSaleReturnsHoldingStock();
+    const kits = await loadKits(
+      returns.flatMap((r) => r.items.filter((i) => i.condition === "resellable").map((i) => i.product_id))
+    );
+    returns.forEach((saleReturn) => {
+      saleReturn.items
+        .filter((item) => item.condition === "resellable")
+        .forEach((item) => {
+          const kit = kits.get(item.product_id);
+          if (kit) {
+            kitService.expand(kit, item.quantity_returned).forEach((component) => {
+              reservations.push({
+                saleTempId: saleReturn.tempId,
+                product_id: component.product_id,
+                warehouse_id: saleReturn.warehouse_id ?? null,
+                purchase_item_id: null,
+                quantity: -component.quantity,
+                kit_product_id: item.product_id,
+              });
+            });
+            return;
+          }
+          reservations.push({
+            saleTempId: saleReturn.tempId,
+            product_id: item.product_id,
+            warehouse_id: saleReturn.warehouse_id ?? null,
+            purchase_item_id: item.purchase_item_id ?? null,
+            quantity: -item.quantity_returned,
+          });
+        });
+    });
+    return reservations;
+  },
+
+  /**
+   * Return copies of the products with reserved quantities deducted from the
+   * total, the sale's warehouse and the batches (chosen batch, else in listed order).
+   */
+  applyReservations: async (
+    products: Product[],
+    reservations?: StockReservation[]
+  ): Promise<Product[]> => {
+    const ledger = reservations ?? (await stockLedgerService.getReservations());
+    if (ledger.length === 0) return stockLedgerService.applyKitStock(products, ledger);
+
+    const byProduct = new Map<number, StockReservation[]>();
+    ledger.forEach((r) => {
+      const list = byProduct.get(r.product_id) ?? [];
+      list.push(r);
+      byProduct.set(r.product_id, list);
+    });
+
+    const adjusted = products.map((product) => {
+      const entries = byProduct.get(product.id);
+      if (!entries) return product;
+
+      const reserved = entries.reduce((sum, r) => sum + r.quantity, 0);
+      const baseStock = Number(product.stock_quantity ?? 0);
+      const batches = product.available_batches?.map((b) => ({ ...b }));
+      const warehouses = product.warehouses?.map((w) => ({
+        ...w,
+        pivot: { ...w.pivot },
+      }));
+
+      entries.forEach((r) => {
+        const warehouse = warehouses?.find((w) => w.id === r.warehouse_id);
+        if (warehouse) {
+          warehouse.pivot.quantity = Math.max(
+            0,
+            Number(warehouse.pivot.quantity) - r.quantity
+          );
+        }
+
+        if (!batches) return;
+        if (r.quantity < 0) {
+          // Returned stock goes back to the batch it was sold from
+          const batch =
+            batches.find((b) => b.id === r.purchase_item_id) ?? batches[0];
+          if (batch) {
+            batch.remaining_quantity = Number(batch.remaining_quantity) - r.quantity;
+          }
+          return;
+        }
+        let remaining = r.quantity;
+        const chosen = batches.find((b) => b.id === r.purchase_item_id);
+        const order = chosen
+          ? [chosen, ...batches.filter((b) => b !== chosen)]
+          : batches;
+        for (const batch of order) {
+          if (remaining <= 0) break;
+          const take = Math.min(Number(batch.remaining_quantity), remaining);
+          batch.remaining_quantity = Number(batch.remaining_quantity) - take;
+          remaining -= take;
+        }
+      });
+
+      const available = Math.max(0, baseStock - reserved);
+      return {
+        ...product,
+        stock_quantity: available,
+        current_stock_quantity: available,
+        reserved_quantity: reserved,
+        available_batches: batches?.filter((b) => b.remaining_quantity > 0),
+        warehouses,
+      };
+    });
+    return stockLedgerService.applyKitStock(adjusted, ledger);
+  },
+
+  /**
+   * Kits hold no stock of their own: their availability is what the reserved
+   * component stock can assemble. Components not in `products` are read from the cache.
+   */
+  applyKitStock: async (
+    products: Product[],
+    ledger: StockReservation[]
+  ): Promise<Product[]> => {
+    const kits = products.filter((p) => kitService.isKit(p));
+    if (kits.length === 0) return products;
+
+    const stock = new Map<number, number>();
+    products
+      .filter((p) => !p.is_kit)
+      .forEach((p) => stock.set(p.id, Number(p.current_stock_quantity ?? p.stock_quantity ?? 0)));
+
+    const missing = [
+      ...new Set(kits.flatMap((k) => k.kit_components!.map((c) => c.component_id))),
+    ].filter((id) => !stock.has(id));
+    if (missing.length > 0) {
+      const cached = (await Promise.all(missing.map((id) => dbService.getProduct(id)))).filter(
+        (p): p is Product => !!p && !p.is_kit
+      );
+      const withReservations = await stockLedgerService.applyReservations(cached, ledger);
+      withReservations.forEach((p) =>
+        stock.set(p.id, Number(p.current_stock_quantity ?? p.stock_quantity ?? 0))
+      );
+    }
+
+    return products.map((p) => kitService.withAvailability(p, (id) => stock.get(id)));
+  },
+
+  /**
+   * Products whose cached stock the given sale/return lines move: the lines'
+   * products and the components of kits (kits of return lines, which don't
+   * carry the product, are looked up in the cache). Refresh all of them after a
+   * sync, or reconcile() keeps the reservation.
+   */
+  getStockProductIds: async (
+    items: { product_id: number; product?: unknown }[]
+  ): Promise<number[]> => {
+    const kits = await loadKits(items.filter((i) => !i.product).map((i) => i.product_id));
+    const ids = items.flatMap((item) => [
+      item.product_id,
+      ...stockProductIds(
+        item.product_id,
+        (item.product as Product | undefined) ?? kits.get(item.product_id)
+      ),
+    ]);
+    return [...new Set(ids)];
+  },
+
+  /**
+   * Called after fresh product data from the server was cached: synced sales
+   * and returns whose products are all refreshed no longer affect stock locally.
+   */
+  reconcile: async (refreshedProductIds: number[]): Promise<void> => {
+    const refreshed = new Set(refreshedProductIds);
+    const sales = await dbService.getPendingSales();
+    for (const sale of sales) {
+      if (!sale.is_synced || sale.stock_reconciled !== false) continue;
+      const ids = sale.items.flatMap((item) =>
+        stockProductIds(item.product_id, item.product as Product | undefined)
+      );
+      if (ids.every((id) => refreshed.has(id))) {
+        await dbService.savePendingSale({ ...sale, stock_reconciled: true });
+      }
+    }
+
+    const returns = await dbService.getAllSaleReturns();
+    for (const saleReturn of returns) {
+      if (!saleReturn.is_synced || saleReturn.stock_reconciled !== false) continue;
+      const kits = await loadKits(saleReturn.items.map((item) => item.product_id));
+      const ids = saleReturn.items.flatMap((item) =>
+        stockProductIds(item.product_id, kits.get(item.product_id))
+      );
+      if (ids.every((id) => refreshed.has(id))) {
+        await dbService.saveSaleReturn({ ...saleReturn, stock_reconciled: true });
+      }
+    }
+  },
+};
@@ -1,5 +1,6 @@
 // src/services/supplierPaymentService.ts
 import apiClient from "../lib/axios";
+import { preciseCalculation, preciseSum } from "@/constants";
 
 export interface SupplierPayment {
   id: number;
@@ -17,8 +18,50 @@ export interface SupplierPayment {
     id: number;
     name: string;
   };
+  allocations?: PaymentAllocation[];
 }
 
+// Part of a payment settling a specific purchase; the rest stays on account
+export interface PaymentAllocation {
+  purchase_id: number;
+  amount: number;
+  reference_number?: string | null;
+}
+
+// A purchase not fully paid yet
+export interface OpenPurchase {
+  id: number;
+  supplier_id: number;
+  supplier_name?: string;
+  reference_number: string | null;
+  purchase_date: string;
+  due_date: string | null; // null = due on purchase
+  total_amount: number;
+  paid_amount: number;
+  due_amount: number;
+}
+
+export type PayablesBucket = "not_due" | "days_1_30" | "days_31_60" | "days_61_90" | "over_90";
+
+export interface SupplierAging extends Record<PayablesBucket, number> {
+  supplier_id: number;
+  supplier_name: string;
+  total: number;
+  next_due_date: string | null;
+}
+
+export const PAYABLES_BUCKET_LABELS: Record<PayablesBucket, string> = {
+  not_due: "غير مستحق",
+  days_1_30: "متأخر 1–30 يوم",
+  days_31_60: "متأخر 31–60 يوم",
+  days_61_90: "متأخر 61–90 يوم",
+  over_90: "متأخر أكثر من 90 يوم",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dueDateOf = (purchase: OpenPurchase) => purchase.due_date || purchase.purchase_date;
+
 export interface CreatePaymentData {
   amount: number;
   type: 'payment' | 'credit' | 'adjustment';
@@ -26,6 +69,7 @@ export interface CreatePaymentData {
   reference_number?: string;
   notes?: string;
   payment_date: string;
+  allocations?: { purchase_id: number; amount: number }[];
 }
 
 export interface UpdatePaymentData extends CreatePaymentData {
@@ -104,6 +148,94 @@ const supplierPaymentService = {
     await apiClient.delete(`/supplier-payments/${paymentId}`);
   },
 
+  /**
+   * Unpaid purchases of a supplier, oldest due first
+   */
+  getOpenPurchases: async (supplierId: number): Promise<OpenPurchase[]> => {
+    const response = await apiClient.get<{ data: OpenPurchase[] }>(
+      `/suppliers/${supplierId}/open-purchases`
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Unpaid purchases of all suppliers, optionally only those due by a date
+   */
+  getAllOpenPurchases: async (params: { due_before?: string } = {}): Promise<OpenPurchase[]> => {
+    const response = await apiClient.get<{ data: OpenPurchase[] }>("/purchases/open-payables", {
+      params,
+    });
+    return response.data.data;
+  },
+
+  /**
+   * Spread a payment over open purchases, earliest due date first
+   */
+  allocateOldestFirst: (amount: number, purchases: OpenPurchase[]): PaymentAllocation[] => {
+    let remaining = amount;
+    const allocations: PaymentAllocation[] = [];
+    const ordered = [...purchases].sort((a, b) => dueDateOf(a).localeCompare(dueDateOf(b)));
+    for (const purchase of ordered) {
+      if (remaining <= 0) break;
+      const applied = Math.min(remaining, Number(purchase.due_amount));
+      if (applied <= 0) continue;
+      allocations.push({
+        purchase_id: purchase.id,
+        amount: applied,
+        reference_number: purchase.reference_number,
+      });
+      remaining = preciseCalculation(remaining, applied, "subtract", 2);
+    }
+    return allocations;
+  },
+
+  /**
+   * Days an open purchase is past its due date (0 or less = not due yet)
+   */
+  daysOverdue: (purchase: OpenPurchase, asOf: Date = new Date()): number =>
+    Math.floor((asOf.getTime() - new Date(`${dueDateOf(purchase).slice(0, 10)}T00:00:00`).getTime()) / DAY_MS),
+
+  /**
+   * AP aging: open purchases per supplier bucketed by days past due
+   */
+  agePayables: (purchases: OpenPurchase[], asOf: Date = new Date()): SupplierAging[] => {
+    const bySupplier = new Map<number, SupplierAging>();
+    for (const purchase of purchases) {
+      const row = bySupplier.get(purchase.supplier_id) ?? {
+        supplier_id: purchase.supplier_id,
+        supplier_name: purchase.supplier_name || `#${purchase.supplier_id}`,
+        not_due: 0,
+        days_1_30: 0,
+        days_31_60: 0,
+        days_61_90: 0,
+        over_90: 0,
+        total: 0,
+        next_due_date: null,
+      };
+      const overdue = supplierPaymentService.daysOverdue(purchase, asOf);
+      const bucket: PayablesBucket =
+        overdue <= 0
+          ? "not_due"
+          : overdue <= 30
+            ? "days_1_30"
+            : overdue <= 60
+              ? "days_31_60"
+              : overdue <= 90
+                ? "days_61_90"
+                : "over_90";
+      const due = Number(purchase.due_amount);
+      row[bucket] = preciseSum([row[bucket], due], 2);
+      row.total = preciseSum([row.total, due], 2);
+      if (overdue <= 0 && (!row.next_due_date || dueDateOf(purchase) < row.next_due_date)) {
+        row.next_due_date = dueDateOf(purchase);
+      }
+      bySupplier.set(purchase.supplier_id, row);
+    }
+    return Array.from(bySupplier.values())
+      .filter((row) => row.total > 0)
+      .sort((a, b) => b.total - a.total);
+  },
+
   /**
    * Get payment methods
    */
@@ -12,6 +12,8 @@ export interface Supplier {
     email: string | null;
     phone: string | null;
     address: string | null;
+    payment_terms_days?: number | null; // Days after purchase a bill falls due (null = on purchase)
+    lead_time_days?: number | null; // Days from ordering to delivery, used for reorder points
     // website?: string | null; // Add if included in backend
     // notes?: string | null;   // Add if included in backend
     created_at: string;
@@ -0,0 +1,143 @@
+// src/services/tenderService.ts
+import { preciseCalculation } from "@/constants";
+import { AppSettings } from "./settingService";
+import { Payment } from "./saleService";
+
+export type CashRoundingMode = NonNullable<AppSettings["cash_rounding_mode"]>;
+
+export interface CashRoundingRule {
+  increment: number; // Smallest coin in circulation, 0 = no rounding
+  mode: CashRoundingMode;
+}
+
+/**
+ * One payment as entered at the till: what the customer handed over vs what is
+ * applied to the sale.
+ */
+export interface Tender {
+  amount: number; // Applied to the sale
+  tendered_amount: number;
+  change_amount: number; // Handed back, cash only
+  rounding_adjustment: number; // Cash due after rounding - remaining due
+}
+
+export interface TenderSummary {
+  tendered: number;
+  applied: number;
+  change: number;
+  rounding: number;
+}
+
+// Increments offered in the settings (smallest coin)
+export const CASH_ROUNDING_INCREMENTS = [0, 0.05, 0.1, 0.25, 0.5, 1, 5, 10];
+
+const round2 = (value: number) => preciseCalculation(value, 0, "add");
+
+export const tenderService = {
+  getRoundingRule: (settings?: Partial<AppSettings> | null): CashRoundingRule => ({
+    increment: Number(settings?.cash_rounding_increment) || 0,
+    mode: settings?.cash_rounding_mode || "nearest",
+  }),
+
+  isCash: (method: Payment["method"] | string) => method === "cash",
+
+  /**
+   * Round an amount to the smallest coin. The epsilon keeps 10.05 / 0.05 from
+   * turning into 201.00000001 steps.
+   */
+  roundCash: (amount: number, rule: CashRoundingRule): number => {
+    if (!rule.increment || rule.increment <= 0) return round2(amount);
+    const steps = amount / rule.increment;
+    const rounded =
+      rule.mode === "up"
+        ? Math.ceil(steps - 1e-9)
+        : rule.mode === "down"
+        ? Math.floor(steps + 1e-9)
+        : Math.round(steps);
+    return round2(rounded * rule.increment);
+  },
+
+  /**
+   * Cash the customer has to hand over to settle the remaining due
+   */
+  getCashDue: (remainingDue: number, rule: CashRoundingRule): number =>
+    tenderService.roundCash(Math.max(0, remainingDue), rule),
+
+  /**
+   * Turn an amount tendered into a payment. Cash may exceed the due (change is
+   * given back); other methods may not. A cash tender that covers the rounded due
+   * settles the sale, the rounding difference is kept on the payment.
+   */
+  applyTender: (
+    method: Payment["method"] | string,
+    tenderedAmount: number,
+    remainingDue: number,
+    rule: CashRoundingRule
+  ): Tender => {
+    const tendered = round2(tenderedAmount);
+    const due = round2(Math.max(0, remainingDue));
+    if (!(tendered > 0)) {
+      throw new Error("مبلغ الدفع يجب أن يكون أكبر من صفر");
+    }
+    if (due <= 0) {
+      throw new Error("لا يوجد مبلغ مستحق");
+    }
+
+    if (!tenderService.isCash(method)) {
+      if (tendered > due + 0.01) {
+        throw new Error("المبلغ المدخل أكبر من المستحق");
+      }
+      return {
+        amount: Math.min(tendered, due),
+        tendered_amount: tendered,
+        change_amount: 0,
+        rounding_adjustment: 0,
+      };
+    }
+
+    const cashDue = tenderService.getCashDue(due, rule);
+    if (tendered < cashDue) {
+      // Partial cash payment, the rest is paid later / by another method
+      return {
+        amount: Math.min(tendered, due),
+        tendered_amount: tendered,
+        change_amount: 0,
+        rounding_adjustment: 0,
+      };
+    }
+    return {
+      amount: due,
+      tendered_amount: tendered,
+      change_amount: preciseCalculation(tendered, cashDue, "subtract"),
+      rounding_adjustment: preciseCalculation(cashDue, due, "subtract"),
+    };
+  },
+
+  /**
+   * Totals for the receipt. Payments recorded before tenders existed count as
+   * tendered = applied.
+   */
+  summarize: (
+    payments: Pick<
+      Payment,
+      "amount" | "tendered_amount" | "change_amount" | "rounding_adjustment"
+    >[]
+  ): TenderSummary =>
+    payments.reduce<TenderSummary>(
+      (acc, p) => ({
+        tendered: preciseCalculation(
+          acc.tendered,
+          Number(p.tendered_amount ?? p.amount) || 0,
+          "add"
+        ),
+        applied: preciseCalculation(acc.applied, Number(p.amount) || 0, "add"),
+        change: preciseCalculation(acc.change, Number(p.change_amount) || 0, "add"),
+        rounding: preciseCalculation(
+          acc.rounding,
+          Number(p.rounding_adjustment) || 0,
+          "add"
+        ),
+      }),
+      { tendered: 0, applied: 0, change: 0, rounding: 0 }
+    ),
+};
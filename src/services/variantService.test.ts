@@ -0,0 +1,36 @@
+// src/services/variantService.test.ts
+import { describe, expect, it } from "vitest";
+import variantService from "./variantService";
+import type { ProductVariantFormData } from "./productService";
+
+const row = (id: number, variant_values: Record<string, string>): ProductVariantFormData => ({
+  id,
+  variant_values,
+  sku: null,
+  stock_quantity: 0,
+  sale_price: null,
+  is_active: true,
+});
+
+describe("syncRows", () => {
+  const attributes = [
+    { name: "Size", values: ["M", "L"] },
+    { name: "Length", values: ["M", "L"] },
+  ];
+
+  it("keeps combinations with the same values apart", () => {
+    const rows = [row(1, { Size: "M", Length: "L" }), row(2, { Size: "L", Length: "M" })];
+    const synced = variantService.syncRows(attributes, rows);
+    expect(synced.find((r) => r.variant_values.Size === "M" && r.variant_values.Length === "L")?.id).toBe(1);
+    expect(synced.find((r) => r.variant_values.Size === "L" && r.variant_values.Length === "M")?.id).toBe(2);
+    expect(synced.filter((r) => r.id === undefined)).toHaveLength(2);
+  });
+
+  it("keeps the rows when an attribute is renamed", () => {
+    const rows = [row(1, { Size: "M", Length: "L" })];
+    const renamed = [{ name: "المقاس", values: ["M", "L"] }, attributes[1]];
+    const synced = variantService.syncRows(renamed, rows, attributes);
+    const kept = synced.find((r) => r.id === 1);
+    expect(kept?.variant_values).toEqual({ المقاس: "M", Length: "L" });
+  });
+});
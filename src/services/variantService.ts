@@ -0,0 +1,130 @@
+// src/services/variantService.ts
+import apiClient from "../lib/axios";
+import { normalizeCode } from "@/utils/arabicSearch";
+import { findDuplicateCodes } from "@/utils/productBarcodes";
+import type { Product, ProductVariantFormData, VariantAttribute } from "./productService";
+
+// Variant matrix state edited in the product form
+export interface VariantSetup {
+  enabled: boolean;
+  attributes: VariantAttribute[];
+  rows: ProductVariantFormData[];
+}
+
+export const MAX_VARIANT_ATTRIBUTES = 3;
+
+export const EMPTY_VARIANT_SETUP: VariantSetup = { enabled: false, attributes: [], rows: [] };
+
+const variantService = {
+  /**
+   * Variant products of a parent, inactive ones included.
+   */
+  getVariants: async (parentId: number): Promise<Product[]> => {
+    try {
+      const response = await apiClient.get<{ data: Product[] }>(`/products/${parentId}/variants`);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error fetching variants of product ${parentId}:`, error);
+      throw error;
+    }
+  },
+
+  // Attributes with a name and at least one value
+  usableAttributes: (attributes: VariantAttribute[]): VariantAttribute[] =>
+    attributes.filter((a) => a.name.trim() && a.values.length > 0),
+
+  /**
+   * Every combination of attribute values, in attribute order.
+   */
+  buildCombinations: (attributes: VariantAttribute[]): Record<string, string>[] =>
+    variantService
+      .usableAttributes(attributes)
+      .reduce<Record<string, string>[]>(
+        (combos, attribute) =>
+          combos.flatMap((combo) =>
+            attribute.values.map((value) => ({ ...combo, [attribute.name.trim()]: value }))
+          ),
+        [{}]
+      )
+      .filter((combo) => Object.keys(combo).length > 0),
+
+  // Key of a combination by its values in attribute order, so renaming an attribute keeps the rows
+  // while {Size: M, Length: L} and {Size: L, Length: M} stay apart
+  combinationKey: (values: Record<string, string>, attributes: VariantAttribute[]): string =>
+    JSON.stringify(variantService.usableAttributes(attributes).map((a) => values[a.name.trim()] ?? null)),
+
+  // e.g. "500mg / أحمر"
+  formatValues: (values?: Record<string, string> | null, attributes?: VariantAttribute[] | null): string => {
+    if (!values) return "";
+    const order = attributes?.map((a) => a.name) ?? Object.keys(values);
+    return order
+      .filter((name) => values[name])
+      .map((name) => values[name])
+      .join(" / ");
+  },
+
+  /**
+   * Matrix rows for the current attributes, keeping what was entered (and the
+   * ids of existing variants) for combinations that still exist. The rows were
+   * built from `previous`, the attributes before this edit.
+   */
+  syncRows: (
+    attributes: VariantAttribute[],
+    rows: ProductVariantFormData[],
+    previous: VariantAttribute[] = attributes
+  ): ProductVariantFormData[] => {
+    const byKey = new Map(rows.map((row) => [variantService.combinationKey(row.variant_values, previous), row]));
+    return variantService.buildCombinations(attributes).map((values) => {
+      const existing = byKey.get(variantService.combinationKey(values, attributes));
+      return existing
+        ? { ...existing, variant_values: values }
+        : { variant_values: values, sku: null, stock_quantity: 0, sale_price: null, is_active: true };
+    });
+  },
+
+  fromVariants: (parent: Product, variants: Product[]): VariantSetup => ({
+    enabled: true,
+    attributes: parent.variant_attributes ?? [],
+    rows: variants.map((variant) => ({
+      id: variant.id,
+      variant_values: variant.variant_values ?? {},
+      sku: variant.sku,
+      stock_quantity: Number(variant.current_stock_quantity ?? variant.stock_quantity) || 0,
+      sale_price:
+        variant.suggested_sale_price_per_sellable_unit ??
+        variant.last_sale_price_per_sellable_unit ??
+        null,
+      is_active: variant.is_active !== false,
+    })),
+  }),
+
+  /**
+   * Returns an error message, or null when the matrix can be saved.
+   */
+  validateSetup: (setup: VariantSetup, parentSku?: string | null): string | null => {
+    if (!setup.enabled) return null;
+    const attributes = variantService.usableAttributes(setup.attributes);
+    if (attributes.length === 0) return "أضف خاصية واحدة على الأقل بقيمها";
+    const names = attributes.map((a) => a.name.trim());
+    if (new Set(names).size !== names.length) return "أسماء الخصائص مكررة";
+    if (!setup.rows.some((row) => row.is_active)) return "فعّل متغيراً واحداً على الأقل";
+    const duplicates = findDuplicateCodes([parentSku, ...setup.rows.map((row) => row.sku)]);
+    if (duplicates.size > 0) return `رمز SKU مكرر: ${[...duplicates].join("، ")}`;
+    return null;
+  },
+
+  // Variants of a parent among already loaded products (offline POS catalog)
+  findVariants: (parent: Product, products: Product[]): Product[] =>
+    products.filter((p) => p.parent_id === parent.id && p.is_active !== false),
+
+  // Matrix rows ready to send, SKUs trimmed
+  toPayload: (setup: VariantSetup): ProductVariantFormData[] =>
+    setup.rows.map((row) => ({
+      ...row,
+      sku: normalizeCode(row.sku) ? row.sku!.trim() : null,
+      stock_quantity: row.id ? 0 : Number(row.stock_quantity) || 0,
+      sale_price: row.sale_price != null && String(row.sale_price) !== "" ? Number(row.sale_price) : null,
+    })),
+};
+
+export default variantService;
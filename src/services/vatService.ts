@@ -0,0 +1,226 @@
+// src/services/vatService.ts
+import { preciseCalculation } from "@/constants";
+import apiClient from "../lib/axios";
+import { AppSettings } from "./settingService";
+import { Product, TaxCategory } from "./productService";
+import { Sale, SaleItem } from "./saleService";
+import { promotionService } from "./promotionService";
+
+export type VatSettings = Pick<AppSettings, "vat_enabled" | "vat_rate" | "prices_include_tax">;
+
+export interface ItemTax {
+  category: TaxCategory;
+  rate: number; // Percentage
+}
+
+export interface TaxLine extends ItemTax {
+  index: number; // Position in the sale's items
+  amount: number; // Price × quantity as entered
+  lineDiscount: number; // The line's own discount (promotion / manual)
+  discount: number; // Share of the sale discount
+  net: number; // Taxable amount
+  tax: number;
+  gross: number;
+}
+
+export interface TaxGroup extends ItemTax {
+  taxable: number;
+  tax: number;
+}
+
+/**
+ * VAT of a sale, line by line and grouped per category/rate (the grouping the
+ * invoice and UBL TaxSubtotal need).
+ */
+export interface TaxBreakdown {
+  enabled: boolean;
+  pricesIncludeTax: boolean;
+  lines: TaxLine[];
+  groups: TaxGroup[];
+  lineTotal: number; // Sum of line amounts as entered
+  lineDiscount: number; // Sum of line discounts
+  discount: number; // Sale discount, off the lines after their own discounts
+  net: number; // Total excluding VAT
+  tax: number;
+  gross: number; // Total including VAT
+}
+
+export const DEFAULT_VAT_RATE = 15;
+
+export const TAX_CATEGORY_LABELS: Record<TaxCategory, string> = {
+  S: "خاضع للنسبة الأساسية",
+  Z: "خاضع لنسبة صفر",
+  E: "معفى من الضريبة",
+  O: "خارج نطاق الضريبة",
+};
+
+// --- VAT return report (computed by the backend from synced sales and purchases) ---
+export interface VatReturnRow extends ItemTax {
+  taxable_amount: number;
+  tax_amount: number;
+}
+
+export interface VatReturnSection {
+  rows: VatReturnRow[];
+  taxable_amount: number;
+  tax_amount: number;
+}
+
+export interface VatReturnReport {
+  start_date: string;
+  end_date: string;
+  output: VatReturnSection & { returns_tax_amount: number }; // Sales, net of returns
+  input: VatReturnSection; // Purchases
+  net_payable: number; // Output - input, negative = refundable
+}
+
+const round2 = (value: number) => preciseCalculation(value, 0, "add");
+
+export const vatService = {
+  isEnabled: (settings?: Partial<VatSettings> | null): boolean => !!settings?.vat_enabled,
+
+  pricesIncludeTax: (settings?: Partial<VatSettings> | null): boolean =>
+    settings?.prices_include_tax ?? true,
+
+  getDefaultRate: (settings?: Partial<VatSettings> | null): number =>
+    settings?.vat_rate != null ? Number(settings.vat_rate) || 0 : DEFAULT_VAT_RATE,
+
+  /**
+   * Category and rate a product is taxed at: the product's own setting, else its
+   * category's, else standard rate. Zero-rated, exempt and out of scope are 0%.
+   */
+  getItemTax: (
+    product:
+      | Partial<
+          Pick<
+            Product,
+            "tax_category" | "tax_rate" | "category" | "category_tax_category" | "category_tax_rate"
+          >
+        >
+      | null
+      | undefined,
+    settings?: Partial<VatSettings> | null
+  ): ItemTax => {
+    if (!vatService.isEnabled(settings)) return { category: "O", rate: 0 };
+    const category =
+      product?.tax_category ||
+      product?.category?.tax_category ||
+      product?.category_tax_category ||
+      "S";
+    if (category !== "S") return { category, rate: 0 };
+    const rate =
+      product?.tax_rate ?? product?.category?.tax_rate ?? product?.category_tax_rate;
+    return { category, rate: rate != null ? Number(rate) : vatService.getDefaultRate(settings) };
+  },
+
+  /**
+   * Tax of a sale line: the rate stored on the item when it was sold, else the
+   * product's current one
+   */
+  getSaleItemTax: (item: SaleItem, settings?: Partial<VatSettings> | null): ItemTax => {
+    if (vatService.isEnabled(settings) && item.tax_category && item.tax_rate != null) {
+      return { category: item.tax_category, rate: Number(item.tax_rate) };
+    }
+    return vatService.getItemTax(item.product, settings);
+  },
+
+  /**
+   * Split a sale into net / VAT / gross. Line discounts come off their line, then
+   * the sale discount is spread over the lines pro rata (the last line takes the
+   * rounding remainder) so each line is taxed on what was actually charged.
+   */
+  calculate: (
+    sale: Pick<Sale, "discount_amount" | "discount_type"> & { items?: SaleItem[] },
+    settings?: Partial<VatSettings> | null
+  ): TaxBreakdown => {
+    const enabled = vatService.isEnabled(settings);
+    const inclusive = vatService.pricesIncludeTax(settings);
+    const items = sale.items || [];
+
+    const amounts = items.map((item) => round2(Number(item.unit_price) * Number(item.quantity)));
+    const lineNets = items.map((item) => promotionService.getLineNet(item));
+    const total = (values: number[]) =>
+      values.reduce((sum, value) => preciseCalculation(sum, value, "add"), 0);
+    const lineTotal = total(amounts);
+    const subtotal = total(lineNets);
+
+    const discountValue = Number(sale.discount_amount) || 0;
+    const discount = round2(
+      Math.min(
+        subtotal,
+        Math.max(0, sale.discount_type === "percentage" ? (subtotal * discountValue) / 100 : discountValue)
+      )
+    );
+
+    let discountLeft = discount;
+    const lines: TaxLine[] = items.map((item, index) => {
+      const { category, rate } = vatService.getSaleItemTax(item, settings);
+      const lineNet = lineNets[index];
+      const share =
+        index === items.length - 1
+          ? discountLeft
+          : subtotal > 0
+          ? round2((discount * lineNet) / subtotal)
+          : 0;
+      discountLeft = preciseCalculation(discountLeft, share, "subtract");
+      const base = preciseCalculation(lineNet, share, "subtract");
+
+      let net = base;
+      let tax = 0;
+      if (enabled && rate > 0) {
+        if (inclusive) {
+          net = round2(base / (1 + rate / 100));
+          tax = preciseCalculation(base, net, "subtract");
+        } else {
+          tax = round2((base * rate) / 100);
+        }
+      }
+      return {
+        index,
+        category,
+        rate,
+        amount: amounts[index],
+        lineDiscount: preciseCalculation(amounts[index], lineNet, "subtract"),
+        discount: share,
+        net,
+        tax,
+        gross: preciseCalculation(net, tax, "add"),
+      };
+    });
+
+    const groups = lines.reduce<TaxGroup[]>((acc, line) => {
+      const group = acc.find((g) => g.category === line.category && g.rate === line.rate);
+      if (group) {
+        group.taxable = preciseCalculation(group.taxable, line.net, "add");
+        group.tax = preciseCalculation(group.tax, line.tax, "add");
+      } else {
+        acc.push({ category: line.category, rate: line.rate, taxable: line.net, tax: line.tax });
+      }
+      return acc;
+    }, []);
+
+    const sum = (key: "net" | "tax" | "gross") =>
+      lines.reduce((total, line) => preciseCalculation(total, line[key], "add"), 0);
+
+    return {
+      enabled,
+      pricesIncludeTax: inclusive,
+      lines,
+      groups,
+      lineTotal,
+      lineDiscount: preciseCalculation(lineTotal, subtotal, "subtract"),
+      discount,
+      net: sum("net"),
+      tax: sum("tax"),
+      gross: sum("gross"),
+    };
+  },
+
+  getVatReturn: async (startDate: string, endDate: string): Promise<VatReturnReport> => {
+    const params = new URLSearchParams();
+    params.append("start_date", startDate);
+    params.append("end_date", endDate);
+    const res = await apiClient.get<VatReturnReport>(`/reports/vat-return?${params.toString()}`);
+    return res.data;
+  },
+};
@@ -0,0 +1,275 @@
+// src/services/zatcaService.ts
+import { preciseCalculation } from "@/constants";
+import { OfflineSale } from "./db";
+import { AppSettings } from "./settingService";
+import { Client } from "./clientService";
+import { Payment } from "./saleService";
+import { TaxCategory } from "./productService";
+import { vatService, TaxBreakdown, TAX_CATEGORY_LABELS } from "./vatService";
+
+// Simplified (B2C) invoices carry the QR; standard (B2B) invoices are exchanged as UBL XML
+export type ZatcaInvoiceType = "standard" | "simplified";
+
+export interface ZatcaInvoiceOptions {
+  invoiceType?: ZatcaInvoiceType;
+  client?: Pick<Client, "name" | "address" | "tax_number"> | null;
+  currency?: string; // ISO 4217, SAR unless the store invoices in another currency
+  uuid?: string;
+}
+
+// ZATCA Phase 1 QR fields (tag numbers are fixed by the spec)
+const QR_TAGS = {
+  sellerName: 1,
+  vatNumber: 2,
+  timestamp: 3,
+  total: 4,
+  vatTotal: 5,
+} as const;
+
+// ZATCA exemption reason codes of the non-standard categories; the store may set
+// its own for E and Z (e.g. VATEX-SA-32 for exports) in the settings
+const DEFAULT_EXEMPTION_CODES: Record<Exclude<TaxCategory, "S">, string> = {
+  E: "VATEX-SA-29", // Financial services
+  Z: "VATEX-SA-35", // Medicines and medical equipment
+  O: "VATEX-SA-OOS",
+};
+
+const getExemptionCode = (
+  category: Exclude<TaxCategory, "S">,
+  settings: AppSettings | null | undefined
+): string =>
+  (category === "E" && settings?.vat_exemption_code_e?.trim()) ||
+  (category === "Z" && settings?.vat_exemption_code_z?.trim()) ||
+  DEFAULT_EXEMPTION_CODES[category];
+
+// UNTDID 4461 payment means
+const PAYMENT_MEANS_CODES: Record<Payment["method"], string> = {
+  cash: "10",
+  visa: "48",
+  mastercard: "48",
+  mada: "48",
+  bank_transfer: "42",
+  store_credit: "97",
+  refund: "1",
+  other: "1",
+};
+
+// ZATCA invoice subtype: 01 standard / 02 simplified, then third party, nominal, export, summary, self-billed flags
+const INVOICE_SUBTYPES: Record<ZatcaInvoiceType, string> = {
+  standard: "0100000",
+  simplified: "0200000",
+};
+
+const amount2 = (value: number) => preciseCalculation(value, 0, "add").toFixed(2);
+
+const escapeXml = (value: string | number | null | undefined) =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+};
+
+const getIssuedAt = (sale: OfflineSale) =>
+  new Date(sale.offline_created_at || sale.created_at || Date.now());
+
+const getInvoiceId = (sale: OfflineSale) =>
+  sale.invoice_number || String(sale.is_synced && sale.id ? sale.id : sale.tempId);
+
+const newUuid = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : "10000000-1000-4000-8000-100000000000".replace(/[018]/g, (c) =>
+        (Number(c) ^ ((Math.random() * 16) >> (Number(c) / 4))).toString(16)
+      );
+
+export const zatcaService = {
+  /**
+   * TLV encoding: one byte tag, one byte length, UTF-8 value
+   */
+  encodeTlv: (fields: [number, string][]): Uint8Array => {
+    const encoder = new TextEncoder();
+    const parts: number[] = [];
+    fields.forEach(([tag, value]) => {
+      const bytes = encoder.encode(value);
+      if (bytes.length > 255) {
+        throw new Error(`قيمة الحقل ${tag} في رمز QR أطول من المسموح`);
+      }
+      parts.push(tag, bytes.length, ...bytes);
+    });
+    return new Uint8Array(parts);
+  },
+
+  /**
+   * Base64 TLV payload of the e-invoice QR (seller, VAT number, time, total, VAT).
+   * Computed from the local sale so offline receipts carry it too.
+   */
+  buildQrPayload: (
+    sale: OfflineSale,
+    settings: AppSettings | null | undefined,
+    breakdown: TaxBreakdown = vatService.calculate(sale, settings)
+  ): string => {
+    const timestamp = getIssuedAt(sale).toISOString().replace(/\.\d{3}Z$/, "Z");
+    return toBase64(
+      zatcaService.encodeTlv([
+        [QR_TAGS.sellerName, settings?.company_name || ""],
+        [QR_TAGS.vatNumber, settings?.tax_number || ""],
+        [QR_TAGS.timestamp, timestamp],
+        [QR_TAGS.total, amount2(breakdown.gross)],
+        [QR_TAGS.vatTotal, amount2(breakdown.tax)],
+      ])
+    );
+  },
+
+  /**
+   * Whether the store is set up to issue tax invoices (VAT on and a VAT number)
+   */
+  isConfigured: (settings?: AppSettings | null): boolean =>
+    vatService.isEnabled(settings) && !!settings?.tax_number,
+
+  /**
+   * UBL 2.1 invoice in the ZATCA profile. This is the unsigned document: the
+   * cryptographic stamp / clearance of Phase 2 needs the backend's CSID.
+   */
+  buildUblInvoice: (
+    sale: OfflineSale,
+    settings: AppSettings | null | undefined,
+    options: ZatcaInvoiceOptions = {}
+  ): string => {
+    const invoiceType = options.invoiceType || (options.client?.tax_number ? "standard" : "simplified");
+    const currency = options.currency || "SAR";
+    const breakdown = vatService.calculate(sale, settings);
+    const issuedAt = getIssuedAt(sale);
+    const issueDate = sale.sale_date || issuedAt.toISOString().slice(0, 10);
+    const issueTime = issuedAt.toISOString().slice(11, 19);
+    const money = (tag: string, value: number) =>
+      `<${tag} currencyID="${currency}">${amount2(value)}</${tag}>`;
+
+    const taxCategory = (category: TaxCategory, rate: number, tag = "cac:TaxCategory") =>
+      [
+        `<${tag}>`,
+        `<cbc:ID>${category}</cbc:ID>`,
+        `<cbc:Percent>${amount2(rate)}</cbc:Percent>`,
+        category !== "S"
+          ? `<cbc:TaxExemptionReasonCode>${escapeXml(getExemptionCode(category, settings))}</cbc:TaxExemptionReasonCode>` +
+            `<cbc:TaxExemptionReason>${escapeXml(TAX_CATEGORY_LABELS[category])}</cbc:TaxExemptionReason>`
+          : "",
+        `<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>`,
+        `</${tag}>`,
+      ].join("");
+
+    const party = (name: string, address: string | null | undefined, vatNumber: string | null | undefined) =>
+      [
+        `<cac:Party>`,
+        `<cac:PostalAddress>`,
+        address ? `<cbc:StreetName>${escapeXml(address)}</cbc:StreetName>` : "",
+        `<cac:Country><cbc:IdentificationCode>SA</cbc:IdentificationCode></cac:Country>`,
+        `</cac:PostalAddress>`,
+        vatNumber
+          ? `<cac:PartyTaxScheme><cbc:CompanyID>${escapeXml(vatNumber)}</cbc:CompanyID><cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>`
+          : "",
+        `<cac:PartyLegalEntity><cbc:RegistrationName>${escapeXml(name)}</cbc:RegistrationName></cac:PartyLegalEntity>`,
+        `</cac:Party>`,
+      ].join("");
+
+    const items = sale.items || [];
+    const lines = breakdown.lines.map((line) => {
+      const item = items[line.index];
+      const quantity = Number(item.quantity) || 1;
+      // Unit price excluding VAT before the discount; the discount is a line allowance
+      const fullNet = breakdown.pricesIncludeTax && line.rate > 0 ? line.amount / (1 + line.rate / 100) : line.amount;
+      const unitPrice = preciseCalculation(fullNet / quantity, 0, "add");
+      const allowance = Math.max(0, preciseCalculation(unitPrice * quantity, line.net, "subtract"));
+      return [
+        `<cac:InvoiceLine>`,
+        `<cbc:ID>${line.index + 1}</cbc:ID>`,
+        `<cbc:InvoicedQuantity unitCode="PCE">${quantity}</cbc:InvoicedQuantity>`,
+        money("cbc:LineExtensionAmount", line.net),
+        allowance > 0
+          ? `<cac:AllowanceCharge><cbc:ChargeIndicator>false</cbc:ChargeIndicator><cbc:AllowanceChargeReason>discount</cbc:AllowanceChargeReason>${money("cbc:Amount", allowance)}</cac:AllowanceCharge>`
+          : "",
+        `<cac:TaxTotal>${money("cbc:TaxAmount", line.tax)}${money("cbc:RoundingAmount", line.gross)}</cac:TaxTotal>`,
+        `<cac:Item><cbc:Name>${escapeXml(item.product_name || item.product?.name || `Item ${line.index + 1}`)}</cbc:Name>`,
+        item.product_sku || item.product?.sku
+          ? `<cac:SellersItemIdentification><cbc:ID>${escapeXml(item.product_sku || item.product?.sku)}</cbc:ID></cac:SellersItemIdentification>`
+          : "",
+        taxCategory(line.category, line.rate, "cac:ClassifiedTaxCategory"),
+        `</cac:Item>`,
+        `<cac:Price>${money("cbc:PriceAmount", unitPrice)}</cac:Price>`,
+        `</cac:InvoiceLine>`,
+      ].join("");
+    });
+
+    const paymentMeans = Array.from(new Set((sale.payments || []).map((p) => p.method))).map(
+      (method) => `<cac:PaymentMeans><cbc:PaymentMeansCode>${PAYMENT_MEANS_CODES[method] || "1"}</cbc:PaymentMeansCode></cac:PaymentMeans>`
+    );
+
+
+    return [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2" xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2" xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">`,
+      `<cbc:ProfileID>reporting:1.0</cbc:ProfileID>`,
+      `<cbc:ID>${escapeXml(getInvoiceId(sale))}</cbc:ID>`,
+      `<cbc:UUID>${options.uuid || newUuid()}</cbc:UUID>`,
+      `<cbc:IssueDate>${issueDate}</cbc:IssueDate>`,
+      `<cbc:IssueTime>${issueTime}</cbc:IssueTime>`,
+      `<cbc:InvoiceTypeCode name="${INVOICE_SUBTYPES[invoiceType]}">388</cbc:InvoiceTypeCode>`,
+      `<cbc:DocumentCurrencyCode>${currency}</cbc:DocumentCurrencyCode>`,
+      `<cbc:TaxCurrencyCode>${currency}</cbc:TaxCurrencyCode>`,
+      invoiceType === "simplified"
+        ? `<cac:AdditionalDocumentReference><cbc:ID>QR</cbc:ID><cac:Attachment><cbc:EmbeddedDocumentBinaryObject mimeCode="text/plain">${zatcaService.buildQrPayload(sale, settings, breakdown)}</cbc:EmbeddedDocumentBinaryObject></cac:Attachment></cac:AdditionalDocumentReference>`
+        : "",
+      `<cac:AccountingSupplierParty>${party(settings?.company_name || "", settings?.company_address, settings?.tax_number)}</cac:AccountingSupplierParty>`,
+      `<cac:AccountingCustomerParty>${
+        options.client ? party(options.client.name, options.client.address, options.client.tax_number) : ""
+      }</cac:AccountingCustomerParty>`,
+      `<cac:Delivery><cbc:ActualDeliveryDate>${issueDate}</cbc:ActualDeliveryDate></cac:Delivery>`,
+      ...paymentMeans,
+      `<cac:TaxTotal>${money("cbc:TaxAmount", breakdown.tax)}</cac:TaxTotal>`,
+      `<cac:TaxTotal>`,
+      money("cbc:TaxAmount", breakdown.tax),
+      ...breakdown.groups.map(
+        (group) =>
+          `<cac:TaxSubtotal>${money("cbc:TaxableAmount", group.taxable)}${money("cbc:TaxAmount", group.tax)}${taxCategory(group.category, group.rate)}</cac:TaxSubtotal>`
+      ),
+      `</cac:TaxTotal>`,
+      `<cac:LegalMonetaryTotal>`,
+      money("cbc:LineExtensionAmount", breakdown.net),
+      money("cbc:TaxExclusiveAmount", breakdown.net),
+      money("cbc:TaxInclusiveAmount", breakdown.gross),
+      money("cbc:AllowanceTotalAmount", 0),
+      money("cbc:PayableAmount", breakdown.gross),
+      `</cac:LegalMonetaryTotal>`,
+      ...lines,
+      `</Invoice>`,
+    ]
+      .filter(Boolean)
+      .join("\n");
+  },
+
+  /**
+   * Save the UBL XML of a sale as a file
+   */
+  downloadUblInvoice: (
+    sale: OfflineSale,
+    settings: AppSettings | null | undefined,
+    options: ZatcaInvoiceOptions = {}
+  ): void => {
+    const xml = zatcaService.buildUblInvoice(sale, settings, options);
+    const blob = new Blob([xml], { type: "application/xml" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `invoice-${getInvoiceId(sale)}.xml`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  },
+};
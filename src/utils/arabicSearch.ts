@@ -0,0 +1,49 @@
+// src/utils/arabicSearch.ts
+// Text normalization and tokenization for local (offline) search.
+// Folds the Arabic spelling variants cashiers type interchangeably so that
+// "اسبرين", "أسبرين" and "أَسْبِرِين" all match the same product.
+
+// Tashkeel (harakat, tanween, shadda, sukun), superscript alef and Quranic marks
+const DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED]/g;
+const TATWEEL = /\u0640/g;
+
+/**
+ * Normalize text for matching: lowercase, strip diacritics/tatweel,
+ * fold alef/hamza/yaa/taa-marbuta variants and Arabic-Indic digits.
+ */
+export const normalizeArabic = (text: string | null | undefined): string => {
+  if (!text) return "";
+  return text
+    .toLowerCase()
+    .replace(DIACRITICS, "")
+    .replace(TATWEEL, "")
+    .replace(/[أإآٱ]/g, "ا")
+    .replace(/ؤ/g, "و")
+    .replace(/[ئى]/g, "ي")
+    .replace(/ة/g, "ه")
+    .replace(/ء/g, "")
+    .replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, (d) => String(d.charCodeAt(0) - 0x06f0))
+    .trim();
+};
+
+/**
+ * Split normalized text into search tokens. Tokens starting with the Arabic
+ * definite article also yield the bare word ("البنادول" -> "بنادول").
+ */
+export const tokenize = (text: string | null | undefined): string[] => {
+  const tokens = normalizeArabic(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+  const result = new Set(tokens);
+  tokens.forEach((t) => {
+    if (t.startsWith("ال") && t.length > 4) result.add(t.slice(2));
+  });
+  return Array.from(result);
+};
+
+/**
+ * Normalize a scanned/typed code (SKU, barcode) for exact comparison.
+ */
+export const normalizeCode = (code: string | null | undefined): string =>
+  normalizeArabic(code).replace(/\s+/g, "");
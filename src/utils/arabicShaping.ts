@@ -0,0 +1,181 @@
+// src/utils/arabicShaping.ts
+// Arabic text preparation for devices without a text layout engine (ESC/POS
+// printers): contextual shaping to presentation forms and logical -> visual order.
+
+// Tashkeel is dropped, receipt printers' code pages don't carry it
+const DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED]/g;
+const TATWEEL = 0x0640;
+const LAM = 0x0644;
+
+type Joining = "dual" | "right" | "none";
+
+// Letter -> [isolated presentation form, joining type].
+// Forms are consecutive: isolated, final, initial, medial.
+const LETTERS: Record<number, [number, Joining]> = {
+  0x0621: [0xfe80, "none"], // hamza
+  0x0622: [0xfe81, "right"], // alef madda
+  0x0623: [0xfe83, "right"], // alef hamza above
+  0x0624: [0xfe85, "right"], // waw hamza
+  0x0625: [0xfe87, "right"], // alef hamza below
+  0x0626: [0xfe89, "dual"], // yeh hamza
+  0x0627: [0xfe8d, "right"], // alef
+  0x0628: [0xfe8f, "dual"], // beh
+  0x0629: [0xfe93, "right"], // teh marbuta
+  0x062a: [0xfe95, "dual"], // teh
+  0x062b: [0xfe99, "dual"], // theh
+  0x062c: [0xfe9d, "dual"], // jeem
+  0x062d: [0xfea1, "dual"], // hah
+  0x062e: [0xfea5, "dual"], // khah
+  0x062f: [0xfea9, "right"], // dal
+  0x0630: [0xfeab, "right"], // thal
+  0x0631: [0xfead, "right"], // reh
+  0x0632: [0xfeaf, "right"], // zain
+  0x0633: [0xfeb1, "dual"], // seen
+  0x0634: [0xfeb5, "dual"], // sheen
+  0x0635: [0xfeb9, "dual"], // sad
+  0x0636: [0xfebd, "dual"], // dad
+  0x0637: [0xfec1, "dual"], // tah
+  0x0638: [0xfec5, "dual"], // zah
+  0x0639: [0xfec9, "dual"], // ain
+  0x063a: [0xfecd, "dual"], // ghain
+  0x0641: [0xfed1, "dual"], // feh
+  0x0642: [0xfed5, "dual"], // qaf
+  0x0643: [0xfed9, "dual"], // kaf
+  0x0644: [0xfedd, "dual"], // lam
+  0x0645: [0xfee1, "dual"], // meem
+  0x0646: [0xfee5, "dual"], // noon
+  0x0647: [0xfee9, "dual"], // heh
+  0x0648: [0xfeed, "right"], // waw
+  0x0649: [0xfeef, "right"], // alef maksura
+  0x064a: [0xfef1, "dual"], // yeh
+};
+
+// Lam + alef variant -> isolated ligature (final = +1)
+const LAM_ALEF: Record<number, number> = {
+  0x0622: 0xfef5,
+  0x0623: 0xfef7,
+  0x0625: 0xfef9,
+  0x0627: 0xfefb,
+};
+
+const joinsNext = (cp: number | undefined) =>
+  cp === TATWEEL || (cp !== undefined && LETTERS[cp]?.[1] === "dual");
+
+const joinsPrevious = (cp: number | undefined) =>
+  cp === TATWEEL ||
+  (cp !== undefined && (LETTERS[cp]?.[1] === "dual" || LETTERS[cp]?.[1] === "right"));
+
+/**
+ * Replace Arabic letters by their contextual presentation forms (isolated,
+ * final, initial, medial) and lam-alef ligatures. Other characters pass through.
+ */
+export const shapeArabic = (text: string): string => {
+  const chars = Array.from(text.replace(DIACRITICS, "")).map((c) => c.codePointAt(0)!);
+  const shaped: number[] = [];
+
+  for (let i = 0; i < chars.length; i++) {
+    const cp = chars[i];
+    const entry = LETTERS[cp];
+    if (!entry) {
+      shaped.push(cp);
+      continue;
+    }
+
+    const joinPrev = joinsNext(chars[i - 1]) && joinsPrevious(cp);
+    if (cp === LAM && LAM_ALEF[chars[i + 1]]) {
+      shaped.push(LAM_ALEF[chars[i + 1]] + (joinPrev ? 1 : 0));
+      i++;
+      continue;
+    }
+
+    const [isolated, joining] = entry;
+    if (joining === "none") {
+      shaped.push(isolated);
+      continue;
+    }
+    const joinNext = joinsNext(cp) && joinsPrevious(chars[i + 1]);
+    const form = joinPrev && joinNext ? 3 : joinNext ? 2 : joinPrev ? 1 : 0;
+    shaped.push(isolated + form);
+  }
+
+  return String.fromCodePoint(...shaped);
+};
+
+/**
+ * Isolated form and form index (0 isolated, 1 final, 2 initial, 3 medial) of a
+ * presentation form, for devices that only have some of the forms.
+ */
+export const getPresentationForm = (
+  cp: number
+): { isolated: number; form: number } | null => {
+  for (const [isolated, joining] of Object.values(LETTERS)) {
+    const count = joining === "dual" ? 4 : joining === "right" ? 2 : 1;
+    if (cp >= isolated && cp < isolated + count) return { isolated, form: cp - isolated };
+  }
+  for (const isolated of Object.values(LAM_ALEF)) {
+    if (cp === isolated || cp === isolated + 1) return { isolated, form: cp - isolated };
+  }
+  return null;
+};
+
+const RTL_CHAR = /[\u0590-\u05FF\u0600-\u065F\u066A-\u06FF\u0750-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+// Latin letters and digits (Arabic-Indic too) keep left-to-right order
+const LTR_CHAR = /[A-Za-z0-9\u0660-\u0669\u00C0-\u024F]/;
+const MIRRORED: Record<string, string> = {
+  "(": ")",
+  ")": "(",
+  "[": "]",
+  "]": "[",
+  "{": "}",
+  "}": "{",
+  "<": ">",
+  ">": "<",
+};
+
+export const hasRtlText = (text: string) => RTL_CHAR.test(text);
+
+/**
+ * Reorder one line from logical to visual (left-to-right) order with a
+ * right-to-left base direction: runs are reversed, Arabic runs are reversed in
+ * place, numbers and Latin text keep their order. Lines without Arabic are
+ * returned unchanged. A simplified bidi algorithm, enough for receipt lines.
+ */
+export const toVisualOrder = (line: string): string => {
+  if (!hasRtlText(line)) return line;
+  const chars = Array.from(line);
+  const strong = chars.map((c) => (RTL_CHAR.test(c) ? "R" : LTR_CHAR.test(c) ? "L" : null));
+
+  // Neutrals between two LTR characters belong to the LTR run ("12.50", "INV-7")
+  const directions = strong.map((dir, i) => {
+    if (dir) return dir;
+    let before: string | null = null;
+    for (let j = i - 1; j >= 0 && !before; j--) before = strong[j];
+    let after: string | null = null;
+    for (let j = i + 1; j < chars.length && !after; j++) after = strong[j];
+    return before === "L" && after === "L" ? "L" : "R";
+  });
+
+  const runs: { dir: string; text: string[] }[] = [];
+  chars.forEach((c, i) => {
+    const last = runs[runs.length - 1];
+    if (last && last.dir === directions[i]) last.text.push(c);
+    else runs.push({ dir: directions[i], text: [c] });
+  });
+
+  return runs
+    .reverse()
+    .map((run) =>
+      run.dir === "R"
+        ? run.text
+            .reverse()
+            .map((c) => MIRRORED[c] ?? c)
+            .join("")
+        : run.text.join("")
+    )
+    .join("");
+};
+
+/**
+ * Shape and reorder a line for a left-to-right only device
+ */
+export const toPrintableLine = (line: string): string => toVisualOrder(shapeArabic(line));
@@ -0,0 +1,139 @@
+// src/utils/barcodeEncoder.ts
+// Minimal 1D barcode encoders (Code 128 subsets B/C and EAN-13) producing the
+// module pattern, drawn as vector bars in label PDFs without extra packages.
+
+export type BarcodeSymbology = "code128" | "ean13";
+
+export interface EncodedBarcode {
+  symbology: BarcodeSymbology;
+  modules: boolean[]; // true = bar, one entry per narrowest module width
+  text: string; // Human readable line printed under the bars
+  quietZone: number; // Blank modules scanners need on each side
+}
+
+// Bar/space widths of Code 128 symbols 0-105, then the stop symbol
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+];
+
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_CODE_B = 100;
+const CODE128_CODE_C = 99;
+const CODE128_STOP = 106;
+
+// EAN-13 digit encodings; the R set is the L set inverted
+const EAN_L = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+const EAN_G = ["0100111", "0110011", "0011011", "0100001", "0011101", "0111001", "0000101", "0010001", "0001001", "0010111"];
+// L/G parity of the left half, selected by the first digit
+const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+const bitsToModules = (bits: string): boolean[] => [...bits].map((bit) => bit === "1");
+
+const widthsToModules = (widths: string): boolean[] =>
+  [...widths].flatMap((width, i) => new Array<boolean>(Number(width)).fill(i % 2 === 0));
+
+const digitRunLength = (value: string, from: number): number => {
+  let end = from;
+  while (end < value.length && value[end] >= "0" && value[end] <= "9") end++;
+  return end - from;
+};
+
+/**
+ * Code 128 using subset B for text and subset C for digit runs (4+ digits at the
+ * edges, 6+ in the middle). Returns null for characters outside printable ASCII.
+ */
+export const encodeCode128 = (value: string): EncodedBarcode | null => {
+  if (!value || ![...value].every((ch) => ch.charCodeAt(0) >= 32 && ch.charCodeAt(0) <= 126)) {
+    return null;
+  }
+
+  const codes: number[] = [];
+  let subset: "B" | "C" | null = null;
+  let i = 0;
+  while (i < value.length) {
+    const run = digitRunLength(value, i);
+    const atEdge = i === 0 || i + run === value.length;
+    if (subset !== "C" && run >= (atEdge ? 4 : 6)) {
+      // An odd run keeps its first digit in subset B
+      if (run % 2 === 1) {
+        if (subset === null) codes.push(CODE128_START_B);
+        subset = "B";
+        codes.push(value.charCodeAt(i) - 32);
+        i++;
+      }
+      codes.push(subset === null ? CODE128_START_C : CODE128_CODE_C);
+      subset = "C";
+    }
+    if (subset === "C" && run >= 2) {
+      codes.push(Number(value.slice(i, i + 2)));
+      i += 2;
+      continue;
+    }
+    if (subset !== "B") codes.push(subset === null ? CODE128_START_B : CODE128_CODE_B);
+    subset = "B";
+    codes.push(value.charCodeAt(i) - 32);
+    i++;
+  }
+
+  const checksum = codes.reduce((sum, code, index) => sum + code * Math.max(index, 1), 0) % 103;
+  // The stop pattern includes the final termination bar
+  const modules = [...codes, checksum, CODE128_STOP].flatMap((code) =>
+    widthsToModules(CODE128_PATTERNS[code])
+  );
+  return { symbology: "code128", modules, text: value, quietZone: 10 };
+};
+
+export const ean13CheckDigit = (first12: string): number => {
+  const sum = [...first12].reduce((acc, digit, i) => acc + Number(digit) * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidEan13 = (value: string): boolean =>
+  /^\d{13}$/.test(value) && ean13CheckDigit(value.slice(0, 12)) === Number(value[12]);
+
+/**
+ * EAN-13 from 12 digits (check digit appended) or 13 digits with a valid check digit.
+ */
+export const encodeEan13 = (value: string): EncodedBarcode | null => {
+  const digits = /^\d{12}$/.test(value) ? value + ean13CheckDigit(value) : value;
+  if (!isValidEan13(digits)) return null;
+
+  const parity = EAN_PARITY[Number(digits[0])];
+  let bits = "101";
+  for (let i = 1; i <= 6; i++) {
+    const digit = Number(digits[i]);
+    bits += parity[i - 1] === "L" ? EAN_L[digit] : EAN_G[digit];
+  }
+  bits += "01010";
+  for (let i = 7; i <= 12; i++) {
+    bits += [...EAN_L[Number(digits[i])]].map((bit) => (bit === "1" ? "0" : "1")).join("");
+  }
+  bits += "101";
+  return { symbology: "ean13", modules: bitsToModules(bits), text: digits, quietZone: 11 };
+};
+
+/**
+ * Encodes with the requested symbology; "auto" uses EAN-13 for valid EAN codes
+ * and Code 128 for everything else. Returns null when the value can't be encoded.
+ */
+export const encodeBarcode = (
+  value: string | null | undefined,
+  symbology: BarcodeSymbology | "auto" = "auto"
+): EncodedBarcode | null => {
+  const code = (value ?? "").trim();
+  if (!code) return null;
+  if (symbology === "ean13") return encodeEan13(code);
+  if (symbology === "auto" && isValidEan13(code)) return encodeEan13(code);
+  return encodeCode128(code);
+};
@@ -0,0 +1,22 @@
+import { pdf } from "@react-pdf/renderer";
+
+import { ClientLedgerPdf } from "@/components/clients/ClientLedgerPdf";
+import { ClientLedger } from "@/services/clientLedgerService";
+import { AppSettings } from "@/services/settingService";
+
+/**
+ * Renders a client's statement (the ledger PDF) to a blob, e.g. to upload it
+ * before sending it over WhatsApp
+ */
+export const renderClientStatement = async (
+  ledger: ClientLedger,
+  settings: AppSettings | null
+): Promise<Blob> => {
+  return pdf(
+    <ClientLedgerPdf
+      ledger={ledger}
+      settings={settings}
+      companyName={settings?.company_name || "اسم الشركة"}
+    />
+  ).toBlob();
+};
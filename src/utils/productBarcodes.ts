@@ -0,0 +1,41 @@
+// src/utils/productBarcodes.ts
+// Resolving scanned codes (SKU or extra barcodes) to a product unit and quantity.
+import type { Product, ProductBarcode } from "../services/productService";
+import { normalizeCode } from "./arabicSearch";
+
+export type BarcodeMatch = Pick<ProductBarcode, "unit_type" | "quantity">;
+
+/**
+ * Normalized SKU and barcodes of a product.
+ */
+export const getProductCodes = (product: Product): string[] =>
+  [product.sku, ...(product.barcodes ?? []).map((b) => b.barcode)]
+    .map(normalizeCode)
+    .filter(Boolean);
+
+/**
+ * What one scan of `code` adds; the SKU (or an unknown code) adds one sellable unit.
+ */
+export const matchBarcode = (product: Product, code: string): BarcodeMatch => {
+  const normalized = normalizeCode(code);
+  const barcode = product.barcodes?.find(
+    (b) => normalizeCode(b.barcode) === normalized
+  );
+  return barcode
+    ? { unit_type: barcode.unit_type, quantity: Number(barcode.quantity) || 1 }
+    : { unit_type: "sellable", quantity: 1 };
+};
+
+/**
+ * Normalized codes appearing more than once among the given SKU/barcodes.
+ */
+export const findDuplicateCodes = (codes: (string | null | undefined)[]): Set<string> => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  codes.map(normalizeCode).forEach((code) => {
+    if (!code) return;
+    if (seen.has(code)) duplicates.add(code);
+    seen.add(code);
+  });
+  return duplicates;
+};
@@ -0,0 +1,29 @@
+// src/utils/productUnits.test.ts
+import { describe, expect, it } from "vitest";
+import { getLineFactor, hasLineUnit, UnknownUnitError } from "./productUnits";
+import type { Product } from "../services/productService";
+
+const product = {
+  sellable_unit_id: 1,
+  stocking_unit_id: 3,
+  units_per_stocking_unit: 20,
+  units: [
+    { unit_id: 1, unit_name: "حبة", factor: 1, is_sale_unit: true, is_default_purchase: false },
+    { unit_id: 2, unit_name: "شريط", factor: 10, is_sale_unit: true, is_default_purchase: false },
+    { unit_id: 3, unit_name: "علبة", factor: 20, is_sale_unit: true, is_default_purchase: true },
+  ],
+} as Product;
+
+describe("getLineFactor", () => {
+  it("converts chain units to sellable units", () => {
+    expect(getLineFactor(product, { unitType: "sellable", unitId: 2 })).toBe(10);
+    expect(getLineFactor(product, { unitType: "stocking" })).toBe(20);
+    expect(getLineFactor(product, {})).toBe(1);
+  });
+
+  it("rejects a unit that was removed from the chain", () => {
+    const line = { unitType: "sellable", unitId: 4 };
+    expect(hasLineUnit(product, line)).toBe(false);
+    expect(() => getLineFactor(product, line)).toThrow(UnknownUnitError);
+  });
+});
@@ -0,0 +1,172 @@
+// src/utils/productUnits.ts
+// Per-product units of measure (piece, strip, box, carton...) and conversions to sellable units.
+import type { Product, ProductUnit } from "../services/productService";
+
+export type UnitType = "stocking" | "sellable";
+
+// A sale line's unit: a chain unit when `unitId` is set, else the stocking/sellable unit
+export interface UnitLine {
+  unitType?: string;
+  unitId?: number | null;
+}
+
+// A unit the POS can sell the product in
+export interface SaleUnitOption {
+  key: string;
+  unitType: UnitType;
+  unitId: number | null;
+  name: string;
+  factor: number; // Sellable units in one
+}
+
+type UnitProduct = Pick<
+  Product,
+  | "units"
+  | "sellable_unit_id"
+  | "sellable_unit_name"
+  | "stocking_unit_id"
+  | "stocking_unit_name"
+  | "units_per_stocking_unit"
+>;
+
+/**
+ * The product's unit chain, smallest first. Products without one get the
+ * sellable and stocking units.
+ */
+export const getUnitChain = (product: UnitProduct): ProductUnit[] => {
+  if (product.units?.length) {
+    return [...product.units].sort((a, b) => Number(a.factor) - Number(b.factor));
+  }
+  const chain: ProductUnit[] = [
+    {
+      unit_id: product.sellable_unit_id ?? 0,
+      unit_name: product.sellable_unit_name || "قطعة",
+      factor: 1,
+      is_sale_unit: true,
+      is_default_purchase: false,
+    },
+  ];
+  const perStocking = Number(product.units_per_stocking_unit) || 1;
+  if (perStocking > 1) {
+    chain.push({
+      unit_id: product.stocking_unit_id ?? 0,
+      unit_name: product.stocking_unit_name || "صندوق",
+      factor: perStocking,
+      is_sale_unit: true,
+      is_default_purchase: true,
+    });
+  } else {
+    chain[0].is_default_purchase = true;
+  }
+  return chain;
+};
+
+// Thrown for a line whose chain unit was removed from the product since it was entered
+export class UnknownUnitError extends Error {
+  unitId: number;
+
+  constructor(unitId: number) {
+    super(`وحدة البيع (${unitId}) لم تعد ضمن وحدات الصنف، احذف الصنف وأعد إضافته`);
+    this.name = "UnknownUnitError";
+    this.unitId = unitId;
+  }
+}
+
+/**
+ * Sellable units in one of the line's unit. Throws UnknownUnitError when
+ * `unitId` is no longer in the product's chain.
+ */
+export const getUnitFactor = (
+  product: UnitProduct | null | undefined,
+  unitType?: string,
+  unitId?: number | null
+): number => {
+  if (!product) return 1;
+  if (unitId != null) {
+    const unit = getUnitChain(product).find((u) => u.unit_id === unitId);
+    if (!unit) throw new UnknownUnitError(unitId);
+    return Number(unit.factor) || 1;
+  }
+  return unitType === "stocking" ? Number(product.units_per_stocking_unit) || 1 : 1;
+};
+
+export const getLineFactor = (product: UnitProduct | null | undefined, line: UnitLine): number =>
+  getUnitFactor(product, line.unitType, line.unitId);
+
+// False when the line's chain unit is no longer in the product's chain
+export const hasLineUnit = (product: UnitProduct | null | undefined, line: UnitLine): boolean =>
+  !product || line.unitId == null || getUnitChain(product).some((u) => u.unit_id === line.unitId);
+
+export const getLineUnitKey = (line: UnitLine): string =>
+  line.unitId != null ? `unit-${line.unitId}` : line.unitType || "sellable";
+
+/**
+ * Units the product can be sold in. The sellable and stocking units keep their
+ * unit type, other chain units are referenced by id.
+ */
+export const getSaleUnitOptions = (product: UnitProduct): SaleUnitOption[] => {
+  const perStocking = Number(product.units_per_stocking_unit) || 1;
+  const isLegacy = !product.units?.length;
+  return getUnitChain(product)
+    .filter((u) => u.is_sale_unit)
+    .map((u) => {
+      const factor = Number(u.factor) || 1;
+      const unitType: UnitType | null = isLegacy
+        ? factor === 1
+          ? "sellable"
+          : "stocking"
+        : factor === 1 && u.unit_id === product.sellable_unit_id
+        ? "sellable"
+        : factor === perStocking && u.unit_id === product.stocking_unit_id
+        ? "stocking"
+        : null;
+      return {
+        key: unitType ?? `unit-${u.unit_id}`,
+        unitType: unitType ?? "sellable",
+        unitId: unitType ? null : u.unit_id,
+        name: u.unit_name || "",
+        factor,
+      };
+    });
+};
+
+export const getDefaultPurchaseUnit = (product: UnitProduct): ProductUnit => {
+  const chain = getUnitChain(product);
+  return chain.find((u) => u.is_default_purchase) ?? chain[chain.length - 1];
+};
+
+/**
+ * Stock in sellable units broken down over the chain, largest unit first,
+ * e.g. "2 كرتونة + 3 علبة + 4 شريط".
+ */
+export const formatUnitBreakdown = (
+  product: UnitProduct,
+  sellableQuantity: number,
+  format: (n: number) => string = String
+): string => {
+  const chain = getUnitChain(product);
+  if (chain.length <= 1) return "";
+  let remaining = Math.max(0, Number(sellableQuantity) || 0);
+  const parts: string[] = [];
+  [...chain].reverse().forEach((unit, index, units) => {
+    const factor = Number(unit.factor) || 1;
+    const isSmallest = index === units.length - 1;
+    const count = isSmallest ? remaining / factor : Math.floor(remaining / factor);
+    if (count > 0) parts.push(`${format(count)} ${unit.unit_name}`);
+    remaining -= isSmallest ? remaining : count * factor;
+  });
+  return parts.join(" + ");
+};
+
+/**
+ * Returns an error message, or null when the chain can be saved.
+ */
+export const validateUnitChain = (chain: ProductUnit[]): string | null => {
+  if (chain.some((u) => !u.unit_id)) return "اختر الوحدة في كل سطر";
+  const ids = chain.map((u) => u.unit_id);
+  if (new Set(ids).size !== ids.length) return "وحدة مكررة في سلسلة الوحدات";
+  const invalid = chain.find((u) => !(Number(u.factor) > 0));
+  if (invalid) return `معامل التحويل غير صحيح للوحدة: ${invalid.unit_name || invalid.unit_id}`;
+  if (!chain.some((u) => u.is_sale_unit)) return "حدد وحدة بيع واحدة على الأقل";
+  return null;
+};
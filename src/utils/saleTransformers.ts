@@ -5,6 +5,7 @@
 import { Sale as BackendSale, SaleItem, Payment } from '../services/saleService';
 import { Product } from '../services/productService';
 import { CartItem, Sale as POSSale } from '../components/pos/types';
+import { promotionService } from '../services/promotionService';
 
 /**
  * Transform a backend SaleItem to CartItem format
@@ -26,7 +27,12 @@ export const transformSaleItemToCartItem = (item: SaleItem): CartItem => {
     } as Product,
     quantity: item.quantity,
     unitPrice: Number(item.unit_price),
-    total: Number(item.total_price || item.quantity * Number(item.unit_price)),
+    total: Number(item.total_price || promotionService.getLineNet(item)),
+    discountAmount: Number(item.discount_amount) || 0,
+    discountSource: item.discount_source ?? null,
+    promotionId: item.promotion_id ?? null,
+    promotionName: item.promotion_name ?? null,
+    listPrice: item.list_price != null ? Number(item.list_price) : null,
     selectedBatchId: item.purchase_item_id || null,
     selectedBatchNumber: item.batch_number_sold || null,
     selectedBatchExpiryDate: item.purchaseItemBatch?.expiry_date || null
@@ -50,6 +56,7 @@ export const transformBackendSaleToPOS = (dbSale: BackendSale): POSSale => {
     total_amount: Number(dbSale.total_amount),
     paid_amount: Number(dbSale.paid_amount),
     due_amount: dbSale.due_amount ? Number(dbSale.due_amount) : undefined,
+    price_list_id: dbSale.price_list_id ?? null,
     notes: dbSale.notes ?? null,
     created_at: dbSale.created_at,
     updated_at: dbSale.updated_at,